@@ -36,14 +36,20 @@ configCommand
       // Processing settings
       console.log(chalk.bold('\n⚙️  Processing:'));
       console.log(`   Chunking Strategy: ${chalk.cyan(config.processing.chunking.strategy)}`);
-      console.log(`   Max Chunk Size: ${chalk.cyan(config.processing.chunking.maxChunkSize)}`);
+      console.log(`   Max Chunk Size: ${chalk.cyan(config.processing.chunking.sizeUnit === 'chars'
+        ? `${config.processing.chunking.maxChunkSize} chars`
+        : `${config.processing.chunking.maxChunkTokens} tokens`)}`);
       console.log(`   Concurrency: ${chalk.cyan(config.processing.concurrency)}`);
+      console.log(`   Budget: ${config.processing.budget ? chalk.cyan(`$${config.processing.budget}`) : chalk.gray('unlimited')}`);
       console.log(`   Caching: ${config.processing.caching.enabled ? chalk.green('enabled') : chalk.red('disabled')}`);
       
       // Output settings
       console.log(chalk.bold('\n📤 Output:'));
       console.log(`   Format: ${chalk.cyan(config.output.format)}`);
       console.log(`   Source Maps: ${config.output.generateSourceMaps ? chalk.green('enabled') : chalk.red('disabled')}`);
+      console.log(`   Split Bundles: ${config.output.splitModules ? chalk.green('enabled') : chalk.red('disabled')}`);
+      console.log(`   Module Names: ${chalk.cyan(config.output.moduleNames)}`);
+      console.log(`   Sources From Source Maps: ${config.output.fromSourceMap ? chalk.green('enabled') : chalk.red('disabled')}`);
       console.log(`   Add Comments: ${config.output.addComments ? chalk.green('enabled') : chalk.red('disabled')}`);
       
       // Environment variables (if requested)
@@ -208,12 +214,15 @@ configCommand
         title: '⚙️  Processing Settings',
         keys: [
           'processing.chunking.strategy',
+          'processing.chunking.sizeUnit',
+          'processing.chunking.maxChunkTokens',
           'processing.chunking.maxChunkSize',
           'processing.chunking.overlapPercentage',
           'processing.caching.enabled',
           'processing.caching.ttl',
           'processing.caching.backend',
           'processing.concurrency',
+          'processing.budget',
         ],
       },
       {
@@ -221,6 +230,9 @@ configCommand
         keys: [
           'output.format',
           'output.generateSourceMaps',
+          'output.splitModules',
+          'output.moduleNames',
+          'output.fromSourceMap',
           'output.addComments',
           'output.prettierOptions.printWidth',
           'output.prettierOptions.tabWidth',
@@ -0,0 +1,129 @@
+/**
+ * Pre-flight estimate of what processing an input would take
+ */
+
+import { relative } from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+
+import { validateCliOptions, CliOptions } from '../../config/schema.js';
+import type { RateLimits, RunEstimate, ReScriptConfig } from '../../types.js';
+import { MainProcessor } from '../../core/processor.js';
+import { collectInputFiles, loadConfiguration } from './process.js';
+
+interface EstimateOptions {
+  config?: string;
+  provider?: string;
+  model?: string;
+  baseUrl?: string;
+  maxTokens?: number;
+  concurrency?: number;
+  recursive?: boolean;
+  pattern?: string;
+  exclude?: string[];
+  verbose?: boolean;
+  quiet?: boolean;
+}
+
+export async function estimateCommand(input: string, options: EstimateOptions): Promise<void> {
+  const spinner = ora();
+
+  try {
+    const cliOptions: CliOptions = validateCliOptions({
+      input,
+      ...options,
+    });
+
+    spinner.start('Loading configuration...');
+    const config = await loadConfiguration(options.config, options);
+    spinner.succeed('Configuration loaded');
+
+    spinner.start('Scanning input files...');
+    const files = await collectInputFiles(input, cliOptions);
+    spinner.succeed(`Found ${files.length} file(s) to estimate`);
+
+    if (files.length === 0) {
+      console.log(chalk.yellow('⚠️  No files found to estimate'));
+      return;
+    }
+
+    spinner.start('Running local steps and planning requests...');
+    const estimate = await new MainProcessor(config).estimateFiles(files);
+    spinner.succeed('Estimate ready; no requests were sent');
+
+    displayEstimate(estimate, config);
+
+  } catch (error) {
+    spinner.fail('Estimate failed');
+    throw error;
+  }
+}
+
+function displayEstimate(estimate: RunEstimate, config: ReScriptConfig): void {
+  const { totals } = estimate;
+
+  console.log(chalk.bold(`\n📁 Files (${estimate.provider}, ${estimate.model}):`));
+  for (const file of estimate.files) {
+    const path = relative(process.cwd(), file.inputPath);
+    if (!file.success) {
+      console.log(`   ${chalk.red('✗')} ${path}: ${chalk.red(file.error?.message ?? 'failed')}`);
+      continue;
+    }
+
+    console.log(
+      `   ${chalk.gray('•')} ${path}: ${formatChunks(file.chunks, file.requests)}, ` +
+      `${(file.promptTokens + file.completionTokens).toLocaleString()} tokens, ` +
+      `$${file.cost.toFixed(4)}, ${formatDuration(file.minutes)}`
+    );
+  }
+
+  console.log(chalk.bold('\n📊 Estimated Totals:'));
+  const cached = totals.chunks - totals.requests;
+  console.log(`   Chunks: ${chalk.cyan(totals.chunks)}${cached > 0 ? ` (${cached} cached)` : ''}`);
+  console.log(`   Requests: ${chalk.cyan(totals.requests)}`);
+  console.log(`   Prompt tokens: ${chalk.cyan(totals.promptTokens.toLocaleString())}`);
+  console.log(`   Response tokens: ${chalk.cyan(totals.completionTokens.toLocaleString())} (projected)`);
+  console.log(`   Cost: ${chalk.cyan(`$${totals.cost.toFixed(4)}`)}`);
+  console.log(`   Time: ${chalk.cyan(formatDuration(totals.minutes))} at ${formatRateLimits(estimate.rateLimits)}, concurrency ${config.processing.concurrency}`);
+
+  if (config.processing.budget !== undefined && totals.cost > config.processing.budget) {
+    console.log(chalk.yellow(`   ⚠️  Exceeds the $${config.processing.budget.toFixed(2)} budget; chunks past it would not be sent`));
+  }
+
+  const comparison = Object.entries(estimate.comparison);
+  if (comparison.length > 0) {
+    console.log(chalk.bold('\n💰 Same tokens with other providers:'));
+    for (const [name, { model, cost }] of comparison) {
+      console.log(`   ${name} (${model}): $${cost.toFixed(4)}`);
+    }
+  }
+
+  const failed = estimate.files.filter(file => !file.success).length;
+  if (failed > 0) {
+    console.log(chalk.yellow(`\n⚠️  ${failed} file(s) could not be estimated and are not counted`));
+  }
+}
+
+function formatChunks(chunks: number, requests: number): string {
+  const cached = chunks - requests;
+  return `${chunks} chunk(s)${cached > 0 ? ` (${cached} cached)` : ''}`;
+}
+
+function formatDuration(minutes: number): string {
+  if (minutes < 1) {
+    return `~${Math.ceil(minutes * 60)}s`;
+  }
+  if (minutes < 60) {
+    return `~${minutes.toFixed(1)} min`;
+  }
+  return `~${Math.floor(minutes / 60)}h ${Math.round(minutes % 60)}m`;
+}
+
+function formatRateLimits(limits: RateLimits): string {
+  const parts = [
+    limits.requestsPerMinute && `${limits.requestsPerMinute} requests/min`,
+    limits.tokensPerMinute && `${limits.tokensPerMinute.toLocaleString()} tokens/min`,
+    limits.outputTokensPerSecond && `${limits.outputTokensPerSecond} output tokens/s`,
+  ].filter(Boolean);
+  return parts.length > 0 ? parts.join(', ') : 'no rate limits';
+}
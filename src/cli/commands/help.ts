@@ -38,6 +38,14 @@ export function helpCommand(): void {
         're-script *.min.js --output clean/'
       ]
     },
+    {
+      command: 'estimate <input>',
+      description: 'Estimate chunks, tokens, time and cost without calling the LLM',
+      examples: [
+        're-script estimate src/ --recursive',
+        're-script estimate app.min.js --provider openai --model gpt-4o'
+      ]
+    },
     {
       command: 'init',
       description: 'Interactive setup wizard',
@@ -54,6 +62,14 @@ export function helpCommand(): void {
         're-script config validate'
       ]
     },
+    {
+      command: 'jobs <action>',
+      description: 'List, resume, cancel or delete persisted jobs',
+      examples: [
+        're-script jobs list --status failed',
+        're-script jobs resume job_abc123'
+      ]
+    },
     {
       command: 'examples',
       description: 'Show usage examples',
@@ -95,7 +111,7 @@ export function helpCommand(): void {
     },
     {
       option: '-p, --provider <name>',
-      description: 'LLM provider (openai, anthropic, ollama)'
+      description: 'LLM provider (openai, anthropic, ollama, azure, bedrock, openai-compatible, replay, heuristic)'
     },
     {
       option: '-m, --model <name>',
@@ -105,6 +121,18 @@ export function helpCommand(): void {
       option: '--api-key <key>',
       description: 'API key for the LLM provider'
     },
+    {
+      option: '--base-url <url>',
+      description: 'LLM server URL (ollama, azure, openai-compatible)'
+    },
+    {
+      option: '--fixture <path>',
+      description: 'Fixture file for the replay provider or --record'
+    },
+    {
+      option: '--record',
+      description: 'Record LLM responses into the --fixture file'
+    },
     {
       option: '-r, --recursive',
       description: 'Process directories recursively'
@@ -121,6 +149,14 @@ export function helpCommand(): void {
       option: '--dry-run',
       description: 'Preview changes without writing files'
     },
+    {
+      option: '--report <path>',
+      description: 'Save the dry-run renames and diff to a file'
+    },
+    {
+      option: '--no-job',
+      description: 'Do not save the run as a resumable job'
+    },
     {
       option: '--concurrency <number>',
       description: 'Number of concurrent requests'
@@ -219,6 +255,21 @@ export function helpCommand(): void {
       name: 'Ollama (Local)',
       models: ['llama3:8b', 'llama3:70b', 'codellama:13b', 'codellama:34b', 'mistral:7b'],
       setup: 'Install from https://ollama.ai/ and run "ollama serve"'
+    },
+    {
+      name: 'AWS Bedrock',
+      models: ['anthropic.claude-3-5-sonnet-20241022-v2:0', 'anthropic.claude-3-5-haiku-20241022-v1:0', 'amazon.nova-pro-v1:0'],
+      setup: 'Use standard AWS credentials (env, ~/.aws, or an IAM role) and set provider.region or AWS_REGION'
+    },
+    {
+      name: 'OpenAI-compatible (Local)',
+      models: ['any model served at /v1/models'],
+      setup: 'Run llama.cpp, vLLM or LM Studio and pass --base-url http://host:port/v1'
+    },
+    {
+      name: 'Heuristic / Replay (Offline)',
+      models: ['no model needed'],
+      setup: 'Use --provider heuristic to try re-Script without an API key, or --provider replay --fixture <path> to replay a recording'
     }
   ];
 
@@ -261,7 +312,7 @@ export function helpCommand(): void {
     {
       issue: 'Large Files',
       solutions: [
-        're-script config set processing.chunking.maxChunkSize 2000',
+        're-script config set processing.chunking.maxChunkTokens 800',
         'Split large files before processing'
       ]
     },
@@ -39,6 +39,13 @@ const PROVIDERS: ProviderOption[] = [
     fallbackModels: ['llama2', 'codellama', 'mistral', 'neural-chat'],
     requiresApiKey: false,
     description: 'Run models locally, no API key needed, completely private'
+  },
+  {
+    name: 'heuristic',
+    displayName: 'Heuristic (No Model)',
+    fallbackModels: ['heuristic'],
+    requiresApiKey: false,
+    description: 'Rule-based names without any model, good for a first try'
   }
 ];
 
@@ -154,7 +161,7 @@ export async function initCommand(): Promise<void> {
       console.log(`      ${chalk.gray(provider.description)}`);
     });
 
-    const providerChoice = await askQuestion(rl, '\nSelect provider (1-3): ');
+    const providerChoice = await askQuestion(rl, `\nSelect provider (1-${PROVIDERS.length}): `);
     const providerIndex = parseInt(providerChoice) - 1;
     
     if (providerIndex < 0 || providerIndex >= PROVIDERS.length) {
@@ -246,7 +253,9 @@ export async function initCommand(): Promise<void> {
       processing: {
         chunking: {
           strategy: 'ast-aware',
+          sizeUnit: 'tokens',
           maxChunkSize: 4000,
+          maxChunkTokens: 1500,
           overlapPercentage: 0.1,
           respectFunctionBoundaries: true
         },
@@ -277,6 +286,9 @@ export async function initCommand(): Promise<void> {
           trailingComma: 'es5'
         },
         generateSourceMaps: true,
+        splitModules: false,
+        moduleNames: 'ids',
+        fromSourceMap: false,
         addComments: true,
         commentStyle: 'block'
       },
@@ -293,7 +305,8 @@ export async function initCommand(): Promise<void> {
             allowedPaths: ['./plugins', './temp'],
             timeoutMs: 30000,
             memoryLimitMB: 100,
-            networkAccess: false
+            networkAccess: false,
+            sandbox: true
           },
           execution: {
             hooks: {},
@@ -0,0 +1,224 @@
+/**
+ * Job management commands for resumable runs
+ */
+
+import { Command } from 'commander';
+import chalk from 'chalk';
+import ora from 'ora';
+import { relative } from 'path';
+import { JobStore } from '../../core/jobs.js';
+import { MainProcessor } from '../../core/processor.js';
+import { configLoader } from '../../config/loader.js';
+import { displayResultSummary } from './process.js';
+import { ReScriptError } from '../../utils/errors.js';
+import type { JobStatus, ProcessingJob } from '../../types.js';
+
+const JOB_STATUSES: JobStatus[] = ['pending', 'running', 'paused', 'completed', 'failed', 'cancelled'];
+
+export const jobsCommand = new Command('jobs')
+  .description('Manage persisted processing jobs');
+
+/**
+ * Status as shown to users; a running job whose process is gone was interrupted
+ */
+function displayStatus(job: ProcessingJob, store: JobStore): string {
+  if (job.status === 'running' && !store.isActive(job)) {
+    return chalk.yellow('interrupted');
+  }
+
+  const colours: Record<JobStatus, (text: string) => string> = {
+    pending: chalk.gray,
+    running: chalk.blue,
+    paused: chalk.yellow,
+    completed: chalk.green,
+    failed: chalk.red,
+    cancelled: chalk.gray,
+  };
+
+  return colours[job.status](job.status);
+}
+
+function fileCounts(job: ProcessingJob): { done: number; failed: number; total: number } {
+  const files = job.files ?? [];
+  return {
+    done: files.filter(file => file.status === 'completed').length,
+    failed: files.filter(file => file.status === 'failed').length,
+    total: files.length,
+  };
+}
+
+function fail(action: string, error: unknown): never {
+  console.error(chalk.red(`❌ Failed to ${action}: ${error instanceof Error ? error.message : String(error)}`));
+  if (error instanceof ReScriptError) {
+    error.suggestions.forEach(suggestion => console.error(chalk.gray(`   ${suggestion}`)));
+  }
+  process.exit(1);
+}
+
+// List jobs
+jobsCommand
+  .command('list')
+  .description('List jobs, newest first')
+  .option('-s, --status <status>', `only jobs with this status (${JOB_STATUSES.join(', ')})`)
+  .action(async (options) => {
+    try {
+      if (options.status && !JOB_STATUSES.includes(options.status)) {
+        throw new Error(`Unknown status '${options.status}'. Use one of: ${JOB_STATUSES.join(', ')}`);
+      }
+
+      const store = new JobStore();
+      const jobs = await store.list(options.status);
+
+      if (jobs.length === 0) {
+        console.log(chalk.gray('No jobs found'));
+        return;
+      }
+
+      console.log(chalk.bold('📋 Jobs:\n'));
+      for (const job of jobs) {
+        const { done, failed, total } = fileCounts(job);
+        const failures = failed > 0 ? chalk.red(`, ${failed} failed`) : '';
+        console.log(`   ${chalk.cyan(job.id)}  ${displayStatus(job, store)}  ${done}/${total} files${failures}  ${chalk.gray(`updated ${job.updatedAt.toLocaleString()}`)}`);
+      }
+    } catch (error) {
+      fail('list jobs', error);
+    }
+  });
+
+// Show one job
+jobsCommand
+  .command('status <id>')
+  .description('Show progress and failures of a job')
+  .action(async (id: string) => {
+    try {
+      const store = new JobStore();
+      const job = await store.get(id);
+      const { done, failed, total } = fileCounts(job);
+
+      console.log(chalk.bold(`📋 Job ${job.id}\n`));
+      console.log(`   Status: ${displayStatus(job, store)}`);
+      console.log(`   Files: ${chalk.green(done)} completed, ${failed > 0 ? chalk.red(failed) : chalk.gray(failed)} failed, ${total - done - failed} pending`);
+      console.log(`   Chunk checkpoints: ${chalk.cyan(await store.countCheckpoints(job.id))}`);
+      console.log(`   Provider: ${chalk.cyan(`${job.config.provider.name}/${job.config.provider.model}`)}`);
+      console.log(`   Created: ${job.createdAt.toLocaleString()}`);
+      console.log(`   Updated: ${job.updatedAt.toLocaleString()}`);
+      if (job.completedAt) {
+        console.log(`   Completed: ${job.completedAt.toLocaleString()}`);
+      }
+
+      const failures = (job.files ?? []).filter(file => file.status === 'failed');
+      if (failures.length > 0) {
+        console.log(chalk.bold('\n❌ Failed files:'));
+        failures.forEach(file => {
+          console.log(`   ${chalk.red('•')} ${relative(process.cwd(), file.inputPath)}: ${file.result?.error?.message ?? 'unknown error'}`);
+        });
+      }
+
+      if (job.status !== 'completed' && !store.isActive(job)) {
+        const flag = job.status === 'cancelled' ? ' --cancelled' : '';
+        console.log(chalk.gray(`\n   Resume with: re-script jobs resume ${job.id}${flag}`));
+      }
+    } catch (error) {
+      fail('show job', error);
+    }
+  });
+
+// Resume a job
+jobsCommand
+  .command('resume <id>')
+  .description('Continue a job, skipping finished files and chunks')
+  .option('-c, --config <path>', 'configuration file to take the API key from')
+  .option('-f, --force', 'overwrite existing output files')
+  .option('--cancelled', 'resume the job even though it was cancelled')
+  .action(async (id: string, options) => {
+    const spinner = ora();
+
+    try {
+      const store = new JobStore();
+      const job = await store.get(id);
+
+      if (job.status === 'completed') {
+        console.log(chalk.green(`✅ Job ${job.id} already completed`));
+        return;
+      }
+
+      // Stored jobs never contain API keys
+      const current = await configLoader.loadConfig(options.config);
+      const config = {
+        ...job.config,
+        provider: {
+          ...job.config.provider,
+          apiKey: current.provider.name === job.config.provider.name ? current.provider.apiKey : undefined,
+        },
+      };
+
+      const { done, total } = fileCounts(job);
+      console.log(chalk.blue(`🔄 Resuming job ${job.id}: ${total - done} of ${total} file(s) left\n`));
+
+      const processor = new MainProcessor(config, {
+        overwriteExisting: options.force || job.input.options.overwrite || false,
+        generateBackups: true,
+      });
+      processor.setProgressCallback((event) => {
+        if (event.type === 'progress' && event.progress) {
+          spinner.text = `${event.progress.currentStep} (${event.progress.percentage}%)`;
+        }
+      });
+
+      spinner.start('Processing files...');
+      const summary = await processor.runJob(job, store, { resumeCancelled: options.cancelled })
+        .finally(() => processor.dispose());
+      spinner.succeed(`Processing completed: ${summary.successfulFiles}/${summary.totalFiles} files successful`);
+
+      displayResultSummary(summary);
+    } catch (error) {
+      spinner.stop();
+      fail('resume job', error);
+    }
+  });
+
+// Cancel a job
+jobsCommand
+  .command('cancel <id>')
+  .description('Stop a job; a running job finishes the files in progress first')
+  .action(async (id: string) => {
+    try {
+      const store = new JobStore();
+      const job = await store.get(id);
+
+      if (job.status === 'completed' || job.status === 'cancelled') {
+        console.log(chalk.yellow(`⚠️  Job ${job.id} is already ${job.status}`));
+        return;
+      }
+
+      const active = store.isActive(job);
+      job.status = 'cancelled';
+      await store.save(job);
+
+      console.log(active
+        ? chalk.green(`✓ Job ${job.id} cancelled; it stops after the files in progress`)
+        : chalk.green(`✓ Job ${job.id} cancelled`));
+    } catch (error) {
+      fail('cancel job', error);
+    }
+  });
+
+// Delete a job
+jobsCommand
+  .command('delete <id>')
+  .description('Delete a job and its checkpoints')
+  .action(async (id: string) => {
+    try {
+      const store = new JobStore();
+      const job = await store.get(id);
+
+      if (store.isActive(job)) {
+        throw new Error(`Job ${job.id} is still running; cancel it first`);
+      }
+
+      await store.delete(job.id);
+      console.log(chalk.green(`✓ Job ${job.id} deleted`));
+    } catch (error) {
+      fail('delete job', error);
+    }
+  });
@@ -2,16 +2,20 @@
  * Main process command implementation
  */
 
-import { stat, access } from 'fs/promises';
-import { extname, resolve } from 'path';
+import { stat, access, mkdir, writeFile } from 'fs/promises';
+import { dirname, extname, resolve, relative, sep } from 'path';
 import { glob } from 'glob';
 import chalk from 'chalk';
 import ora from 'ora';
 
 import { configLoader } from '../../config/loader.js';
 import { FileNotFoundError, ReScriptError, ErrorCode } from '../../utils/errors.js';
-import { validateCliOptions, CliOptions } from '../../config/schema.js';
-import type { ReScriptConfig } from '../../types.js';
+import { validateCliOptions, mergeConfig, CliOptions } from '../../config/schema.js';
+import type { ReScriptConfig, ProcessedFile, ProcessingSummary, ProcessingJob } from '../../types.js';
+import { MainProcessor } from '../../core/processor.js';
+import { JobStore } from '../../core/jobs.js';
+import { InputWatcher } from '../../core/watcher.js';
+import { createDryRunReport, formatFilePreview } from '../../utils/preview.js';
 
 interface ProcessOptions {
   output?: string;
@@ -19,21 +23,31 @@ interface ProcessOptions {
   provider?: string;
   model?: string;
   apiKey?: string;
+  baseUrl?: string;
+  fixture?: string;
+  record?: boolean;
   temperature?: number;
   maxTokens?: number;
   concurrency?: number;
+  maxCost?: number;
+  splitModules?: boolean;
+  moduleNames?: 'ids' | 'inferred' | 'llm';
+  fromSourcemap?: boolean;
   recursive?: boolean;
   pattern?: string;
   exclude?: string[];
   dryRun?: boolean;
+  report?: string;
   watch?: boolean;
   force?: boolean;
+  job?: boolean;
   verbose?: boolean;
   quiet?: boolean;
 }
 
 export async function processCommand(input: string, options: ProcessOptions): Promise<void> {
   const spinner = ora();
+  let processor: MainProcessor | undefined;
   
   try {
     // Validate CLI options
@@ -66,80 +80,160 @@ export async function processCommand(input: string, options: ProcessOptions): Pr
       displayProcessingSummary(files, config, cliOptions);
     }
 
-    // Confirm processing in dry-run mode
     if (cliOptions.dryRun) {
       console.log(chalk.cyan('🔍 Dry run mode - no files will be modified'));
-      return;
-    }
-
-    // Handle watch mode
-    if (cliOptions.watch) {
-      console.log(chalk.yellow('⚠️  Watch mode not implemented yet'));
-      return;
+    } else if (cliOptions.report) {
+      console.log(chalk.yellow('⚠️  --report only applies to dry runs and will be ignored'));
     }
 
     // Process files using the main processor
     spinner.start('Processing files...');
     
-    const { MainProcessor } = await import('../../core/processor.js');
-    const processor = new MainProcessor(config, {
+    processor = new MainProcessor(config, {
       outputDir: options.output || undefined,
       overwriteExisting: options.force || false,
       generateBackups: true,
+      dryRun: cliOptions.dryRun,
     });
 
     // Set up progress callback
-    const jobId = `job-${Date.now()}`;
     processor.setProgressCallback((event) => {
       if (event.type === 'progress' && event.progress) {
-        spinner.text = `${event.progress.currentStep} (${event.progress.percentage}%)`;
+        const received = event.progress.suggestionsReceived;
+        spinner.text = `${event.progress.currentStep} (${event.progress.percentage}%)` +
+          (received !== undefined ? `, ${received} suggestions received` : '');
       }
     });
 
-    let summary;
-    if (files.length === 1) {
-      // Single file processing
-      const result = await processor.processFile(files[0]!, options.output, jobId);
-      summary = {
-        totalFiles: 1,
-        successfulFiles: result.success ? 1 : 0,
-        failedFiles: result.success ? 0 : 1,
-        totalProcessingTime: result.processingTime,
-        tokensUsed: result.statistics?.tokensCount || 0,
-      };
+    // A single file is written to --output itself, several go into it
+    const outputPathFor = (file: string) => files.length === 1
+      ? (options.output ?? processor.generateOutputPath(file))
+      : processor.generateOutputPath(file, options.output);
+
+    let summary: ProcessingSummary;
+    let job: ProcessingJob | undefined;
+    if (cliOptions.dryRun || options.job === false) {
+      const jobId = `job-${Date.now()}`;
+      summary = files.length === 1
+        ? summarizeResults([await processor.processFile(files[0]!, outputPathFor(files[0]!), jobId)])
+        : await processor.processFiles(files, options.output, jobId);
     } else {
-      // Multiple files processing
-      summary = await processor.processFiles(files, options.output, jobId);
+      // Persist the run so it can be resumed after a crash, unless --no-job
+      const store = new JobStore();
+      job = await store.create(
+        files.map(file => ({ inputPath: file, outputPath: resolve(outputPathFor(file)) })),
+        config,
+        {
+          outputDir: options.output,
+          recursive: cliOptions.recursive,
+          pattern: cliOptions.pattern,
+          exclude: cliOptions.exclude,
+          overwrite: options.force || false,
+        }
+      );
+      summary = await processor.runJob(job, store);
     }
 
     spinner.succeed(`Processing completed: ${summary.successfulFiles}/${summary.totalFiles} files successful`);
 
     // Display detailed summary
     if (!options.quiet) {
-      console.log(chalk.bold('\n📊 Processing Summary:'));
-      console.log(`   Successful: ${chalk.green(summary.successfulFiles)}`);
-      console.log(`   Failed: ${summary.failedFiles > 0 ? chalk.red(summary.failedFiles) : chalk.gray(summary.failedFiles)}`);
-      console.log(`   Total time: ${chalk.cyan(Math.round(summary.totalProcessingTime / 1000))}s`);
-      console.log(`   Tokens used: ${chalk.cyan(summary.tokensUsed.toLocaleString())}`);
-      
-      if (summary.cost) {
-        console.log(`   Estimated cost: ${chalk.cyan(`$${summary.cost.toFixed(4)}`)}`);
-      }
+      displayResultSummary(summary);
+    }
 
-      if (summary.successfulFiles === summary.totalFiles) {
-        console.log(chalk.green('\n✅ All files processed successfully!'));
-      } else if (summary.failedFiles > 0) {
-        console.log(chalk.yellow(`\n⚠️  ${summary.failedFiles} file(s) failed processing`));
-      }
+    if (job && job.status !== 'completed') {
+      const flag = job.status === 'cancelled' ? ' --cancelled' : '';
+      console.log(chalk.gray(`\n   Job ${job.id} is ${job.status}; retry with: re-script jobs resume ${job.id}${flag}`));
+    }
+
+    if (cliOptions.dryRun) {
+      await showDryRunResults(summary.files ?? [], cliOptions.report);
+    }
+
+    // Keep the processor (and its plugins and cache) alive between changes
+    if (cliOptions.watch) {
+      await watchFiles(input, cliOptions, options, config, processor, summary.files ?? []);
     }
 
   } catch (error) {
     spinner.fail('Processing failed');
     throw error;
+  } finally {
+    await processor?.dispose();
   }
 }
 
-async function loadConfiguration(
+/**
+ * Summary for results processed one by one
+ */
+function summarizeResults(results: ProcessedFile[]): ProcessingSummary {
+  return {
+    totalFiles: results.length,
+    successfulFiles: results.filter(r => r.success).length,
+    failedFiles: results.filter(r => !r.success).length,
+    totalProcessingTime: results.reduce((sum, r) => sum + r.processingTime, 0),
+    tokensUsed: results.reduce((sum, r) => sum + (r.statistics?.tokensCount || 0), 0),
+    cost: MainProcessor.sumCost(results),
+    cache: MainProcessor.sumCacheStatistics(results),
+    files: results,
+  };
+}
+
+/**
+ * Print the totals of a processing run
+ */
+export function displayResultSummary(summary: ProcessingSummary): void {
+  console.log(chalk.bold('\n📊 Processing Summary:'));
+  console.log(`   Successful: ${chalk.green(summary.successfulFiles)}`);
+  console.log(`   Failed: ${summary.failedFiles > 0 ? chalk.red(summary.failedFiles) : chalk.gray(summary.failedFiles)}`);
+  console.log(`   Total time: ${chalk.cyan(Math.round(summary.totalProcessingTime / 1000))}s`);
+  console.log(`   Tokens used: ${chalk.cyan(summary.tokensUsed.toLocaleString())}`);
+
+  if (summary.cache) {
+    const { hits, misses, tokensSaved } = summary.cache;
+    console.log(`   Cache: ${chalk.cyan(hits)} hit(s), ${chalk.cyan(misses)} miss(es), ${chalk.cyan(tokensSaved.toLocaleString())} tokens saved`);
+  }
+
+  const recovered = (summary.files ?? []).flatMap(file => file.recovered ? [{ inputPath: file.inputPath, ...file.recovered }] : []);
+  if (recovered.length > 0) {
+    console.log('   Recovered from source maps:');
+    for (const { inputPath, files, missing, coverage, complete } of recovered) {
+      const without = missing.length > 0 ? `, ${missing.length} without content` : '';
+      console.log(chalk.gray(`     ${relative(process.cwd(), inputPath)}: ${files} source(s), ${(coverage * 100).toFixed(1)}% of the code verbatim${without}`));
+      if (!complete) {
+        console.log(chalk.yellow('       partial: the input was processed as well'));
+      }
+    }
+  }
+
+  if (summary.cost) {
+    console.log(`   Estimated cost: ${chalk.cyan(`$${summary.cost.toFixed(4)}`)}`);
+    for (const file of summary.files ?? []) {
+      if (file.statistics?.cost) {
+        console.log(chalk.gray(`     ${relative(process.cwd(), file.inputPath)}: $${file.statistics.cost.toFixed(4)}`));
+      }
+    }
+  }
+
+  if (summary.budget) {
+    const { maxCost, spent, exhausted } = summary.budget;
+    const status = `$${spent.toFixed(4)} of $${maxCost.toFixed(2)}`;
+    console.log(exhausted
+      ? `   Budget: ${chalk.yellow(`${status}, reached; remaining chunks were not sent`)}`
+      : `   Budget: ${chalk.cyan(status)}`);
+  }
+
+  if (summary.successfulFiles === summary.totalFiles) {
+    console.log(chalk.green('\n✅ All files processed successfully!'));
+  } else if (summary.failedFiles > 0) {
+    console.log(chalk.yellow(`\n⚠️  ${summary.failedFiles} file(s) failed processing`));
+  }
+}
+
+/**
+ * Configuration file merged with the CLI overrides
+ */
+export async function loadConfiguration(
   configPath: string | undefined,
   cliOptions: ProcessOptions
 ): Promise<ReScriptConfig> {
@@ -148,7 +242,7 @@ async function loadConfiguration(
     
     // Override with CLI options
     const cliOverride = configLoader.validateCliOverride(cliOptions as Record<string, unknown>);
-    return { ...config, ...cliOverride } as ReScriptConfig;
+    return mergeConfig(config, cliOverride) as ReScriptConfig;
     
   } catch (error) {
     if (error instanceof ReScriptError) {
@@ -162,7 +256,10 @@ async function loadConfiguration(
   }
 }
 
-async function collectInputFiles(input: string, options: CliOptions): Promise<string[]> {
+/**
+ * JavaScript files named by an input path, honouring --recursive, --pattern and --exclude
+ */
+export async function collectInputFiles(input: string, options: CliOptions): Promise<string[]> {
   const inputPath = resolve(input);
   
   try {
@@ -288,16 +385,159 @@ function displayProcessingSummary(
   console.log();
 }
 
-// Watch mode implementation (placeholder for Phase 3)
-async function _watchFiles(_files: string[], _config: ReScriptConfig): Promise<void> {
-  console.log(chalk.blue('👀 Watching files for changes...'));
+/**
+ * Print dry-run previews, or save them as a report when a path is given
+ */
+async function showDryRunResults(results: ProcessedFile[], reportPath?: string): Promise<void> {
+  // Split bundles are previewed module by module
+  const files = results.flatMap(file => file.modules ?? [file]);
+
+  if (reportPath) {
+    const target = resolve(reportPath);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, createDryRunReport(files), 'utf8');
+    console.log(chalk.cyan(`\n📝 Dry run report written: ${relative(process.cwd(), target)}`));
+    return;
+  }
+
+  files.forEach(printPreview);
+}
+
+/**
+ * Print one file's renames and diff with the diff lines coloured
+ */
+function printPreview(file: ProcessedFile): void {
+  // The rename table and warnings precede the diff and are left uncoloured
+  let inDiff = false;
+  const colour = (line: string): string => {
+    if (line.startsWith('===')) return chalk.bold(line);
+    if (!inDiff && !line.startsWith('--- ')) return line;
+    inDiff = true;
+    if (line.startsWith('+++ ') || line.startsWith('--- ')) return chalk.gray(line);
+    if (line.startsWith('@@')) return chalk.cyan(line);
+    if (line.startsWith('+')) return chalk.green(line);
+    if (line.startsWith('-')) return chalk.red(line);
+    return line;
+  };
+
+  console.log(`\n${formatFilePreview(file).trimEnd().split('\n').map(colour).join('\n')}`);
+}
+
+/**
+ * Reprocess inputs as they change until interrupted
+ *
+ * Only changed files that still match `--pattern`/`--exclude` are processed,
+ * one at a time through the same processor. Outputs written during the
+ * session are ignored by the watcher and may be overwritten; editing the
+ * config file reloads it and reprocesses every input.
+ */
+async function watchFiles(
+  input: string,
+  cliOptions: CliOptions,
+  options: ProcessOptions,
+  config: ReScriptConfig,
+  processor: MainProcessor,
+  initialResults: ProcessedFile[]
+): Promise<void> {
+  const inputPath = resolve(input);
+  const inputIsFile = (await stat(inputPath)).isFile();
+  const configFile = configLoader.findConfigFile(options.config);
+
+  // Outputs this session wrote; the watcher must not treat them, or anything
+  // under a claimed module directory, as inputs
+  const written = new Set<string>();
+  const claim = (outputPath: string) => {
+    written.add(resolve(outputPath));
+    written.add(resolve(`${outputPath}.map`));
+    if (config.output.splitModules) {
+      written.add(resolve(MainProcessor.moduleDirectory(outputPath)));
+    }
+  };
+  const outputPathFor = (file: string) => inputIsFile
+    ? (options.output ? resolve(options.output) : processor.generateOutputPath(file))
+    : processor.generateOutputPath(file, options.output);
+  const isWritten = (path: string) =>
+    written.has(path) || [...written].some(claimed => path.startsWith(`${claimed}${sep}`));
+
+  // Claim where each input was meant to go: bundle results report their module directory
+  initialResults.filter(result => result.success).forEach(result => claim(outputPathFor(result.inputPath)));
+
+  const reprocess = async (changed: string[]) => {
+    const started = Date.now();
+    let configChanged = false;
+
+    if (configFile && changed.includes(resolve(configFile))) {
+      try {
+        configLoader.clearCache();
+        config = await loadConfiguration(options.config, options);
+        await processor.updateConfig(config);
+        configChanged = true;
+        console.log(chalk.blue(`\n⚙️  Configuration reloaded from ${relative(process.cwd(), configFile)}`));
+      } catch (error) {
+        console.log(chalk.red(`\n❌ Configuration not reloaded: ${error instanceof Error ? error.message : String(error)}`));
+      }
+    }
+
+    let candidates: string[];
+    try {
+      candidates = await collectInputFiles(input, cliOptions);
+    } catch (error) {
+      console.log(chalk.red(`❌ ${error instanceof Error ? error.message : String(error)}`));
+      return;
+    }
+
+    const changedSet = new Set(changed);
+    const targets = configChanged ? candidates : candidates.filter(file => changedSet.has(file));
+    if (targets.length === 0) return;
+
+    console.log(chalk.bold(`\n🔄 ${new Date().toLocaleTimeString()} - ${targets.length} file(s) changed`));
+
+    let succeeded = 0;
+    let tokensUsed = 0;
+
+    for (const file of targets) {
+      const outputPath = outputPathFor(file);
+      const ownsOutput = written.has(resolve(outputPath));
+      claim(outputPath);
+      processor.updateOptions({ overwriteExisting: options.force || ownsOutput });
+
+      const result = await processor.processFile(file, outputPath);
+      const name = relative(process.cwd(), file);
+      const seconds = (result.processingTime / 1000).toFixed(1);
+
+      if (options.dryRun) {
+        printPreview(result);
+      }
+
+      if (result.success) {
+        succeeded++;
+        tokensUsed += result.statistics.tokensCount || 0;
+        console.log(`   ${chalk.green('✓')} ${name} → ${relative(process.cwd(), result.outputPath)} ${chalk.gray(`(${seconds}s, ${(result.statistics.tokensCount || 0).toLocaleString()} tokens${result.cache?.hits ? `, ${result.cache.hits} cached` : ''})`)}`);
+      } else {
+        console.log(`   ${chalk.red('✗')} ${name}: ${result.error?.message ?? 'processing failed'}`);
+      }
+    }
+
+    const failed = targets.length - succeeded;
+    console.log(chalk.gray(`   ${succeeded} processed, ${failed} failed, ${tokensUsed.toLocaleString()} tokens in ${((Date.now() - started) / 1000).toFixed(1)}s`));
+  };
+
+  const watcher = new InputWatcher(
+    configFile ? [inputPath, configFile] : [inputPath],
+    reprocess,
+    { ignore: isWritten }
+  );
+  await watcher.start();
+
+  console.log(chalk.blue('\n👀 Watching for changes...'));
   console.log(chalk.gray('   Press Ctrl+C to stop'));
-  
-  // TODO: Implement file watching with chokidar in Phase 3
-  // This is a placeholder for the watch functionality
-  
-  process.on('SIGINT', () => {
-    console.log(chalk.yellow('\n📴 Stopping file watcher...'));
-    process.exit(0);
+
+  await new Promise<void>(resolveStop => {
+    process.once('SIGINT', () => {
+      console.log(chalk.yellow('\n📴 Stopping file watcher...'));
+      resolveStop();
+    });
   });
-}
\ No newline at end of file
+
+  await watcher.close();
+}
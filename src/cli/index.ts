@@ -11,7 +11,9 @@ import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 
 import { processCommand } from './commands/process.js';
+import { estimateCommand } from './commands/estimate.js';
 import { configCommand } from './commands/config.js';
+import { jobsCommand } from './commands/jobs.js';
 import { initCommand } from './commands/init.js';
 import { helpCommand } from './commands/help.js';
 import { ReScriptError, formatErrorMessage } from '../utils/errors.js';
@@ -105,18 +107,27 @@ async function main(): Promise<void> {
     .argument('<input>', 'input file or directory path')
     .option('-o, --output <path>', 'output file or directory path')
     .option('-c, --config <path>', 'path to configuration file')
-    .option('-p, --provider <name>', 'LLM provider (openai, anthropic, ollama)')
+    .option('-p, --provider <name>', 'LLM provider (openai, anthropic, ollama, azure, bedrock, openai-compatible, replay, heuristic)')
     .option('-m, --model <name>', 'model name to use')
     .option('--api-key <key>', 'API key for the LLM provider')
+    .option('--base-url <url>', 'LLM server URL (ollama, azure, openai-compatible)')
+    .option('--fixture <path>', 'fixture file for the replay provider or --record')
+    .option('--record', 'record LLM responses into the --fixture file')
     .option('-t, --temperature <number>', 'temperature for LLM requests', parseFloat)
     .option('--max-tokens <number>', 'maximum tokens for LLM requests', parseInt)
     .option('--concurrency <number>', 'number of concurrent requests', parseInt)
+    .option('--max-cost <usd>', 'stop sending LLM requests once the run would cost more than this', parseFloat)
     .option('-r, --recursive', 'process directories recursively')
     .option('--pattern <glob>', 'file pattern to match (e.g., "*.min.js")')
     .option('--exclude <patterns...>', 'patterns to exclude')
+    .option('--split-modules', 'write each module of a bundle (webpack, browserify, Rollup, esbuild, Parcel, Metro, AMD, SystemJS) as its own file')
+    .option('--module-names <mode>', 'name split modules by id, by their exports and strings (inferred), or also by asking the LLM (llm)')
+    .option('--from-sourcemap', 'write the original sources an input\'s source map carries instead of processing it')
     .option('--dry-run', 'preview changes without writing files')
+    .option('--report <path>', 'save the dry-run renames and diff to a file')
     .option('-w, --watch', 'watch for file changes and reprocess')
     .option('-f, --force', 'overwrite existing output files')
+    .option('--no-job', 'do not save the run as a resumable job')
     .action(async (input, options) => {
       try {
         await processCommand(input, options);
@@ -125,6 +136,28 @@ async function main(): Promise<void> {
       }
     });
 
+  // Pre-flight estimate
+  program
+    .command('estimate')
+    .description('Estimate chunks, tokens, time and cost without calling the LLM')
+    .argument('<input>', 'input file or directory path')
+    .option('-c, --config <path>', 'path to configuration file')
+    .option('-p, --provider <name>', 'LLM provider to estimate for')
+    .option('-m, --model <name>', 'model name to use')
+    .option('--base-url <url>', 'LLM server URL (ollama, azure, openai-compatible)')
+    .option('--max-tokens <number>', 'maximum tokens for LLM requests', parseInt)
+    .option('--concurrency <number>', 'number of files processed at once', parseInt)
+    .option('-r, --recursive', 'process directories recursively')
+    .option('--pattern <glob>', 'file pattern to match (e.g., "*.min.js")')
+    .option('--exclude <patterns...>', 'patterns to exclude')
+    .action(async (input, options) => {
+      try {
+        await estimateCommand(input, options);
+      } catch (error) {
+        handleError(error);
+      }
+    });
+
   // Interactive initialization
   program
     .command('init')
@@ -140,6 +173,9 @@ async function main(): Promise<void> {
   // Configuration management
   program.addCommand(configCommand);
 
+  // Job management
+  program.addCommand(jobsCommand);
+
   // Help command
   program
     .command('help')
@@ -182,6 +218,10 @@ async function main(): Promise<void> {
       console.log('  re-script app.min.js --provider ollama --model llama3:8b');
       console.log('  OLLAMA_BASE_URL=http://localhost:11434 re-script app.min.js\n');
       
+      console.log(chalk.cyan('Estimate before running:'));
+      console.log('  re-script estimate src/ --recursive');
+      console.log('  re-script estimate app.min.js --provider openai --model gpt-4o\n');
+      
       console.log(chalk.cyan('Job management:'));
       console.log('  re-script jobs list --status running');
       console.log('  re-script jobs status job_abc123');
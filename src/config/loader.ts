@@ -14,6 +14,7 @@ import {
   envVarMapping 
 } from './schema.js';
 import { InvalidConfigError } from '../utils/errors.js';
+import type { ModuleNaming, ProviderConfig } from '../types.js';
 
 const CONFIG_MODULE_NAME = 'rescript';
 
@@ -64,6 +65,27 @@ export class ConfigLoader {
     return config;
   }
 
+  /**
+   * Path of the config file `loadConfig` reads, if there is one
+   */
+  findConfigFile(configPath?: string): string | undefined {
+    try {
+      const result = configPath
+        ? this.explorer.load(configPath)
+        : this.explorer.search();
+      return result?.filepath;
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Forget cached config files so the next load re-reads them from disk
+   */
+  clearCache(): void {
+    this.explorer.clearCaches();
+  }
+
   /**
    * Load configuration from environment variables
    */
@@ -144,15 +166,15 @@ export class ConfigLoader {
     const override: PartialConfig = {};
 
     // Provider options
-    if (options.provider || options.model || options.apiKey || 
-        options.temperature || options.maxTokens) {
+    if (options.provider || options.model || options.apiKey || options.baseUrl ||
+        options.fixture || options.record || options.temperature || options.maxTokens) {
       override.provider = {};
       
       if (typeof options.provider === 'string') {
-        if (!['openai', 'anthropic', 'ollama', 'azure', 'bedrock'].includes(options.provider)) {
+        if (!['openai', 'anthropic', 'ollama', 'azure', 'bedrock', 'openai-compatible', 'replay', 'heuristic'].includes(options.provider)) {
           throw new InvalidConfigError(`Invalid provider: ${options.provider}`);
         }
-        override.provider.name = options.provider as 'openai' | 'anthropic' | 'ollama' | 'azure' | 'bedrock';
+        override.provider.name = options.provider as ProviderConfig['name'];
       }
 
       if (typeof options.model === 'string') {
@@ -163,6 +185,18 @@ export class ConfigLoader {
         override.provider.apiKey = options.apiKey;
       }
 
+      if (typeof options.baseUrl === 'string') {
+        override.provider.baseUrl = options.baseUrl;
+      }
+
+      if (typeof options.fixture === 'string') {
+        override.provider.fixture = options.fixture;
+      }
+
+      if (options.record === true) {
+        override.provider.record = true;
+      }
+
       if (typeof options.temperature === 'number') {
         if (options.temperature < 0 || options.temperature > 2) {
           throw new InvalidConfigError('Temperature must be between 0 and 2');
@@ -187,6 +221,30 @@ export class ConfigLoader {
       }
     }
 
+    if (options.maxCost !== undefined) {
+      const budget = Number(options.maxCost);
+      if (!(budget > 0)) {
+        throw new InvalidConfigError('Max cost must be a positive amount in USD');
+      }
+      override.processing = { ...override.processing, budget };
+    }
+
+    // Output options
+    if (options.splitModules === true) {
+      override.output = { splitModules: true };
+    }
+
+    if (typeof options.moduleNames === 'string') {
+      if (!['ids', 'inferred', 'llm'].includes(options.moduleNames)) {
+        throw new InvalidConfigError(`Invalid module naming: ${options.moduleNames} (use ids, inferred or llm)`);
+      }
+      override.output = { ...override.output, moduleNames: options.moduleNames as ModuleNaming };
+    }
+
+    if (options.fromSourcemap === true) {
+      override.output = { ...override.output, fromSourceMap: true };
+    }
+
     // Advanced options
     if (options.verbose || options.quiet) {
       override.advanced = {};
@@ -254,6 +312,10 @@ export class ConfigLoader {
         result.warnings.push('Ollama provider requires baseUrl to be set');
       }
 
+      if (result.config.provider.name === 'openai-compatible' && !result.config.provider.baseUrl) {
+        result.warnings.push('openai-compatible provider requires baseUrl to be set');
+      }
+
       if (result.config.provider.maxTokens > 32000) {
         result.warnings.push('Very high maxTokens setting may cause performance issues');
       }
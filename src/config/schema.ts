@@ -6,10 +6,23 @@ import { z } from 'zod';
 
 // Base schemas
 const providerConfigSchema = z.object({
-  name: z.enum(['openai', 'anthropic', 'ollama', 'azure', 'bedrock']),
+  name: z.enum(['openai', 'anthropic', 'ollama', 'azure', 'bedrock', 'openai-compatible', 'replay', 'heuristic']),
   model: z.string().min(1),
   apiKey: z.string().optional(),
   baseUrl: z.string().url().optional(),
+  region: z.string().optional(),
+  outputMode: z.enum(['auto', 'tools', 'json_schema', 'json_object', 'text']).optional(),
+  fixture: z.string().optional(),
+  record: z.boolean().optional(),
+  pricing: z.record(z.string(), z.object({
+    input: z.number().min(0),
+    output: z.number().min(0),
+  })).optional(),
+  rateLimits: z.object({
+    requestsPerMinute: z.number().positive().optional(),
+    tokensPerMinute: z.number().positive().optional(),
+    outputTokensPerSecond: z.number().positive().optional(),
+  }).optional(),
   temperature: z.number().min(0).max(2).default(0.3),
   maxTokens: z.number().min(1).max(100000).default(8192),
   timeout: z.number().min(1000).default(30000),
@@ -17,7 +30,9 @@ const providerConfigSchema = z.object({
 
 const chunkingConfigSchema = z.object({
   strategy: z.enum(['simple', 'ast-aware', 'semantic']).default('ast-aware'),
+  sizeUnit: z.enum(['tokens', 'chars']).default('tokens'),
   maxChunkSize: z.number().min(100).max(50000).default(4000),
+  maxChunkTokens: z.number().min(100).max(100000).default(1500),
   overlapPercentage: z.number().min(0).max(0.5).default(0.1),
   respectFunctionBoundaries: z.boolean().default(true),
 });
@@ -40,6 +55,7 @@ const processingConfigSchema = z.object({
   caching: cachingConfigSchema.default({}),
   retries: retryConfigSchema.default({}),
   concurrency: z.number().min(1).max(20).default(5),
+  budget: z.number().positive().optional(),
   preserveComments: z.boolean().default(false),
   preserveSourceMaps: z.boolean().default(true),
 });
@@ -58,6 +74,9 @@ const outputConfigSchema = z.object({
   format: z.enum(['prettier', 'custom']).default('prettier'),
   prettierOptions: prettierOptionsSchema.default({}),
   generateSourceMaps: z.boolean().default(true),
+  splitModules: z.boolean().default(false),
+  moduleNames: z.enum(['ids', 'inferred', 'llm']).default('ids'),
+  fromSourceMap: z.boolean().default(false),
   addComments: z.boolean().default(false),
   commentStyle: z.enum(['block', 'line']).default('block'),
 });
@@ -74,6 +93,7 @@ const pluginSystemConfigSchema = z.object({
     timeoutMs: z.number().min(1000).max(300000).default(30000),
     memoryLimitMB: z.number().min(10).max(1000).default(100),
     networkAccess: z.boolean().default(false),
+    sandbox: z.boolean().default(true),
   }).default({}),
   execution: z.object({
     hooks: z.object({
@@ -128,10 +148,18 @@ export const cliOptionsSchema = z.object({
   provider: z.string().optional(),
   model: z.string().optional(),
   apiKey: z.string().optional(),
+  baseUrl: z.string().url().optional(),
+  fixture: z.string().optional(),
+  record: z.boolean().optional(),
   temperature: z.number().min(0).max(2).optional(),
   maxTokens: z.number().min(1).max(100000).optional(),
   concurrency: z.number().min(1).max(20).optional(),
+  maxCost: z.number().positive().optional(),
+  splitModules: z.boolean().optional(),
+  moduleNames: z.enum(['ids', 'inferred', 'llm']).optional(),
+  fromSourcemap: z.boolean().optional(),
   dryRun: z.boolean().default(false),
+  report: z.string().optional(),
   watch: z.boolean().default(false),
   recursive: z.boolean().default(false),
   pattern: z.string().optional(),
@@ -149,6 +177,7 @@ export const jobInputSchema = z.object({
     recursive: z.boolean().default(false),
     pattern: z.string().optional(),
     exclude: z.array(z.string()).default([]),
+    overwrite: z.boolean().default(false),
   }).default({}),
 });
 
@@ -170,7 +199,9 @@ export const defaultConfig: ReScriptConfig = {
   processing: {
     chunking: {
       strategy: 'ast-aware',
+      sizeUnit: 'tokens',
       maxChunkSize: 4000,
+      maxChunkTokens: 1500,
       overlapPercentage: 0.1,
       respectFunctionBoundaries: true,
     },
@@ -201,6 +232,9 @@ export const defaultConfig: ReScriptConfig = {
       trailingComma: 'es5',
     },
     generateSourceMaps: true,
+    splitModules: false,
+    moduleNames: 'ids',
+    fromSourceMap: false,
     addComments: false,
     commentStyle: 'block',
   },
@@ -218,6 +252,7 @@ export const defaultConfig: ReScriptConfig = {
         timeoutMs: 30000,
         memoryLimitMB: 100,
         networkAccess: false,
+        sandbox: true,
       },
       execution: {
         hooks: {},
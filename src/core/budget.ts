@@ -0,0 +1,92 @@
+/**
+ * Spending accounting and caps for a processing run
+ */
+
+import { BudgetStatus } from '../types.js';
+
+/** Response tokens expected per prompt token before any response came in */
+const DEFAULT_COMPLETION_RATIO = 0.25;
+
+/**
+ * Projected cost held for a request in flight
+ */
+export interface CostReservation {
+  readonly estimate: number;
+}
+
+/**
+ * Tracks what a run spends on LLM requests and enforces its cap
+ *
+ * Requests reserve their projected cost before they are sent, so chunks
+ * running concurrently cannot overshoot the cap together. Once a request
+ * does not fit, nothing more is dispatched for the rest of the run; the
+ * inputs finish with the suggestions received up to then.
+ */
+export class CostTracker {
+  private spent = 0;
+  private reserved = 0;
+  private exhausted = false;
+  private promptTokens = 0;
+  private completionTokens = 0;
+
+  /**
+   * @param maxCost Cap in USD; without one spending is only recorded
+   */
+  constructor(public readonly maxCost?: number) {}
+
+  /**
+   * Whether requests have to fit under a cap
+   */
+  get limited(): boolean {
+    return this.maxCost !== undefined;
+  }
+
+  /**
+   * USD spent so far
+   */
+  get total(): number {
+    return this.spent;
+  }
+
+  /**
+   * Response tokens to expect for a prompt, from the ratio seen so far
+   */
+  projectCompletionTokens(promptTokens: number): number {
+    const ratio = this.promptTokens > 0 ? this.completionTokens / this.promptTokens : DEFAULT_COMPLETION_RATIO;
+    return Math.ceil(promptTokens * ratio);
+  }
+
+  /**
+   * Hold the projected cost of a request; undefined when it would exceed the cap
+   */
+  reserve(estimate: number): CostReservation | undefined {
+    if (this.maxCost !== undefined && (this.exhausted || this.spent + this.reserved + estimate > this.maxCost)) {
+      this.exhausted = true;
+      return undefined;
+    }
+
+    this.reserved += estimate;
+    return { estimate };
+  }
+
+  /**
+   * Replace a reservation with what the request actually cost
+   */
+  settle(reservation: CostReservation, cost: number, usage: { promptTokens?: number; completionTokens?: number } = {}): void {
+    this.reserved = Math.max(0, this.reserved - reservation.estimate);
+    this.spent += cost;
+
+    if (usage.promptTokens) {
+      this.promptTokens += usage.promptTokens;
+      this.completionTokens += usage.completionTokens ?? 0;
+    }
+  }
+
+  /**
+   * Spending against the cap, when there is one
+   */
+  getStatus(): BudgetStatus | undefined {
+    if (this.maxCost === undefined) return undefined;
+    return { maxCost: this.maxCost, spent: this.spent, exhausted: this.exhausted };
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Time and work projections for runs that have not been sent yet
+ */
+
+import { RateLimits, WorkEstimate } from '../types.js';
+
+/** Seconds a request spends on the connection and reading its prompt */
+const REQUEST_OVERHEAD_SECONDS = 1;
+
+/**
+ * Token usage of one request that would be sent
+ */
+export interface ProjectedRequest {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Minutes the requests take at the given limits
+ *
+ * The slowest of three bounds wins: the request quota, the token quota, and
+ * generation time spread over the requests in flight at once. Without a
+ * generation speed (e.g. the heuristic provider) requests are instant.
+ */
+export function estimateMinutes(requests: ProjectedRequest[], limits: RateLimits, parallelism: number): number {
+  if (requests.length === 0) {
+    return 0;
+  }
+
+  const bounds: number[] = [];
+
+  if (limits.requestsPerMinute) {
+    bounds.push(requests.length / limits.requestsPerMinute);
+  }
+
+  if (limits.tokensPerMinute) {
+    const tokens = requests.reduce((sum, request) => sum + request.promptTokens + request.completionTokens, 0);
+    bounds.push(tokens / limits.tokensPerMinute);
+  }
+
+  if (limits.outputTokensPerSecond) {
+    const seconds = requests.reduce(
+      (sum, request) => sum + REQUEST_OVERHEAD_SECONDS + request.completionTokens / limits.outputTokensPerSecond!,
+      0
+    );
+    bounds.push(seconds / Math.max(1, Math.min(parallelism, requests.length)) / 60);
+  }
+
+  return bounds.length > 0 ? Math.max(...bounds) : 0;
+}
+
+/**
+ * Add up estimates, except their time, which does not add up across
+ * requests running side by side
+ */
+export function sumEstimates(estimates: WorkEstimate[], minutes: number): WorkEstimate {
+  return estimates.reduce<WorkEstimate>((total, estimate) => ({
+    chunks: total.chunks + estimate.chunks,
+    requests: total.requests + estimate.requests,
+    promptTokens: total.promptTokens + estimate.promptTokens,
+    completionTokens: total.completionTokens + estimate.completionTokens,
+    cost: total.cost + estimate.cost,
+    minutes,
+  }), { chunks: 0, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, minutes });
+}
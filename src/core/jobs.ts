@@ -0,0 +1,213 @@
+/**
+ * Persistent job store for resumable multi-file runs
+ */
+
+import { randomBytes } from 'crypto';
+import { mkdir, readFile, readdir, rename, rm, writeFile } from 'fs/promises';
+import { join } from 'path';
+import {
+  ChunkCheckpointStore,
+  JobFile,
+  JobInput,
+  JobStatus,
+  LLMResponse,
+  ProcessingJob,
+  ReScriptConfig,
+} from '../types.js';
+import { JobNotFoundError } from '../utils/errors.js';
+
+const DEFAULT_JOBS_DIR = join('.rescript', 'jobs');
+
+/**
+ * Stores each job as `<dir>/<id>.json`, with its chunk checkpoints in
+ * `<dir>/<id>/chunks/`
+ *
+ * Job files are replaced atomically so a crash mid-write never leaves a
+ * job unreadable. API keys are never written; resumed jobs take the key
+ * from the current configuration.
+ */
+export class JobStore {
+  private readonly directory: string;
+
+  constructor(directory: string = join(process.cwd(), DEFAULT_JOBS_DIR)) {
+    this.directory = directory;
+  }
+
+  /**
+   * Create and persist a pending job
+   */
+  async create(
+    files: Pick<JobFile, 'inputPath' | 'outputPath'>[],
+    config: ReScriptConfig,
+    options: JobInput['options'] = {}
+  ): Promise<ProcessingJob> {
+    const now = new Date();
+    const job: ProcessingJob = {
+      id: `job_${now.getTime().toString(36)}${randomBytes(3).toString('hex')}`,
+      status: 'pending',
+      input: { files: files.map(file => file.inputPath), options },
+      config,
+      progress: {
+        currentStep: 'pending',
+        stepsCompleted: 0,
+        totalSteps: files.length,
+        percentage: 0,
+      },
+      createdAt: now,
+      updatedAt: now,
+      files: files.map(file => ({ inputPath: file.inputPath, outputPath: file.outputPath, status: 'pending' })),
+    };
+
+    await this.save(job);
+    return job;
+  }
+
+  /**
+   * Load a job by id
+   */
+  async get(id: string): Promise<ProcessingJob> {
+    let content: string;
+
+    try {
+      content = await readFile(this.jobPath(id), 'utf8');
+    } catch {
+      throw new JobNotFoundError(id);
+    }
+
+    return this.revive(JSON.parse(content));
+  }
+
+  /**
+   * All jobs, newest first, optionally only those with a given status
+   */
+  async list(status?: JobStatus): Promise<ProcessingJob[]> {
+    let entries: string[];
+
+    try {
+      entries = await readdir(this.directory);
+    } catch {
+      return [];
+    }
+
+    const jobs: ProcessingJob[] = [];
+    for (const entry of entries.filter(name => name.endsWith('.json'))) {
+      try {
+        jobs.push(this.revive(JSON.parse(await readFile(join(this.directory, entry), 'utf8'))));
+      } catch {
+        // Skip files that are not jobs
+      }
+    }
+
+    return jobs
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Persist a job, stamping `updatedAt`
+   */
+  async save(job: ProcessingJob): Promise<void> {
+    job.updatedAt = new Date();
+
+    const stored: ProcessingJob = {
+      ...job,
+      config: { ...job.config, provider: { ...job.config.provider, apiKey: undefined } },
+    };
+
+    await mkdir(this.directory, { recursive: true });
+    const path = this.jobPath(job.id);
+    const temporary = `${path}.${process.pid}.tmp`;
+    await writeFile(temporary, JSON.stringify(stored, null, 2), 'utf8');
+    await rename(temporary, path);
+  }
+
+  /**
+   * Remove a job and its checkpoints
+   */
+  async delete(id: string): Promise<void> {
+    await this.get(id);
+    await rm(this.jobPath(id), { force: true });
+    await this.clearCheckpoints(id);
+  }
+
+  /**
+   * Remove a job's chunk checkpoints, keeping the job itself
+   */
+  async clearCheckpoints(id: string): Promise<void> {
+    this.jobPath(id); // Rejects ids that could escape the directory
+    await rm(join(this.directory, id), { recursive: true, force: true });
+  }
+
+  /**
+   * Whether a job is running in a live process
+   *
+   * A job left `running` by a process that crashed or was killed counts as
+   * interrupted and can be resumed.
+   */
+  isActive(job: ProcessingJob): boolean {
+    if (job.status !== 'running' || !job.pid) {
+      return false;
+    }
+
+    try {
+      process.kill(job.pid, 0);
+      return true;
+    } catch (error) {
+      // EPERM means the process exists but belongs to someone else
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  /**
+   * Chunk checkpoints for a job
+   */
+  checkpoints(id: string): ChunkCheckpointStore {
+    const directory = join(this.directory, id, 'chunks');
+
+    return {
+      load: async (key: string): Promise<LLMResponse | null> => {
+        try {
+          return JSON.parse(await readFile(join(directory, `${key}.json`), 'utf8')) as LLMResponse;
+        } catch {
+          return null;
+        }
+      },
+      save: async (key: string, response: LLMResponse): Promise<void> => {
+        await mkdir(directory, { recursive: true });
+        await writeFile(join(directory, `${key}.json`), JSON.stringify(response), 'utf8');
+      },
+    };
+  }
+
+  /**
+   * Number of chunk responses checkpointed for a job
+   */
+  async countCheckpoints(id: string): Promise<number> {
+    try {
+      return (await readdir(join(this.directory, id, 'chunks'))).length;
+    } catch {
+      return 0;
+    }
+  }
+
+  private jobPath(id: string): string {
+    // Ids are generated by create(); reject anything that could escape the directory
+    if (!/^[\w-]+$/.test(id)) {
+      throw new JobNotFoundError(id);
+    }
+
+    return join(this.directory, `${id}.json`);
+  }
+
+  /**
+   * Restore Date fields lost to JSON
+   */
+  private revive(job: ProcessingJob): ProcessingJob {
+    return {
+      ...job,
+      createdAt: new Date(job.createdAt),
+      updatedAt: new Date(job.updatedAt),
+      ...(job.completedAt && { completedAt: new Date(job.completedAt) }),
+    };
+  }
+}
@@ -0,0 +1,687 @@
+/**
+ * File names and folders for the modules of an unpacked bundle, and the
+ * pass pointing their imports at the renamed files
+ *
+ * Unpackers name a module after its id (`123.js`) unless the bundle kept
+ * its path. Once the pipeline has renamed its exports, those names, the
+ * strings it contains and optionally the LLM give it a file name, and a
+ * module only one other module imports moves into a folder named after that
+ * module.
+ */
+
+import { posix } from 'path';
+import { traverse, types as t, type NodePath } from '@babel/core';
+import { LLMRequest } from '../types.js';
+import { parseCode, type Binding } from '../utils/ast.js';
+import { specifierFor } from '../transformers/bundles/shared.js';
+import type { BaseLLMProvider } from '../providers/base.js';
+import type { CostTracker } from './budget.js';
+import { Edit, ModuleSource, SymbolTable, applyEdits, isModuleExports, replace, requiredSpecifier } from './symbols.js';
+
+export type NameOrigin = 'display name' | 'default export' | 'exports' | 'llm' | 'strings';
+
+/**
+ * What is known about a module when naming it
+ */
+export interface NamingHints {
+  source: ModuleSource;
+  /** Names the module exports */
+  exports: string[];
+  /** Distinct string literals in the module, most frequent first */
+  strings: string[];
+}
+
+/**
+ * Suggests a name for a module its exports do not name
+ */
+export type NameSuggester = (hints: NamingHints) => Promise<string | undefined>;
+
+export interface ModuleLayout {
+  /** Path of every module by id; modules that could not be named keep theirs */
+  paths: Map<string, string>;
+  /** Where each renamed module's name came from, by id */
+  origins: Map<string, NameOrigin>;
+}
+
+interface ModuleFacts {
+  /** Name of the function, class or binding exported as default or `module.exports` */
+  defaultName?: string;
+  /** `Component.displayName = '...'` */
+  displayName?: string;
+  /** Keys of a `module.exports = { ... }` object */
+  objectExports: string[];
+  /** Every string literal that is not a specifier or property key */
+  strings: string[];
+  /** Modules it imports, by id */
+  dependencies: Set<string>;
+}
+
+/** Names that say nothing about a module */
+const GENERIC_NAMES = new Set(['default', 'exports', 'module', 'require', 'index']);
+
+/** Words shared by export names that describe the action rather than the subject */
+const VERBS = new Set(['get', 'set', 'has', 'create', 'make', 'update', 'delete', 'remove', 'add', 'use', 'handle', 'with', 'from', 'parse', 'format', 'render', 'init', 'load', 'save', 'default']);
+
+const STOP_WORDS = new Set(['this', 'that', 'with', 'from', 'must', 'should', 'have', 'will', 'none', 'true', 'false', 'null', 'undefined', 'function', 'object', 'string', 'number', 'boolean', 'strict', 'symbol', 'value', 'error', 'http', 'https']);
+
+/**
+ * Infers file names and folders for modules named after their ids
+ *
+ * A module is named after, in order: its `displayName`, the function or
+ * class it exports as default, its only export or the word its exports
+ * share (`formatDate`, `parseDate` → `date`), the LLM's suggestion, and the
+ * word its strings repeat most. Modules the bundle gave a path, and the
+ * entry, keep theirs.
+ */
+export class ModuleNamer {
+  constructor(private suggest?: NameSuggester) {}
+
+  async assign(sources: ModuleSource[]): Promise<ModuleLayout> {
+    const table = SymbolTable.build(sources);
+    const facts = new Map(sources.map(source => [source.id, this.analyze(source, table)]));
+    const byId = new Map(sources.map(source => [source.id, source]));
+
+    const names = new Map<string, string>();
+    const origins = new Map<string, NameOrigin>();
+    for (const source of sources) {
+      if (!isOpaque(source)) continue;
+
+      const found = await this.inferName(source, table, facts.get(source.id)!);
+      const stem = found && fileStem(found.name);
+      if (stem) {
+        names.set(source.id, stem);
+        origins.set(source.id, found.origin);
+      }
+    }
+
+    const importers = new Map<string, string[]>();
+    for (const [id, { dependencies }] of facts) {
+      for (const dependency of dependencies) {
+        if (dependency !== id) {
+          importers.set(dependency, [...(importers.get(dependency) ?? []), id]);
+        }
+      }
+    }
+
+    // Paths kept as they are claim their spot first
+    const taken = new Set(sources.filter(source => !names.has(source.id)).map(source => source.path.toLowerCase()));
+    const paths = new Map<string, string>();
+    const placing = new Set<string>();
+
+    const place = (id: string): string => {
+      const placed = paths.get(id);
+      if (placed !== undefined) {
+        return placed;
+      }
+
+      const source = byId.get(id)!;
+      const name = names.get(id);
+      if (name === undefined) {
+        paths.set(id, source.path);
+        return source.path;
+      }
+
+      placing.add(id);
+      const [importer, ...others] = importers.get(id) ?? [];
+      let folder = '';
+      if (importer !== undefined && others.length === 0 && !placing.has(importer)) {
+        const parent = byId.get(importer)!;
+        const parentPath = place(importer);
+        if (!parent.isEntry && (names.has(importer) || !isOpaque(parent))) {
+          folder = posix.join(posix.dirname(parentPath), posix.basename(parentPath, '.js'));
+        }
+      }
+      placing.delete(id);
+
+      let path = posix.join(folder, `${name}.js`);
+      if (taken.has(path.toLowerCase())) {
+        path = path.replace(/\.js$/, `-${safeId(id)}.js`);
+      }
+      taken.add(path.toLowerCase());
+      paths.set(id, path);
+      return path;
+    };
+
+    sources.forEach(source => place(source.id));
+    return { paths, origins };
+  }
+
+  private async inferName(
+    source: ModuleSource,
+    table: SymbolTable,
+    facts: ModuleFacts
+  ): Promise<{ name: string; origin: NameOrigin } | undefined> {
+    const exports = [...new Set([...table.exportsOf(source.id), ...facts.objectExports])].filter(name => name !== 'default');
+    const candidates: [string | undefined, NameOrigin][] = [
+      [facts.displayName, 'display name'],
+      [facts.defaultName, 'default export'],
+      [exports.length === 1 ? exports[0] : sharedWord(exports), 'exports'],
+    ];
+    for (const [name, origin] of candidates) {
+      if (name !== undefined && isDescriptive(name)) {
+        return { name, origin };
+      }
+    }
+
+    if (this.suggest) {
+      const name = await this.suggest({ source, exports, strings: byFrequency(facts.strings) });
+      if (name !== undefined && isDescriptive(name)) {
+        return { name, origin: 'llm' };
+      }
+    }
+
+    const word = frequentWord(facts.strings);
+    return word !== undefined ? { name: word, origin: 'strings' } : undefined;
+  }
+
+  private analyze(source: ModuleSource, table: SymbolTable): ModuleFacts {
+    const facts: ModuleFacts = { objectExports: [], strings: [], dependencies: new Set() };
+    const depend = (specifier: string) => {
+      const id = table.resolve(source.path, specifier);
+      if (id !== undefined) facts.dependencies.add(id);
+    };
+
+    traverse(parseCode(source.code), {
+      'ImportDeclaration|ExportNamedDeclaration|ExportAllDeclaration'(path: NodePath<t.ImportDeclaration | t.ExportNamedDeclaration | t.ExportAllDeclaration>) {
+        if (path.node.source) depend(path.node.source.value);
+      },
+
+      ExportDefaultDeclaration(path) {
+        facts.defaultName ??= declaredName(path.node.declaration);
+      },
+
+      CallExpression(path) {
+        const specifier = requiredSpecifier(path);
+        if (specifier !== undefined) depend(specifier);
+      },
+
+      AssignmentExpression(path) {
+        const { left, right } = path.node;
+        if (isModuleExports(path.get('left'))) {
+          facts.defaultName ??= declaredName(right);
+          if (t.isObjectExpression(right)) {
+            facts.objectExports.push(...right.properties.flatMap(property =>
+              t.isObjectProperty(property) && !property.computed && t.isIdentifier(property.key) ? [property.key.name] : []));
+          }
+        } else if (t.isMemberExpression(left) && t.isIdentifier(left.property, { name: 'displayName' }) && t.isStringLiteral(right)) {
+          facts.displayName ??= right.value;
+        }
+      },
+
+      StringLiteral(path) {
+        const parent = path.parentPath;
+        const isSpecifier = (parent.isImportDeclaration() || parent.isExportDeclaration()) ||
+          (parent.isCallExpression() && requiredSpecifier(parent) !== undefined);
+        const isKey = parent.isObjectProperty() && parent.node.key === path.node;
+        if (!isSpecifier && !isKey) {
+          facts.strings.push(path.node.value);
+        }
+      },
+    });
+
+    return facts;
+  }
+}
+
+/**
+ * Points every module's requires and imports at the files the modules moved
+ * to, and turns the top-level requires of modules that are not CommonJS
+ * themselves into `import` declarations
+ *
+ * A module using `module`, `exports` or `require` other than in a
+ * top-level `require()` declaration keeps its requires, only re-pointed:
+ * mixing them with `import` would break it. Properties read from a required
+ * module become named imports (`var r = require('./date.js'); r.format()`
+ * → `import { format } from './date.js'; format()`) where the module is
+ * known to export them.
+ */
+export class ImportRewriter {
+  rewrite(sources: ModuleSource[], paths: Map<string, string>): Map<string, string> {
+    const table = SymbolTable.build(sources);
+    const byId = new Map(sources.map(source => [source.id, source]));
+    const parsed = sources.map(source => ({ source, ast: parseCode(source.code) }));
+    const withExports = (exported: (statement: t.Statement) => boolean) => new Set(parsed
+      .filter(({ ast }) => ast.program.body.some(exported))
+      .map(({ source }) => source.id));
+    const esModules = withExports(statement => t.isExportDeclaration(statement));
+    const defaultExports = withExports(statement => t.isExportDefaultDeclaration(statement));
+
+    return new Map(parsed.map(({ source, ast }) => {
+      const from = paths.get(source.id) ?? source.path;
+      const target = (specifier: string) => table.resolve(source.path, specifier);
+      const specifierOf = (specifier: string): string | undefined => {
+        const id = target(specifier);
+        return id !== undefined ? specifierFor(from, paths.get(id) ?? byId.get(id)!.path) : undefined;
+      };
+
+      let program: NodePath<t.Program> | undefined;
+      traverse(ast, {
+        Program(path) {
+          program = path;
+          path.stop();
+        },
+      });
+
+      const quote = preferredQuote(ast);
+      const canImport = (id: string | undefined, name: string) =>
+        id === undefined || table.exportsOf(id).includes(name) || (name === 'default' && defaultExports.has(id));
+      const imports = this.planImports(program!, { target, specifierOf, canImport, esModules, quote }) ?? [];
+      const repointed = this.repoint(program!, specifierOf, quote)
+        .filter(edit => !imports.some(planned => edit.start >= planned.start && edit.end <= planned.end));
+
+      return [source.id, applyEdits(source.code, [...imports, ...repointed])];
+    }));
+  }
+
+  /**
+   * Edits giving specifiers that name a module its new path
+   */
+  private repoint(program: NodePath<t.Program>, specifierOf: (specifier: string) => string | undefined, quote: string): Edit[] {
+    const edits: Edit[] = [];
+    const edit = (node: t.Node | null | undefined) => {
+      const value = t.isStringLiteral(node) ? node.value : t.isNumericLiteral(node) ? String(node.value) : undefined;
+      const specifier = value !== undefined ? specifierOf(value) : undefined;
+      if (specifier !== undefined && specifier !== value) {
+        edits.push(replace(node!, quoted(specifier, quoteOf(node!, quote))));
+      }
+    };
+
+    program.traverse({
+      'ImportDeclaration|ExportNamedDeclaration|ExportAllDeclaration'(path: NodePath<t.ImportDeclaration | t.ExportNamedDeclaration | t.ExportAllDeclaration>) {
+        edit(path.node.source);
+      },
+      CallExpression(path) {
+        if (requiredSpecifier(path) !== undefined) edit(path.node.arguments[0]);
+      },
+    });
+    return edits;
+  }
+
+  /**
+   * Edits replacing top-level requires with imports, or undefined when the
+   * module has to stay CommonJS
+   */
+  private planImports(program: NodePath<t.Program>, context: ImportContext): Edit[] | undefined {
+    let commonjs = program.scope.hasBinding('require');
+    const calls: NodePath<t.CallExpression>[] = [];
+    program.traverse({
+      Identifier(path) {
+        if (!path.isReferencedIdentifier() || path.scope.hasBinding(path.node.name)) return;
+
+        const { name } = path.node;
+        if (name === 'module' || name === 'exports') {
+          commonjs = true;
+        } else if (name === 'require') {
+          const call = path.parentPath;
+          if (call.isCallExpression() && call.node.callee === path.node) {
+            calls.push(call);
+          } else {
+            commonjs = true;
+          }
+        }
+      },
+    });
+    if (commonjs || calls.length === 0) {
+      return undefined;
+    }
+
+    const statements = new Set<NodePath<t.Statement>>();
+    for (const call of calls) {
+      const statement = call.getStatementParent();
+      if (!statement?.parentPath.isProgram()) {
+        return undefined;
+      }
+      statements.add(statement);
+    }
+
+    const taken = new Set<string>();
+    const edits: Edit[] = [];
+    for (const statement of statements) {
+      const lines: string[] = [];
+      if (statement.isExpressionStatement()) {
+        const specifier = this.requiredSource(statement.get('expression'), context);
+        if (specifier === undefined) return undefined;
+        lines.push(`import ${quoted(specifier, context.quote)};`);
+      } else if (statement.isVariableDeclaration()) {
+        for (const declarator of statement.get('declarations')) {
+          const line = this.importFor(declarator, context, taken, edits);
+          if (line === undefined) return undefined;
+          lines.push(line);
+        }
+      } else {
+        return undefined;
+      }
+      edits.push(replace(statement.node, lines.join('\n')));
+    }
+
+    return overlaps(edits) ? undefined : edits;
+  }
+
+  /**
+   * `import` declaration for `var x = require('./a')`, `var { x } = require('./a')`
+   * or `var x = require('./a').x`, adding edits for the uses of `x` it changes
+   */
+  private importFor(
+    declarator: NodePath<t.VariableDeclarator>,
+    context: ImportContext,
+    taken: Set<string>,
+    edits: Edit[]
+  ): string | undefined {
+    const id = declarator.get('id');
+    const init = declarator.get('init');
+    const from = (specifier: string) => ` from ${quoted(specifier, context.quote)};`;
+
+    // `var x = require('./a').x`
+    if (init.isMemberExpression() && id.isIdentifier()) {
+      const property = staticName(init.node);
+      const specifier = this.requiredSource(init.get('object'), context);
+      if (property === undefined || specifier === undefined || !this.isConstant(declarator, id.node.name)) return undefined;
+      if (!context.canImport(context.target(this.rawSource(init.get('object'))!), property)) return undefined;
+
+      return property === 'default'
+        ? `import ${id.node.name}${from(specifier)}`
+        : `import { ${importSpecifier(property, id.node.name)} }${from(specifier)}`;
+    }
+
+    const specifier = this.requiredSource(init, context);
+    if (specifier === undefined) return undefined;
+    const targetId = context.target(this.rawSource(init)!);
+
+    // `var { x, y: z } = require('./a')`
+    if (id.isObjectPattern()) {
+      const specifiers: string[] = [];
+      for (const property of id.node.properties) {
+        const key = t.isObjectProperty(property) && !property.computed ? property.key : undefined;
+        const name = t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : undefined;
+        const local = t.isObjectProperty(property) && t.isIdentifier(property.value) ? property.value.name : undefined;
+        if (name === undefined || local === undefined || !this.isConstant(declarator, local) || !context.canImport(targetId, name)) {
+          return undefined;
+        }
+        specifiers.push(importSpecifier(name, local));
+      }
+      return `import { ${specifiers.join(', ')} }${from(specifier)}`;
+    }
+
+    if (!id.isIdentifier()) return undefined;
+    const binding = declarator.scope.getBinding(id.node.name);
+    if (!binding || binding.constantViolations.length > 0) return undefined;
+    if (binding.referencePaths.length === 0) {
+      return `import ${quoted(specifier, context.quote)};`;
+    }
+
+    // `var x = require('./a'); x.y()` imports `y` when every use reads a property;
+    // packages keep their namespace, `React.createElement`
+    const members = binding.referencePaths.map(reference => {
+      const parent = reference.parentPath;
+      return parent?.isMemberExpression() && parent.node.object === reference.node && !isWritten(parent)
+        ? { path: parent, name: staticName(parent.node) }
+        : undefined;
+    });
+    const named = targetId !== undefined &&
+      members.every(member => member?.name !== undefined && context.canImport(targetId, member.name));
+    if (!named) {
+      return context.esModules.has(targetId ?? '')
+        ? `import * as ${id.node.name}${from(specifier)}`
+        : `import ${id.node.name}${from(specifier)}`;
+    }
+
+    const locals = new Map<string, string>();
+    for (const member of members) {
+      const name = member!.name!;
+      let local = locals.get(name);
+      if (local === undefined) {
+        local = name === 'default' ? id.node.name : this.localName(name, binding, taken);
+        locals.set(name, local);
+      }
+      edits.push(replace(member!.path.node, local));
+    }
+
+    const defaultLocal = locals.get('default');
+    const specifiers = [...locals].filter(([name]) => name !== 'default').map(([name, local]) => importSpecifier(name, local));
+    const clauses = [
+      ...(defaultLocal !== undefined ? [defaultLocal] : []),
+      ...(specifiers.length > 0 ? [`{ ${specifiers.join(', ')} }`] : []),
+    ];
+    return `import ${clauses.join(', ')}${from(specifier)}`;
+  }
+
+  /**
+   * New specifier of a `require('...')` call, or the specifier itself when it
+   * names a package
+   */
+  private requiredSource(path: NodePath, context: ImportContext): string | undefined {
+    const raw = this.rawSource(path);
+    if (raw === undefined) return undefined;
+
+    const specifier = context.specifierOf(raw);
+    return specifier ?? (t.isStringLiteral((path.node as t.CallExpression).arguments[0]) ? raw : undefined);
+  }
+
+  private rawSource(path: NodePath): string | undefined {
+    return path.isCallExpression() && path.node.arguments.length === 1 ? requiredSpecifier(path) : undefined;
+  }
+
+  private isConstant(declarator: NodePath<t.VariableDeclarator>, name: string): boolean {
+    const binding = declarator.scope.getBinding(name);
+    return binding !== undefined && binding.constantViolations.length === 0;
+  }
+
+  /**
+   * Local name for an imported property: the property's own name unless
+   * something in the module already uses it
+   */
+  private localName(name: string, namespace: Binding, taken: Set<string>): string {
+    const program = namespace.scope.getProgramParent();
+    const free = t.isValidIdentifier(name) && !taken.has(name) && !program.hasBinding(name) && !program.hasGlobal(name) &&
+      namespace.referencePaths.every(reference => !reference.scope.hasBinding(name));
+    const local = free ? name : program.generateUid(name);
+    taken.add(local);
+    return local;
+  }
+}
+
+interface ImportContext {
+  /** Module a specifier names, by id */
+  target: (specifier: string) => string | undefined;
+  /** Specifier pointing at the new path of the module a specifier names */
+  specifierOf: (specifier: string) => string | undefined;
+  /** Whether a name can be imported from a module; packages outside the bundle are trusted */
+  canImport: (id: string | undefined, name: string) => boolean;
+  esModules: Set<string>;
+  quote: string;
+}
+
+/** Placeholder the LLM is asked to rename; its new name becomes the file name */
+const FILE_NAME_PLACEHOLDER = '__moduleFileName__';
+
+const NAMING_PROMPT = `You are a senior JavaScript developer naming the files of modules recovered from a bundle.
+
+Suggest a descriptive name for the variable ${FILE_NAME_PLACEHOLDER}. The name becomes the module's file name, so it should say what the module provides, in camelCase for utilities and services (formatDate, apiClient) or PascalCase for components and classes (LoginForm). Do not suggest renames for any other identifier.`;
+
+/** Lines of a module shown to the LLM */
+const EXCERPT_LINES = 80;
+
+/**
+ * Asks the LLM for module names, one short request per module, charging
+ * them to the run's budget
+ */
+export class LLMNameSuggester {
+  private spent = 0;
+
+  constructor(private provider: BaseLLMProvider, private costTracker?: CostTracker) {}
+
+  /**
+   * USD spent on naming requests so far
+   */
+  get cost(): number {
+    return this.spent;
+  }
+
+  readonly suggest: NameSuggester = async ({ source, exports, strings }) => {
+    const lines = source.code.split('\n');
+    const code = [
+      `// Module ${source.path}`,
+      `// Exports: ${exports.join(', ') || 'none'}`,
+      ...(strings.length > 0 ? [`// Strings: ${strings.slice(0, 12).map(value => JSON.stringify(value.slice(0, 40))).join(', ')}`] : []),
+      `var ${FILE_NAME_PLACEHOLDER};`,
+      ...lines.slice(0, EXCERPT_LINES),
+      ...(lines.length > EXCERPT_LINES ? [`// ... ${lines.length - EXCERPT_LINES} more lines`] : []),
+    ].join('\n');
+    const request: LLMRequest = { code, model: this.provider.getModel(), systemPrompt: NAMING_PROMPT };
+
+    const { costTracker } = this;
+    const reservation = costTracker?.reserve(costTracker.limited ? this.projectCost(code) : 0);
+    if (costTracker && !reservation) {
+      return undefined;
+    }
+
+    try {
+      const response = await this.provider.processCode(request);
+      const cost = this.provider.getResponseCost(response);
+      this.spent += cost;
+      if (reservation) costTracker!.settle(reservation, cost, response);
+
+      return response.suggestions.find(suggestion => suggestion.originalName === FILE_NAME_PLACEHOLDER)?.suggestedName;
+    } catch (error) {
+      if (reservation) costTracker!.settle(reservation, 0);
+      console.warn(`⚠️  No name suggested for module ${source.id}: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  };
+
+  private projectCost(code: string): number {
+    const promptTokens = this.provider.getTokenBudget().promptTokens + this.provider.getTokenizer().count(code);
+    return this.provider.getCost(promptTokens, this.costTracker!.projectCompletionTokens(promptTokens));
+  }
+}
+
+/**
+ * Whether a module still carries the name its id gave it
+ */
+function isOpaque(source: ModuleSource): boolean {
+  if (source.isEntry) return false;
+  const stem = posix.basename(source.path, '.js');
+  return stem === safeId(source.id) || /^\d+$/.test(stem);
+}
+
+function safeId(id: string): string {
+  return id.replace(/[^\w.@-]/g, '_');
+}
+
+function isDescriptive(name: string): boolean {
+  return /^[A-Za-z_$][\w$]*$/.test(name) && name.replace(/[\d_$]/g, '').length >= 3 && !GENERIC_NAMES.has(name.toLowerCase());
+}
+
+function fileStem(name: string): string {
+  return name.replace(/^[_$]+|[_$]+$/g, '').replace(/\$/g, '_');
+}
+
+function declaredName(node: t.Node): string | undefined {
+  if (t.isFunction(node) || t.isClass(node)) {
+    return 'id' in node && node.id ? node.id.name : undefined;
+  }
+  return t.isIdentifier(node) ? node.name : undefined;
+}
+
+/**
+ * Lowercase words of an identifier or text: `parseISODate` → `parse`, `isodate`
+ */
+function words(text: string): string[] {
+  return text.replace(/([a-z\d])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z]+/).filter(Boolean);
+}
+
+/**
+ * Word most export names share, ignoring verbs
+ */
+function sharedWord(names: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const name of new Set(names)) {
+    for (const word of new Set(words(name))) {
+      if (word.length >= 3 && !VERBS.has(word)) {
+        counts.set(word, (counts.get(word) ?? 0) + 1);
+      }
+    }
+  }
+  return mostFrequent(counts);
+}
+
+/**
+ * Word the strings of a module repeat most
+ */
+function frequentWord(strings: string[]): string | undefined {
+  const counts = new Map<string, number>();
+  for (const word of strings.flatMap(words)) {
+    if (word.length >= 4 && !STOP_WORDS.has(word)) {
+      counts.set(word, (counts.get(word) ?? 0) + 1);
+    }
+  }
+  return mostFrequent(counts);
+}
+
+/**
+ * Key counted at least twice and more often than any other; the first wins ties
+ */
+function mostFrequent(counts: Map<string, number>): string | undefined {
+  let best: [string, number] | undefined;
+  for (const entry of counts) {
+    if (entry[1] >= 2 && (!best || entry[1] > best[1])) {
+      best = entry;
+    }
+  }
+  return best?.[0];
+}
+
+function byFrequency(values: string[]): string[] {
+  const counts = new Map<string, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([value]) => value);
+}
+
+function staticName(node: t.MemberExpression): string | undefined {
+  if (!node.computed && t.isIdentifier(node.property)) return node.property.name;
+  if (node.computed && t.isStringLiteral(node.property)) return node.property.value;
+  return undefined;
+}
+
+/**
+ * Whether a member expression is assigned, updated or deleted
+ */
+function isWritten(path: NodePath<t.MemberExpression>): boolean {
+  const parent = path.parentPath;
+  return (parent.isAssignmentExpression() && parent.node.left === path.node) ||
+    parent.isUpdateExpression() ||
+    (parent.isUnaryExpression({ operator: 'delete' }));
+}
+
+function importSpecifier(name: string, local: string): string {
+  const imported = t.isValidIdentifier(name, false) ? name : JSON.stringify(name);
+  return imported === local ? local : `${imported} as ${local}`;
+}
+
+function quoted(specifier: string, quote: string): string {
+  return `${quote}${specifier.replace(new RegExp(quote, 'g'), `\\${quote}`)}${quote}`;
+}
+
+function quoteOf(node: t.Node, fallback: string): string {
+  const raw = (node as t.StringLiteral).extra?.raw;
+  return typeof raw === 'string' && (raw[0] === '"' || raw[0] === "'") ? raw[0] : fallback;
+}
+
+/**
+ * Quote the module's strings use, single quotes when it has none
+ */
+function preferredQuote(ast: t.File): string {
+  let quote = "'";
+  traverse(ast, {
+    StringLiteral(path) {
+      quote = quoteOf(path.node, quote);
+      path.stop();
+    },
+  });
+  return quote;
+}
+
+function overlaps(edits: Edit[]): boolean {
+  const sorted = [...edits].sort((a, b) => a.start - b.start);
+  return sorted.some((edit, index) => index > 0 && edit.start < sorted[index - 1]!.end);
+}
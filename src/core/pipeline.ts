@@ -10,15 +10,97 @@ import {
   JobStatus,
   ProgressEvent,
   ProgressCallback,
-  ReScriptConfig 
+  ReScriptConfig,
+  PluginHooks,
+  PrettierOptions,
+  SourceMapData
 } from '../types.js';
-import { ReScriptError, ErrorRecoveryManager } from '../utils/errors.js';
+import { ReScriptError, ErrorRecoveryManager, PluginExecutionError } from '../utils/errors.js';
+import { WebcrackTransformer, WebcrackOptions } from '../transformers/webcrack.js';
+import { OriginalNamesTransformer } from '../transformers/original-names.js';
+import { BabelTransformer, BabelTransformOptions } from '../transformers/babel.js';
+import { PrettierTransformer } from '../transformers/prettier.js';
+import type { LLMTransformOptions } from '../transformers/llm.js';
+import { wantsSourceMaps, getSourceName, createApproximateSourceMap, composeSourceMaps } from '../utils/sourcemap.js';
+import { getTokenizer } from '../utils/tokenizer.js';
 import { createHash } from 'crypto';
 
+type HookKind = keyof PluginHooks;
+
+interface RegisteredHook<K extends HookKind> {
+  pluginName: string;
+  hook: NonNullable<PluginHooks[K]>;
+}
+
+/**
+ * Per-step maps collected while the pipeline runs
+ *
+ * Once any change cannot be mapped the chain is broken and no map is
+ * produced for the file, since a partial chain would point at wrong code.
+ */
+class SourceMapChain {
+  private maps: SourceMapData[] = [];
+  private broken = false;
+
+  constructor(
+    private readonly original: string,
+    private readonly sourceName: string
+  ) {}
+
+  /**
+   * Record the change made by one step, approximating a map if it gave none
+   */
+  record(stage: string, before: string, after: string, map?: SourceMapData): string | undefined {
+    if (this.broken || before === after) {
+      return undefined;
+    }
+
+    const stepMap = map ?? createApproximateSourceMap(before, after, this.sourceName);
+    if (!stepMap) {
+      this.broken = true;
+      return `Source map not generated: changes made by '${stage}' could not be mapped`;
+    }
+
+    this.maps.push(stepMap);
+    return undefined;
+  }
+
+  /**
+   * Compose the recorded maps into a map from the final code to the original
+   *
+   * With the input's own source map the result points past the minified
+   * input into the sources it was built from.
+   */
+  compose(finalCode: string, inputSourceMap?: SourceMapData): SourceMapData | undefined {
+    if (this.broken) {
+      return undefined;
+    }
+
+    const maps = this.maps.length > 0
+      ? this.maps
+      : [createApproximateSourceMap(this.original, finalCode, this.sourceName)].filter((map): map is SourceMapData => map !== undefined);
+
+    if (maps.length === 0) {
+      return undefined;
+    }
+
+    if (inputSourceMap) {
+      return composeSourceMaps([inputSourceMap, ...maps]);
+    }
+
+    return composeSourceMaps(maps, { sourceName: this.sourceName, sourceContent: this.original });
+  }
+}
+
 export class ProcessingPipeline {
   private steps: ProcessingStep[] = [];
   private recoveryManager: ErrorRecoveryManager;
   private progressCallback?: ProgressCallback;
+  private hooks: { [K in HookKind]: RegisteredHook<K>[] } = {
+    beforeProcessing: [],
+    afterProcessing: [],
+    onError: [],
+  };
 
   constructor(recoveryManager?: ErrorRecoveryManager) {
     this.recoveryManager = recoveryManager || new ErrorRecoveryManager();
@@ -31,6 +113,13 @@ export class ProcessingPipeline {
     this.steps.push(step);
   }
 
+  /**
+   * Register a plugin hook; hooks of a kind run in registration order
+   */
+  addHook<K extends HookKind>(kind: K, pluginName: string, hook: NonNullable<PluginHooks[K]>): void {
+    (this.hooks[kind] as RegisteredHook<K>[]).push({ pluginName, hook });
+  }
+
   /**
    * Set progress callback for real-time updates
    */
@@ -46,6 +135,28 @@ export class ProcessingPipeline {
     jobId?: string
   ): Promise<ProcessingOutput> {
     const startTime = Date.now();
+    const sourceMaps = wantsSourceMaps(input)
+      ? new SourceMapChain(input.code, getSourceName(input))
+      : undefined;
+    const sourceMapWarnings: string[] = [];
+    const recordSourceMap = (stage: string, before: string, after: string, map?: SourceMapData) => {
+      const warning = sourceMaps?.record(stage, before, after, map);
+      if (warning) {
+        console.warn(`⚠️  ${warning}`);
+        sourceMapWarnings.push(warning);
+      }
+    };
+
+    for (const { pluginName, hook } of this.hooks.beforeProcessing) {
+      const before = input.code;
+      try {
+        input = await hook(input);
+      } catch (error) {
+        return this.failWithHookError(pluginName, error, input.code, input.metadata, jobId);
+      }
+      recordSourceMap(`${pluginName}:beforeProcessing`, before, input.code);
+    }
+
     let currentOutput: ProcessingOutput = {
       code: input.code,
       metadata: input.metadata,
@@ -78,7 +189,7 @@ export class ProcessingPipeline {
             ...currentOutput.metadata,
             statistics: {
               ...currentOutput.metadata.statistics,
-              tokensCount: this.estimateTokenCount(currentOutput.code),
+              tokensCount: this.estimateTokenCount(currentOutput.code, input.config),
             },
           },
           config: input.config,
@@ -116,10 +227,12 @@ export class ProcessingPipeline {
           currentOutput = stepOutput;
         }
 
+        recordSourceMap(step.name, stepInput.code, currentOutput.code, currentOutput.sourceMap);
+
         // Update metadata with step timing
         currentOutput.metadata.statistics = {
           ...currentOutput.metadata.statistics,
-          tokensCount: this.estimateTokenCount(currentOutput.code),
+          tokensCount: this.estimateTokenCount(currentOutput.code, input.config),
         };
 
         console.log(`✓ Step '${step.name}' completed in ${Date.now() - stepStartTime}ms`);
@@ -128,6 +241,7 @@ export class ProcessingPipeline {
         const processingError = ReScriptError.fromError(error, step.name);
         
         this.emitProgress('error', jobId, undefined, processingError.toProcessingError());
+        await this.runErrorHooks(processingError.toProcessingError());
         
         return {
           code: currentOutput.code,
@@ -145,16 +259,32 @@ export class ProcessingPipeline {
       percentage: 100,
     });
 
+    for (const { pluginName, hook } of this.hooks.afterProcessing) {
+      const before = currentOutput.code;
+      try {
+        currentOutput = await hook(currentOutput);
+      } catch (error) {
+        return this.failWithHookError(pluginName, error, currentOutput.code, currentOutput.metadata, jobId);
+      }
+      recordSourceMap(`${pluginName}:afterProcessing`, before, currentOutput.code);
+    }
+
     console.log(`✅ Pipeline completed in ${Date.now() - startTime}ms`);
 
+    // The step map of the last step is replaced by the composed map
+    const { sourceMap: _lastStepMap, ...finalOutput } = currentOutput;
+    const warnings = [...(finalOutput.warnings ?? []), ...sourceMapWarnings];
+
     return {
-      ...currentOutput,
+      ...finalOutput,
       success: true,
+      ...(warnings.length > 0 ? { warnings } : {}),
       metadata: {
         ...currentOutput.metadata,
+        ...(sourceMaps ? { sourceMap: sourceMaps.compose(currentOutput.code, currentOutput.metadata.inputSourceMap) } : {}),
         statistics: {
           ...currentOutput.metadata.statistics,
-          tokensCount: this.estimateTokenCount(currentOutput.code),
+          tokensCount: this.estimateTokenCount(currentOutput.code, input.config),
         },
       },
     };
@@ -227,6 +357,43 @@ export class ProcessingPipeline {
     };
   }
 
+  /**
+   * Build a failed output for a throwing hook and notify error hooks
+   */
+  private async failWithHookError(
+    pluginName: string,
+    error: unknown,
+    code: string,
+    metadata: ProcessingOutput['metadata'],
+    jobId?: string
+  ): Promise<ProcessingOutput> {
+    const processingError = (error instanceof ReScriptError
+      ? error
+      : new PluginExecutionError(
+        pluginName,
+        error instanceof Error ? error.message : String(error),
+        error instanceof Error ? error : undefined
+      )).toProcessingError();
+
+    this.emitProgress('error', jobId, undefined, processingError);
+    await this.runErrorHooks(processingError);
+
+    return { code, metadata, success: false, error: processingError };
+  }
+
+  /**
+   * Notify error hooks; failures inside them are logged and ignored
+   */
+  private async runErrorHooks(error: ProcessingError): Promise<void> {
+    for (const { pluginName, hook } of this.hooks.onError) {
+      try {
+        await hook(error);
+      } catch (hookError) {
+        console.warn(`⚠️  onError hook of plugin '${pluginName}' failed: ${hookError instanceof Error ? hookError.message : String(hookError)}`);
+      }
+    }
+  }
+
   /**
    * Emit progress event
    */
@@ -248,11 +415,12 @@ export class ProcessingPipeline {
   }
 
   /**
-   * Estimate token count for code
+   * Token count of code for the configured model
    */
-  private estimateTokenCount(code: string): number {
-    // Rough estimation: 1 token ≈ 4 characters
-    return Math.ceil(code.length / 4);
+  private estimateTokenCount(code: string, config: ProcessingInput['config']): number {
+    // Inputs carry the full config, provider section included
+    const provider = (config as any)?.provider;
+    return getTokenizer(provider?.name ?? 'default', provider?.model ?? '').count(code);
   }
 
   /**
@@ -331,30 +499,34 @@ export class PipelineBuilder {
     this.pipeline = new ProcessingPipeline();
   }
 
+  /**
+   * Add the step recovering original names from the input's source map
+   */
+  addOriginalNames(): PipelineBuilder {
+    this.pipeline.addStep(new OriginalNamesTransformer());
+    return this;
+  }
+
   /**
    * Add webcrack step
    */
-  addWebcrack(options?: import('../transformers/webcrack.js').WebcrackOptions): PipelineBuilder {
-    import('../transformers/webcrack.js').then(({ WebcrackTransformer }) => {
-      this.pipeline.addStep(new WebcrackTransformer(options));
-    }).catch(console.error);
+  addWebcrack(options?: WebcrackOptions): PipelineBuilder {
+    this.pipeline.addStep(new WebcrackTransformer(options));
     return this;
   }
 
   /**
    * Add babel transformation step
    */
-  addBabel(options?: import('../transformers/babel.js').BabelTransformOptions): PipelineBuilder {
-    import('../transformers/babel.js').then(({ BabelTransformer }) => {
-      this.pipeline.addStep(new BabelTransformer(options));
-    }).catch(console.error);
+  addBabel(options?: BabelTransformOptions): PipelineBuilder {
+    this.pipeline.addStep(new BabelTransformer(options));
     return this;
   }
 
   /**
    * Add LLM processing step
    */
-  addLLM(options?: import('../transformers/llm.js').LLMTransformOptions): PipelineBuilder {
+  addLLM(_options?: LLMTransformOptions): PipelineBuilder {
     // Note: LLM transformer needs to be created from input config
     // This will be added during pipeline execution
     console.log('LLM step will be added during execution based on configuration');
@@ -364,10 +536,16 @@ export class PipelineBuilder {
   /**
    * Add prettier formatting step
    */
-  addPrettier(options?: import('../types.js').PrettierOptions): PipelineBuilder {
-    import('../transformers/prettier.js').then(({ PrettierTransformer }) => {
-      this.pipeline.addStep(new PrettierTransformer(options));
-    }).catch(console.error);
+  addPrettier(options?: PrettierOptions): PipelineBuilder {
+    this.pipeline.addStep(new PrettierTransformer(options));
+    return this;
+  }
+
+  /**
+   * Add an arbitrary step, e.g. a plugin transformer
+   */
+  addStep(step: ProcessingStep): PipelineBuilder {
+    this.pipeline.addStep(step);
     return this;
   }
 
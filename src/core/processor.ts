@@ -8,28 +8,90 @@ import {
   ReScriptConfig,
   ProgressCallback,
   ProcessedFile,
-  ProcessingSummary
+  ProcessingSummary,
+  SourceMapData,
+  CacheStatistics,
+  ChunkCheckpointStore,
+  ProcessingJob,
+  FileEstimate,
+  RunEstimate,
+  WorkEstimate,
+  BundleModule,
+  ProcessingStatistics,
+  RenameRecord
 } from '../types.js';
 import { ProcessingPipeline, PipelineBuilder } from './pipeline.js';
-import { LLMTransformer } from '../transformers/llm.js';
-import { ReScriptError, ErrorCode } from '../utils/errors.js';
+import { LLMTransformer, LLMProgress } from '../transformers/llm.js';
+import { OriginalNamesTransformer } from '../transformers/original-names.js';
+import { WebcrackTransformer } from '../transformers/webcrack.js';
+import { PluginManager } from '../plugins/manager.js';
+import { CacheManager, createCacheManager } from '../utils/cache.js';
+import type { JobStore } from './jobs.js';
+import { ReScriptError, ErrorCode, JobNotResumableError } from '../utils/errors.js';
+import { getTokenizer } from '../utils/tokenizer.js';
+import { CostTracker } from './budget.js';
+import { ProjectedRequest, estimateMinutes, sumEstimates } from './estimate.js';
+import { ProviderFactory } from '../providers/factory.js';
+import { CrossModuleRenamer, ModuleSource } from './symbols.js';
+import { ImportRewriter, LLMNameSuggester, ModuleNamer } from './naming.js';
+import { SourceExtractor } from './sources.js';
+import { readInputSourceMap, stripSourceMappingURL } from '../utils/sourcemap.js';
 import { readFile, writeFile, mkdir, stat } from 'fs/promises';
-import { dirname, join, relative, extname } from 'path';
+import { dirname, join, relative, extname, basename, isAbsolute } from 'path';
+
+/**
+ * A bundle module run through the pipeline, before it is written
+ */
+interface ProcessedModule {
+  file: ProcessedFile;
+  /** Processed code, when processing succeeded */
+  code?: string;
+  renames?: RenameRecord[];
+}
+
+/**
+ * A step that hands back its last output when run again on the same code,
+ * so a file is unpacked once even when two pipelines start with the step
+ */
+class ReusableStep implements ProcessingStep {
+  public readonly name: string;
+  public readonly description: string;
+  private last?: { code: string; output: ProcessingOutput };
+
+  constructor(private readonly step: ProcessingStep) {
+    this.name = step.name;
+    this.description = step.description;
+  }
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    if (this.last?.code !== input.code) {
+      this.last = { code: input.code, output: await this.step.execute(input) };
+    }
+    // Pipelines update the metadata of step outputs in place
+    return { ...this.last.output, metadata: { ...this.last.output.metadata } };
+  }
+}
 
 export interface ProcessorOptions {
   outputDir?: string;
   preserveStructure?: boolean;
   generateBackups?: boolean;
   overwriteExisting?: boolean;
+  /** Run the pipeline but write nothing; results carry a preview instead */
+  dryRun?: boolean;
 }
 
 export class MainProcessor {
   private config: ReScriptConfig;
   private options: ProcessorOptions;
   private progressCallback?: ProgressCallback;
+  private pluginManager?: Promise<PluginManager>;
+  private cache?: CacheManager;
+  private costTracker: CostTracker;
 
   constructor(config: ReScriptConfig, options: ProcessorOptions = {}) {
     this.config = config;
+    this.costTracker = new CostTracker(config.processing.budget);
     this.options = {
       preserveStructure: true,
       generateBackups: true,
@@ -47,11 +109,14 @@ export class MainProcessor {
 
   /**
    * Process a single file
+   *
+   * With `checkpoints`, chunk responses are recorded (and reused) there.
    */
   async processFile(
     inputPath: string, 
     outputPath?: string,
-    jobId?: string
+    jobId?: string,
+    checkpoints?: ChunkCheckpointStore
   ): Promise<ProcessedFile> {
     const startTime = Date.now();
 
@@ -65,25 +130,34 @@ export class MainProcessor {
         outputPath = this.generateOutputPath(inputPath);
       }
 
+      let recovery: ProcessedFile | undefined;
+      if (this.config.output.fromSourceMap) {
+        recovery = await this.recoverSources(code, inputPath, outputPath, startTime);
+        // Sources that leave part of the input out are followed by
+        // processing the input itself
+        if (recovery && (!recovery.success || recovery.recovered?.complete)) {
+          return recovery;
+        }
+      }
+      const withRecovery = (file: ProcessedFile): ProcessedFile =>
+        recovery?.recovered ? { ...file, recovered: recovery.recovered } : file;
+
       // Create processing input
-      const processingInput: ProcessingInput = {
-        code,
-        metadata: {
-          fileName: inputPath,
-          fileSize: fileStats.size,
-          statistics: {
-            linesOfCode: code.split('\n').length,
-            functionsCount: this.estimateFunctions(code),
-            variablesCount: this.estimateVariables(code),
-            complexityScore: this.estimateComplexity(code),
-            tokensCount: Math.ceil(code.length / 4),
-          },
-        },
-        config: this.config as any,
-      };
+      const processingInput = this.createInput(code, inputPath, fileStats.size);
+
+      // An input that turns out not to be a bundle continues from the
+      // unpacking done to find out
+      let unpackSteps: ProcessingStep[] | undefined;
+      if (this.config.output.splitModules) {
+        unpackSteps = this.createUnpackSteps(true);
+        const bundle = await this.processBundle(processingInput, unpackSteps, inputPath, outputPath, startTime, jobId, checkpoints);
+        if (bundle) {
+          return withRecovery(bundle);
+        }
+      }
 
       // Create and configure pipeline
-      const pipeline = this.createPipeline();
+      const pipeline = await this.createPipeline(checkpoints, jobId, inputPath, unpackSteps);
 
       // Execute processing
       const result = await pipeline.execute(processingInput, jobId);
@@ -96,23 +170,41 @@ export class MainProcessor {
         );
       }
 
+      if (this.options.dryRun) {
+        return withRecovery({
+          inputPath,
+          outputPath,
+          success: true,
+          statistics: result.metadata.statistics,
+          processingTime: Date.now() - startTime,
+          ...(result.metadata.cache && { cache: result.metadata.cache }),
+          preview: {
+            originalCode: code,
+            code: result.code,
+            renames: result.metadata.renames ?? [],
+            warnings: result.warnings ?? [],
+          },
+        });
+      }
+
       // Create backup if requested
       if (this.options.generateBackups && outputPath === inputPath) {
         await this.createBackup(inputPath);
       }
 
       // Write output
-      await this.writeOutput(result.code, outputPath);
+      await this.writeOutput(result.code, outputPath, this.prepareSourceMap(result.metadata.sourceMap, inputPath, outputPath));
 
       const processingTime = Date.now() - startTime;
 
-      return {
+      return withRecovery({
         inputPath,
         outputPath,
         success: true,
         statistics: result.metadata.statistics,
         processingTime,
-      };
+        ...(result.metadata.cache && { cache: result.metadata.cache }),
+      });
 
     } catch (error) {
       const processingTime = Date.now() - startTime;
@@ -190,6 +282,10 @@ export class MainProcessor {
       failedFiles: results.filter(r => !r.success).length,
       totalProcessingTime,
       tokensUsed: results.reduce((sum, r) => sum + (r.statistics?.tokensCount || 0), 0),
+      cost: MainProcessor.sumCost(results),
+      budget: this.costTracker.getStatus(),
+      cache: MainProcessor.sumCacheStatistics(results),
+      files: results,
     };
 
     // Emit completion
@@ -204,44 +300,656 @@ export class MainProcessor {
   }
 
   /**
-   * Create processing pipeline
+   * Process the unfinished files of a persisted job
+   *
+   * Each file's result is saved as soon as it completes, and chunk responses
+   * are checkpointed in the store, so a job interrupted by a crash or sleep
+   * resumes where it stopped. Failed files are retried on resume. Once the
+   * job is cancelled (e.g. by `re-script jobs cancel` from another shell) no
+   * further files are started. A completed job drops its checkpoints.
+   *
+   * The job is claimed against its stored state, not the copy passed in: a
+   * job running in another process is refused, and so is a cancelled one
+   * unless `resumeCancelled` is set.
+   */
+  async runJob(
+    job: ProcessingJob,
+    store: JobStore,
+    options: { resumeCancelled?: boolean } = {}
+  ): Promise<ProcessingSummary> {
+    const startTime = Date.now();
+    const files = job.files ?? [];
+    const remaining = files.filter(file => file.status !== 'completed');
+    const checkpoints = store.checkpoints(job.id);
+
+    const stored = await store.get(job.id);
+    if (store.isActive(stored) && stored.pid !== process.pid) {
+      throw new JobNotResumableError(job.id, `it is running in process ${stored.pid}`, [
+        `Stop it first with: re-script jobs cancel ${job.id}`,
+      ]);
+    }
+    if (stored.status === 'cancelled' && !options.resumeCancelled) {
+      throw new JobNotResumableError(job.id, 'it was cancelled', [
+        `Resume it anyway with: re-script jobs resume ${job.id} --cancelled`,
+      ]);
+    }
+
+    job.status = 'running';
+    job.pid = process.pid;
+    job.error = undefined;
+    job.completedAt = undefined;
+    await store.save(job);
+
+    // A cancel from another process only shows up in the store
+    let cancelled = false;
+    const checkCancelled = async () => {
+      cancelled = cancelled || (await store.get(job.id)).status === 'cancelled';
+      return cancelled;
+    };
+
+    // Saves are chained so concurrent files never write the job at once, and
+    // never overwrite a cancellation
+    let saving = Promise.resolve();
+    const persist = () => {
+      saving = saving.then(async () => {
+        if (await checkCancelled()) job.status = 'cancelled';
+        await store.save(job);
+      });
+      return saving;
+    };
+
+    const semaphore = new Semaphore(this.config.processing.concurrency);
+
+    const processFile = async (file: typeof files[number]): Promise<void> => {
+      await semaphore.acquire();
+
+      try {
+        if (await checkCancelled()) {
+          return;
+        }
+
+        job.progress = { ...job.progress, currentStep: `Processing ${relative(process.cwd(), file.inputPath)}`, currentFile: file.inputPath };
+        const result = await this.processFile(file.inputPath, file.outputPath, job.id, checkpoints);
+
+        file.status = result.success ? 'completed' : 'failed';
+        file.result = result;
+
+        const done = files.filter(f => f.status !== 'pending').length;
+        job.progress = {
+          ...job.progress,
+          stepsCompleted: done,
+          totalSteps: files.length,
+          percentage: Math.round((done / files.length) * 100),
+        };
+        await persist();
+
+        this.emitProgress('progress', job.id, job.progress);
+      } finally {
+        semaphore.release();
+      }
+    };
+
+    await Promise.all(remaining.map(file => processFile(file)));
+    await saving;
+
+    const results = files.filter(file => file.result).map(file => file.result!);
+    const summary: ProcessingSummary = {
+      totalFiles: files.length,
+      successfulFiles: results.filter(r => r.success).length,
+      failedFiles: results.filter(r => !r.success).length,
+      totalProcessingTime: Date.now() - startTime,
+      tokensUsed: results.reduce((sum, r) => sum + (r.statistics?.tokensCount || 0), 0),
+      cost: MainProcessor.sumCost(results),
+      budget: this.costTracker.getStatus(),
+      cache: MainProcessor.sumCacheStatistics(results),
+      files: results,
+    };
+
+    if (cancelled && files.some(file => file.status === 'pending')) {
+      job.status = 'cancelled';
+    } else {
+      job.status = summary.failedFiles > 0 ? 'failed' : 'completed';
+      job.completedAt = new Date();
+      job.output = { files: results, summary };
+    }
+    job.progress = { ...job.progress, currentStep: job.status, currentFile: undefined };
+    await store.save(job);
+
+    if (job.status === 'completed') {
+      await store.clearCheckpoints(job.id);
+    }
+
+    this.emitProgress('complete', job.id, job.progress);
+
+    return summary;
+  }
+
+  /**
+   * Unpack a bundle and process each module as its own file
+   *
+   * Modules are written to a directory named after the output file, at the
+   * paths inferred while unpacking, next to an `index.json` mapping module ids to
+   * files. Unless `output.moduleNames` is `ids`, modules named after their ids
+   * are given descriptive names first. Returns undefined for inputs that are
+   * not bundles; those are processed as usual, so webcrack runs on them a
+   * second time.
    */
-  private createPipeline(): ProcessingPipeline {
+  private async processBundle(
+    input: ProcessingInput,
+    unpackSteps: ProcessingStep[],
+    inputPath: string,
+    outputPath: string,
+    startTime: number,
+    jobId?: string,
+    checkpoints?: ChunkCheckpointStore
+  ): Promise<ProcessedFile | undefined> {
     const builder = new PipelineBuilder();
+    unpackSteps.forEach(step => builder.addStep(step));
+    const unpacked = await builder.build().execute(input, jobId);
+
+    const bundle = unpacked.metadata.bundle;
+    if (!unpacked.success || !bundle || bundle.modules.length < 2) {
+      return undefined;
+    }
+
+    const moduleDir = MainProcessor.moduleDirectory(outputPath);
+
+    const semaphore = new Semaphore(this.config.processing.concurrency);
+    const processed = await Promise.all(bundle.modules.map(async module => {
+      await semaphore.acquire();
+      try {
+        return await this.processModule(module, inputPath, moduleDir, jobId, checkpoints);
+      } finally {
+        semaphore.release();
+      }
+    }));
+
+    const linked = this.linkModules(bundle.modules, processed);
+    const layout = this.config.output.moduleNames !== 'ids'
+      ? await this.arrangeModules(bundle.modules, processed, linked.code)
+      : undefined;
+    const pathOf = (module: BundleModule) => layout?.paths.get(module.id) ?? module.path;
+
+    const modules: ProcessedFile[] = [];
+    for (const [index, processedModule] of processed.entries()) {
+      const module = bundle.modules[index]!;
+      const id = module.id;
+      const code = layout?.code.get(id) ?? linked.code.get(id);
+      const file = { ...processedModule.file, outputPath: join(moduleDir, pathOf(module)) };
+      if (!file.success || code === undefined) {
+        modules.push(file);
+      } else if (this.options.dryRun) {
+        const warnings = [...file.preview!.warnings, ...(linked.warnings.get(id) ?? [])];
+        modules.push({ ...file, preview: { ...file.preview!, code, warnings } });
+      } else {
+        try {
+          // Maps would point at module code that exists only in memory
+          await this.writeOutput(code, file.outputPath);
+          modules.push(file);
+        } catch (error) {
+          modules.push({ ...file, success: false, error: ReScriptError.fromError(error, 'file-output').toProcessingError() });
+        }
+      }
+    }
+
+    if (!this.options.dryRun) {
+      const written = bundle.modules.filter((_, index) => modules[index]!.success);
+      const index = {
+        type: bundle.type,
+        entryId: bundle.entryId,
+        source: relative(moduleDir, inputPath).split('\\').join('/'),
+        modules: Object.fromEntries(written.map(module => [module.id, pathOf(module)])),
+      };
+
+      await mkdir(moduleDir, { recursive: true });
+      await writeFile(join(moduleDir, 'index.json'), JSON.stringify(index, null, 2), 'utf8');
+      console.log(`🗂️  Module index written: ${join(moduleDir, 'index.json')}`);
+    }
+
+    const failed = modules.filter(module => !module.success).length;
+    const cache = MainProcessor.sumCacheStatistics(modules);
+    const statistics = MainProcessor.sumStatistics(modules);
+    if (layout?.cost) {
+      statistics.cost = (statistics.cost ?? 0) + layout.cost;
+    }
+
+    return {
+      inputPath,
+      outputPath: moduleDir,
+      success: failed === 0,
+      ...(failed > 0 && {
+        error: new ReScriptError(
+          ErrorCode.UNKNOWN_ERROR,
+          `${failed} of ${modules.length} modules failed`,
+          'bundle'
+        ).toProcessingError(),
+      }),
+      statistics,
+      processingTime: Date.now() - startTime,
+      ...(cache && { cache }),
+      modules,
+    };
+  }
+
+  /**
+   * Write the original sources the input's source map carries
+   *
+   * The sources go to a directory named after the output file, as split
+   * modules do. Only when they are complete (see `SourceExtraction`) does
+   * nothing else run; otherwise the caller processes the input as well.
+   * Returns undefined for inputs whose map is missing, unreadable or holds no
+   * `sourcesContent`; those are processed as usual.
+   */
+  private async recoverSources(
+    code: string,
+    inputPath: string,
+    outputPath: string,
+    startTime: number
+  ): Promise<ProcessedFile | undefined> {
+    let loaded: Awaited<ReturnType<typeof readInputSourceMap>>;
+    try {
+      loaded = await readInputSourceMap(code, inputPath);
+    } catch (error) {
+      console.warn(`⚠️  Processing ${basename(inputPath)} as usual, its source map could not be read: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+
+    if (!loaded || !SourceExtractor.hasSources(loaded.map)) {
+      console.log(`ℹ️  ${basename(inputPath)} has no source map with original sources; processing it as usual`);
+      return undefined;
+    }
+
+    const extraction = new SourceExtractor().extract(loaded.map, stripSourceMappingURL(code).code);
+    const ext = extname(outputPath);
+    const sourceDir = ext ? outputPath.slice(0, -ext.length) : outputPath;
+    const percent = (extraction.coverage * 100).toFixed(1);
+    console.log(`🗺️  Recovered ${extraction.files.length} original source(s) covering ${percent}% of ${basename(inputPath)}`);
+    if (extraction.missing.length > 0) {
+      console.warn(`⚠️  ${extraction.missing.length} source(s) in the map have no content: ${extraction.missing.join(', ')}`);
+    }
+    if (!extraction.complete) {
+      console.warn(`⚠️  The sources leave part of ${basename(inputPath)} out; processing it as well`);
+    }
+
+    const files: ProcessedFile[] = [];
+    for (const source of extraction.files) {
+      const file: ProcessedFile = {
+        inputPath: `${inputPath}#${source.sources[0]}`,
+        outputPath: join(sourceDir, source.path),
+        success: true,
+        statistics: {
+          linesOfCode: source.content.split('\n').length,
+          functionsCount: 0,
+          variablesCount: 0,
+          complexityScore: 0,
+          tokensCount: 0,
+        },
+        processingTime: 0,
+      };
+
+      if (this.options.dryRun) {
+        files.push({ ...file, preview: { originalCode: '', code: source.content, renames: [], warnings: [] } });
+        continue;
+      }
+
+      try {
+        await this.writeOutput(source.content, file.outputPath);
+        files.push(file);
+      } catch (error) {
+        files.push({ ...file, success: false, error: ReScriptError.fromError(error, 'file-output').toProcessingError() });
+      }
+    }
+
+    const failed = files.filter(file => !file.success).length;
+
+    return {
+      inputPath,
+      outputPath: sourceDir,
+      success: failed === 0,
+      ...(failed > 0 && {
+        error: new ReScriptError(
+          ErrorCode.FILE_WRITE_ERROR,
+          `${failed} of ${files.length} sources could not be written`,
+          'file-output'
+        ).toProcessingError(),
+      }),
+      statistics: MainProcessor.sumStatistics(files),
+      processingTime: Date.now() - startTime,
+      modules: files,
+      recovered: {
+        sourceMap: loaded.location,
+        files: extraction.files.length,
+        missing: extraction.missing,
+        coverage: extraction.coverage,
+        complete: extraction.complete,
+      },
+    };
+  }
+
+  /**
+   * Carry exports renamed in one module over to the modules importing them
+   *
+   * Returns the code to write for every processed module, and warnings for
+   * exports that kept their names.
+   */
+  private linkModules(
+    modules: BundleModule[],
+    processed: ProcessedModule[]
+  ): { code: Map<string, string>; warnings: Map<string, string[]> } {
+    const sources: ModuleSource[] = modules.flatMap((module, index) => {
+      const { code, renames } = processed[index]!;
+      return code === undefined ? [] : [{ id: module.id, path: module.path, isEntry: module.isEntry, code, renames }];
+    });
+    const warnings = new Map<string, string[]>();
+
+    try {
+      const result = new CrossModuleRenamer().propagate(sources);
+
+      for (const { moduleId, name, requestedName, reason } of result.conflicts) {
+        const warning = `Kept export ${name} instead of ${requestedName}: ${reason}`;
+        console.warn(`⚠️  Module ${moduleId}: ${warning}`);
+        warnings.set(moduleId, [...(warnings.get(moduleId) ?? []), warning]);
+      }
+
+      if (result.renamed.length > 0) {
+        const importers = new Set(result.renamed.flatMap(rename => rename.importers));
+        console.log(`🔗 Renamed ${result.renamed.length} export(s) across ${importers.size} importing module(s)`);
+      }
+
+      return { code: result.code, warnings };
+    } catch (error) {
+      console.warn(`⚠️  Export names were not carried across modules: ${error instanceof Error ? error.message : String(error)}`);
+      return { code: new Map(sources.map(source => [source.id, source.code])), warnings };
+    }
+  }
+
+  /**
+   * Name the modules of a bundle after what they export and move them into
+   * folders, pointing their imports at the new files
+   *
+   * Returns the path and code of every processed module, and what asking the
+   * LLM for names cost; undefined when the modules keep their paths.
+   */
+  private async arrangeModules(
+    modules: BundleModule[],
+    processed: ProcessedModule[],
+    code: Map<string, string>
+  ): Promise<{ paths: Map<string, string>; code: Map<string, string>; cost: number } | undefined> {
+    const sources: ModuleSource[] = modules.flatMap(module => {
+      const linked = code.get(module.id);
+      return linked === undefined ? [] : [{ id: module.id, path: module.path, isEntry: module.isEntry, code: linked }];
+    });
+    const suggester = this.config.output.moduleNames === 'llm'
+      ? new LLMNameSuggester(ProviderFactory.createProvider(this.config.provider), this.costTracker)
+      : undefined;
+
+    try {
+      const layout = await new ModuleNamer(suggester?.suggest).assign(sources);
+      const rewritten = new ImportRewriter().rewrite(sources, layout.paths);
+
+      const origins = [...layout.origins.values()];
+      if (origins.length > 0) {
+        const counts = [...new Set(origins)].map(origin => `${origins.filter(other => other === origin).length} from ${origin === 'llm' ? 'the LLM' : origin}`);
+        console.log(`🏷️  Named ${origins.length} of ${sources.length} modules (${counts.join(', ')})`);
+      }
+
+      return { paths: layout.paths, code: rewritten, cost: suggester?.cost ?? 0 };
+    } catch (error) {
+      console.warn(`⚠️  Modules keep their paths: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Run a module unpacked from a bundle through the steps after webcrack
+   */
+  private async processModule(
+    module: BundleModule,
+    bundlePath: string,
+    moduleDir: string,
+    jobId?: string,
+    checkpoints?: ChunkCheckpointStore
+  ): Promise<ProcessedModule> {
+    const startTime = Date.now();
+    const inputPath = `${bundlePath}#${module.id}`;
+    const outputPath = join(moduleDir, module.path);
 
-    // Add steps based on configuration
-    builder
-      .addWebcrack({
-        timeout: 30000,
-        maxSize: 10 * 1024 * 1024,
-      })
-      .addBabel({
-        timeout: 15000,
+    try {
+      if (relative(moduleDir, outputPath).startsWith('..')) {
+        throw new ReScriptError(
+          ErrorCode.FILE_WRITE_ERROR,
+          `Module path leaves the output directory: ${module.path}`,
+          'file-output'
+        );
+      }
+
+      const pipeline = await this.createPipeline(checkpoints, jobId, inputPath, []);
+      const result = await pipeline.execute(this.createInput(module.code, inputPath, Buffer.byteLength(module.code)), jobId);
+
+      if (!result.success) {
+        throw new ReScriptError(
+          ErrorCode.UNKNOWN_ERROR,
+          `Processing failed: ${result.error?.message || 'Unknown error'}`,
+          'processing'
+        );
+      }
+
+      return {
+        file: {
+          inputPath,
+          outputPath,
+          success: true,
+          statistics: result.metadata.statistics,
+          processingTime: Date.now() - startTime,
+          ...(result.metadata.cache && { cache: result.metadata.cache }),
+          ...(this.options.dryRun && {
+            preview: {
+              originalCode: module.code,
+              code: result.code,
+              renames: result.metadata.renames ?? [],
+              warnings: result.warnings ?? [],
+            },
+          }),
+        },
+        code: result.code,
+        renames: result.metadata.renames,
+      };
+
+    } catch (error) {
+      return {
+        file: {
+          inputPath,
+          outputPath,
+          success: false,
+          error: ReScriptError.fromError(error, 'file-processing').toProcessingError(),
+          statistics: {
+            linesOfCode: 0,
+            functionsCount: 0,
+            variablesCount: 0,
+            complexityScore: 0,
+            tokensCount: 0,
+          },
+          processingTime: Date.now() - startTime,
+        },
+      };
+    }
+  }
+
+  /**
+   * Project the chunks, tokens, cost and time processing files would take
+   *
+   * Only the local steps run; the configured chunking is applied to their
+   * output and nothing is sent to the provider. Chunks the file cache already
+   * answers are not counted as requests. Plugins are not loaded.
+   */
+  async estimateFiles(inputPaths: string[]): Promise<RunEstimate> {
+    const provider = ProviderFactory.createProvider(this.getEstimateConfig().provider);
+    const rateLimits = provider.getRateLimits();
+    const files: FileEstimate[] = [];
+    const requests: ProjectedRequest[] = [];
+
+    for (const inputPath of inputPaths) {
+      const file = await this.planFile(inputPath);
+      files.push(file.estimate);
+      requests.push(...file.requests);
+    }
+
+    // Files run `concurrency` at a time, each sending 3 chunks at once
+    const totals = sumEstimates(files, estimateMinutes(requests, rateLimits, this.config.processing.concurrency * 3));
+
+    return {
+      provider: this.config.provider.name,
+      model: this.config.provider.model,
+      rateLimits,
+      totals,
+      files,
+      comparison: ProviderFactory.getCostEstimates(totals.promptTokens, totals.completionTokens),
+    };
+  }
+
+  /**
+   * Project the work for a single file
+   */
+  async estimateFile(inputPath: string): Promise<FileEstimate> {
+    return (await this.planFile(inputPath)).estimate;
+  }
+
+  private async planFile(inputPath: string): Promise<{ estimate: FileEstimate; requests: ProjectedRequest[] }> {
+    try {
+      const code = await readFile(inputPath, 'utf8');
+      const fileStats = await stat(inputPath);
+
+      const builder = new PipelineBuilder();
+      this.addLocalSteps(builder);
+      const local = await builder.build().execute(this.createInput(code, inputPath, fileStats.size));
+
+      if (!local.success) {
+        throw new ReScriptError(
+          ErrorCode.UNKNOWN_ERROR,
+          `Processing failed: ${local.error?.message || 'Unknown error'}`,
+          'estimate'
+        );
+      }
+
+      const input: ProcessingInput = { code: local.code, metadata: local.metadata, config: this.getEstimateConfig() as any };
+      // Only the file cache can answer without a connection
+      const transformer = LLMTransformer.fromConfig(input, {
+        cache: this.config.processing.caching.backend === 'file' ? this.getCache() : undefined,
       });
+      const provider = transformer.getProvider();
+      const tracker = new CostTracker();
+
+      const planned = await transformer.plan(input);
+      const requests = planned.filter(({ cached }) => !cached).map(({ request }): ProjectedRequest => {
+        const promptTokens = provider.getTokenBudget(request.knownNames).promptTokens + provider.getTokenizer().count(request.code);
+        return {
+          promptTokens,
+          completionTokens: Math.min(tracker.projectCompletionTokens(promptTokens), provider.getMaxResponseTokens(request)),
+        };
+      });
+
+      const work: WorkEstimate = {
+        chunks: planned.length,
+        requests: requests.length,
+        promptTokens: requests.reduce((sum, request) => sum + request.promptTokens, 0),
+        completionTokens: requests.reduce((sum, request) => sum + request.completionTokens, 0),
+        cost: requests.reduce((sum, request) => sum + provider.getCost(request.promptTokens, request.completionTokens), 0),
+        // A file's chunks are sent 3 at a time
+        minutes: estimateMinutes(requests, provider.getRateLimits(), 3),
+      };
+
+      return { estimate: { inputPath, success: true, ...work }, requests };
+
+    } catch (error) {
+      return {
+        estimate: {
+          inputPath,
+          success: false,
+          error: ReScriptError.fromError(error, 'estimate').toProcessingError(),
+          ...sumEstimates([], 0),
+        },
+        requests: [],
+      };
+    }
+  }
+
+  /**
+   * Configuration for planning requests: providers are never asked for
+   * anything, so a missing API key does not matter and nothing is recorded
+   */
+  private getEstimateConfig(): ReScriptConfig {
+    return {
+      ...this.config,
+      provider: { ...this.config.provider, apiKey: this.config.provider.apiKey || 'dummy', record: false },
+    };
+  }
+
+  /**
+   * Create processing pipeline
+   *
+   * Plugin transformers are slotted in by stage: `pre` after Babel and before
+   * the LLM, `llm` right after the LLM step, `post` after formatting.
+   * Suggestions streamed by the LLM step are reported for `currentFile`.
+   * `unpackSteps` replace name recovery and webcrack (see `addLocalSteps`).
+   */
+  private async createPipeline(
+    checkpoints?: ChunkCheckpointStore,
+    jobId?: string,
+    currentFile?: string,
+    unpackSteps?: ProcessingStep[]
+  ): Promise<ProcessingPipeline> {
+    const plugins = await this.getPluginManager();
+    const builder = new PipelineBuilder();
+
+    this.addLocalSteps(builder, unpackSteps);
+
+    plugins?.getSteps('pre').forEach(step => builder.addStep(step));
 
-    // Add LLM step manually since it needs config
-    const pipeline = builder.build();
-    
     // Create LLM transformer
+    const cache = this.getCache();
+    const costTracker = this.costTracker;
+    const reportSuggestions = (progress: LLMProgress) => this.emitProgress('progress', jobId, {
+      currentStep: progress.totalChunks > 1
+        ? `llm (${progress.chunksCompleted}/${progress.totalChunks} chunks)`
+        : 'llm',
+      stepsCompleted: progress.chunksCompleted,
+      totalSteps: progress.totalChunks,
+      percentage: Math.round((progress.chunksCompleted / progress.totalChunks) * 100),
+      currentFile,
+      suggestionsReceived: progress.suggestionsReceived,
+    });
     const llmTransformer = new (class implements ProcessingStep {
       name = 'llm';
       description = 'AI-powered variable and function renaming';
       
       async execute(input: ProcessingInput): Promise<ProcessingOutput> {
         const transformer = LLMTransformer.fromConfig(input, {
-          chunkSize: 10000,
           concurrency: 3,
           minConfidenceThreshold: 0.3,
+          cache,
+          checkpoints,
+          onProgress: reportSuggestions,
+          costTracker,
         });
         
         return transformer.execute(input);
       }
     });
 
-    pipeline.addStep(llmTransformer);
+    builder.addStep(llmTransformer);
+    plugins?.getSteps('llm').forEach(step => builder.addStep(step));
 
     // Add prettier step
     builder.addPrettier(this.config.output.prettierOptions);
+    plugins?.getSteps('post').forEach(step => builder.addStep(step));
+
+    const pipeline = builder.build();
+
+    if (plugins) {
+      plugins.getHooks('beforeProcessing').forEach(({ pluginName, hook }) => pipeline.addHook('beforeProcessing', pluginName, hook));
+      plugins.getHooks('afterProcessing').forEach(({ pluginName, hook }) => pipeline.addHook('afterProcessing', pluginName, hook));
+      plugins.getHooks('onError').forEach(({ pluginName, hook }) => pipeline.addHook('onError', pluginName, hook));
+    }
 
     // Set progress callback
     if (this.progressCallback) {
@@ -251,10 +959,148 @@ export class MainProcessor {
     return pipeline;
   }
 
+  /**
+   * Steps before the LLM that run locally: name recovery, webcrack and Babel
+   *
+   * `unpackSteps` stand in for the first two; pass none for code that is
+   * already unpacked.
+   */
+  private addLocalSteps(builder: PipelineBuilder, unpackSteps = this.createUnpackSteps()): void {
+    unpackSteps.forEach(step => builder.addStep(step));
+
+    builder.addBabel({
+      timeout: 15000,
+    });
+  }
+
+  private createUnpackSteps(keepModules = false): ProcessingStep[] {
+    const steps: ProcessingStep[] = [];
+
+    // Input source maps describe the file as read, so names are recovered first
+    if (this.config.processing.preserveSourceMaps) {
+      steps.push(new OriginalNamesTransformer());
+    }
+
+    steps.push(new WebcrackTransformer({
+      timeout: 30000,
+      maxSize: 10 * 1024 * 1024,
+      keepModules,
+    }));
+
+    return steps.map(step => new ReusableStep(step));
+  }
+
+  /**
+   * Processing input for a file as read
+   */
+  private createInput(code: string, inputPath: string, fileSize: number): ProcessingInput {
+    return {
+      code,
+      metadata: {
+        fileName: inputPath,
+        fileSize,
+        statistics: {
+          linesOfCode: code.split('\n').length,
+          functionsCount: this.estimateFunctions(code),
+          variablesCount: this.estimateVariables(code),
+          complexityScore: this.estimateComplexity(code),
+          tokensCount: getTokenizer(this.config.provider.name, this.config.provider.model).count(code),
+        },
+      },
+      config: this.config as any,
+    };
+  }
+
+  /**
+   * Load plugins once per processor when plugins are enabled
+   */
+  private async getPluginManager(): Promise<PluginManager | undefined> {
+    if (!this.config.advanced.enablePlugins) {
+      return undefined;
+    }
+
+    if (!this.pluginManager) {
+      const manager = new PluginManager(this.config.advanced);
+      this.pluginManager = manager.load().then(() => manager, async (error) => {
+        await manager.dispose();
+        throw error;
+      });
+    }
+
+    return this.pluginManager;
+  }
+
+  /**
+   * Response cache kept for the processor's lifetime, so every file (and
+   * every rerun in watch mode) shares it
+   */
+  private getCache(): CacheManager | undefined {
+    if (!this.config.processing.caching.enabled) {
+      return undefined;
+    }
+
+    if (!this.cache) {
+      this.cache = createCacheManager(this.config.processing.caching);
+    }
+
+    return this.cache;
+  }
+
+  /**
+   * Directory the modules of a bundle written to `outputPath` go into
+   */
+  static moduleDirectory(outputPath: string): string {
+    const ext = extname(outputPath);
+    return ext ? outputPath.slice(0, -ext.length) : outputPath;
+  }
+
+  /**
+   * Add up what processed files spent on LLM requests
+   */
+  static sumCost(results: ProcessedFile[]): number | undefined {
+    const cost = results.reduce((sum, result) => sum + (result.statistics?.cost ?? 0), 0);
+    return cost > 0 ? cost : undefined;
+  }
+
+  /**
+   * Add up the statistics of a bundle's modules
+   */
+  static sumStatistics(results: ProcessedFile[]): ProcessingStatistics {
+    const sum = (pick: (statistics: ProcessingStatistics) => number | undefined) =>
+      results.reduce((total, result) => total + (pick(result.statistics) ?? 0), 0);
+
+    return {
+      linesOfCode: sum(statistics => statistics.linesOfCode),
+      functionsCount: sum(statistics => statistics.functionsCount),
+      variablesCount: sum(statistics => statistics.variablesCount),
+      complexityScore: Math.max(0, ...results.map(result => result.statistics.complexityScore)),
+      tokensCount: sum(statistics => statistics.tokensCount),
+      promptTokens: sum(statistics => statistics.promptTokens),
+      completionTokens: sum(statistics => statistics.completionTokens),
+      cost: sum(statistics => statistics.cost),
+    };
+  }
+
+  /**
+   * Add up cache usage across processed files
+   */
+  static sumCacheStatistics(results: ProcessedFile[]): CacheStatistics | undefined {
+    const withCache = results.filter(result => result.cache);
+    if (withCache.length === 0) {
+      return undefined;
+    }
+
+    return withCache.reduce<CacheStatistics>((total, { cache }) => ({
+      hits: total.hits + cache!.hits,
+      misses: total.misses + cache!.misses,
+      tokensSaved: total.tokensSaved + cache!.tokensSaved,
+    }), { hits: 0, misses: 0, tokensSaved: 0 });
+  }
+
   /**
    * Generate output path
    */
-  private generateOutputPath(inputPath: string, outputDir?: string): string {
+  generateOutputPath(inputPath: string, outputDir?: string): string {
     if (outputDir) {
       if (this.options.preserveStructure) {
         // Preserve directory structure
@@ -284,9 +1130,37 @@ export class MainProcessor {
   }
 
   /**
-   * Write output file
+   * Point a composed map at its sources as seen from the output location
+   *
+   * Sources are the input file itself, or the absolute paths and URLs of the
+   * original sources when the map was composed with the input's own map.
    */
-  private async writeOutput(code: string, outputPath: string): Promise<void> {
+  private prepareSourceMap(
+    sourceMap: SourceMapData | undefined,
+    inputPath: string,
+    outputPath: string
+  ): SourceMapData | undefined {
+    if (!this.config.output.generateSourceMaps || !sourceMap) {
+      return undefined;
+    }
+
+    const fromOutput = (path: string) => relative(dirname(outputPath), path).split('\\').join('/');
+
+    return {
+      ...sourceMap,
+      file: basename(outputPath),
+      sources: sourceMap.sources.map(source => {
+        if (isAbsolute(source)) return fromOutput(source);
+        if (/^[a-z][\w+.-]+:/i.test(source)) return source;
+        return fromOutput(inputPath);
+      }),
+    };
+  }
+
+  /**
+   * Write output file, plus `<output>.map` when a source map is given
+   */
+  private async writeOutput(code: string, outputPath: string, sourceMap?: SourceMapData): Promise<void> {
     // Create directory if it doesn't exist
     const dir = dirname(outputPath);
     await mkdir(dir, { recursive: true });
@@ -310,6 +1184,15 @@ export class MainProcessor {
       }
     }
 
+    if (sourceMap) {
+      const mapPath = `${outputPath}.map`;
+      const separator = code.endsWith('\n') ? '' : '\n';
+      code = `${code}${separator}//# sourceMappingURL=${basename(mapPath)}\n`;
+
+      await writeFile(mapPath, JSON.stringify(sourceMap), 'utf8');
+      console.log(`🗺️  Source map written: ${mapPath}`);
+    }
+
     // Write the file
     await writeFile(outputPath, code, 'utf8');
     console.log(`📄 Output written: ${outputPath}`);
@@ -384,10 +1267,32 @@ export class MainProcessor {
   /**
    * Update configuration
    */
-  updateConfig(config: ReScriptConfig): void {
+  async updateConfig(config: ReScriptConfig): Promise<void> {
+    // Plugins are loaded again, from the new configuration, when next needed
+    await this.dispose();
+
+    // Keep cached responses unless the cache itself was reconfigured
+    if (JSON.stringify(config.processing.caching) !== JSON.stringify(this.config.processing.caching)) {
+      this.cache = undefined;
+    }
+
+    // A new cap starts a new budget; otherwise spending carries over
+    if (config.processing.budget !== this.config.processing.budget) {
+      this.costTracker = new CostTracker(config.processing.budget);
+    }
+
     this.config = config;
   }
 
+  /**
+   * Terminate the sandbox workers of loaded plugins
+   */
+  async dispose(): Promise<void> {
+    const manager = this.pluginManager;
+    this.pluginManager = undefined;
+    await manager?.then(loaded => loaded.dispose(), () => undefined);
+  }
+
   /**
    * Update options
    */
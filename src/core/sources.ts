@@ -0,0 +1,161 @@
+/**
+ * Recovers the original source tree a bundle's source map carries in
+ * `sourcesContent`
+ */
+
+import { TraceMap, decodedMappings } from '@jridgewell/trace-mapping';
+import { dirname, isAbsolute, posix, relative, sep } from 'path';
+import { SourceMapData } from '../types.js';
+import { toEncodedSourceMap } from '../utils/sourcemap.js';
+
+/**
+ * Scheme and host (or webpack namespace) of URL sources, as in `webpack://app/`
+ */
+const URL_PREFIX = /^[a-z][\w+.-]*:\/\/[^/]*/i;
+
+/**
+ * Coverage from which the recovered tree stands in for the bundle; what
+ * remains is bundler glue such as wrappers and the module registry
+ */
+const COMPLETE_COVERAGE = 0.99;
+
+/**
+ * A file of the original source tree
+ */
+export interface OriginalSource {
+  /** Path relative to the directory the tree is written to */
+  path: string;
+  content: string;
+  /** Map sources holding this content; more than one when duplicates were merged */
+  sources: string[];
+}
+
+export interface SourceExtraction {
+  files: OriginalSource[];
+  /** Map sources listed without content */
+  missing: string[];
+  /** Share of the bundle's non-whitespace characters mapped into a recovered source, from 0 to 1 */
+  coverage: number;
+  /** Whether every source has content and together they cover the bundle */
+  complete: boolean;
+}
+
+/**
+ * Turns the `sources` and `sourcesContent` of a map into files
+ *
+ * URL sources lose their scheme and host, so `webpack://app/./src/a.js`
+ * becomes `src/a.js`; loader queries are dropped. File sources, resolved
+ * to absolute paths when the map was read, are placed relative to the
+ * directory they all share. Leading `..` segments are dropped so every
+ * file stays inside the tree. Sources listed twice with the same content
+ * are written once; different content at the same path gets a numbered
+ * name.
+ */
+export class SourceExtractor {
+  /**
+   * Whether a map carries the content of any of its sources
+   */
+  static hasSources(map: SourceMapData): boolean {
+    return map.sourcesContent?.some(content => Boolean(content)) ?? false;
+  }
+
+  /**
+   * Extract the sources of `map`, measuring coverage against `code`, the
+   * bundle the map was generated for
+   */
+  extract(map: SourceMapData, code: string): SourceExtraction {
+    const paths = this.pathsOf(map.sources);
+    const byPath = new Map<string, OriginalSource>();
+    const recovered = new Set<number>();
+    const missing: string[] = [];
+
+    map.sources.forEach((source, index) => {
+      const content = map.sourcesContent?.[index] ?? '';
+      if (content === '') {
+        missing.push(source);
+        return;
+      }
+      recovered.add(index);
+
+      let path = paths[index]!;
+      for (let copy = 2; byPath.has(path) && byPath.get(path)!.content !== content; copy++) {
+        const ext = posix.extname(paths[index]!);
+        path = `${paths[index]!.slice(0, paths[index]!.length - ext.length)}-${copy}${ext}`;
+      }
+
+      const file = byPath.get(path);
+      if (!file) {
+        byPath.set(path, { path, content, sources: [source] });
+      } else if (!file.sources.includes(source)) {
+        file.sources.push(source);
+      }
+    });
+
+    const coverage = this.coverage(map, code, recovered);
+
+    return {
+      files: [...byPath.values()],
+      missing,
+      coverage,
+      complete: missing.length === 0 && coverage >= COMPLETE_COVERAGE,
+    };
+  }
+
+  /**
+   * Output path of every map source
+   */
+  private pathsOf(sources: string[]): string[] {
+    const local = sources.filter(source => !URL_PREFIX.test(source) && isAbsolute(source));
+    const root = local.length > 0 ? local.map(dirname).reduce(commonDir) : '';
+
+    return sources.map((source, index) => {
+      const path = URL_PREFIX.test(source)
+        ? source.replace(URL_PREFIX, '').replace(/[?#].*$/, '')
+        : isAbsolute(source) ? relative(root, source).split(sep).join('/') : source;
+
+      const segments = posix.normalize(`/${path}`).split('/').filter(segment => segment !== '' && segment !== '..');
+      return segments.length > 0 ? segments.join('/') : `source-${index}.js`;
+    });
+  }
+
+  /**
+   * Share of non-whitespace characters in `code` whose mapping points into
+   * one of the `recovered` sources
+   *
+   * A mapping covers its generated column up to the next mapping on the
+   * same line, or the end of the line.
+   */
+  private coverage(map: SourceMapData, code: string, recovered: Set<number>): number {
+    const lines = code.split('\n');
+    const mappings = decodedMappings(new TraceMap(toEncodedSourceMap(map)));
+    let total = 0;
+    let covered = 0;
+
+    lines.forEach((line, index) => {
+      total += countVisible(line);
+
+      const segments = mappings[index] ?? [];
+      segments.forEach((segment, position) => {
+        if (segment.length > 1 && recovered.has(segment[1]!)) {
+          covered += countVisible(line.slice(segment[0], segments[position + 1]?.[0] ?? line.length));
+        }
+      });
+    });
+
+    return total === 0 ? 0 : covered / total;
+  }
+}
+
+function countVisible(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+function commonDir(a: string, b: string): string {
+  const left = a.split(sep);
+  const right = b.split(sep);
+  let shared = 0;
+  while (shared < left.length && left[shared] === right[shared]) {
+    shared++;
+  }
+  return left.slice(0, shared).join(sep) || sep;
+}
@@ -0,0 +1,495 @@
+/**
+ * Project-level symbol table for the modules of an unpacked bundle, and the
+ * pass that carries renamed exports over to the modules importing them
+ */
+
+import { posix } from 'path';
+import { traverse, types as t, type NodePath } from '@babel/core';
+import { RenameRecord } from '../types.js';
+import { parseCode, type Binding } from '../utils/ast.js';
+import { RenameConflictResolver } from '../transformers/conflicts.js';
+
+export interface ModuleSource {
+  id: string;
+  /** Path relative to the bundle's output directory, which imports resolve against */
+  path: string;
+  code: string;
+  isEntry: boolean;
+  /** Renames the pipeline applied to the module */
+  renames?: RenameRecord[];
+}
+
+/**
+ * A name a module exports, with every spot in the module spelling it
+ */
+export interface ExportSite {
+  name: string;
+  /** Local binding exported under the name, when there is one */
+  local?: string;
+  /** `export { local as name }` specifiers */
+  specifiers: t.ExportSpecifier[];
+  /** `exports.name` and `module.exports.name` properties */
+  properties: (t.Identifier | t.StringLiteral)[];
+}
+
+/**
+ * A use of another module's export
+ */
+export interface ImportUse {
+  target: string;
+  name: string;
+  /** Property spelling the name: `ns.name` or `require(...).name` */
+  property?: t.Identifier | t.StringLiteral;
+  /** `import { name }` or `const { name } = require(...)`, whose local binding may follow the rename */
+  binding?: { node: t.ImportSpecifier | t.ObjectProperty; key: t.Identifier | t.StringLiteral; local: Binding };
+}
+
+export interface ModuleSymbols {
+  source: ModuleSource;
+  exports: Map<string, ExportSite>;
+  uses: ImportUse[];
+}
+
+export interface ExportRename {
+  moduleId: string;
+  from: string;
+  to: string;
+  /** Modules whose imports were updated */
+  importers: string[];
+}
+
+export interface ExportConflict {
+  moduleId: string;
+  name: string;
+  requestedName: string;
+  reason: string;
+}
+
+export interface PropagationResult {
+  /** Code of every module, by id, with renamed exports applied */
+  code: Map<string, string>;
+  renamed: ExportRename[];
+  conflicts: ExportConflict[];
+}
+
+/**
+ * Text replacement in a module's code
+ */
+export interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * Exports of each module and where other modules use them
+ *
+ * ESM exports and imports are tracked, as are CommonJS `exports.name`
+ * assignments and `require()` results used through static property access
+ * or destructuring. A module whose exports are read in a way that cannot be
+ * followed (a namespace passed around, computed access, `export *`) is
+ * pinned: its export names have to stay as they are.
+ */
+export class SymbolTable {
+  private modules = new Map<string, ModuleSymbols>();
+  private pins = new Map<string, string>();
+
+  private constructor(private sources: ModuleSource[]) {}
+
+  /**
+   * Parse every module and link their imports to the modules they name
+   */
+  static build(sources: ModuleSource[]): SymbolTable {
+    const table = new SymbolTable(sources);
+    for (const source of sources) {
+      table.modules.set(source.id, table.analyze(source));
+    }
+    return table;
+  }
+
+  /**
+   * Names a module exports
+   */
+  exportsOf(id: string): string[] {
+    return [...(this.modules.get(id)?.exports.keys() ?? [])];
+  }
+
+  /**
+   * Modules using an export, in module order
+   */
+  importersOf(id: string, name: string): string[] {
+    return [...this.modules.values()]
+      .filter(module => module.uses.some(use => use.target === id && use.name === name))
+      .map(module => module.source.id);
+  }
+
+  /**
+   * Why a module's export names must be kept, if they must
+   */
+  pinReason(id: string): string | undefined {
+    return this.pins.get(id);
+  }
+
+  /**
+   * Module an import specifier refers to, from the importing module's path
+   */
+  resolve(fromPath: string, specifier: string): string | undefined {
+    if (!specifier.startsWith('.')) {
+      // Requires webcrack could not map to a path still name the module id
+      return this.sources.find(source => source.id === specifier)?.id;
+    }
+
+    const base = posix.normalize(posix.join(posix.dirname(fromPath), specifier));
+    const candidates = [base, `${base}.js`, posix.join(base, 'index.js')];
+    return this.sources.find(source => candidates.includes(posix.normalize(source.path)))?.id;
+  }
+
+  /**
+   * Exports and import uses of a module
+   */
+  getSymbols(id: string): ModuleSymbols | undefined {
+    return this.modules.get(id);
+  }
+
+  private pin(id: string | undefined, reason: string): void {
+    if (id !== undefined && !this.pins.has(id)) {
+      this.pins.set(id, reason);
+    }
+  }
+
+  private analyze(source: ModuleSource): ModuleSymbols {
+    const ast = parseCode(source.code);
+    const symbols: ModuleSymbols = { source, exports: new Map(), uses: [] };
+    const resolve = (specifier: string) => this.resolve(source.path, specifier);
+
+    const site = (name: string): ExportSite => {
+      let existing = symbols.exports.get(name);
+      if (!existing) {
+        existing = { name, specifiers: [], properties: [] };
+        symbols.exports.set(name, existing);
+      }
+      return existing;
+    };
+
+    const collectNamespace = (binding: Binding | undefined, target: string) => {
+      if (!binding) return;
+      if (binding.constantViolations.length > 0) {
+        this.pin(target, `its exports object is reassigned in ${source.path}`);
+        return;
+      }
+
+      for (const reference of binding.referencePaths) {
+        const parent = reference.parentPath;
+        const property = parent && (parent.isMemberExpression() || parent.isOptionalMemberExpression()) && parent.node.object === reference.node
+          ? staticProperty(parent.node)
+          : undefined;
+
+        if (!property) {
+          this.pin(target, `${source.path} uses its exports as a whole`);
+          continue;
+        }
+
+        symbols.uses.push({ target, name: nameOf(property), property });
+      }
+    };
+
+    traverse(ast, {
+      ExportNamedDeclaration: (path) => {
+        const { node } = path;
+        if (node.source) {
+          this.pin(resolve(node.source.value), `${source.path} re-exports it`);
+          return;
+        }
+
+        if (node.declaration) {
+          for (const name of Object.keys(t.getBindingIdentifiers(node.declaration))) {
+            site(name).local = name;
+          }
+        }
+
+        for (const specifier of node.specifiers) {
+          if (t.isExportSpecifier(specifier)) {
+            const exported = site(nameOf(specifier.exported));
+            exported.local = specifier.local.name;
+            exported.specifiers.push(specifier);
+          }
+        }
+      },
+
+      ExportAllDeclaration: (path) => {
+        this.pin(resolve(path.node.source.value), `${source.path} re-exports it with export *`);
+      },
+
+      ImportDeclaration: (path) => {
+        const target = resolve(path.node.source.value);
+        if (target === undefined) return;
+
+        for (const specifier of path.node.specifiers) {
+          if (t.isImportNamespaceSpecifier(specifier)) {
+            collectNamespace(path.scope.getBinding(specifier.local.name), target);
+          } else if (t.isImportSpecifier(specifier)) {
+            const local = path.scope.getBinding(specifier.local.name);
+            if (local) {
+              symbols.uses.push({
+                target,
+                name: nameOf(specifier.imported),
+                binding: { node: specifier, key: specifier.imported, local },
+              });
+            }
+          }
+        }
+      },
+
+      CallExpression: (path) => {
+        const specifier = requiredSpecifier(path);
+        if (specifier === undefined) return;
+
+        const target = resolve(specifier);
+        if (target === undefined) return;
+
+        if (t.isImport(path.node.callee)) {
+          this.pin(target, `${source.path} imports it dynamically`);
+          return;
+        }
+
+        const parent = path.parentPath;
+        if ((parent.isMemberExpression() || parent.isOptionalMemberExpression()) && parent.node.object === path.node) {
+          const property = staticProperty(parent.node);
+          if (property) {
+            symbols.uses.push({ target, name: nameOf(property), property });
+          } else {
+            this.pin(target, `${source.path} reads its exports by computed name`);
+          }
+        } else if (parent.isVariableDeclarator() && parent.node.init === path.node && t.isIdentifier(parent.node.id)) {
+          collectNamespace(parent.scope.getBinding(parent.node.id.name), target);
+        } else if (parent.isVariableDeclarator() && parent.node.init === path.node && t.isObjectPattern(parent.node.id)) {
+          for (const property of parent.node.id.properties) {
+            const local = t.isObjectProperty(property) && t.isIdentifier(property.value)
+              ? parent.scope.getBinding(property.value.name)
+              : undefined;
+
+            if (!t.isObjectProperty(property) || property.computed || !local || !(t.isIdentifier(property.key) || t.isStringLiteral(property.key))) {
+              this.pin(target, `${source.path} destructures its exports dynamically`);
+              continue;
+            }
+
+            symbols.uses.push({
+              target,
+              name: nameOf(property.key),
+              binding: { node: property, key: property.key, local },
+            });
+          }
+        } else if (!parent.isExpressionStatement()) {
+          this.pin(target, `${source.path} uses its exports as a whole`);
+        }
+      },
+
+      MemberExpression: (path) => {
+        if (isModuleExports(path)) {
+          // `module.exports.name` is handled from the outer member expression
+          const parent = path.parentPath;
+          if (!(parent.isMemberExpression() && parent.node.object === path.node)) {
+            this.pin(source.id, 'it assigns or reads module.exports as a whole');
+          }
+          return;
+        }
+
+        const object = path.get('object');
+        if (!isModuleExports(object) && !isFreeIdentifier(object, 'exports')) return;
+
+        const property = staticProperty(path.node);
+        if (!property) {
+          this.pin(source.id, 'it accesses exports by computed name');
+          return;
+        }
+
+        const exported = site(nameOf(property));
+        exported.properties.push(property);
+
+        const assignment = path.parentPath;
+        if (assignment.isAssignmentExpression() && assignment.node.left === path.node && t.isIdentifier(assignment.node.right)) {
+          exported.local = assignment.node.right.name;
+        }
+      },
+
+      Identifier: (path) => {
+        if (isFreeIdentifier(path, 'exports') && path.isReferencedIdentifier()) {
+          const parent = path.parentPath;
+          if (!(parent.isMemberExpression() && parent.node.object === path.node)) {
+            this.pin(source.id, 'it uses its exports object as a whole');
+          }
+        }
+      },
+    });
+
+    return symbols;
+  }
+}
+
+/**
+ * Renames exports after the local bindings the pipeline renamed, in the
+ * exporting module and at every site importing them
+ *
+ * The renamer keeps export names intact (`export { add as a }`), so each
+ * module is consistent on its own; this pass makes the public names follow.
+ * Only exports whose binding was renamed from the exported name are
+ * changed. Exports of the entry module are the bundle's interface and keep
+ * their names.
+ */
+export class CrossModuleRenamer {
+  private resolver = new RenameConflictResolver();
+
+  propagate(sources: ModuleSource[]): PropagationResult {
+    const table = SymbolTable.build(sources);
+    const edits = new Map<string, Edit[]>(sources.map(source => [source.id, []]));
+    const renamed: ExportRename[] = [];
+    const conflicts: ExportConflict[] = [];
+
+    for (const source of sources) {
+      if (source.isEntry) continue;
+
+      const symbols = table.getSymbols(source.id)!;
+      const taken = new Set(symbols.exports.keys());
+
+      for (const exported of symbols.exports.values()) {
+        const requestedName = this.acceptedName(source, exported);
+        if (requestedName === undefined) continue;
+
+        const reason = table.pinReason(source.id)
+          ?? (taken.has(requestedName) ? `'${requestedName}' is already exported by ${source.path}` : undefined);
+        if (reason) {
+          conflicts.push({ moduleId: source.id, name: exported.name, requestedName, reason });
+          continue;
+        }
+
+        taken.delete(exported.name);
+        taken.add(requestedName);
+
+        const own = edits.get(source.id)!;
+        for (const specifier of exported.specifiers) {
+          const local = specifier.local.name;
+          own.push(replace(specifier, local === requestedName ? local : `${local} as ${requestedName}`));
+        }
+        exported.properties.forEach(property => own.push(rename(property, requestedName)));
+
+        const importers = table.importersOf(source.id, exported.name);
+        for (const importer of importers) {
+          const uses = table.getSymbols(importer)!.uses.filter(use => use.target === source.id && use.name === exported.name);
+          uses.forEach(use => edits.get(importer)!.push(...this.updateUse(use, requestedName)));
+        }
+
+        renamed.push({ moduleId: source.id, from: exported.name, to: requestedName, importers });
+      }
+    }
+
+    const code = new Map(sources.map(source => [source.id, applyEdits(source.code, edits.get(source.id)!)]));
+    return { code, renamed, conflicts };
+  }
+
+  /**
+   * New export name when the exported binding was renamed from the export name
+   */
+  private acceptedName(source: ModuleSource, exported: ExportSite): string | undefined {
+    const { local, name } = exported;
+    if (!local || local === name || name === 'default') return undefined;
+
+    const accepted = source.renames?.some(rename =>
+      rename.originalName === name && rename.newName === local && rename.functionPath === ''
+    );
+    return accepted ? local : undefined;
+  }
+
+  private updateUse(use: ImportUse, newName: string): Edit[] {
+    if (use.property) {
+      return [rename(use.property, newName)];
+    }
+
+    const { node, key, local } = use.binding!;
+    const localName = local.identifier.name;
+
+    if (localName === newName) {
+      return [replace(node, newName)];
+    }
+
+    // An alias the importer chose stays; only the imported name changes
+    if (localName !== use.name) {
+      return [rename(key, newName)];
+    }
+
+    // The local binding takes the new name too, unless that would clash
+    if (local.constantViolations.length > 0 || this.resolver.findConflict(local, newName)) {
+      return t.isImportSpecifier(node)
+        ? [replace(node, `${newName} as ${localName}`)]
+        : [replace(node, `${newName}: ${localName}`)];
+    }
+
+    return [
+      replace(node, newName),
+      ...local.referencePaths.map(reference => {
+        const parent = reference.parent;
+        if (t.isObjectProperty(parent) && parent.shorthand) {
+          return replace(parent, `${localName}: ${newName}`);
+        }
+        if (t.isExportSpecifier(parent) && parent.local === reference.node && nameOf(parent.exported) === localName) {
+          return replace(parent, `${newName} as ${localName}`);
+        }
+        return replace(reference.node, newName);
+      }),
+    ];
+  }
+}
+
+export function replace(node: t.Node, text: string): Edit {
+  return { start: node.start!, end: node.end!, text };
+}
+
+/**
+ * Respell a name, keeping the quotes of a string literal
+ */
+function rename(node: t.Identifier | t.StringLiteral, name: string): Edit {
+  return t.isStringLiteral(node)
+    ? { start: node.start! + 1, end: node.end! - 1, text: name }
+    : replace(node, name);
+}
+
+export function applyEdits(code: string, edits: Edit[]): string {
+  return [...edits]
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+}
+
+function nameOf(node: t.Identifier | t.StringLiteral): string {
+  return t.isIdentifier(node) ? node.name : node.value;
+}
+
+/**
+ * Property of `object.name` or `object["name"]`
+ */
+function staticProperty(node: t.MemberExpression | t.OptionalMemberExpression): t.Identifier | t.StringLiteral | undefined {
+  if (!node.computed && t.isIdentifier(node.property)) return node.property;
+  if (node.computed && t.isStringLiteral(node.property)) return node.property;
+  return undefined;
+}
+
+/**
+ * Specifier of `require("...")` or `import("...")`
+ */
+export function requiredSpecifier(path: NodePath<t.CallExpression>): string | undefined {
+  const { callee, arguments: args } = path.node;
+  const isRequire = t.isIdentifier(callee, { name: 'require' }) && !path.scope.hasBinding('require');
+  if (!isRequire && !t.isImport(callee)) return undefined;
+
+  const [argument] = args;
+  if (t.isStringLiteral(argument)) return argument.value;
+  if (t.isNumericLiteral(argument)) return String(argument.value);
+  return undefined;
+}
+
+function isFreeIdentifier(path: NodePath, name: string): boolean {
+  return path.isIdentifier({ name }) && !path.scope.hasBinding(name);
+}
+
+export function isModuleExports(path: NodePath): boolean {
+  if (!path.isMemberExpression() || path.node.computed) return false;
+  return isFreeIdentifier(path.get('object'), 'module') && t.isIdentifier(path.node.property, { name: 'exports' });
+}
@@ -0,0 +1,185 @@
+/**
+ * Debounced file watching for watch mode
+ */
+
+import { watch, Dirent, FSWatcher } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import { basename, dirname, join, resolve, sep } from 'path';
+
+export interface InputWatcherOptions {
+  /** Quiet period after the last change before a batch is emitted */
+  debounceMs?: number;
+  /** Paths to drop before batching, e.g. files written by the watcher's own handler */
+  ignore?: (path: string) => boolean;
+}
+
+export type ChangeHandler = (paths: string[]) => Promise<void>;
+
+/**
+ * Watches files and directories (recursively) and hands changed paths to a
+ * handler in debounced batches. Batches never overlap: changes arriving
+ * while the handler runs are queued for the next batch.
+ */
+export class InputWatcher {
+  private watchers: FSWatcher[] = [];
+  /** Per-directory watchers where recursive watching is unavailable */
+  private treeWatchers = new Map<string, FSWatcher>();
+  private pending = new Set<string>();
+  private timer?: NodeJS.Timeout;
+  private running?: Promise<void>;
+  private closed = false;
+  private debounceMs: number;
+  private ignore: (path: string) => boolean;
+
+  constructor(
+    private readonly paths: string[],
+    private readonly onChange: ChangeHandler,
+    options: InputWatcherOptions = {}
+  ) {
+    this.debounceMs = options.debounceMs ?? 300;
+    this.ignore = options.ignore ?? (() => false);
+  }
+
+  /**
+   * Start watching; files are watched through their directory so that
+   * editors replacing a file on save are still noticed
+   */
+  async start(): Promise<void> {
+    for (const path of this.paths.map(p => resolve(p))) {
+      const stats = await stat(path);
+
+      if (stats.isDirectory()) {
+        await this.watchTree(path);
+      } else {
+        const name = basename(path);
+        this.watchDirectory(dirname(path), false, file => file === name);
+      }
+    }
+  }
+
+  /**
+   * Stop watching and wait for a running batch to finish
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    clearTimeout(this.timer);
+    this.watchers.forEach(watcher => watcher.close());
+    this.watchers = [];
+    this.treeWatchers.clear();
+    this.pending.clear();
+    await this.running;
+  }
+
+  /**
+   * Watch a directory and everything below it
+   *
+   * Recursive `fs.watch` is unavailable on Linux before Node 20; there each
+   * directory gets a watcher of its own instead.
+   */
+  private async watchTree(directory: string): Promise<void> {
+    try {
+      this.watchDirectory(directory, true, () => true);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM') throw error;
+      await this.watchEachDirectory(directory, false);
+    }
+  }
+
+  /**
+   * Watch `directory` and its subdirectories one by one; with `report`, the
+   * files already in them are queued, as for a directory that just appeared
+   */
+  private async watchEachDirectory(directory: string, report: boolean): Promise<void> {
+    if (this.closed || this.treeWatchers.has(directory)) return;
+
+    const watcher = this.watchDirectory(directory, false, () => true, path => this.followTree(path));
+    this.treeWatchers.set(directory, watcher);
+
+    let entries: Dirent[];
+    try {
+      entries = await readdir(directory, { withFileTypes: true });
+    } catch {
+      return;
+    }
+
+    await Promise.all(entries.map(entry => {
+      const path = join(directory, entry.name);
+      if (entry.isDirectory()) return this.watchEachDirectory(path, report);
+      if (report) this.queue(path);
+      return undefined;
+    }));
+  }
+
+  /**
+   * Start watching a directory created below a watched one, and stop
+   * watching one that was removed so it is picked up again if recreated
+   */
+  private async followTree(path: string): Promise<void> {
+    try {
+      if ((await stat(path)).isDirectory()) {
+        await this.watchEachDirectory(path, true);
+      }
+    } catch {
+      for (const [directory, watcher] of this.treeWatchers) {
+        if (directory === path || directory.startsWith(path + sep)) {
+          watcher.close();
+          this.treeWatchers.delete(directory);
+        }
+      }
+    }
+  }
+
+  private watchDirectory(
+    directory: string,
+    recursive: boolean,
+    accept: (file: string) => boolean,
+    onPath?: (path: string) => Promise<void>
+  ): FSWatcher {
+    const watcher = watch(directory, { recursive }, (_event, file) => {
+      if (!file) return;
+
+      const name = file.toString();
+      if (!accept(name)) return;
+
+      const path = resolve(directory, name);
+      this.queue(path);
+      void onPath?.(path);
+    });
+
+    watcher.on('error', error => {
+      console.warn(`⚠️  Watcher error for ${directory}: ${error.message}`);
+    });
+
+    this.watchers.push(watcher);
+    return watcher;
+  }
+
+  private queue(path: string): void {
+    if (this.closed || this.ignore(path)) return;
+
+    this.pending.add(path);
+    clearTimeout(this.timer);
+    this.timer = setTimeout(() => this.flush(), this.debounceMs);
+  }
+
+  private flush(): void {
+    if (this.closed || this.pending.size === 0) return;
+
+    // Wait for the running batch; its completion flushes what queued meanwhile
+    if (this.running) return;
+
+    // Ignore rules may have changed since queueing, e.g. newly written outputs
+    const batch = [...this.pending].filter(path => !this.ignore(path));
+    this.pending.clear();
+    if (batch.length === 0) return;
+
+    this.running = this.onChange(batch)
+      .catch(error => {
+        console.error(`❌ Watch handler failed: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        this.running = undefined;
+        this.flush();
+      });
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Plugin discovery, validation and pipeline integration
+ */
+
+import { glob } from 'glob';
+import { stat } from 'fs/promises';
+import { resolve } from 'path';
+import { pathToFileURL } from 'url';
+import {
+  AdvancedConfig,
+  Plugin,
+  PluginHooks,
+  ProcessingInput,
+  ProcessingOutput,
+  ProcessingStep,
+  Transformer,
+} from '../types.js';
+import { PluginLoadError, PluginExecutionError, ReScriptError } from '../utils/errors.js';
+import { PluginSandbox } from './sandbox.js';
+
+const DEFAULT_PRIORITY = 50;
+const STAGES: Transformer['stage'][] = ['pre', 'llm', 'post'];
+
+export interface LoadedPlugin {
+  plugin: Plugin;
+  path: string;
+  priority: number;
+  options: Record<string, unknown>;
+}
+
+export interface PluginLoadFailure {
+  path: string;
+  error: ReScriptError;
+}
+
+/**
+ * Named hooks in pipeline execution order
+ */
+export interface PipelineHook<K extends keyof PluginHooks> {
+  pluginName: string;
+  hook: NonNullable<PluginHooks[K]>;
+}
+
+/**
+ * Adapts a plugin transformer to a pipeline step
+ */
+export class PluginTransformerStep implements ProcessingStep {
+  public readonly name: string;
+  public readonly description: string;
+
+  constructor(
+    private readonly plugin: Plugin,
+    private readonly transformer: Transformer
+  ) {
+    this.name = `${plugin.name}:${transformer.name}`;
+    this.description = `${plugin.description} (${transformer.stage} stage)`;
+  }
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    try {
+      const output = await this.transformer.transform(input);
+
+      if (!output || typeof output.code !== 'string') {
+        throw new Error(`transformer '${this.transformer.name}' returned no code`);
+      }
+
+      return { ...output, metadata: output.metadata ?? input.metadata };
+    } catch (error) {
+      if (error instanceof ReScriptError) {
+        throw error;
+      }
+
+      throw new PluginExecutionError(
+        this.plugin.name,
+        error instanceof Error ? error.message : String(error),
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+}
+
+export class PluginManager {
+  private config: AdvancedConfig;
+  private baseDir: string;
+  private plugins: LoadedPlugin[] = [];
+  private failures: PluginLoadFailure[] = [];
+  private sandboxes: PluginSandbox[] = [];
+
+  constructor(config: AdvancedConfig, baseDir: string = process.cwd()) {
+    this.config = config;
+    this.baseDir = baseDir;
+  }
+
+  /**
+   * Find plugin modules under the discovery paths and explicit plugin paths
+   */
+  async discover(): Promise<string[]> {
+    const { discovery } = this.config.pluginConfig;
+    const found: string[] = [];
+
+    const searchDirectory = async (directory: string) => {
+      for (const pattern of discovery.patterns) {
+        const matches = await glob(pattern, {
+          cwd: directory,
+          absolute: true,
+          nodir: true,
+          ignore: discovery.excludePatterns,
+        });
+        found.push(...matches.sort());
+      }
+    };
+
+    for (const path of discovery.paths) {
+      await searchDirectory(resolve(this.baseDir, path));
+    }
+
+    // Explicit entries may name a module directly or a directory to search
+    for (const path of this.config.pluginPaths) {
+      const absolute = resolve(this.baseDir, path);
+      try {
+        const stats = await stat(absolute);
+        if (stats.isDirectory()) {
+          await searchDirectory(absolute);
+        } else {
+          found.push(absolute);
+        }
+      } catch {
+        this.failures.push({ path: absolute, error: new PluginLoadError(absolute, 'path does not exist') });
+      }
+    }
+
+    return [...new Set(found)];
+  }
+
+  /**
+   * Discover, import and validate all enabled plugins
+   */
+  async load(): Promise<LoadedPlugin[]> {
+    const paths = await this.discover();
+    const { configs } = this.config.pluginConfig.execution;
+    const loaded: LoadedPlugin[] = [];
+
+    for (const path of paths) {
+      try {
+        const plugin = await this.importPlugin(path);
+        const pluginConfig = configs[plugin.name];
+
+        if (pluginConfig?.enabled === false) {
+          console.log(`⏭️  Plugin '${plugin.name}' is disabled, skipping`);
+          continue;
+        }
+
+        if (loaded.some(existing => existing.plugin.name === plugin.name)) {
+          throw new PluginLoadError(path, `a plugin named '${plugin.name}' is already loaded`);
+        }
+
+        const options = pluginConfig?.options ?? {};
+        await plugin.configure?.(options);
+
+        loaded.push({
+          plugin,
+          path,
+          priority: pluginConfig?.priority ?? DEFAULT_PRIORITY,
+          options,
+        });
+        console.log(`🔌 Loaded plugin '${plugin.name}' v${plugin.version}`);
+      } catch (error) {
+        const loadError = error instanceof ReScriptError
+          ? error
+          : new PluginLoadError(path, error instanceof Error ? error.message : String(error));
+        this.failures.push({ path, error: loadError });
+        console.warn(`⚠️  ${loadError.message}`);
+      }
+    }
+
+    this.plugins = loaded.sort((a, b) => b.priority - a.priority);
+    return this.plugins;
+  }
+
+  /**
+   * Pipeline steps for transformers of a stage, in execution order
+   *
+   * Transformers named in `execution.chains.transformers` run first in the
+   * listed order; the rest follow by plugin priority (higher first).
+   */
+  getSteps(stage: Transformer['stage']): ProcessingStep[] {
+    const chain = this.config.pluginConfig.execution.chains.transformers;
+    const entries = this.plugins.flatMap(loaded =>
+      (loaded.plugin.transformers ?? [])
+        .filter(transformer => transformer.stage === stage)
+        .map(transformer => ({ loaded, transformer }))
+    );
+
+    const chainIndex = (plugin: Plugin, transformer: Transformer) => {
+      const index = chain.findIndex(name =>
+        name === transformer.name || name === `${plugin.name}:${transformer.name}` || name === plugin.name
+      );
+      return index === -1 ? chain.length : index;
+    };
+
+    return entries
+      .map((entry, order) => ({ ...entry, order, chain: chainIndex(entry.loaded.plugin, entry.transformer) }))
+      .sort((a, b) => a.chain - b.chain || b.loaded.priority - a.loaded.priority || a.order - b.order)
+      .map(({ loaded, transformer }) => new PluginTransformerStep(loaded.plugin, transformer));
+  }
+
+  /**
+   * Hooks of a kind in execution order
+   *
+   * `execution.hooks.beforeTransform`, `afterTransform` and `onError` restrict
+   * and order the plugins whose `beforeProcessing`, `afterProcessing` and
+   * `onError` hooks run; without a list every loaded plugin participates.
+   */
+  getHooks<K extends keyof PluginHooks>(kind: K): PipelineHook<K>[] {
+    const hookLists = this.config.pluginConfig.execution.hooks;
+    const list = kind === 'beforeProcessing'
+      ? hookLists.beforeTransform
+      : kind === 'afterProcessing'
+        ? hookLists.afterTransform
+        : hookLists.onError;
+
+    const plugins = list && list.length > 0
+      ? list
+        .map(name => this.plugins.find(loaded => loaded.plugin.name === name))
+        .filter((loaded): loaded is LoadedPlugin => loaded !== undefined)
+      : this.plugins;
+
+    return plugins
+      .filter(loaded => typeof loaded.plugin.hooks?.[kind] === 'function')
+      .map(loaded => ({
+        pluginName: loaded.plugin.name,
+        hook: loaded.plugin.hooks![kind]!.bind(loaded.plugin.hooks) as NonNullable<PluginHooks[K]>,
+      }));
+  }
+
+  getPlugins(): LoadedPlugin[] {
+    return [...this.plugins];
+  }
+
+  getFailures(): PluginLoadFailure[] {
+    return [...this.failures];
+  }
+
+  /**
+   * Terminate sandbox workers of loaded plugins
+   */
+  async dispose(): Promise<void> {
+    await Promise.all(this.sandboxes.map(sandbox => sandbox.dispose()));
+    this.sandboxes = [];
+  }
+
+  /**
+   * Import a module and extract a validated plugin from it
+   *
+   * With `security.sandbox` enabled (the default) the module is evaluated in
+   * a worker thread and only a message-passing proxy is returned.
+   */
+  private async importPlugin(path: string): Promise<Plugin> {
+    const { security } = this.config.pluginConfig;
+
+    if (security.sandbox !== false) {
+      const { plugin, sandbox } = await PluginSandbox.load(path, security, this.baseDir);
+      try {
+        const validated = this.validatePlugin(plugin, path);
+        this.sandboxes.push(sandbox);
+        return validated;
+      } catch (error) {
+        await sandbox.dispose();
+        throw error;
+      }
+    }
+
+    let exported: unknown;
+
+    try {
+      const module = await import(pathToFileURL(path).href);
+      exported = module.default ?? module.plugin ?? module;
+    } catch (error) {
+      throw new PluginLoadError(
+        path,
+        error instanceof Error ? error.message : String(error),
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    return this.validatePlugin(exported, path);
+  }
+
+  private validatePlugin(candidate: unknown, path: string): Plugin {
+    const problems: string[] = [];
+    const plugin = candidate as Partial<Plugin> | null;
+
+    if (!plugin || typeof plugin !== 'object') {
+      throw new PluginLoadError(path, 'module does not export a plugin object');
+    }
+
+    for (const field of ['name', 'version', 'description'] as const) {
+      if (typeof plugin[field] !== 'string' || plugin[field]!.length === 0) {
+        problems.push(`missing string field '${field}'`);
+      }
+    }
+
+    if (plugin.transformers !== undefined) {
+      if (!Array.isArray(plugin.transformers)) {
+        problems.push(`'transformers' must be an array`);
+      } else {
+        plugin.transformers.forEach((transformer, index) => {
+          if (!transformer || typeof transformer.name !== 'string') {
+            problems.push(`transformer ${index} has no name`);
+          }
+          if (!STAGES.includes(transformer?.stage)) {
+            problems.push(`transformer ${index} has invalid stage '${String(transformer?.stage)}' (expected ${STAGES.join(', ')})`);
+          }
+          if (typeof transformer?.transform !== 'function') {
+            problems.push(`transformer ${index} has no transform function`);
+          }
+        });
+      }
+    }
+
+    if (plugin.configure !== undefined && typeof plugin.configure !== 'function') {
+      problems.push(`'configure' must be a function`);
+    }
+
+    if (plugin.hooks !== undefined) {
+      if (!plugin.hooks || typeof plugin.hooks !== 'object') {
+        problems.push(`'hooks' must be an object`);
+      } else {
+        for (const [name, hook] of Object.entries(plugin.hooks)) {
+          if (hook !== undefined && typeof hook !== 'function') {
+            problems.push(`hook '${name}' is not a function`);
+          }
+        }
+      }
+    }
+
+    if (!plugin.transformers?.length && !plugin.hooks) {
+      problems.push('plugin provides neither transformers nor hooks');
+    }
+
+    if (problems.length > 0) {
+      throw new PluginLoadError(path, problems.join('; '));
+    }
+
+    return plugin as Plugin;
+  }
+}
@@ -0,0 +1,971 @@
+/**
+ * Isolated execution of untrusted plugins in worker threads
+ */
+
+import { Worker } from 'worker_threads';
+import { readFile } from 'fs/promises';
+import { resolve } from 'path';
+import { traverse, transformFromAstSync, types as t, type NodePath } from '@babel/core';
+import {
+  Plugin,
+  PluginHooks,
+  PluginSystemConfig,
+  ProcessingInput,
+  ProcessingOutput,
+  ProcessingError,
+  Transformer,
+} from '../types.js';
+import { PluginLoadError, PluginExecutionError, PluginSandboxViolationError } from '../utils/errors.js';
+import { parseCode } from '../utils/ast.js';
+
+export type SandboxSecurity = PluginSystemConfig['security'];
+
+/**
+ * Description of a plugin as reported by the worker after loading it
+ */
+interface PluginManifest {
+  name: string;
+  version: string;
+  description: string;
+  transformers: Array<{ name: string; stage: Transformer['stage']; hasTransform: boolean }>;
+  hooks: string[];
+  hasConfigure: boolean;
+}
+
+interface WorkerResponse {
+  id: number;
+  ok: boolean;
+  value?: unknown;
+  error?: { message: string; violation: boolean };
+}
+
+interface PendingCall {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+/**
+ * Runs inside the worker: evaluates the plugin in a fresh vm context that
+ * holds only objects of its own realm. Host values reach the plugin as
+ * copies when they are plain data and as membrane proxies otherwise; the
+ * `require` it gets enforces the security policy.
+ */
+const WORKER_SOURCE = `
+'use strict';
+const { parentPort, workerData } = require('worker_threads');
+const vm = require('vm');
+const path = require('path');
+const realFs = require('fs');
+const { isPromise } = require('util').types;
+const { apply, construct, deleteProperty, get, getOwnPropertyDescriptor, has, ownKeys, set } = Reflect;
+const { defineProperty, getOwnPropertyDescriptors, getPrototypeOf, keys, values } = Object;
+const { isArray } = Array;
+const { isView } = ArrayBuffer;
+const bufferFrom = Buffer.from;
+
+const { source, filename, security } = workerData;
+const NETWORK_MODULES = ['http', 'https', 'http2', 'net', 'tls', 'dgram', 'dns', 'undici', 'child_process', 'cluster', 'worker_threads', 'inspector'];
+const FS_PATH_ARGS = {
+  access: 1, accessSync: 1, appendFile: 1, appendFileSync: 1, copyFile: 2, copyFileSync: 2,
+  createReadStream: 1, createWriteStream: 1, exists: 1, existsSync: 1, lstat: 1, lstatSync: 1,
+  mkdir: 1, mkdirSync: 1, open: 1, openSync: 1, readdir: 1, readdirSync: 1, readFile: 1,
+  readFileSync: 1, realpath: 1, realpathSync: 1, rename: 2, renameSync: 2, rm: 1, rmSync: 1,
+  rmdir: 1, rmdirSync: 1, stat: 1, statSync: 1, unlink: 1, unlinkSync: 1, writeFile: 1,
+  writeFileSync: 1,
+};
+const FS_PASSTHROUGH = ['constants', 'close', 'closeSync', 'read', 'readSync', 'write', 'writeSync', 'fstat', 'fstatSync'];
+
+// Keys that lead from a host object to its prototype, its constructor and
+// from there to this realm's Function; the membrane reports them as absent
+const HIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype', 'caller', 'callee', 'arguments', '__defineGetter__', '__defineSetter__', '__lookupGetter__', '__lookupSetter__']);
+const FORBIDDEN = new Set([
+  globalThis,
+  process,
+  require,
+  eval,
+  Function,
+  getPrototypeOf(async function () {}).constructor,
+  getPrototypeOf(function* () {}).constructor,
+  getPrototypeOf(async function* () {}).constructor,
+]);
+
+let violations = [];
+
+function violation(message) {
+  violations.push(message);
+  const error = new Error(message);
+  error.sandboxViolation = true;
+  return error;
+}
+
+// Follows symlinks, including dangling ones, and resolves a path that does
+// not exist yet through its closest existing parent
+function realTarget(target, depth = 0) {
+  const missing = [];
+  let current = target;
+  for (;;) {
+    try {
+      return path.join(realFs.realpathSync(current), ...missing.reverse());
+    } catch {
+      const link = realFs.lstatSync(current, { throwIfNoEntry: false });
+      if (link && link.isSymbolicLink() && depth < 40) {
+        const pointee = path.resolve(path.dirname(current), realFs.readlinkSync(current));
+        return realTarget(path.join(pointee, ...missing.reverse()), depth + 1);
+      }
+      const parent = path.dirname(current);
+      if (parent === current) {
+        return path.join(current, ...missing.reverse());
+      }
+      missing.push(path.basename(current));
+      current = parent;
+    }
+  }
+}
+
+const allowedRoots = security.allowedPaths.map(root => realTarget(path.resolve(root)));
+
+function checkPath(target) {
+  const value = target instanceof URL ? target.pathname : String(target);
+  const absolute = realTarget(path.resolve(value));
+  const allowed = allowedRoots.some(root => absolute === root || absolute.startsWith(root + path.sep));
+  if (!allowed) {
+    throw violation('file system access outside allowedPaths: ' + absolute);
+  }
+}
+
+function shimFs(real, label) {
+  const shim = {};
+  for (const [name, pathArgs] of Object.entries(FS_PATH_ARGS)) {
+    if (typeof real[name] !== 'function') continue;
+    shim[name] = (...args) => {
+      for (let i = 0; i < pathArgs; i++) checkPath(args[i]);
+      return real[name](...args);
+    };
+  }
+  for (const name of FS_PASSTHROUGH) {
+    if (real[name] !== undefined) shim[name] = real[name];
+  }
+  if (label === 'fs') {
+    shim.promises = shimFs(real.promises, 'fs/promises');
+  }
+  return new Proxy(shim, {
+    get(target, property) {
+      if (property in target) return target[property];
+      if (typeof property === 'symbol' || property === 'then' || HIDDEN_KEYS.has(property)) return undefined;
+      throw violation(label + '.' + property + ' is not available in the sandbox');
+    },
+  });
+}
+
+function sandboxRequire(specifier) {
+  const name = String(specifier).replace(/^node:/, '');
+  const root = name.split('/')[0];
+
+  if (!security.networkAccess && NETWORK_MODULES.includes(root)) {
+    throw violation('module ' + name + ' is blocked because networkAccess is disabled');
+  }
+  if (!security.allowedApis.includes(root)) {
+    throw violation('module ' + name + ' is not in allowedApis');
+  }
+  if (root === 'fs') {
+    return name === 'fs/promises' ? shimFs(realFs.promises, 'fs/promises') : shimFs(realFs, 'fs');
+  }
+  return require(name);
+}
+
+function blockedNetwork(name) {
+  return () => {
+    throw violation(name + ' is blocked because networkAccess is disabled');
+  };
+}
+
+// Defense in depth should a host object ever get past the membrane
+for (const name of ['binding', '_linkedBinding', 'dlopen', 'getBuiltinModule', 'kill', 'chdir', 'setuid', 'setgid', 'setegid', 'seteuid', 'setgroups']) {
+  try { process[name] = undefined; } catch {}
+}
+
+// Evaluated inside the context, so every object it creates belongs to the
+// plugin's realm. The host never reads, calls or converts a context value
+// itself: a plugin Proxy trapping such an operation would receive an array
+// created here. It goes through these helpers instead.
+function bootstrap(bridge) {
+  'use strict';
+  const { apply, defineProperty, getOwnPropertyDescriptor, getPrototypeOf, ownKeys } = Reflect;
+  const { isArray } = Array;
+  const { isView } = ArrayBuffer;
+  const { keys } = Object;
+  const { fromCharCode } = String;
+  const { then } = Promise.prototype;
+  const { resolve } = Promise;
+  const { getTime } = Date.prototype;
+  const charCodeAt = String.prototype.charCodeAt;
+  const objectPrototype = Object.prototype;
+  const ContextError = Error;
+  const ContextPromise = Promise;
+  const ContextProxy = Proxy;
+  const ContextDate = Date;
+  const Bytes = Uint8Array;
+
+  const define = (object, key, value) => {
+    defineProperty(object, key, { __proto__: null, value, writable: true, enumerable: true, configurable: true });
+  };
+  // Walks the chain itself: instanceof would hand the value to a
+  // Symbol.hasInstance the plugin defined
+  const foreign = value => {
+    if (value === null || (typeof value !== 'object' && typeof value !== 'function')) return false;
+    for (let prototype = getPrototypeOf(value); prototype !== null; prototype = getPrototypeOf(prototype)) {
+      if (prototype === objectPrototype) return false;
+    }
+    return true;
+  };
+
+  // Anything thrown across the bridge that is not of this realm (a stack
+  // overflow on entering the host, say) is replaced before the plugin sees it
+  const invoke = (...args) => {
+    try {
+      return apply(bridge, undefined, args);
+    } catch (error) {
+      throw foreign(error) ? new ContextError('sandbox bridge failed') : error;
+    }
+  };
+
+  const module = { exports: {} };
+  define(globalThis, 'module', module);
+  define(globalThis, 'exports', module.exports);
+
+  return {
+    module,
+    install: (name, value) => define(globalThis, name, value),
+    array: () => [],
+    object: () => ({}),
+    define,
+    get: (object, key) => object[key],
+    keys: object => keys(object),
+    call: (fn, thisArg, args) => apply(fn, thisArg, args),
+    date: time => new ContextDate(time),
+    time: date => apply(getTime, date, []),
+    bytes: text => {
+      const bytes = new Bytes(text.length);
+      for (let index = 0; index < text.length; index++) bytes[index] = apply(charCodeAt, text, [index]);
+      return bytes;
+    },
+    text: view => {
+      const bytes = new Bytes(view.buffer, view.byteOffset, view.byteLength);
+      let text = '';
+      for (let index = 0; index < bytes.length; index += 8192) {
+        text += apply(fromCharCode, undefined, bytes.subarray(index, index + 8192));
+      }
+      return text;
+    },
+    error: (message, name, code) => {
+      const error = new ContextError(message);
+      if (name !== undefined) define(error, 'name', name);
+      if (code !== undefined) define(error, 'code', code);
+      return error;
+    },
+    kind: value => {
+      if (typeof value === 'function') return 'function';
+      if (isArray(value)) return 'array';
+      if (isView(value)) return 'bytes';
+      try {
+        apply(getTime, value, []);
+        return 'date';
+      } catch {}
+      return value instanceof ContextError ? 'error' : 'object';
+    },
+    describe: error => {
+      try {
+        const message = error !== null && typeof error === 'object' ? error.message : undefined;
+        return typeof message === 'string' ? message : String(error);
+      } catch {
+        return 'plugin threw a value that cannot be displayed';
+      }
+    },
+    remote: (id, callable) => {
+      const target = callable ? function () {} : {};
+      return new ContextProxy(target, {
+        get: (_, key) => invoke('get', id, key),
+        set: (_, key, value) => invoke('set', id, key, value),
+        has: (_, key) => invoke('has', id, key),
+        deleteProperty: (_, key) => invoke('delete', id, key),
+        ownKeys: () => {
+          const names = invoke('keys', id);
+          for (const key of ownKeys(target)) {
+            if (!getOwnPropertyDescriptor(target, key).configurable && names.indexOf(key) < 0) names[names.length] = key;
+          }
+          return names;
+        },
+        getOwnPropertyDescriptor: (_, key) => {
+          const own = getOwnPropertyDescriptor(target, key);
+          if (own && !own.configurable) return own;
+          const enumerable = invoke('own', id, key);
+          return enumerable === undefined ? undefined : { value: invoke('get', id, key), writable: true, enumerable, configurable: true };
+        },
+        defineProperty: () => false,
+        setPrototypeOf: () => false,
+        apply: (_, thisArg, args) => invoke('apply', id, thisArg, args),
+        construct: (_, args) => invoke('construct', id, args),
+      });
+    },
+    promise: id => new ContextPromise((resolve, reject) => invoke('await', id, resolve, reject)),
+    run: (fn, thisArg, args, done) => {
+      let result;
+      try {
+        result = apply(resolve, ContextPromise, [apply(fn, thisArg, args)]);
+      } catch (error) {
+        done(false, error);
+        return;
+      }
+      apply(then, result, [value => done(true, value), error => done(false, error)]);
+    },
+  };
+}
+
+const context = vm.createContext(Object.create(null));
+const ctx = Object.assign(Object.create(null), vm.runInContext('(' + bootstrap + ')', context)(bridge));
+
+/**
+ * A value thrown by plugin code, carried through host frames untouched
+ */
+class ContextThrow extends Error {
+  constructor(value) {
+    super(ctx.describe(value));
+    this.value = value;
+  }
+}
+
+function enter(helper, ...args) {
+  try {
+    return apply(helper, undefined, args);
+  } catch (error) {
+    throw new ContextThrow(error);
+  }
+}
+
+const handles = [];
+const proxies = new WeakMap();
+const origins = new WeakMap();
+const wrappers = new WeakMap();
+
+function bridge(operation, id, first, second) {
+  try {
+    const target = handles[id];
+    const hidden = typeof first === 'string' && HIDDEN_KEYS.has(first);
+    switch (operation) {
+      case 'get':
+        return hidden ? undefined : toContext(get(target, first));
+      case 'set':
+        return hidden ? false : set(target, first, toHost(second));
+      case 'has':
+        return !hidden && has(target, first);
+      case 'delete':
+        return !hidden && deleteProperty(target, first);
+      case 'own': {
+        const descriptor = hidden ? undefined : getOwnPropertyDescriptor(target, first);
+        return descriptor ? Boolean(descriptor.enumerable) : undefined;
+      }
+      case 'keys':
+        return toContext(ownKeys(target).filter(key => typeof key === 'string' && !HIDDEN_KEYS.has(key)));
+      case 'apply':
+        return toContext(apply(target, toHost(first), toHost(second)));
+      case 'construct':
+        return toContext(construct(target, toHost(first)));
+      case 'await':
+        Promise.resolve(target)
+          .then(value => toContext(value))
+          .then(
+            value => enter(ctx.call, first, undefined, contextList(value)),
+            error => enter(ctx.call, second, undefined, contextList(contextError(error)))
+          )
+          .catch(() => undefined);
+        return undefined;
+    }
+  } catch (error) {
+    throw contextError(error);
+  }
+}
+
+function contextList(...items) {
+  const list = ctx.array();
+  items.forEach((item, index) => ctx.define(list, index, item));
+  return list;
+}
+
+function contextError(error) {
+  if (error instanceof ContextThrow) {
+    return error.value;
+  }
+  if (!(error instanceof Error)) {
+    return ctx.error(String(error));
+  }
+  const { name, code } = error;
+  return ctx.error(error.message, typeof name === 'string' ? name : undefined, typeof code === 'string' ? code : undefined);
+}
+
+function isPlainData(value) {
+  const prototype = getPrototypeOf(value);
+  return (prototype === Object.prototype || prototype === null)
+    && values(getOwnPropertyDescriptors(value)).every(descriptor => 'value' in descriptor && typeof descriptor.value !== 'function');
+}
+
+/**
+ * Host value to context value
+ */
+function toContext(value, seen = new Map()) {
+  if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+    return value;
+  }
+  if (FORBIDDEN.has(value)) {
+    throw violation((typeof value === 'function' && value.name ? value.name : 'this object') + ' is not available in the sandbox');
+  }
+  if (proxies.has(value)) return proxies.get(value);
+  if (seen.has(value)) return seen.get(value);
+
+  if (isPromise(value)) {
+    return ctx.promise(handles.push(value) - 1);
+  }
+  if (isArray(value)) {
+    const copy = ctx.array();
+    seen.set(value, copy);
+    value.forEach((item, index) => ctx.define(copy, index, toContext(item, seen)));
+    return copy;
+  }
+  if (isView(value)) {
+    return ctx.bytes(apply(bufferFrom, Buffer, [value.buffer, value.byteOffset, value.byteLength]).toString('latin1'));
+  }
+  if (value instanceof Date) {
+    return ctx.date(value.getTime());
+  }
+  if (value instanceof Error) {
+    return contextError(value);
+  }
+  if (isPlainData(value)) {
+    const copy = ctx.object();
+    seen.set(value, copy);
+    keys(value).forEach(key => ctx.define(copy, key, toContext(value[key], seen)));
+    return copy;
+  }
+
+  const proxy = ctx.remote(handles.push(value) - 1, typeof value === 'function');
+  proxies.set(value, proxy);
+  origins.set(proxy, value);
+  return proxy;
+}
+
+/**
+ * Context value to host value
+ */
+function toHost(value, seen = new Map()) {
+  if (value === null || (typeof value !== 'object' && typeof value !== 'function')) {
+    return value;
+  }
+  if (origins.has(value)) return origins.get(value);
+  if (seen.has(value)) return seen.get(value);
+
+  const copyInto = (copy, names) => {
+    seen.set(value, copy);
+    for (let index = 0; index < names.length; index++) {
+      defineProperty(copy, names[index], {
+        value: toHost(enter(ctx.get, value, names[index]), seen),
+        writable: true,
+        enumerable: true,
+        configurable: true,
+      });
+    }
+    return copy;
+  };
+
+  switch (enter(ctx.kind, value)) {
+    case 'function':
+      return hostFunction(value);
+    case 'array': {
+      const length = enter(ctx.get, value, 'length');
+      return copyInto([], keys(Array.from({ length: typeof length === 'number' ? length : 0 })));
+    }
+    case 'bytes':
+      return apply(bufferFrom, Buffer, [enter(ctx.text, value), 'latin1']);
+    case 'date':
+      return new Date(enter(ctx.time, value));
+    case 'error':
+      return new Error(enter(ctx.describe, value));
+    default:
+      return copyInto({}, enter(ctx.keys, value));
+  }
+}
+
+/**
+ * Host function calling a context function, for APIs that take callbacks
+ */
+function hostFunction(fn) {
+  if (!wrappers.has(fn)) {
+    const wrapper = function (...args) {
+      const thisArg = this === undefined || FORBIDDEN.has(this) ? undefined : toContext(this);
+      return toHost(enter(ctx.call, fn, thisArg, toContext(args)));
+    };
+    wrappers.set(fn, wrapper);
+    proxies.set(wrapper, fn);
+  }
+  return wrappers.get(fn);
+}
+
+const globals = {
+  require: sandboxRequire,
+  console,
+  setTimeout,
+  clearTimeout,
+  setInterval,
+  clearInterval,
+  queueMicrotask,
+  TextEncoder,
+  TextDecoder,
+  URL,
+  fetch: security.networkAccess ? fetch : blockedNetwork('fetch'),
+  WebSocket: security.networkAccess ? globalThis.WebSocket : blockedNetwork('WebSocket'),
+};
+for (const [name, value] of Object.entries(globals)) {
+  ctx.install(name, toContext(value));
+}
+
+let plugin;
+
+function field(object, key) {
+  return object !== null && (typeof object === 'object' || typeof object === 'function') ? enter(ctx.get, object, key) : undefined;
+}
+
+function text(value) {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function toError(error) {
+  const message = error && error.message ? error.message : String(error);
+  return { message, violation: Boolean(error && error.sandboxViolation) };
+}
+
+function manifestOf(exported) {
+  const transformers = field(exported, 'transformers');
+  const hooks = field(exported, 'hooks');
+  const hookNames = hooks !== null && typeof hooks === 'object' ? enter(ctx.keys, hooks) : [];
+
+  let transformerList = transformers === null || typeof transformers !== 'object' ? transformers : null;
+  if (transformers !== null && typeof transformers === 'object' && enter(ctx.kind, transformers) === 'array') {
+    const length = field(transformers, 'length');
+    transformerList = Array.from({ length: typeof length === 'number' ? length : 0 }, (_, index) => {
+      const transformer = field(transformers, index);
+      return {
+        name: text(field(transformer, 'name')),
+        stage: text(field(transformer, 'stage')),
+        hasTransform: typeof field(transformer, 'transform') === 'function',
+      };
+    });
+  }
+
+  return {
+    name: text(field(exported, 'name')),
+    version: text(field(exported, 'version')),
+    description: text(field(exported, 'description')),
+    transformers: transformerList,
+    hooks: Array.from({ length: hookNames.length }, (_, index) => hookNames[index])
+      .filter(name => typeof field(hooks, name) === 'function'),
+    hasConfigure: typeof field(exported, 'configure') === 'function',
+  };
+}
+
+function run(fn, thisArg, payload) {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    const done = (ok, value) => {
+      if (settled) return;
+      settled = true;
+      try {
+        if (ok) {
+          resolve(toHost(value));
+        } else {
+          reject(new ContextThrow(value));
+        }
+      } catch (error) {
+        reject(error);
+      }
+    };
+    enter(ctx.run, fn, thisArg, toContext([payload]), done);
+  });
+}
+
+async function handle(message) {
+  violations = [];
+  let receiver = plugin;
+  let target;
+
+  if (message.action === 'transform') {
+    const transformers = field(plugin, 'transformers');
+    const length = field(transformers, 'length');
+    for (let index = 0; index < (typeof length === 'number' ? length : 0) && target === undefined; index++) {
+      const transformer = field(transformers, index);
+      if (field(transformer, 'name') === message.target) {
+        receiver = transformer;
+        target = field(transformer, 'transform');
+      }
+    }
+  } else if (message.action === 'hook') {
+    receiver = field(plugin, 'hooks');
+    target = field(receiver, message.target);
+  } else if (message.action === 'configure') {
+    target = field(plugin, 'configure');
+  }
+
+  let value;
+  try {
+    value = await run(target, receiver, message.payload);
+  } catch (error) {
+    // A violation the plugin turned into an error of its own still counts
+    if (violations.length === 0) throw error;
+  }
+
+  // A plugin may swallow the error thrown by a shim, the attempt still counts
+  if (violations.length > 0) {
+    throw Object.assign(new Error(violations[0]), { sandboxViolation: true });
+  }
+
+  return message.action === 'configure' ? undefined : value;
+}
+
+try {
+  vm.runInContext(source, context, { filename, timeout: security.timeoutMs });
+  const exports = field(ctx.module, 'exports');
+  plugin = field(exports, 'default') || field(exports, 'plugin') || exports;
+
+  parentPort.postMessage({
+    id: 0,
+    ok: violations.length === 0,
+    value: manifestOf(plugin),
+    error: violations.length > 0 ? { message: violations[0], violation: true } : undefined,
+  });
+} catch (error) {
+  parentPort.postMessage({
+    id: 0,
+    ok: false,
+    error: violations.length > 0 ? { message: violations[0], violation: true } : toError(new ContextThrow(error)),
+  });
+}
+
+parentPort.on('message', message => {
+  handle(message)
+    .then(value => parentPort.postMessage({ id: message.id, ok: true, value }))
+    .catch(error => parentPort.postMessage({ id: message.id, ok: false, error: toError(error) }));
+});
+`;
+
+/**
+ * A plugin running in its own worker thread; transformer and hook calls are
+ * forwarded as messages and bounded by the configured timeout and memory.
+ *
+ * Resource limits and termination come from the worker. Inside it, the
+ * plugin's vm context is kept apart from the worker's realm by a membrane:
+ * data is copied across, other host objects are proxied without their
+ * prototypes or constructors, and API restrictions come from the `require`,
+ * `fs` and network shims.
+ */
+export class PluginSandbox {
+  private worker: Worker;
+  private pending = new Map<number, PendingCall>();
+  private nextId = 1;
+  private pluginName: string;
+  private terminated?: Error;
+
+  private constructor(
+    worker: Worker,
+    pluginName: string,
+    private readonly security: SandboxSecurity
+  ) {
+    this.worker = worker;
+    this.pluginName = pluginName;
+
+    worker.on('message', (response: WorkerResponse) => this.settle(response));
+    worker.on('error', error => this.fail(this.describeWorkerError(error)));
+    worker.on('exit', code => this.fail(new PluginExecutionError(this.pluginName, `worker exited with code ${code}`)));
+  }
+
+  /**
+   * Load a plugin file into a new sandbox and return a proxy Plugin
+   */
+  static async load(path: string, security: SandboxSecurity, baseDir: string = process.cwd()): Promise<{ plugin: Plugin; sandbox: PluginSandbox }> {
+    const source = await readFile(path, 'utf8');
+    let commonJs: string;
+
+    try {
+      commonJs = toCommonJS(source);
+    } catch (error) {
+      throw new PluginLoadError(path, error instanceof Error ? error.message : String(error));
+    }
+
+    const policy: SandboxSecurity = {
+      ...security,
+      allowedPaths: security.allowedPaths.map(allowed => resolve(baseDir, allowed)),
+    };
+
+    const worker = new Worker(WORKER_SOURCE, {
+      eval: true,
+      workerData: { source: commonJs, filename: path, security: policy },
+      env: {},
+      resourceLimits: {
+        maxOldGenerationSizeMb: security.memoryLimitMB,
+        maxYoungGenerationSizeMb: Math.max(4, Math.ceil(security.memoryLimitMB / 4)),
+      },
+      stdout: false,
+      stderr: false,
+    });
+    worker.unref();
+
+    const sandbox = new PluginSandbox(worker, path, policy);
+    const manifest = await sandbox.call<PluginManifest>(0, () => undefined).catch(async error => {
+      await sandbox.dispose();
+      throw error instanceof PluginSandboxViolationError ? error : new PluginLoadError(path, error.message);
+    });
+
+    sandbox.pluginName = manifest.name ?? path;
+    return { plugin: sandbox.createProxy(manifest), sandbox };
+  }
+
+  /**
+   * Terminate the worker; further calls fail
+   */
+  async dispose(): Promise<void> {
+    if (!this.terminated) {
+      this.terminated = new PluginExecutionError(this.pluginName, 'sandbox was disposed');
+      await this.worker.terminate();
+    }
+  }
+
+  private createProxy(manifest: PluginManifest): Plugin {
+    const plugin: Plugin = {
+      name: manifest.name,
+      version: manifest.version,
+      description: manifest.description,
+    };
+
+    if (Array.isArray(manifest.transformers)) {
+      plugin.transformers = manifest.transformers.map(({ name, stage, hasTransform }) => ({
+        name,
+        stage,
+        transform: hasTransform
+          ? (input: ProcessingInput) => this.invoke<ProcessingOutput>('transform', name, redactInput(input))
+          : (undefined as unknown as Transformer['transform']),
+      }));
+    } else if (manifest.transformers !== undefined) {
+      // Let the manager's validation report the malformed value
+      plugin.transformers = manifest.transformers;
+    }
+
+    if (manifest.hooks.length > 0) {
+      const hooks: PluginHooks = {};
+      if (manifest.hooks.includes('beforeProcessing')) {
+        hooks.beforeProcessing = (input: ProcessingInput) =>
+          this.invoke<ProcessingInput>('hook', 'beforeProcessing', redactInput(input))
+            .then(result => ({ ...result, config: input.config }));
+      }
+      if (manifest.hooks.includes('afterProcessing')) {
+        hooks.afterProcessing = (output: ProcessingOutput) =>
+          this.invoke<ProcessingOutput>('hook', 'afterProcessing', output);
+      }
+      if (manifest.hooks.includes('onError')) {
+        hooks.onError = (error: ProcessingError) =>
+          this.invoke<void>('hook', 'onError', error);
+      }
+      plugin.hooks = hooks;
+    }
+
+    if (manifest.hasConfigure) {
+      plugin.configure = (options: Record<string, unknown>) =>
+        this.invoke<void>('configure', 'configure', options);
+    }
+
+    return plugin;
+  }
+
+  private invoke<T>(action: string, target: string, payload: unknown): Promise<T> {
+    const id = this.nextId++;
+    return this.call<T>(id, () => this.worker.postMessage({ id, action, target, payload }));
+  }
+
+  private call<T>(id: number, send: () => void): Promise<T> {
+    if (this.terminated) {
+      return Promise.reject(this.terminated);
+    }
+
+    return new Promise<T>((resolvePromise, rejectPromise) => {
+      // Async work can't be interrupted inside the worker, so a call that
+      // outlives its budget takes the whole worker down with it
+      const timer = setTimeout(() => {
+        this.fail(new PluginSandboxViolationError(this.pluginName, `exceeded timeout of ${this.security.timeoutMs}ms`));
+        void this.worker.terminate();
+      }, this.security.timeoutMs);
+
+      this.pending.set(id, { resolve: resolvePromise as (value: unknown) => void, reject: rejectPromise, timer });
+      this.worker.ref();
+
+      try {
+        send();
+      } catch (error) {
+        this.pending.delete(id);
+        clearTimeout(timer);
+        rejectPromise(error instanceof Error ? error : new Error(String(error)));
+      }
+    });
+  }
+
+  private settle(response: WorkerResponse): void {
+    const call = this.pending.get(response.id);
+    if (!call) return;
+
+    this.pending.delete(response.id);
+    clearTimeout(call.timer);
+    if (this.pending.size === 0) this.worker.unref();
+
+    if (response.ok) {
+      call.resolve(response.value);
+    } else if (response.error?.violation) {
+      call.reject(new PluginSandboxViolationError(this.pluginName, response.error.message));
+    } else {
+      call.reject(new PluginExecutionError(this.pluginName, response.error?.message ?? 'unknown error'));
+    }
+  }
+
+  private fail(error: Error): void {
+    this.terminated ??= error;
+
+    for (const [id, call] of this.pending) {
+      clearTimeout(call.timer);
+      call.reject(error);
+      this.pending.delete(id);
+    }
+  }
+
+  private describeWorkerError(error: Error & { code?: string }): Error {
+    if (error.code === 'ERR_WORKER_OUT_OF_MEMORY') {
+      return new PluginSandboxViolationError(this.pluginName, `exceeded memory limit of ${this.security.memoryLimitMB}MB`);
+    }
+    return new PluginExecutionError(this.pluginName, error.message, error);
+  }
+}
+
+/**
+ * Strip credentials before handing processing input to untrusted code
+ */
+function redactInput(input: ProcessingInput): ProcessingInput {
+  const config = input.config as unknown as { provider?: Record<string, unknown> } | undefined;
+  if (!config?.provider) {
+    return input;
+  }
+
+  const { apiKey: _apiKey, ...provider } = config.provider;
+  return { ...input, config: { ...config, provider } as unknown as ProcessingInput['config'] };
+}
+
+/**
+ * Rewrite ES module syntax to CommonJS so the plugin can run as a vm script
+ */
+export function toCommonJS(source: string): string {
+  const ast = parseCode(source);
+  const exportAssignments = (name: string, value: t.Expression) =>
+    t.expressionStatement(
+      t.assignmentExpression('=', t.memberExpression(t.identifier('exports'), t.identifier(name)), value)
+    );
+  const requireCall = (specifier: string) => t.callExpression(t.identifier('require'), [t.stringLiteral(specifier)]);
+
+  traverse(ast, {
+    ImportDeclaration(path) {
+      const source = path.node.source.value;
+      const declarations: t.VariableDeclarator[] = [];
+      const moduleId = path.scope.generateUidIdentifier('module');
+      declarations.push(t.variableDeclarator(moduleId, requireCall(source)));
+
+      for (const specifier of path.node.specifiers) {
+        let init: t.Expression;
+        if (t.isImportNamespaceSpecifier(specifier)) {
+          init = moduleId;
+        } else if (t.isImportDefaultSpecifier(specifier)) {
+          init = t.logicalExpression(
+            '??',
+            t.optionalMemberExpression(moduleId, t.identifier('default'), false, true),
+            moduleId
+          );
+        } else {
+          const imported = t.isIdentifier(specifier.imported) ? specifier.imported.name : specifier.imported.value;
+          init = t.memberExpression(moduleId, t.stringLiteral(imported), true);
+        }
+        declarations.push(t.variableDeclarator(specifier.local, init));
+      }
+
+      path.replaceWith(t.variableDeclaration('const', declarations));
+    },
+
+    ExportDefaultDeclaration(path) {
+      const declaration = path.node.declaration;
+      if ((t.isFunctionDeclaration(declaration) || t.isClassDeclaration(declaration)) && declaration.id) {
+        path.replaceWithMultiple([declaration, exportAssignments('default', declaration.id)]);
+      } else if (t.isFunctionDeclaration(declaration)) {
+        path.replaceWith(exportAssignments('default', t.functionExpression(null, declaration.params, declaration.body, declaration.generator, declaration.async)));
+      } else if (t.isClassDeclaration(declaration)) {
+        path.replaceWith(exportAssignments('default', t.classExpression(null, declaration.superClass, declaration.body)));
+      } else if (t.isExpression(declaration)) {
+        path.replaceWith(exportAssignments('default', declaration));
+      }
+    },
+
+    ExportNamedDeclaration(path) {
+      const { declaration, specifiers, source } = path.node;
+      const statements: t.Statement[] = [];
+
+      if (declaration) {
+        statements.push(declaration);
+        const names = t.isVariableDeclaration(declaration)
+          ? Object.keys(t.getBindingIdentifiers(declaration))
+          : 'id' in declaration && declaration.id && t.isIdentifier(declaration.id) ? [declaration.id.name] : [];
+        names.forEach(name => statements.push(exportAssignments(name, t.identifier(name))));
+      }
+
+      const from = source ? requireCall(source.value) : undefined;
+      for (const specifier of specifiers) {
+        const exported = t.isIdentifier(specifier.exported) ? specifier.exported.name : specifier.exported.value;
+        if (t.isExportSpecifier(specifier)) {
+          const local = specifier.local.name;
+          statements.push(exportAssignments(exported, from ? t.memberExpression(from, t.stringLiteral(local), true) : t.identifier(local)));
+        } else if (t.isExportNamespaceSpecifier(specifier) && from) {
+          statements.push(exportAssignments(exported, from));
+        }
+      }
+
+      path.replaceWithMultiple(statements);
+    },
+
+    ExportAllDeclaration(path) {
+      path.replaceWith(t.expressionStatement(
+        t.callExpression(
+          t.memberExpression(t.identifier('Object'), t.identifier('assign')),
+          [t.identifier('exports'), requireCall(path.node.source.value)]
+        )
+      ));
+    },
+
+    Import(path: NodePath) {
+      throw new Error(`dynamic import() is not supported in sandboxed plugins (line ${path.node.loc?.start.line ?? '?'})`);
+    },
+
+    MetaProperty(path) {
+      throw new Error(`${path.toString()} is not supported in sandboxed plugins (line ${path.node.loc?.start.line ?? '?'})`);
+    },
+  });
+
+  const result = transformFromAstSync(ast, source, {
+    babelrc: false,
+    configFile: false,
+    sourceType: 'script',
+    cloneInputAst: false,
+  });
+
+  if (!result || typeof result.code !== 'string') {
+    throw new Error('Babel code generation returned no result');
+  }
+
+  return result.code;
+}
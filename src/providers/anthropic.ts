@@ -4,7 +4,8 @@
 
 import Anthropic from '@anthropic-ai/sdk';
 import { BaseLLMProvider } from './base.js';
-import { LLMRequest, LLMResponse } from '../types.js';
+import { SuggestionStream } from './streaming.js';
+import { LLMRequest, LLMResponse, RateLimits } from '../types.js';
 import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
 
 export class AnthropicProvider extends BaseLLMProvider {
@@ -41,61 +42,12 @@ export class AnthropicProvider extends BaseLLMProvider {
     const startTime = Date.now();
 
     try {
+      if (this.wantsStream(request)) {
+        return await this.streamSuggestions(request, sink => this.streamToolInput(request, sink));
+      }
+
       const response = await this.executeWithRetry(async () => {
-        return await this.client.messages.create({
-          model: request.model,
-          max_tokens: Math.min(request.maxTokens || this.config.maxTokens, 8192),
-          temperature: request.temperature || this.config.temperature,
-          system: request.systemPrompt || this.createSystemPrompt(),
-          messages: [{
-            role: 'user',
-            content: this.createUserPrompt(request.code)
-          }],
-          tools: [{
-            name: 'suggest_renames',
-            description: 'Suggest meaningful names for variables and functions in JavaScript code',
-            input_schema: {
-              type: 'object',
-              properties: {
-                suggestions: {
-                  type: 'array',
-                  description: 'Array of rename suggestions',
-                  items: {
-                    type: 'object',
-                    properties: {
-                      originalName: {
-                        type: 'string',
-                        description: 'Current variable/function name'
-                      },
-                      suggestedName: {
-                        type: 'string', 
-                        description: 'Suggested new name'
-                      },
-                      confidence: {
-                        type: 'number',
-                        minimum: 0,
-                        maximum: 1,
-                        description: 'Confidence score for the suggestion'
-                      },
-                      reasoning: {
-                        type: 'string',
-                        description: 'Brief explanation for the name choice'
-                      },
-                      type: {
-                        type: 'string',
-                        enum: ['variable', 'function', 'class', 'method', 'property'],
-                        description: 'Type of identifier being renamed'
-                      }
-                    },
-                    required: ['originalName', 'suggestedName', 'confidence', 'type']
-                  }
-                }
-              },
-              required: ['suggestions']
-            }
-          }],
-          tool_choice: { type: 'tool', name: 'suggest_renames' }
-        });
+        return await this.client.messages.create(this.createMessageParams(request));
       });
 
       const processingTime = Date.now() - startTime;
@@ -118,6 +70,8 @@ export class AnthropicProvider extends BaseLLMProvider {
         suggestions,
         confidence: this.calculateOverallConfidence(suggestions),
         tokensUsed,
+        promptTokens: response.usage.input_tokens,
+        completionTokens: response.usage.output_tokens,
         processingTime,
       };
 
@@ -144,11 +98,117 @@ export class AnthropicProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Request parameters forcing the suggest_renames tool
+   */
+  private createMessageParams(request: LLMRequest): Anthropic.MessageCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: this.getMaxResponseTokens(request),
+      temperature: request.temperature || this.config.temperature,
+      system: request.systemPrompt || this.createSystemPrompt(),
+      messages: [{
+        role: 'user',
+        content: this.createUserPrompt(request.code, request.knownNames)
+      }],
+      tools: [{
+        name: 'suggest_renames',
+        description: 'Suggest meaningful names for variables and functions in JavaScript code',
+        input_schema: {
+          type: 'object',
+          properties: {
+            suggestions: {
+              type: 'array',
+              description: 'Array of rename suggestions',
+              items: {
+                type: 'object',
+                properties: {
+                  originalName: {
+                    type: 'string',
+                    description: 'Current variable/function name'
+                  },
+                  suggestedName: {
+                    type: 'string', 
+                    description: 'Suggested new name'
+                  },
+                  confidence: {
+                    type: 'number',
+                    minimum: 0,
+                    maximum: 1,
+                    description: 'Confidence score for the suggestion'
+                  },
+                  reasoning: {
+                    type: 'string',
+                    description: 'Brief explanation for the name choice'
+                  },
+                  type: {
+                    type: 'string',
+                    enum: ['variable', 'function', 'class', 'method', 'property'],
+                    description: 'Type of identifier being renamed'
+                  },
+                  line: {
+                    type: 'integer',
+                    minimum: 1,
+                    description: 'Line (1-based, within the code shown) where the identifier is declared'
+                  },
+                  functionPath: {
+                    type: 'string',
+                    description: 'Dot-separated names of the enclosing functions, e.g. "init.onLoad"; empty string for top-level declarations'
+                  }
+                },
+                required: ['originalName', 'suggestedName', 'confidence', 'type']
+              }
+            }
+          },
+          required: ['suggestions']
+        }
+      }],
+      tool_choice: { type: 'tool', name: 'suggest_renames' }
+    };
+  }
+
+  /**
+   * Claude responds with up to 8192 tokens
+   */
+  override getMaxResponseTokens(request?: Pick<LLMRequest, 'maxTokens'>): number {
+    return Math.min(request?.maxTokens || this.config.maxTokens, 8192);
+  }
+
+  override getContextWindow(): number {
+    return this.getModelTokenLimit(this.config.model);
+  }
+
+  protected override describeRequest(request: LLMRequest): string {
+    return JSON.stringify(this.createMessageParams(request));
+  }
+
+  /**
+   * Stream the suggest_renames tool input as Claude generates it
+   */
+  private async streamToolInput(request: LLMRequest, sink: SuggestionStream): Promise<void> {
+    const stream = await this.client.messages.create(
+      { ...this.createMessageParams(request), stream: true },
+      { signal: sink.signal }
+    );
+    let inputTokens = 0;
+
+    for await (const event of stream) {
+      if (event.type === 'message_start') {
+        inputTokens = event.message.usage.input_tokens;
+        sink.setUsage(inputTokens, event.message.usage.output_tokens);
+      } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+        sink.write(event.delta.partial_json);
+      } else if (event.type === 'message_delta') {
+        sink.setUsage(inputTokens, event.usage.output_tokens);
+      }
+    }
+  }
+
   /**
    * Create enhanced user prompt for Claude
    */
-  protected override createUserPrompt(code: string): string {
-    const basePrompt = super.createUserPrompt(code);
+  protected override createUserPrompt(code: string, knownNames?: string[]): string {
+    const basePrompt = super.createUserPrompt(code, knownNames);
     
     return `${basePrompt}
 
@@ -166,6 +226,8 @@ For each suggestion, provide:
 - **confidence**: How confident you are (0.0-1.0)
 - **reasoning**: Brief explanation of your choice
 - **type**: Whether it's a variable, function, class, method, or property
+- **line**: The line where the identifier is declared
+- **functionPath**: The enclosing function names (empty for top-level), so reused short names map to a single declaration
 
 Prioritize high-confidence suggestions for variables/functions that are clearly identifiable from context.`;
   }
@@ -220,7 +282,7 @@ Prioritize high-confidence suggestions for variables/functions that are clearly
   /**
    * Estimate cost for request
    */
-  estimateCost(inputTokens: number, outputTokens: number, model: string): number {
+  override estimateCost(inputTokens: number, outputTokens: number, model: string): number {
     // Approximate pricing as of 2024 (in USD per 1K tokens)
     const pricing: Record<string, { input: number; output: number }> = {
       'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
@@ -236,6 +298,13 @@ Prioritize high-confidence suggestions for variables/functions that are clearly
            (outputTokens / 1000) * modelPricing.output;
   }
 
+  /**
+   * Anthropic's tier 1 limits
+   */
+  protected override getDefaultRateLimits(): RateLimits {
+    return { requestsPerMinute: 50, tokensPerMinute: 40000, outputTokensPerSecond: 60 };
+  }
+
   /**
    * Load available models from Anthropic
    * Note: Anthropic doesn't have a public models API, so we use a curated list
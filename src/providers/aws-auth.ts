@@ -0,0 +1,283 @@
+/**
+ * AWS credential resolution and Signature Version 4 request signing
+ */
+
+import { createHash, createHmac } from 'crypto';
+import { readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+  /** When temporary credentials stop working */
+  expiration?: Date;
+  /** Where the credentials came from, for error messages */
+  source: string;
+}
+
+export interface SignRequestOptions {
+  method: string;
+  url: URL;
+  headers: Record<string, string>;
+  body: string;
+  service: string;
+  region: string;
+  credentials: AwsCredentials;
+  date?: Date;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+const METADATA_TIMEOUT_MS = 1000;
+const ECS_CREDENTIALS_HOST = 'http://169.254.170.2';
+const IMDS_HOST = 'http://169.254.169.254';
+
+/**
+ * Resolve credentials the way the AWS SDKs do, in order:
+ *
+ * 1. `AWS_ACCESS_KEY_ID` / `AWS_SECRET_ACCESS_KEY` (+ `AWS_SESSION_TOKEN`)
+ * 2. The shared credentials and config files for `AWS_PROFILE` (or `default`)
+ * 3. The ECS/EKS container credentials endpoint
+ * 4. The EC2 instance metadata service (IMDSv2)
+ *
+ * Returns undefined when no source provides credentials.
+ */
+export async function resolveAwsCredentials(
+  env: NodeJS.ProcessEnv = process.env,
+  profile: string = env.AWS_PROFILE || 'default'
+): Promise<AwsCredentials | undefined> {
+  return fromEnvironment(env)
+    ?? (await fromSharedFiles(env, profile))
+    ?? (await fromContainer(env))
+    ?? (await fromInstanceMetadata(env));
+}
+
+/**
+ * Region from `AWS_REGION`, `AWS_DEFAULT_REGION` or the profile's config
+ */
+export async function resolveAwsRegion(
+  env: NodeJS.ProcessEnv = process.env,
+  profile: string = env.AWS_PROFILE || 'default'
+): Promise<string | undefined> {
+  if (env.AWS_REGION || env.AWS_DEFAULT_REGION) {
+    return env.AWS_REGION || env.AWS_DEFAULT_REGION;
+  }
+
+  const config = await readIniFile(env.AWS_CONFIG_FILE || join(homedir(), '.aws', 'config'));
+  return config[profile === 'default' ? 'default' : `profile ${profile}`]?.region;
+}
+
+/**
+ * Sign a request with AWS Signature Version 4
+ *
+ * Returns the headers to send, including `authorization`, `x-amz-date` and,
+ * for temporary credentials, `x-amz-security-token`.
+ */
+export function signRequest(options: SignRequestOptions): Record<string, string> {
+  const { method, url, body, service, region, credentials } = options;
+  const amzDate = (options.date ?? new Date()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+  const dateStamp = amzDate.slice(0, 8);
+  const headers: Record<string, string> = {
+    ...Object.fromEntries(Object.entries(options.headers).map(([name, value]) => [name.toLowerCase(), value])),
+    host: url.host,
+    'x-amz-date': amzDate,
+    ...(credentials.sessionToken && { 'x-amz-security-token': credentials.sessionToken }),
+  };
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames
+    .map(name => `${name}:${headers[name]!.trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const signedHeaders = signedHeaderNames.join(';');
+
+  const canonicalRequest = [
+    method.toUpperCase(),
+    canonicalPath(url.pathname),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    sha256(body),
+  ].join('\n');
+
+  const scope = `${dateStamp}/${region}/${service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256(canonicalRequest)].join('\n');
+
+  const signingKey = [dateStamp, region, service, 'aws4_request']
+    .reduce<Buffer | string>((key, part) => hmac(key, part), `AWS4${credentials.secretAccessKey}`);
+  const signature = hmac(signingKey, stringToSign).toString('hex');
+
+  return {
+    ...headers,
+    authorization: `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+  };
+}
+
+function fromEnvironment(env: NodeJS.ProcessEnv): AwsCredentials | undefined {
+  if (!env.AWS_ACCESS_KEY_ID || !env.AWS_SECRET_ACCESS_KEY) {
+    return undefined;
+  }
+
+  return {
+    accessKeyId: env.AWS_ACCESS_KEY_ID,
+    secretAccessKey: env.AWS_SECRET_ACCESS_KEY,
+    ...(env.AWS_SESSION_TOKEN && { sessionToken: env.AWS_SESSION_TOKEN }),
+    source: 'environment',
+  };
+}
+
+async function fromSharedFiles(env: NodeJS.ProcessEnv, profile: string): Promise<AwsCredentials | undefined> {
+  const credentialsFile = env.AWS_SHARED_CREDENTIALS_FILE || join(homedir(), '.aws', 'credentials');
+  const configFile = env.AWS_CONFIG_FILE || join(homedir(), '.aws', 'config');
+
+  // Keys may live in either file; the credentials file wins
+  const sections = [
+    (await readIniFile(credentialsFile))[profile],
+    (await readIniFile(configFile))[profile === 'default' ? 'default' : `profile ${profile}`],
+  ];
+
+  for (const section of sections) {
+    if (section?.aws_access_key_id && section.aws_secret_access_key) {
+      return {
+        accessKeyId: section.aws_access_key_id,
+        secretAccessKey: section.aws_secret_access_key,
+        ...(section.aws_session_token && { sessionToken: section.aws_session_token }),
+        source: `profile ${profile}`,
+      };
+    }
+  }
+
+  return undefined;
+}
+
+async function fromContainer(env: NodeJS.ProcessEnv): Promise<AwsCredentials | undefined> {
+  const url = env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI
+    ? `${ECS_CREDENTIALS_HOST}${env.AWS_CONTAINER_CREDENTIALS_RELATIVE_URI}`
+    : env.AWS_CONTAINER_CREDENTIALS_FULL_URI;
+
+  if (!url) {
+    return undefined;
+  }
+
+  let token = env.AWS_CONTAINER_AUTHORIZATION_TOKEN;
+  if (!token && env.AWS_CONTAINER_AUTHORIZATION_TOKEN_FILE) {
+    token = (await readFile(env.AWS_CONTAINER_AUTHORIZATION_TOKEN_FILE, 'utf8')).trim();
+  }
+
+  const response = await fetchWithTimeout(url, { headers: token ? { authorization: token } : {} });
+  return response?.ok ? toTemporaryCredentials(await response.json() as Record<string, string>, 'container') : undefined;
+}
+
+async function fromInstanceMetadata(env: NodeJS.ProcessEnv): Promise<AwsCredentials | undefined> {
+  if (env.AWS_EC2_METADATA_DISABLED === 'true') {
+    return undefined;
+  }
+
+  const host = env.AWS_EC2_METADATA_SERVICE_ENDPOINT?.replace(/\/$/, '') || IMDS_HOST;
+  const tokenResponse = await fetchWithTimeout(`${host}/latest/api/token`, {
+    method: 'PUT',
+    headers: { 'x-aws-ec2-metadata-token-ttl-seconds': '21600' },
+  });
+  if (!tokenResponse?.ok) {
+    return undefined;
+  }
+
+  const headers = { 'x-aws-ec2-metadata-token': await tokenResponse.text() };
+  const base = `${host}/latest/meta-data/iam/security-credentials/`;
+  const roleResponse = await fetchWithTimeout(base, { headers });
+  const role = roleResponse?.ok ? (await roleResponse.text()).split('\n')[0]?.trim() : undefined;
+  if (!role) {
+    return undefined;
+  }
+
+  const response = await fetchWithTimeout(`${base}${role}`, { headers });
+  return response?.ok ? toTemporaryCredentials(await response.json() as Record<string, string>, 'instance metadata') : undefined;
+}
+
+function toTemporaryCredentials(data: Record<string, string>, source: string): AwsCredentials | undefined {
+  if (!data.AccessKeyId || !data.SecretAccessKey) {
+    return undefined;
+  }
+
+  return {
+    accessKeyId: data.AccessKeyId,
+    secretAccessKey: data.SecretAccessKey,
+    ...(data.Token && { sessionToken: data.Token }),
+    ...(data.Expiration && { expiration: new Date(data.Expiration) }),
+    source,
+  };
+}
+
+/**
+ * Metadata endpoints are only reachable on AWS; elsewhere fail fast
+ */
+async function fetchWithTimeout(url: string, init: RequestInit): Promise<Response | undefined> {
+  try {
+    return await fetch(url, { ...init, signal: AbortSignal.timeout(METADATA_TIMEOUT_MS) });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse an INI file into sections; a missing file has no sections
+ */
+async function readIniFile(path: string): Promise<Record<string, Record<string, string>>> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf8');
+  } catch {
+    return {};
+  }
+
+  const sections: Record<string, Record<string, string>> = {};
+  let current: Record<string, string> | undefined;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/\s[#;].*$/, '').trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) continue;
+
+    const section = /^\[\s*(.+?)\s*\]$/.exec(line);
+    if (section) {
+      current = sections[section[1]!] ??= {};
+      continue;
+    }
+
+    const separator = line.indexOf('=');
+    if (current && separator > 0) {
+      current[line.slice(0, separator).trim().toLowerCase()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Non-S3 services sign the already-encoded path encoded once more
+ */
+function canonicalPath(pathname: string): string {
+  return pathname
+    .split('/')
+    .map(segment => encodeRfc3986(segment))
+    .join('/') || '/';
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([key, value]) => [encodeRfc3986(key), encodeRfc3986(value)])
+    .sort(([a, av], [b, bv]) => (a === b ? (av! < bv! ? -1 : 1) : a! < b! ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function encodeRfc3986(value: string): string {
+  return encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+}
+
+function sha256(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: Buffer | string, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
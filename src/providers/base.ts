@@ -7,9 +7,19 @@ import {
   LLMRequest, 
   LLMResponse, 
   RenameSuggestion,
-  ProviderConfig 
+  ProviderConfig,
+  TokenBudget,
+  RateLimits
 } from '../types.js';
 import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
+import { IncrementalSuggestionParser, SuggestionStream } from './streaming.js';
+import { Tokenizer, getTokenizer } from '../utils/tokenizer.js';
+
+/**
+ * Version of the prompts below, part of every response cache key; bump it
+ * whenever a prompt changes so suggestions made for the old prompt are not reused
+ */
+export const PROMPT_VERSION = 1;
 
 /**
  * Abstract base class for all LLM providers
@@ -81,16 +91,23 @@ Guidelines:
 5. Avoid generic names like 'temp', 'data', 'obj' unless absolutely necessary
 6. Consider the broader context when naming variables
 7. For unclear purposes, use descriptive prefixes like 'unknown', 'temp', or 'util'
+8. Minified code reuses short names in many functions; identify each variable by its declaration line and enclosing function so the rename targets exactly one declaration
 
 Respond with a structured list of rename suggestions including confidence scores.`;
   }
 
   /**
    * Create user prompt for code analysis
+   *
+   * `knownNames` already carry their original names (e.g. from the input
+   * source map); the model is told to leave them alone.
    */
-  protected createUserPrompt(code: string): string {
+  protected createUserPrompt(code: string, knownNames: string[] = []): string {
     const lines = code.split('\n').length;
     const chars = code.length;
+    const known = knownNames.length > 0
+      ? `\n\nThese identifiers already have their original names; do not suggest renames for them:\n${knownNames.join(', ')}`
+      : '';
     
     return `Analyze this JavaScript code and suggest meaningful variable/function names:
 
@@ -102,7 +119,7 @@ Code Statistics:
 Code to analyze:
 \`\`\`javascript
 ${code}
-\`\`\`
+\`\`\`${known}
 
 Please provide rename suggestions with confidence scores (0-1) and brief reasoning.`;
   }
@@ -122,11 +139,14 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
 
   /**
    * Handle API request with retries and error handling
+   *
+   * Nothing is retried once `signal` has aborted.
    */
   protected async executeWithRetry<T>(
     operation: () => Promise<T>,
     maxRetries = 3,
-    baseDelay = 1000
+    baseDelay = 1000,
+    signal?: AbortSignal
   ): Promise<T> {
     let lastError: Error | undefined;
 
@@ -139,7 +159,7 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
         lastError = error instanceof Error ? error : new Error(String(error));
         
         // Don't retry on certain errors
-        if (this.isNonRetryableError(error)) {
+        if (signal?.aborted || this.isNonRetryableError(error)) {
           throw new LLMRequestError(
             this.name,
             lastError.message,
@@ -155,7 +175,7 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
         if (attempt < maxRetries) {
           console.warn(`⚠️  ${this.name} request failed (attempt ${attempt}/${maxRetries}): ${lastError.message}`);
           console.warn(`   Retrying in ${Math.round(delay + jitter)}ms...`);
-          await this.sleep(delay + jitter);
+          await this.sleep(delay + jitter, signal);
         }
       }
     }
@@ -168,12 +188,167 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
     );
   }
 
+  /**
+   * Whether the caller listens for suggestions as they arrive; providers
+   * only stream then, and answer in one piece otherwise
+   */
+  protected wantsStream(request: LLMRequest): boolean {
+    return Boolean(request.onSuggestion || request.signal);
+  }
+
+  /**
+   * Run a streaming request, passing each suggestion to `request.onSuggestion`
+   * as soon as its JSON object is complete
+   *
+   * The request is aborted when nothing arrives for `config.timeout` ms or
+   * when `request.signal` fires. Suggestions received before that, or
+   * before the connection failed, are returned as a partial response instead
+   * of being thrown away. Attempts that fail before any suggestion arrived
+   * are retried until `request.signal` fires.
+   */
+  protected async streamSuggestions(
+    request: LLMRequest,
+    stream: (sink: SuggestionStream) => Promise<void>,
+    parse: (text: string) => RenameSuggestion[] = text => this.parseRenameSuggestions(text)
+  ): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const idleTimeout = this.config.timeout || 30000;
+    const cancelled = () => new ReScriptError(
+      ErrorCode.LLM_TIMEOUT,
+      `${this.name} request was cancelled before any suggestion arrived`,
+      'llm-processing',
+      false,
+      ['Increase provider.timeout for slow models', 'Reduce the chunk size']
+    );
+
+    const response = await this.executeWithRetry(async () => {
+      if (request.signal?.aborted) {
+        throw cancelled();
+      }
+
+      const parser = new IncrementalSuggestionParser();
+      const received: RenameSuggestion[] = [];
+      const controller = new AbortController();
+      let promptTokens = 0;
+      let completionTokens = 0;
+      let timedOut = false;
+      let timer: NodeJS.Timeout | undefined;
+
+      const resetTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, idleTimeout);
+      };
+      const cancel = () => controller.abort();
+
+      if (request.signal?.aborted) controller.abort();
+      request.signal?.addEventListener('abort', cancel, { once: true });
+      resetTimer();
+
+      const sink: SuggestionStream = {
+        signal: controller.signal,
+        write: (delta) => {
+          resetTimer();
+          for (const item of parser.push(delta)) {
+            const suggestion = this.toSuggestion(item);
+            if (suggestion) {
+              received.push(suggestion);
+              request.onSuggestion?.(suggestion, received.length);
+            }
+          }
+        },
+        setUsage: (prompt, completion) => {
+          promptTokens = prompt;
+          completionTokens = completion;
+        },
+      };
+
+      try {
+        await stream(sink);
+        if (controller.signal.aborted) {
+          throw new Error('Stream aborted');
+        }
+
+        let suggestions: RenameSuggestion[];
+        try {
+          suggestions = parse(parser.text);
+        } catch (error) {
+          // Complete objects already parsed are better than nothing
+          if (received.length === 0) throw error;
+          suggestions = received;
+        }
+
+        return { suggestions, promptTokens, completionTokens, partial: false };
+
+      } catch (error) {
+        if (received.length > 0) {
+          const reason = request.signal?.aborted
+            ? 'was cancelled'
+            : timedOut ? `received nothing for ${idleTimeout}ms` : `failed (${error instanceof Error ? error.message : String(error)})`;
+          console.warn(`⚠️  ${this.name} stream ${reason}; keeping ${received.length} suggestions received`);
+          return { suggestions: received, promptTokens, completionTokens, partial: true };
+        }
+
+        if (request.signal?.aborted) {
+          throw cancelled();
+        }
+
+        if (controller.signal.aborted) {
+          throw new ReScriptError(
+            ErrorCode.LLM_TIMEOUT,
+            `${this.name} sent nothing for ${idleTimeout}ms`,
+            'llm-processing',
+            true,
+            ['Increase provider.timeout for slow models', 'Reduce the chunk size']
+          );
+        }
+
+        throw error;
+
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', cancel);
+      }
+    }, undefined, undefined, request.signal);
+
+    const tokensUsed = response.promptTokens + response.completionTokens;
+    this.totalTokensUsed += tokensUsed;
+
+    return {
+      suggestions: response.suggestions,
+      confidence: this.calculateOverallConfidence(response.suggestions),
+      tokensUsed,
+      promptTokens: response.promptTokens,
+      completionTokens: response.completionTokens,
+      processingTime: Date.now() - startTime,
+      ...(response.partial && { partial: true }),
+    };
+  }
+
+  /**
+   * Normalize one streamed suggestion object, skipping malformed ones
+   */
+  private toSuggestion(item: unknown): RenameSuggestion | undefined {
+    try {
+      return this.parseRenameSuggestions([item])[0];
+    } catch {
+      return undefined;
+    }
+  }
+
   /**
    * Check if error should not be retried
    */
   protected isNonRetryableError(error: unknown): boolean {
     if (!(error instanceof Error)) return false;
-    
+
+    // The caller cancelled the stream; idle timeouts are recoverable
+    if (error instanceof ReScriptError && error.code === ErrorCode.LLM_TIMEOUT) {
+      return !error.recoverable;
+    }
+
     const message = error.message.toLowerCase();
     
     // Authentication/authorization errors
@@ -203,8 +378,16 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
   /**
    * Sleep utility for delays
    */
-  protected sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise(resolve => {
+      const timer = setTimeout(done, ms);
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', done);
+        resolve();
+      }
+      signal?.addEventListener('abort', done, { once: true });
+    });
   }
 
   /**
@@ -259,6 +442,8 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
           confidence: this.validateNumber(suggestion.confidence, 0.5, 0, 1),
           reasoning: this.validateString(suggestion.reasoning || suggestion.reason, '', true),
           type: this.validateType(suggestion.type),
+          line: this.validateLine(suggestion.line),
+          functionPath: this.validateFunctionPath(suggestion.functionPath ?? suggestion.scope),
         };
       });
 
@@ -301,6 +486,25 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
     return defaultValue;
   }
 
+  /**
+   * Validate optional 1-based line number
+   */
+  private validateLine(value: unknown): number | undefined {
+    const line = typeof value === 'string' ? Number(value) : value;
+    if (typeof line === 'number' && Number.isInteger(line) && line > 0) {
+      return line;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Validate optional enclosing function path
+   */
+  private validateFunctionPath(value: unknown): string | undefined {
+    return typeof value === 'string' ? value.trim() : undefined;
+  }
+
   /**
    * Validate and normalize type field
    */
@@ -341,6 +545,119 @@ Please provide rename suggestions with confidence scores (0-1) and brief reasoni
     };
   }
 
+  /**
+   * Cost in USD of a request from the provider's own price table; providers
+   * without per-token pricing cost nothing
+   */
+  estimateCost(_inputTokens: number, _outputTokens: number, _model: string): number {
+    return 0;
+  }
+
+  /**
+   * Cost in USD of a response, priced from `config.pricing` when it lists the
+   * model. Responses without a prompt/response split are charged at the
+   * output price so spending caps err on the safe side.
+   */
+  getResponseCost(response: Pick<LLMResponse, 'tokensUsed' | 'promptTokens' | 'completionTokens'>): number {
+    const inputTokens = response.promptTokens ?? 0;
+    const outputTokens = response.promptTokens === undefined ? response.tokensUsed : response.completionTokens ?? 0;
+    return this.getCost(inputTokens, outputTokens);
+  }
+
+  /**
+   * Cost in USD of the given token counts for the configured model
+   */
+  getCost(inputTokens: number, outputTokens: number): number {
+    const model = this.getModel();
+    const pricing = this.config.pricing?.[model];
+    if (pricing) {
+      return (inputTokens / 1000) * pricing.input + (outputTokens / 1000) * pricing.output;
+    }
+    return this.estimateCost(inputTokens, outputTokens, model);
+  }
+
+  /**
+   * Throughput limits for time estimates: the provider's typical entry-tier
+   * limits, overridden by `config.rateLimits`
+   */
+  getRateLimits(): RateLimits {
+    return { ...this.getDefaultRateLimits(), ...this.config.rateLimits };
+  }
+
+  protected getDefaultRateLimits(): RateLimits {
+    return { requestsPerMinute: 60, tokensPerMinute: 100000, outputTokensPerSecond: 50 };
+  }
+
+  /**
+   * Tokenizer matching the configured model, or the closest estimate
+   */
+  getTokenizer(): Tokenizer {
+    return getTokenizer(this.name, this.getModel());
+  }
+
+  /**
+   * Context window of the configured model in tokens
+   */
+  getContextWindow(): number {
+    return this.maxTokens;
+  }
+
+  /**
+   * Most tokens a response may use; requests reserve this much of the
+   * window, but never more than half of it
+   */
+  getMaxResponseTokens(request?: Pick<LLMRequest, 'maxTokens'>): number {
+    return Math.min(request?.maxTokens || this.config.maxTokens, 4096, Math.floor(this.getContextWindow() / 2));
+  }
+
+  /**
+   * Split the context window between the fixed prompt, the response and the code
+   */
+  getTokenBudget(knownNames: string[] = []): TokenBudget {
+    const contextWindow = this.getContextWindow();
+    const promptTokens = this.getTokenizer().count(
+      this.describeRequest({ code: '', model: this.getModel(), knownNames })
+    );
+    const responseTokens = this.getMaxResponseTokens();
+
+    return {
+      contextWindow,
+      promptTokens,
+      responseTokens,
+      codeTokens: Math.max(0, contextWindow - promptTokens - responseTokens),
+    };
+  }
+
+  /**
+   * Everything sent for a request, as text to count: providers with tool
+   * calling include the tool schema
+   */
+  protected describeRequest(request: LLMRequest): string {
+    return `${request.systemPrompt || this.createSystemPrompt()}\n\n${this.createUserPrompt(request.code, request.knownNames)}`;
+  }
+
+  /**
+   * Get the configured model name
+   */
+  getModel(): string {
+    return this.config.model;
+  }
+
+  /**
+   * Endpoint requests go to, without trailing slashes; undefined for the
+   * provider's public API
+   */
+  getBaseUrl(): string | undefined {
+    return this.config.baseUrl?.replace(/\/+$/, '') || undefined;
+  }
+
+  /**
+   * Get the configured sampling temperature
+   */
+  getTemperature(): number {
+    return this.config.temperature;
+  }
+
   /**
    * Reset statistics
    */
@@ -0,0 +1,395 @@
+/**
+ * AWS Bedrock provider implementation using the Converse API
+ */
+
+import { BaseLLMProvider } from './base.js';
+import { AwsCredentials, resolveAwsCredentials, resolveAwsRegion, signRequest } from './aws-auth.js';
+import { LLMRequest, LLMResponse, ProviderConfig, RateLimits } from '../types.js';
+import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
+
+const BEDROCK_MODELS = [
+  'anthropic.claude-3-5-sonnet-20241022-v2:0',
+  'anthropic.claude-3-5-haiku-20241022-v1:0',
+  'anthropic.claude-3-opus-20240229-v1:0',
+  'anthropic.claude-3-sonnet-20240229-v1:0',
+  'anthropic.claude-3-haiku-20240307-v1:0',
+  'amazon.nova-pro-v1:0',
+  'amazon.nova-lite-v1:0',
+  'meta.llama3-1-70b-instruct-v1:0',
+  'mistral.mistral-large-2407-v1:0',
+];
+
+/** Context windows by model family; Claude models use the provider default */
+const CONTEXT_WINDOWS: Record<string, number> = {
+  'amazon.nova-': 300000,
+  'meta.llama3-1-': 128000,
+  'mistral.mistral-large-2407': 128000,
+};
+
+/** Cross-region inference profiles prefix a model id with a geography */
+const INFERENCE_PROFILE_PREFIX = /^(us|eu|apac|us-gov|global)\./;
+
+/** Refresh temporary credentials this long before they expire */
+const CREDENTIAL_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface ConverseResponse {
+  output?: {
+    message?: {
+      role: string;
+      content: Array<{ text?: string; toolUse?: { toolUseId: string; name: string; input: unknown } }>;
+    };
+  };
+  stopReason?: string;
+  usage?: { inputTokens: number; outputTokens: number; totalTokens?: number };
+}
+
+/**
+ * Error returned by the Bedrock runtime, keeping the HTTP status for retry decisions
+ */
+class BedrockApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly errorType: string,
+    message: string
+  ) {
+    super(`${errorType} (${status}): ${message}`);
+    this.name = 'BedrockApiError';
+  }
+}
+
+export class BedrockProvider extends BaseLLMProvider {
+  public readonly name = 'bedrock';
+  public readonly models = BEDROCK_MODELS;
+  public readonly maxTokens = 200000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = true;
+
+  private credentials?: Promise<AwsCredentials | undefined>;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+  }
+
+  /**
+   * Bedrock authenticates with AWS credentials, not an API key
+   */
+  protected override requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Validate model ids, allowing inference profiles and ARNs
+   *
+   * Runs from the base constructor, so it must not rely on instance fields.
+   */
+  protected override validateConfig(): void {
+    const model = this.config.model;
+
+    if (!BEDROCK_MODELS.includes(model.replace(INFERENCE_PROFILE_PREFIX, '')) && !model.startsWith('arn:')) {
+      throw new ReScriptError(
+        ErrorCode.INVALID_MODEL,
+        `Model '${model}' not supported by bedrock. Available models: ${BEDROCK_MODELS.join(', ')}`,
+        'provider-setup',
+        false,
+        [
+          `Use one of: ${BEDROCK_MODELS.join(', ')}`,
+          'Cross-region inference profiles (e.g. us.anthropic.claude-3-5-haiku-20241022-v1:0) and ARNs are also accepted',
+        ]
+      );
+    }
+  }
+
+  /**
+   * Process code using the Converse API with a forced suggest_renames tool call
+   */
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    try {
+      const region = await this.resolveRegion();
+      const endpoint = this.config.baseUrl?.replace(/\/$/, '') || `https://bedrock-runtime.${region}.amazonaws.com`;
+      const url = new URL(`${endpoint}/model/${encodeURIComponent(request.model)}/converse`);
+
+      const body = JSON.stringify(this.createConverseBody(request));
+
+      const response = await this.executeWithRetry(async () => {
+        return await this.converse(url, region, body, request.signal);
+      }, undefined, undefined, request.signal);
+
+      const processingTime = Date.now() - startTime;
+
+      const toolUse = response.output?.message?.content.find(block => block.toolUse)?.toolUse;
+      if (!toolUse || toolUse.name !== 'suggest_renames') {
+        throw new Error('Expected toolUse response with suggest_renames');
+      }
+
+      const suggestions = this.parseRenameSuggestions(toolUse.input);
+      const tokensUsed = (response.usage?.inputTokens || 0) + (response.usage?.outputTokens || 0);
+
+      this.totalTokensUsed += tokensUsed;
+
+      return {
+        suggestions,
+        confidence: this.calculateOverallConfidence(suggestions),
+        tokensUsed,
+        promptTokens: response.usage?.inputTokens,
+        completionTokens: response.usage?.outputTokens,
+        processingTime,
+      };
+
+    } catch (error) {
+      if (error instanceof ReScriptError) {
+        throw error;
+      }
+
+      throw new LLMRequestError(
+        this.name,
+        error instanceof Error ? error.message : String(error),
+        !this.isNonRetryableError(error),
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Converse request body forcing the suggest_renames tool
+   */
+  private createConverseBody(request: LLMRequest): Record<string, unknown> {
+    return {
+      system: [{ text: request.systemPrompt || this.createSystemPrompt() }],
+      messages: [{
+        role: 'user',
+        content: [{ text: this.createUserPrompt(request.code, request.knownNames) }],
+      }],
+      inferenceConfig: {
+        maxTokens: this.getMaxResponseTokens(request),
+        temperature: request.temperature || this.config.temperature,
+      },
+      toolConfig: {
+        tools: [{
+          toolSpec: {
+            name: 'suggest_renames',
+            description: 'Suggest meaningful names for variables and functions in JavaScript code',
+            inputSchema: {
+              json: {
+                type: 'object',
+                properties: {
+                  suggestions: {
+                    type: 'array',
+                    description: 'Array of rename suggestions',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        originalName: {
+                          type: 'string',
+                          description: 'Current variable/function name'
+                        },
+                        suggestedName: {
+                          type: 'string',
+                          description: 'Suggested new name'
+                        },
+                        confidence: {
+                          type: 'number',
+                          minimum: 0,
+                          maximum: 1,
+                          description: 'Confidence score for the suggestion'
+                        },
+                        reasoning: {
+                          type: 'string',
+                          description: 'Brief explanation for the name choice'
+                        },
+                        type: {
+                          type: 'string',
+                          enum: ['variable', 'function', 'class', 'method', 'property'],
+                          description: 'Type of identifier being renamed'
+                        },
+                        line: {
+                          type: 'integer',
+                          minimum: 1,
+                          description: 'Line (1-based, within the code shown) where the identifier is declared'
+                        },
+                        functionPath: {
+                          type: 'string',
+                          description: 'Dot-separated names of the enclosing functions, e.g. "init.onLoad"; empty string for top-level declarations'
+                        }
+                      },
+                      required: ['originalName', 'suggestedName', 'confidence', 'type']
+                    }
+                  }
+                },
+                required: ['suggestions']
+              }
+            }
+          }
+        }],
+        toolChoice: { tool: { name: 'suggest_renames' } },
+      },
+    };
+  }
+
+  /**
+   * Converse allows up to 8192 response tokens for the supported models
+   */
+  override getMaxResponseTokens(request?: Pick<LLMRequest, 'maxTokens'>): number {
+    return Math.min(request?.maxTokens || this.config.maxTokens, 8192);
+  }
+
+  override getContextWindow(): number {
+    const model = this.config.model.replace(INFERENCE_PROFILE_PREFIX, '');
+    const family = Object.keys(CONTEXT_WINDOWS).find(prefix => model.startsWith(prefix));
+    return family ? CONTEXT_WINDOWS[family]! : this.maxTokens;
+  }
+
+  protected override describeRequest(request: LLMRequest): string {
+    return JSON.stringify(this.createConverseBody(request));
+  }
+
+  /**
+   * Send a signed Converse request, cancelled by `signal` or after `config.timeout` ms
+   */
+  private async converse(url: URL, region: string, body: string, signal?: AbortSignal): Promise<ConverseResponse> {
+    const credentials = await this.getCredentials();
+
+    const headers = signRequest({
+      method: 'POST',
+      url,
+      headers: { 'content-type': 'application/json', accept: 'application/json' },
+      body,
+      service: 'bedrock',
+      region,
+      credentials,
+    });
+    // fetch sets Host itself and refuses to override it
+    delete headers.host;
+
+    const timeout = AbortSignal.timeout(this.config.timeout || 30000);
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+    });
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text;
+      try {
+        message = JSON.parse(text).message ?? text;
+      } catch {
+        // Not JSON; keep the raw body
+      }
+
+      const errorType = response.headers.get('x-amzn-errortype')?.split(':')[0] || 'BedrockError';
+      throw new BedrockApiError(response.status, errorType, message);
+    }
+
+    return response.json() as Promise<ConverseResponse>;
+  }
+
+  /**
+   * Throttling, timeouts and server errors are retried; other client errors are not
+   */
+  protected override isNonRetryableError(error: unknown): boolean {
+    if (error instanceof BedrockApiError) {
+      return error.status < 500 && error.status !== 429 && error.status !== 408;
+    }
+
+    return super.isNonRetryableError(error);
+  }
+
+  /**
+   * Region from the configuration, the environment or the AWS profile
+   */
+  private async resolveRegion(): Promise<string> {
+    const region = this.config.region || await resolveAwsRegion();
+
+    if (!region) {
+      throw new ReScriptError(
+        ErrorCode.INVALID_CONFIG,
+        'Bedrock provider requires an AWS region',
+        'provider-setup',
+        false,
+        ['Set provider.region in your configuration', 'Or export AWS_REGION, e.g. AWS_REGION=us-east-1']
+      );
+    }
+
+    return region;
+  }
+
+  /**
+   * Resolve credentials once, refreshing temporary credentials before they expire
+   */
+  private async getCredentials(): Promise<AwsCredentials> {
+    let credentials = await this.credentials;
+
+    if (!credentials || (credentials.expiration && credentials.expiration.getTime() - Date.now() < CREDENTIAL_REFRESH_MARGIN_MS)) {
+      this.credentials = resolveAwsCredentials();
+      credentials = await this.credentials;
+    }
+
+    if (!credentials) {
+      this.credentials = undefined;
+      throw new ReScriptError(
+        ErrorCode.MISSING_API_KEY,
+        'No AWS credentials found for bedrock',
+        'provider-setup',
+        false,
+        [
+          'Export AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY',
+          'Or configure a profile in ~/.aws/credentials and set AWS_PROFILE',
+          'On AWS, attach an IAM role with bedrock:InvokeModel permission',
+        ]
+      );
+    }
+
+    return credentials;
+  }
+
+  /**
+   * Get recommended model for code size
+   */
+  getRecommendedModel(codeSize: number): string {
+    if (codeSize < 10000) {
+      return 'anthropic.claude-3-5-haiku-20241022-v1:0';
+    } else {
+      return 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+    }
+  }
+
+  /**
+   * Estimate cost for request
+   */
+  override estimateCost(inputTokens: number, outputTokens: number, model: string): number {
+    // Approximate on-demand pricing (in USD per 1K tokens)
+    const pricing: Record<string, { input: number; output: number }> = {
+      'anthropic.claude-3-5-sonnet-20241022-v2:0': { input: 0.003, output: 0.015 },
+      'anthropic.claude-3-5-haiku-20241022-v1:0': { input: 0.0008, output: 0.004 },
+      'anthropic.claude-3-opus-20240229-v1:0': { input: 0.015, output: 0.075 },
+      'anthropic.claude-3-sonnet-20240229-v1:0': { input: 0.003, output: 0.015 },
+      'anthropic.claude-3-haiku-20240307-v1:0': { input: 0.00025, output: 0.00125 },
+      'amazon.nova-pro-v1:0': { input: 0.0008, output: 0.0032 },
+      'amazon.nova-lite-v1:0': { input: 0.00006, output: 0.00024 },
+      'meta.llama3-1-70b-instruct-v1:0': { input: 0.00072, output: 0.00072 },
+      'mistral.mistral-large-2407-v1:0': { input: 0.002, output: 0.006 },
+    };
+
+    const modelPricing = pricing[model.replace(INFERENCE_PROFILE_PREFIX, '')] || pricing['anthropic.claude-3-5-sonnet-20241022-v2:0']!;
+
+    return (inputTokens / 1000) * modelPricing.input +
+           (outputTokens / 1000) * modelPricing.output;
+  }
+
+  /**
+   * Default on-demand quotas; they vary by model and region
+   */
+  protected override getDefaultRateLimits(): RateLimits {
+    return { requestsPerMinute: 50, tokensPerMinute: 200000, outputTokensPerSecond: 50 };
+  }
+
+  /**
+   * Get available models (public interface)
+   */
+  async getAvailableModels(): Promise<string[]> {
+    return this.models;
+  }
+}
@@ -6,10 +6,14 @@ import { BaseLLMProvider } from './base.js';
 import { AnthropicProvider } from './anthropic.js';
 import { OpenAIProvider } from './openai.js';
 import { OllamaProvider } from './ollama.js';
+import { BedrockProvider } from './bedrock.js';
+import { OpenAICompatibleProvider } from './openai-compatible.js';
+import { ReplayProvider } from './replay.js';
+import { HeuristicProvider } from './heuristic.js';
 import { ProviderConfig } from '../types.js';
 import { ReScriptError, ErrorCode } from '../utils/errors.js';
 
-export type SupportedProvider = 'anthropic' | 'openai' | 'azure' | 'ollama';
+export type SupportedProvider = 'anthropic' | 'openai' | 'azure' | 'ollama' | 'bedrock' | 'openai-compatible' | 'replay' | 'heuristic';
 
 /**
  * Factory class for creating LLM providers
@@ -65,6 +69,22 @@ export class ProviderFactory {
         provider = new OllamaProvider(config);
         break;
 
+      case 'bedrock':
+        provider = new BedrockProvider(config);
+        break;
+
+      case 'openai-compatible':
+        provider = new OpenAICompatibleProvider(config);
+        break;
+
+      case 'replay':
+        provider = new ReplayProvider(config);
+        break;
+
+      case 'heuristic':
+        provider = new HeuristicProvider(config);
+        break;
+
       default:
         throw new ReScriptError(
           ErrorCode.INVALID_CONFIG,
@@ -75,6 +95,11 @@ export class ProviderFactory {
         );
     }
 
+    // Record responses of a real provider for later replay
+    if (config.record && config.name !== 'replay') {
+      provider = new ReplayProvider(config, provider);
+    }
+
     // Cache the provider
     this.providerCache.set(cacheKey, provider);
     
@@ -85,7 +110,7 @@ export class ProviderFactory {
    * Get list of supported providers
    */
   static getSupportedProviders(): SupportedProvider[] {
-    return ['anthropic', 'openai', 'azure', 'ollama'];
+    return ['anthropic', 'openai', 'azure', 'ollama', 'bedrock', 'openai-compatible', 'replay', 'heuristic'];
   }
 
   /**
@@ -123,6 +148,28 @@ export class ProviderFactory {
           'deepseek-coder:6.7b'
         ];
 
+      case 'bedrock':
+        return [
+          'anthropic.claude-3-5-sonnet-20241022-v2:0',
+          'anthropic.claude-3-5-haiku-20241022-v1:0',
+          'anthropic.claude-3-opus-20240229-v1:0',
+          'anthropic.claude-3-sonnet-20240229-v1:0',
+          'anthropic.claude-3-haiku-20240307-v1:0',
+          'amazon.nova-pro-v1:0',
+          'amazon.nova-lite-v1:0',
+          'meta.llama3-1-70b-instruct-v1:0',
+          'mistral.mistral-large-2407-v1:0'
+        ];
+
+      case 'openai-compatible':
+        // Whatever the server serves; see OpenAICompatibleProvider.getAvailableModels
+        return [];
+
+      case 'replay':
+      case 'heuristic':
+        // No model is called; any name is accepted
+        return [];
+
       default:
         return [];
     }
@@ -173,6 +220,13 @@ export class ProviderFactory {
           return 'codellama:34b';
         }
 
+      case 'bedrock':
+        if (prioritizeCost || codeSize < 10000) {
+          return 'anthropic.claude-3-5-haiku-20241022-v1:0';
+        } else {
+          return 'anthropic.claude-3-5-sonnet-20241022-v2:0';
+        }
+
       default:
         return models[0]!;
     }
@@ -199,8 +253,10 @@ export class ProviderFactory {
     }
 
     // Check model availability
+    // Bedrock also accepts cross-region inference profiles and ARNs
     const availableModels = this.getAvailableModels(config.name as SupportedProvider);
-    if (availableModels.length > 0 && !availableModels.includes(config.model)) {
+    const model = config.name === 'bedrock' ? config.model.replace(/^(us|eu|apac|us-gov|global)\./, '') : config.model;
+    if (availableModels.length > 0 && !availableModels.includes(model) && !model.startsWith('arn:')) {
       result.valid = false;
       result.errors.push(`Model '${config.model}' not available for ${config.name}`);
     }
@@ -217,6 +273,23 @@ export class ProviderFactory {
       result.errors.push('Azure provider requires baseUrl (Azure endpoint)');
     }
 
+    // Check Bedrock-specific requirements
+    if (config.name === 'bedrock' && !config.region && !process.env.AWS_REGION && !process.env.AWS_DEFAULT_REGION) {
+      result.warnings.push('Bedrock provider should specify region (or set AWS_REGION)');
+    }
+
+    // Check OpenAI-compatible requirements
+    if (config.name === 'openai-compatible' && !config.baseUrl) {
+      result.valid = false;
+      result.errors.push('openai-compatible provider requires baseUrl (e.g. http://localhost:8080/v1)');
+    }
+
+    // Check replay/record requirements
+    if ((config.name === 'replay' || config.record) && !config.fixture) {
+      result.valid = false;
+      result.errors.push(`${config.name === 'replay' ? 'Replay provider' : 'Recording'} requires a fixture file`);
+    }
+
     // Check Ollama-specific requirements
     if (config.name === 'ollama' && !config.baseUrl) {
       result.warnings.push('Ollama provider should specify baseUrl (defaults to http://localhost:11434)');
@@ -292,7 +365,8 @@ export class ProviderFactory {
    * Create cache key for provider caching
    */
   private static createCacheKey(config: ProviderConfig): string {
-    return `${config.name}-${config.model}-${config.apiKey?.substring(0, 8) || 'none'}`;
+    const fixture = config.fixture && (config.name === 'replay' || config.record) ? `-${config.record ? 'record:' : ''}${config.fixture}` : '';
+    return `${config.name}-${config.model}-${config.apiKey?.substring(0, 8) || 'none'}${fixture}`;
   }
 
   /**
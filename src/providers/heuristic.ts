@@ -0,0 +1,456 @@
+/**
+ * Rule-based provider that suggests names without a language model
+ */
+
+import { traverse, types as t, type NodePath } from '@babel/core';
+import { BaseLLMProvider } from './base.js';
+import { LLMRequest, LLMResponse, ProviderConfig, RateLimits, RenameSuggestion } from '../types.js';
+import { parseCode, type Binding } from '../utils/ast.js';
+import { getFunctionPath } from '../transformers/renamer.js';
+
+interface Inference {
+  name: string;
+  confidence: number;
+  reasoning: string;
+}
+
+/** Array methods whose callback receives (item, index, array) */
+const ITERATION_METHODS = new Set(['map', 'forEach', 'filter', 'find', 'findIndex', 'findLast', 'findLastIndex', 'some', 'every', 'flatMap']);
+
+/** Call results named after the method that produced them */
+const METHOD_RESULTS: Record<string, string> = {
+  map: 'mapped',
+  filter: 'filtered',
+  split: 'parts',
+  join: 'text',
+  toString: 'text',
+  trim: 'text',
+  json: 'data',
+  text: 'text',
+  querySelector: 'element',
+  querySelectorAll: 'elements',
+  getElementById: 'element',
+  createElement: 'element',
+  getElementsByTagName: 'elements',
+  getElementsByClassName: 'elements',
+  getContext: 'context',
+  getAttribute: 'attribute',
+  keys: 'keys',
+  values: 'values',
+  entries: 'entries',
+  now: 'now',
+};
+
+/** Calls of global functions with a conventional result name */
+const FUNCTION_RESULTS: Record<string, string> = {
+  fetch: 'response',
+  setTimeout: 'timer',
+  setInterval: 'timer',
+  requestAnimationFrame: 'frameId',
+};
+
+const ACCESSOR_PREFIX = /^(get|create|load|read|find|build|make|fetch|parse|compute|calculate)([A-Z][\w$]*)$/;
+
+/**
+ * Suggests names from how minified bindings are initialized and used:
+ * `require('lodash')` becomes `lodash`, `new Map()` a `map`, callback
+ * parameters of `.map` an `item` and `index`, `exports.render = a` a
+ * `render`, and so on. Needs no API key or network, so it suits demos,
+ * CI and air-gapped machines; confidences stay moderate.
+ */
+export class HeuristicProvider extends BaseLLMProvider {
+  public readonly name = 'heuristic';
+  public readonly models: string[] = []; // No model is involved
+  public readonly maxTokens = 1000000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = false;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+  }
+
+  protected override requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Any model name is accepted and ignored
+   */
+  protected override validateConfig(): void {}
+
+  /**
+   * Suggestions are computed locally without quotas
+   */
+  protected override getDefaultRateLimits(): RateLimits {
+    return {};
+  }
+
+  /**
+   * Suggest names for short identifiers in the code
+   */
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+    const suggestions = this.suggest(request.code, new Set(request.knownNames ?? []));
+
+    this.requestCount++;
+
+    return {
+      suggestions,
+      confidence: this.calculateOverallConfidence(suggestions),
+      tokensUsed: 0,
+      processingTime: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Suggestions for every minified-looking binding a rule applies to
+   */
+  suggest(code: string, knownNames: Set<string> = new Set()): RenameSuggestion[] {
+    let ast: t.File;
+    try {
+      ast = parseCode(code);
+    } catch {
+      // Chunks that do not parse on their own get no suggestions
+      return [];
+    }
+
+    const suggestions: RenameSuggestion[] = [];
+    const seenScopes = new Set<unknown>();
+
+    const visitScope = (path: NodePath) => {
+      if (seenScopes.has(path.scope)) return;
+      seenScopes.add(path.scope);
+
+      for (const binding of Object.values(path.scope.bindings) as Binding[]) {
+        const name = binding.identifier.name;
+        if (name.length > 2 || knownNames.has(name)) continue;
+
+        const inference = this.inferName(binding);
+        if (!inference || inference.name === name || !t.isValidIdentifier(inference.name)) continue;
+
+        suggestions.push({
+          originalName: name,
+          suggestedName: inference.name,
+          confidence: inference.confidence,
+          reasoning: inference.reasoning,
+          type: this.bindingType(binding),
+          line: binding.identifier.loc?.start.line ?? 1,
+          functionPath: getFunctionPath(binding.scope.path),
+        });
+      }
+    };
+
+    traverse(ast, {
+      Program(path) {
+        visitScope(path);
+      },
+      Scopable(path) {
+        visitScope(path);
+      },
+    });
+
+    return suggestions;
+  }
+
+  private inferName(binding: Binding): Inference | undefined {
+    const fromUsage = this.inferFromReferences(binding);
+    if (fromUsage) return fromUsage;
+
+    const path = binding.path;
+
+    if (path.isCatchClause()) {
+      return { name: 'error', confidence: 0.7, reasoning: 'Caught exception' };
+    }
+
+    if (binding.kind === 'param') {
+      return this.inferParameter(binding);
+    }
+
+    if (path.isVariableDeclarator() && t.isIdentifier(path.node.id)) {
+      const loop = this.inferLoopVariable(path);
+      if (loop) return loop;
+
+      if (path.node.init) {
+        return this.inferFromExpression(path.node.init);
+      }
+
+      // `var a; ...; a = value` as minifiers hoist declarations
+      const assignment = binding.constantViolations[0]?.node;
+      if (t.isAssignmentExpression(assignment) && assignment.operator === '=') {
+        const inference = this.inferFromExpression(assignment.right);
+        return inference && { ...inference, confidence: inference.confidence - 0.1 };
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Names given away by where a binding ends up: exported properties,
+   * object properties and event listeners
+   */
+  private inferFromReferences(binding: Binding): Inference | undefined {
+    for (const reference of binding.referencePaths) {
+      const parent = reference.parent;
+
+      // exports.render = a / module.exports.render = a
+      if (t.isAssignmentExpression(parent) && parent.right === reference.node &&
+          t.isMemberExpression(parent.left) && !parent.left.computed && t.isIdentifier(parent.left.property) &&
+          this.isExportsObject(parent.left.object)) {
+        return { name: parent.left.property.name, confidence: 0.8, reasoning: `Exported as ${parent.left.property.name}` };
+      }
+
+      // addEventListener('click', a)
+      if (t.isCallExpression(parent) && parent.arguments[1] === reference.node &&
+          this.calleeName(parent) === 'addEventListener' && t.isStringLiteral(parent.arguments[0])) {
+        const event = parent.arguments[0].value.replace(/[^\w$]+(\w)/g, (_, c: string) => c.toUpperCase());
+        return { name: `handle${capitalize(event)}`, confidence: 0.65, reasoning: `Listener for '${parent.arguments[0].value}' events` };
+      }
+    }
+
+    for (const reference of binding.referencePaths) {
+      const parent = reference.parent;
+
+      // { render: a }
+      if (t.isObjectProperty(parent) && parent.value === reference.node && !parent.computed &&
+          t.isIdentifier(parent.key) && parent.key.name.length > 2) {
+        return { name: parent.key.name, confidence: 0.55, reasoning: `Stored as property ${parent.key.name}` };
+      }
+    }
+
+    return undefined;
+  }
+
+  private inferParameter(binding: Binding): Inference | undefined {
+    const fn = binding.path.parentPath;
+    if (!fn?.isFunction() || !binding.path.isIdentifier()) return undefined;
+
+    const index = fn.node.params.indexOf(binding.path.node);
+    const call = fn.parent;
+
+    // new Promise((a, b) => ...)
+    if (t.isNewExpression(call) && t.isIdentifier(call.callee, { name: 'Promise' })) {
+      const name = ['resolve', 'reject'][index];
+      return name ? { name, confidence: 0.8, reasoning: 'Promise executor argument' } : undefined;
+    }
+
+    // el.onclick = function (a) {}
+    if (t.isAssignmentExpression(call) && t.isMemberExpression(call.left) &&
+        t.isIdentifier(call.left.property) && /^on[a-z]/.test(call.left.property.name) && index === 0) {
+      return { name: 'event', confidence: 0.6, reasoning: `Argument of the ${call.left.property.name} handler` };
+    }
+
+    if (!t.isCallExpression(call) || !call.arguments.includes(fn.node as t.Expression)) return undefined;
+
+    const method = this.calleeName(call);
+    const argument = call.arguments.indexOf(fn.node as t.Expression);
+
+    if (method && ITERATION_METHODS.has(method) && argument === 0) {
+      const item = this.singularOf(call) ?? 'item';
+      const names: Inference[] = [
+        { name: item, confidence: item === 'item' ? 0.55 : 0.65, reasoning: `Element passed to .${method}()` },
+        { name: 'index', confidence: 0.6, reasoning: `Index passed to .${method}()` },
+        { name: 'array', confidence: 0.5, reasoning: `Array passed to .${method}()` },
+      ];
+      return names[index];
+    }
+
+    if ((method === 'reduce' || method === 'reduceRight') && argument === 0) {
+      const names: Inference[] = [
+        { name: 'accumulator', confidence: 0.6, reasoning: `Accumulator of .${method}()` },
+        { name: this.singularOf(call) ?? 'item', confidence: 0.55, reasoning: `Element passed to .${method}()` },
+        { name: 'index', confidence: 0.6, reasoning: `Index passed to .${method}()` },
+      ];
+      return names[index];
+    }
+
+    if (method === 'then') {
+      return index === 0
+        ? { name: argument === 0 ? 'result' : 'error', confidence: 0.5, reasoning: 'Promise settlement value' }
+        : undefined;
+    }
+
+    if (method === 'catch' && index === 0) {
+      return { name: 'error', confidence: 0.65, reasoning: 'Promise rejection reason' };
+    }
+
+    if ((method === 'addEventListener' || method === 'removeEventListener' || method === 'on' || method === 'once') &&
+        argument === 1 && index === 0) {
+      return { name: 'event', confidence: 0.65, reasoning: `Argument of an event listener` };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * `for (const a of users)` and `for (const k in obj)`
+   */
+  private inferLoopVariable(declarator: NodePath<t.VariableDeclarator>): Inference | undefined {
+    const loop = declarator.parentPath.parent;
+    if (declarator.parentPath.listKey || !declarator.parentPath.parentPath?.isFor()) return undefined;
+
+    if (t.isForOfStatement(loop) && loop.left === declarator.parent) {
+      const item = t.isIdentifier(loop.right) ? singularize(loop.right.name) : undefined;
+      return { name: item ?? 'item', confidence: item ? 0.65 : 0.5, reasoning: 'Loop over the elements of a collection' };
+    }
+
+    if (t.isForInStatement(loop) && loop.left === declarator.parent) {
+      return { name: 'key', confidence: 0.65, reasoning: 'Loop over the keys of an object' };
+    }
+
+    return undefined;
+  }
+
+  private inferFromExpression(expression: t.Expression): Inference | undefined {
+    if (t.isAwaitExpression(expression)) {
+      return this.inferFromExpression(expression.argument);
+    }
+
+    if (t.isArrayExpression(expression)) {
+      return { name: 'items', confidence: 0.45, reasoning: 'Initialized with an array literal' };
+    }
+
+    if (t.isStringLiteral(expression) || t.isTemplateLiteral(expression)) {
+      return { name: 'text', confidence: 0.4, reasoning: 'Initialized with a string' };
+    }
+
+    if (t.isNewExpression(expression) && t.isIdentifier(expression.callee) && expression.callee.name.length > 2) {
+      return { name: lowerFirst(expression.callee.name), confidence: 0.7, reasoning: `Instance of ${expression.callee.name}` };
+    }
+
+    if (t.isCallExpression(expression)) {
+      return this.inferFromCall(expression);
+    }
+
+    if (t.isMemberExpression(expression) && !expression.computed &&
+        t.isIdentifier(expression.property) && expression.property.name.length > 2) {
+      return { name: expression.property.name, confidence: 0.5, reasoning: `Value of .${expression.property.name}` };
+    }
+
+    return undefined;
+  }
+
+  private inferFromCall(call: t.CallExpression): Inference | undefined {
+    const callee = call.callee;
+
+    // require('@scope/http-client') → httpClient
+    if (t.isIdentifier(callee, { name: 'require' }) && t.isStringLiteral(call.arguments[0])) {
+      const name = moduleName(call.arguments[0].value);
+      return name ? { name, confidence: 0.85, reasoning: `Module '${call.arguments[0].value}'` } : undefined;
+    }
+
+    if (t.isIdentifier(callee)) {
+      if (FUNCTION_RESULTS[callee.name]) {
+        return { name: FUNCTION_RESULTS[callee.name]!, confidence: 0.7, reasoning: `Result of ${callee.name}()` };
+      }
+      return this.inferFromAccessor(callee.name);
+    }
+
+    if (!t.isMemberExpression(callee) || callee.computed || !t.isIdentifier(callee.property)) {
+      return undefined;
+    }
+
+    const method = callee.property.name;
+
+    if (t.isIdentifier(callee.object, { name: 'JSON' })) {
+      return method === 'parse'
+        ? { name: 'data', confidence: 0.65, reasoning: 'Parsed JSON' }
+        : method === 'stringify' ? { name: 'json', confidence: 0.65, reasoning: 'Serialized JSON' } : undefined;
+    }
+
+    if (METHOD_RESULTS[method]) {
+      return { name: METHOD_RESULTS[method]!, confidence: 0.6, reasoning: `Result of .${method}()` };
+    }
+
+    return this.inferFromAccessor(method);
+  }
+
+  /**
+   * `getUserName()` → `userName`
+   */
+  private inferFromAccessor(functionName: string): Inference | undefined {
+    const match = ACCESSOR_PREFIX.exec(functionName);
+    return match
+      ? { name: lowerFirst(match[2]!), confidence: 0.6, reasoning: `Result of ${functionName}()` }
+      : undefined;
+  }
+
+  /**
+   * Singular of the collection a method is called on, e.g. `users.map` → `user`
+   */
+  private singularOf(call: t.CallExpression): string | undefined {
+    const callee = call.callee;
+    if (!t.isMemberExpression(callee)) return undefined;
+
+    const object = callee.object;
+    const name = t.isIdentifier(object)
+      ? object.name
+      : t.isMemberExpression(object) && !object.computed && t.isIdentifier(object.property) ? object.property.name : undefined;
+
+    return name ? singularize(name) : undefined;
+  }
+
+  private calleeName(call: t.CallExpression): string | undefined {
+    const callee = call.callee;
+    if (t.isIdentifier(callee)) return callee.name;
+    if (t.isMemberExpression(callee) && !callee.computed && t.isIdentifier(callee.property)) return callee.property.name;
+    return undefined;
+  }
+
+  private isExportsObject(node: t.Node): boolean {
+    return t.isIdentifier(node, { name: 'exports' }) ||
+      (t.isMemberExpression(node) && t.isIdentifier(node.object, { name: 'module' }) &&
+        t.isIdentifier(node.property, { name: 'exports' }));
+  }
+
+  private bindingType(binding: Binding): RenameSuggestion['type'] {
+    const path = binding.path;
+    if (path.isFunctionDeclaration()) return 'function';
+    if (path.isClassDeclaration()) return 'class';
+    if (path.isVariableDeclarator() && (t.isFunction(path.node.init) || t.isArrowFunctionExpression(path.node.init))) {
+      return 'function';
+    }
+    return 'variable';
+  }
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+/**
+ * `XMLHttpRequest` → `xmlHttpRequest`, `Map` → `map`
+ */
+function lowerFirst(value: string): string {
+  return value.replace(/^[A-Z]+(?=[A-Z][a-z]|$)|^[A-Z]/, prefix => prefix.toLowerCase());
+}
+
+/**
+ * Singular form of a plural identifier; undefined for short or non-plural names
+ */
+function singularize(name: string): string | undefined {
+  if (name.length <= 3) return undefined;
+  if (/ies$/.test(name)) return name.slice(0, -3) + 'y';
+  if (/(ss|x|ch|sh)es$/.test(name)) return name.slice(0, -2);
+  if (/[^s]s$/.test(name)) return name.slice(0, -1);
+  return undefined;
+}
+
+/**
+ * Identifier for a module specifier: `node:fs` → `fs`, `@scope/http-client` →
+ * `httpClient`, `./utils/format.js` → `format`
+ */
+function moduleName(specifier: string): string | undefined {
+  const base = specifier
+    .replace(/^node:/, '')
+    .replace(/\/(index)?(\.[cm]?js|\.json)?$/, '')
+    .replace(/\.[cm]?js$|\.json$/, '')
+    .split('/')
+    .pop();
+
+  const name = base
+    ?.replace(/[^\w$]+(\w)/g, (_, c: string) => c.toUpperCase())
+    .replace(/^[^a-zA-Z_$]+/, '');
+
+  return name || undefined;
+}
@@ -3,7 +3,8 @@
  */
 
 import { BaseLLMProvider } from './base.js';
-import { LLMRequest, LLMResponse } from '../types.js';
+import { SuggestionStream, readLines } from './streaming.js';
+import { LLMRequest, LLMResponse, RateLimits } from '../types.js';
 import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
 
 interface OllamaModelInfo {
@@ -49,6 +50,10 @@ export class OllamaProvider extends BaseLLMProvider {
     this.baseUrl = config.baseUrl || 'http://localhost:11434';
   }
 
+  override getBaseUrl(): string {
+    return this.baseUrl.replace(/\/+$/, '');
+  }
+
   /**
    * Check if API key is required (Ollama typically doesn't need one)
    */
@@ -67,12 +72,20 @@ export class OllamaProvider extends BaseLLMProvider {
       await this.ensureModelAvailable(request.model);
 
       // Create the prompt since Ollama doesn't support function calling
-      const prompt = this.createCompletePrompt(request.code);
+      const prompt = this.createCompletePrompt(request.code, request.knownNames);
+
+      if (this.wantsStream(request)) {
+        return await this.streamSuggestions(
+          request,
+          sink => this.streamCompletion(request, prompt, sink),
+          text => this.parseTextResponse(text)
+        );
+      }
 
       const response = await this.executeWithRetry(async () => {
         return await this.generateCompletion(request.model, prompt, {
           temperature: request.temperature || this.config.temperature,
-          num_predict: Math.min(request.maxTokens || this.config.maxTokens, 4096),
+          num_predict: this.getMaxResponseTokens(request),
         });
       });
 
@@ -90,6 +103,8 @@ export class OllamaProvider extends BaseLLMProvider {
         suggestions,
         confidence: this.calculateOverallConfidence(suggestions),
         tokensUsed,
+        promptTokens: response.prompt_eval_count,
+        completionTokens: response.eval_count,
         processingTime,
       };
 
@@ -107,12 +122,20 @@ export class OllamaProvider extends BaseLLMProvider {
     }
   }
 
+  override getContextWindow(): number {
+    return this.getModelTokenLimit(this.config.model);
+  }
+
+  protected override describeRequest(request: LLMRequest): string {
+    return this.createCompletePrompt(request.code, request.knownNames);
+  }
+
   /**
    * Create complete prompt for text-based models
    */
-  private createCompletePrompt(code: string): string {
+  private createCompletePrompt(code: string, knownNames?: string[]): string {
     const systemPrompt = this.createSystemPrompt();
-    const userPrompt = this.createUserPrompt(code);
+    const userPrompt = this.createUserPrompt(code, knownNames);
     
     return `${systemPrompt}
 
@@ -124,6 +147,8 @@ Please respond with a JSON object containing an array of rename suggestions. Eac
 - confidence: a number between 0 and 1
 - reasoning: brief explanation
 - type: one of 'variable', 'function', 'class', 'method', 'property'
+- line: the line where the identifier is declared
+- functionPath: dot-separated names of the enclosing functions (empty for top-level)
 
 Example format:
 {
@@ -133,7 +158,9 @@ Example format:
       "suggestedName": "userAge", 
       "confidence": 0.9,
       "reasoning": "Variable stores user's age based on usage context",
-      "type": "variable"
+      "type": "variable",
+      "line": 3,
+      "functionPath": "loadProfile"
     }
   ]
 }
@@ -179,6 +206,48 @@ JSON Response:`;
     return response.json() as Promise<OllamaResponse>;
   }
 
+  /**
+   * Stream a completion from /api/generate, one JSON object per line
+   */
+  private async streamCompletion(request: LLMRequest, prompt: string, sink: SuggestionStream): Promise<void> {
+    const response = await fetch(`${this.baseUrl}/api/generate`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model: request.model,
+        prompt,
+        stream: true,
+        options: {
+          temperature: request.temperature || this.config.temperature,
+          num_predict: this.getMaxResponseTokens(request),
+          top_k: 40,
+          top_p: 0.9,
+          repeat_penalty: 1.1,
+        },
+      }),
+      signal: sink.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorText = await response.text();
+      throw new Error(`Ollama API error (${response.status}): ${errorText}`);
+    }
+
+    for await (const line of readLines(response.body)) {
+      const data = JSON.parse(line) as OllamaResponse & { error?: string };
+      if (data.error) {
+        throw new Error(`Ollama API error: ${data.error}`);
+      }
+
+      sink.write(data.response ?? '');
+      if (data.done) {
+        sink.setUsage(data.prompt_eval_count || 0, data.eval_count || 0);
+      }
+    }
+  }
+
   /**
    * Parse text response to extract rename suggestions
    */
@@ -438,10 +507,17 @@ JSON Response:`;
   /**
    * Estimate cost (Ollama is free, so return 0)
    */
-  estimateCost(inputTokens: number, outputTokens: number, model: string): number {
+  override estimateCost(inputTokens: number, outputTokens: number, model: string): number {
     return 0; // Ollama is free to use locally
   }
 
+  /**
+   * A local server has no quotas; generation speed is that of a 7B model on a consumer GPU
+   */
+  protected override getDefaultRateLimits(): RateLimits {
+    return { outputTokensPerSecond: 20 };
+  }
+
   /**
    * Get model token limit
    */
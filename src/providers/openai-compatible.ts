@@ -0,0 +1,507 @@
+/**
+ * Provider for self-hosted servers exposing the OpenAI chat completions API
+ * (llama.cpp, vLLM, LM Studio, LocalAI, ...)
+ */
+
+import { BaseLLMProvider } from './base.js';
+import { SuggestionStream, readLines } from './streaming.js';
+import { LLMRequest, LLMResponse, OutputMode, ProviderConfig, RateLimits } from '../types.js';
+import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
+
+/**
+ * Structured output strategies, from most to least reliable
+ */
+const OUTPUT_MODES: OutputMode[] = ['tools', 'json_schema', 'json_object', 'text'];
+
+const RENAME_SCHEMA = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      description: 'Array of rename suggestions',
+      items: {
+        type: 'object',
+        properties: {
+          originalName: {
+            type: 'string',
+            description: 'Current variable/function name'
+          },
+          suggestedName: {
+            type: 'string',
+            description: 'Suggested new name'
+          },
+          confidence: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'Confidence score for the suggestion'
+          },
+          reasoning: {
+            type: 'string',
+            description: 'Brief explanation for the name choice'
+          },
+          type: {
+            type: 'string',
+            enum: ['variable', 'function', 'class', 'method', 'property'],
+            description: 'Type of identifier being renamed'
+          },
+          line: {
+            type: 'integer',
+            minimum: 1,
+            description: 'Line (1-based, within the code shown) where the identifier is declared'
+          },
+          functionPath: {
+            type: 'string',
+            description: 'Dot-separated names of the enclosing functions, e.g. "init.onLoad"; empty string for top-level declarations'
+          }
+        },
+        required: ['originalName', 'suggestedName', 'confidence', 'type']
+      }
+    }
+  },
+  required: ['suggestions']
+};
+
+interface ChatCompletionResponse {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+      tool_calls?: Array<{ function: { name: string; arguments: string } }>;
+    };
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{ function?: { arguments?: string } }>;
+    };
+  }>;
+  usage?: ChatCompletionResponse['usage'];
+}
+
+/**
+ * Error returned by the server, keeping the status and body for fallback decisions
+ */
+class CompletionApiError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(`Server error (${status}): ${body.slice(0, 500)}`);
+    this.name = 'CompletionApiError';
+  }
+}
+
+export class OpenAICompatibleProvider extends BaseLLMProvider {
+  public readonly name = 'openai-compatible';
+  public readonly models: string[] = []; // Discovered from the server
+  public readonly maxTokens = 32768; // Depends on the served model; a common default
+  public readonly supportsStreaming = true;
+  public readonly supportsFunctionCalling = true;
+
+  private baseUrl: string;
+  private outputMode: OutputMode;
+  private modelsLoaded = false;
+
+  constructor(config: ProviderConfig) {
+    super(config);
+    this.baseUrl = OpenAICompatibleProvider.normalizeBaseUrl(config.baseUrl!);
+    this.outputMode = config.outputMode && config.outputMode !== 'auto' ? config.outputMode : 'tools';
+  }
+
+  /**
+   * Local servers usually run without authentication
+   */
+  protected override requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Any model name the server serves is accepted, so only the endpoint is checked
+   */
+  protected override validateConfig(): void {
+    if (!this.config.baseUrl) {
+      throw new ReScriptError(
+        ErrorCode.INVALID_CONFIG,
+        'openai-compatible provider requires baseUrl',
+        'provider-setup',
+        false,
+        ['Set baseUrl to your server, e.g. http://localhost:8080/v1 (llama.cpp) or http://localhost:8000/v1 (vLLM)']
+      );
+    }
+  }
+
+  override updateConfig(config: Partial<ProviderConfig>): void {
+    super.updateConfig(config);
+    this.baseUrl = OpenAICompatibleProvider.normalizeBaseUrl(this.config.baseUrl!);
+    if (config.outputMode) {
+      this.outputMode = config.outputMode !== 'auto' ? config.outputMode : 'tools';
+    }
+  }
+
+  override getBaseUrl(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * Process code, falling back to weaker output modes the server supports
+   */
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    const startTime = Date.now();
+
+    try {
+      if (this.wantsStream(request)) {
+        return await this.streamSuggestions(request, async sink => {
+          await this.completeWithFallback(mode => this.streamCompletion(request, mode, sink));
+        });
+      }
+
+      const { response, mode } = await this.executeWithRetry(async () => {
+        return await this.completeWithFallback(mode => this.complete(request, mode));
+      });
+
+      const processingTime = Date.now() - startTime;
+      const suggestions = this.extractSuggestions(response, mode);
+      const usage = response.usage;
+      const tokensUsed = usage?.total_tokens || (usage?.prompt_tokens || 0) + (usage?.completion_tokens || 0);
+
+      this.totalTokensUsed += tokensUsed;
+
+      return {
+        suggestions,
+        confidence: this.calculateOverallConfidence(suggestions),
+        tokensUsed,
+        promptTokens: usage?.prompt_tokens,
+        completionTokens: usage?.completion_tokens,
+        processingTime,
+      };
+
+    } catch (error) {
+      if (error instanceof ReScriptError) {
+        throw error;
+      }
+
+      throw new LLMRequestError(
+        this.name,
+        error instanceof Error ? error.message : String(error),
+        !this.isNonRetryableError(error),
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * Output mode used for the next request
+   */
+  getOutputMode(): OutputMode {
+    return this.outputMode;
+  }
+
+  /**
+   * Send the request in the current output mode, stepping down while the
+   * server rejects the feature it relies on. The mode that works is kept
+   * for later requests unless one was configured explicitly.
+   */
+  private async completeWithFallback<T>(
+    send: (mode: OutputMode) => Promise<T>
+  ): Promise<{ response: T; mode: OutputMode }> {
+    const autoDetect = !this.config.outputMode || this.config.outputMode === 'auto';
+
+    for (;;) {
+      const mode = this.outputMode;
+
+      try {
+        return { response: await send(mode), mode };
+      } catch (error) {
+        const next = OUTPUT_MODES[OUTPUT_MODES.indexOf(mode) + 1];
+        if (!autoDetect || !next || !this.isUnsupportedFeatureError(error)) {
+          throw error;
+        }
+
+        console.warn(`⚠️  ${this.baseUrl} does not support ${mode} output; falling back to ${next}`);
+        this.outputMode = next;
+      }
+    }
+  }
+
+  /**
+   * Call /chat/completions in the given output mode
+   */
+  private async complete(request: LLMRequest, mode: OutputMode): Promise<ChatCompletionResponse> {
+    const response = await this.postCompletion(request, mode, {}, AbortSignal.timeout(this.config.timeout || 30000));
+    return response.json() as Promise<ChatCompletionResponse>;
+  }
+
+  /**
+   * Call /chat/completions with server-sent events, writing tool-call
+   * arguments or content deltas as they arrive
+   */
+  private async streamCompletion(request: LLMRequest, mode: OutputMode, sink: SuggestionStream): Promise<void> {
+    const response = await this.postCompletion(
+      request,
+      mode,
+      { stream: true, stream_options: { include_usage: true } },
+      sink.signal
+    );
+
+    for await (const line of readLines(response.body!)) {
+      if (!line.startsWith('data:')) continue;
+
+      const data = line.slice(5).trim();
+      if (data === '[DONE]') break;
+
+      const chunk = JSON.parse(data) as ChatCompletionChunk;
+      const delta = chunk.choices?.[0]?.delta;
+      // Servers that ignore the tool answer in the content instead
+      const text = delta?.tool_calls?.[0]?.function?.arguments ?? delta?.content;
+      if (text) {
+        sink.write(text);
+      }
+
+      const usage = chunk.usage;
+      if (usage) {
+        const completionTokens = usage.completion_tokens || 0;
+        sink.setUsage(usage.prompt_tokens ?? Math.max(0, (usage.total_tokens || 0) - completionTokens), completionTokens);
+      }
+    }
+  }
+
+  /**
+   * POST a request in the given output mode, throwing on error statuses
+   */
+  private async postCompletion(
+    request: LLMRequest,
+    mode: OutputMode,
+    options: Record<string, unknown>,
+    signal: AbortSignal
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.createHeaders(),
+      body: JSON.stringify({ ...options, ...this.createBody(request, mode) }),
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new CompletionApiError(response.status, await response.text());
+    }
+
+    return response;
+  }
+
+  /**
+   * Request body for the given output mode
+   */
+  private createBody(request: LLMRequest, mode: OutputMode): Record<string, unknown> {
+    const body: Record<string, unknown> = {
+      model: request.model,
+      max_tokens: this.getMaxResponseTokens(request),
+      temperature: request.temperature || this.config.temperature,
+      messages: [
+        { role: 'system', content: request.systemPrompt || this.createSystemPrompt() },
+        { role: 'user', content: this.createModePrompt(request, mode) },
+      ],
+    };
+
+    switch (mode) {
+      case 'tools':
+        body.tools = [{
+          type: 'function',
+          function: {
+            name: 'suggest_renames',
+            description: 'Suggest meaningful names for variables and functions in JavaScript code',
+            parameters: RENAME_SCHEMA,
+          },
+        }];
+        body.tool_choice = { type: 'function', function: { name: 'suggest_renames' } };
+        break;
+
+      case 'json_schema':
+        // Servers like llama.cpp and vLLM compile the schema into a decoding grammar
+        body.response_format = {
+          type: 'json_schema',
+          json_schema: { name: 'suggest_renames', schema: RENAME_SCHEMA, strict: true },
+        };
+        break;
+
+      case 'json_object':
+        body.response_format = { type: 'json_object' };
+        break;
+
+      case 'text':
+        break;
+    }
+
+    return body;
+  }
+
+  protected override describeRequest(request: LLMRequest): string {
+    return JSON.stringify(this.createBody(request, this.outputMode));
+  }
+
+  /**
+   * Read suggestions from a tool call, or from JSON in the message content
+   * when the server ignored the tool
+   */
+  private extractSuggestions(response: ChatCompletionResponse, mode: OutputMode) {
+    const message = response.choices?.[0]?.message;
+    const toolCall = message?.tool_calls?.find(call => call.function.name === 'suggest_renames');
+
+    if (mode === 'tools' && toolCall) {
+      let functionArgs;
+      try {
+        functionArgs = JSON.parse(toolCall.function.arguments);
+      } catch (error) {
+        throw new Error(`Invalid function arguments JSON: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return this.parseRenameSuggestions(functionArgs);
+    }
+
+    const content = message?.content?.trim();
+    if (!content) {
+      throw new ReScriptError(
+        ErrorCode.LLM_INVALID_RESPONSE,
+        'Server returned neither a suggest_renames call nor message content',
+        'llm-processing',
+        false,
+        ['Check that the model is loaded on the server', `Try setting provider.outputMode to 'json_object' or 'text'`]
+      );
+    }
+
+    return this.parseRenameSuggestions(content.replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  }
+
+  /**
+   * Modes without tool calling need the expected JSON shape spelled out
+   */
+  private createModePrompt(request: LLMRequest, mode: OutputMode): string {
+    const prompt = this.createUserPrompt(request.code, request.knownNames);
+
+    if (mode === 'tools') {
+      return `${prompt}
+
+Please use the suggest_renames function to provide structured rename suggestions.`;
+    }
+
+    return `${prompt}
+
+Respond with only a JSON object of the form:
+{
+  "suggestions": [
+    {
+      "originalName": "a",
+      "suggestedName": "userAge",
+      "confidence": 0.9,
+      "reasoning": "Variable stores user's age based on usage context",
+      "type": "variable",
+      "line": 3,
+      "functionPath": "loadProfile"
+    }
+  ]
+}
+
+"type" is one of variable, function, class, method, property. "functionPath" holds the dot-separated enclosing function names and is empty for top-level declarations.`;
+  }
+
+  /**
+   * Whether the server rejected a request because of the output mode rather
+   * than the request itself
+   */
+  private isUnsupportedFeatureError(error: unknown): boolean {
+    if (!(error instanceof CompletionApiError)) return false;
+    if (error.status === 501) return true;
+    if (error.status < 400 || error.status >= 500 || error.status === 429) return false;
+
+    return /tool|function|response_format|json_schema|json_object|grammar|not supported|unsupported/i.test(error.body);
+  }
+
+  /**
+   * Server errors, throttling and timeouts are retried; other client errors are not
+   */
+  protected override isNonRetryableError(error: unknown): boolean {
+    if (error instanceof CompletionApiError) {
+      return error.status < 500 && error.status !== 429 && error.status !== 408;
+    }
+
+    return super.isNonRetryableError(error);
+  }
+
+  private createHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      ...(this.config.apiKey && { Authorization: `Bearer ${this.config.apiKey}` }),
+    };
+  }
+
+  /**
+   * Accept server roots as well as URLs ending in /v1
+   */
+  private static normalizeBaseUrl(baseUrl: string): string {
+    const trimmed = baseUrl.replace(/\/+$/, '');
+    return trimmed.endsWith('/v1') ? trimmed : `${trimmed}/v1`;
+  }
+
+  /**
+   * Load the served models from /v1/models
+   */
+  async loadAvailableModels(): Promise<string[]> {
+    if (this.modelsLoaded) {
+      return this.models;
+    }
+
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.createHeaders(),
+        signal: AbortSignal.timeout(5000),
+      });
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch models: ${response.status}`);
+      }
+
+      const data = await response.json() as { data?: Array<{ id?: unknown }> };
+      const ids = (data.data ?? [])
+        .map(model => model.id)
+        .filter((id): id is string => typeof id === 'string' && id.length > 0);
+
+      // Fill the models array in place; callers may hold on to it
+      this.models.splice(0, this.models.length, ...ids);
+      this.modelsLoaded = true;
+
+      return this.models;
+
+    } catch (error) {
+      throw new ReScriptError(
+        ErrorCode.LLM_REQUEST_FAILED,
+        `Failed to list models at ${this.baseUrl}: ${error instanceof Error ? error.message : String(error)}`,
+        'provider-setup',
+        false,
+        ['Check that the server is running', 'Check the base URL, e.g. http://localhost:8080/v1']
+      );
+    }
+  }
+
+  /**
+   * Get available models (public interface)
+   */
+  async getAvailableModels(): Promise<string[]> {
+    return this.loadAvailableModels();
+  }
+
+  /**
+   * Self-hosted models have no per-token price
+   */
+  override estimateCost(_inputTokens: number, _outputTokens: number, _model: string): number {
+    return 0;
+  }
+
+  /**
+   * Self-hosted servers have no quotas; generation speed depends on the hardware
+   */
+  protected override getDefaultRateLimits(): RateLimits {
+    return { outputTokensPerSecond: 30 };
+  }
+}
@@ -4,7 +4,8 @@
 
 import OpenAI from 'openai';
 import { BaseLLMProvider } from './base.js';
-import { LLMRequest, LLMResponse } from '../types.js';
+import { SuggestionStream } from './streaming.js';
+import { LLMRequest, LLMResponse, RateLimits } from '../types.js';
 import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
 
 export class OpenAIProvider extends BaseLLMProvider {
@@ -42,69 +43,12 @@ export class OpenAIProvider extends BaseLLMProvider {
     const startTime = Date.now();
 
     try {
+      if (this.wantsStream(request)) {
+        return await this.streamSuggestions(request, sink => this.streamFunctionArguments(request, sink));
+      }
+
       const response = await this.executeWithRetry(async () => {
-        return await this.client.chat.completions.create({
-          model: request.model,
-          max_tokens: Math.min(request.maxTokens || this.config.maxTokens, 4096),
-          temperature: request.temperature || this.config.temperature,
-          messages: [
-            {
-              role: 'system',
-              content: request.systemPrompt || this.createSystemPrompt()
-            },
-            {
-              role: 'user', 
-              content: this.createUserPrompt(request.code)
-            }
-          ],
-          tools: [{
-            type: 'function',
-            function: {
-              name: 'suggest_renames',
-              description: 'Suggest meaningful names for variables and functions in JavaScript code',
-              parameters: {
-                type: 'object',
-                properties: {
-                  suggestions: {
-                    type: 'array',
-                    description: 'Array of rename suggestions',
-                    items: {
-                      type: 'object',
-                      properties: {
-                        originalName: {
-                          type: 'string',
-                          description: 'Current variable/function name'
-                        },
-                        suggestedName: {
-                          type: 'string',
-                          description: 'Suggested new name'
-                        },
-                        confidence: {
-                          type: 'number',
-                          minimum: 0,
-                          maximum: 1,
-                          description: 'Confidence score for the suggestion'
-                        },
-                        reasoning: {
-                          type: 'string',
-                          description: 'Brief explanation for the name choice'
-                        },
-                        type: {
-                          type: 'string',
-                          enum: ['variable', 'function', 'class', 'method', 'property'],
-                          description: 'Type of identifier being renamed'
-                        }
-                      },
-                      required: ['originalName', 'suggestedName', 'confidence', 'type']
-                    }
-                  }
-                },
-                required: ['suggestions']
-              }
-            }
-          }],
-          tool_choice: { type: 'function', function: { name: 'suggest_renames' } }
-        });
+        return await this.client.chat.completions.create(this.createCompletionParams(request));
       });
 
       const processingTime = Date.now() - startTime;
@@ -136,6 +80,8 @@ export class OpenAIProvider extends BaseLLMProvider {
         suggestions,
         confidence: this.calculateOverallConfidence(suggestions),
         tokensUsed,
+        promptTokens: response.usage?.prompt_tokens,
+        completionTokens: response.usage?.completion_tokens,
         processingTime,
       };
 
@@ -162,11 +108,116 @@ export class OpenAIProvider extends BaseLLMProvider {
     }
   }
 
+  /**
+   * Request parameters forcing the suggest_renames function
+   */
+  private createCompletionParams(request: LLMRequest): OpenAI.ChatCompletionCreateParamsNonStreaming {
+    return {
+      model: request.model,
+      max_tokens: this.getMaxResponseTokens(request),
+      temperature: request.temperature || this.config.temperature,
+      messages: [
+        {
+          role: 'system',
+          content: request.systemPrompt || this.createSystemPrompt()
+        },
+        {
+          role: 'user', 
+          content: this.createUserPrompt(request.code, request.knownNames)
+        }
+      ],
+      tools: [{
+        type: 'function',
+        function: {
+          name: 'suggest_renames',
+          description: 'Suggest meaningful names for variables and functions in JavaScript code',
+          parameters: {
+            type: 'object',
+            properties: {
+              suggestions: {
+                type: 'array',
+                description: 'Array of rename suggestions',
+                items: {
+                  type: 'object',
+                  properties: {
+                    originalName: {
+                      type: 'string',
+                      description: 'Current variable/function name'
+                    },
+                    suggestedName: {
+                      type: 'string',
+                      description: 'Suggested new name'
+                    },
+                    confidence: {
+                      type: 'number',
+                      minimum: 0,
+                      maximum: 1,
+                      description: 'Confidence score for the suggestion'
+                    },
+                    reasoning: {
+                      type: 'string',
+                      description: 'Brief explanation for the name choice'
+                    },
+                    type: {
+                      type: 'string',
+                      enum: ['variable', 'function', 'class', 'method', 'property'],
+                      description: 'Type of identifier being renamed'
+                    },
+                    line: {
+                      type: 'integer',
+                      minimum: 1,
+                      description: 'Line (1-based, within the code shown) where the identifier is declared'
+                    },
+                    functionPath: {
+                      type: 'string',
+                      description: 'Dot-separated names of the enclosing functions, e.g. "init.onLoad"; empty string for top-level declarations'
+                    }
+                  },
+                  required: ['originalName', 'suggestedName', 'confidence', 'type']
+                }
+              }
+            },
+            required: ['suggestions']
+          }
+        }
+      }],
+      tool_choice: { type: 'function', function: { name: 'suggest_renames' } }
+    };
+  }
+
+  override getContextWindow(): number {
+    return this.getModelTokenLimit(this.config.model);
+  }
+
+  protected override describeRequest(request: LLMRequest): string {
+    return JSON.stringify(this.createCompletionParams(request));
+  }
+
+  /**
+   * Stream the suggest_renames arguments as GPT generates them
+   */
+  private async streamFunctionArguments(request: LLMRequest, sink: SuggestionStream): Promise<void> {
+    const stream = await this.client.chat.completions.create(
+      { ...this.createCompletionParams(request), stream: true, stream_options: { include_usage: true } },
+      { signal: sink.signal }
+    );
+
+    for await (const chunk of stream) {
+      const toolCall = chunk.choices[0]?.delta?.tool_calls?.[0];
+      if (toolCall?.function?.arguments) {
+        sink.write(toolCall.function.arguments);
+      }
+      if (chunk.usage) {
+        sink.setUsage(chunk.usage.prompt_tokens, chunk.usage.completion_tokens);
+      }
+    }
+  }
+
   /**
    * Create enhanced user prompt for GPT
    */
-  protected override createUserPrompt(code: string): string {
-    const basePrompt = super.createUserPrompt(code);
+  protected override createUserPrompt(code: string, knownNames?: string[]): string {
+    const basePrompt = super.createUserPrompt(code, knownNames);
     
     return `${basePrompt}
 
@@ -184,6 +235,8 @@ For each suggestion, provide:
 - **confidence**: Your confidence level (0.0 = uncertain, 1.0 = very confident)
 - **reasoning**: Brief explanation of why this name is appropriate
 - **type**: The type of identifier (variable, function, class, method, property)
+- **line**: The line where the identifier is declared
+- **functionPath**: The enclosing function names (empty for top-level), so reused short names map to a single declaration
 
 Prioritize suggestions where you have high confidence based on clear context clues.`;
   }
@@ -240,7 +293,7 @@ Prioritize suggestions where you have high confidence based on clear context clu
   /**
    * Estimate cost for request
    */
-  estimateCost(inputTokens: number, outputTokens: number, model: string): number {
+  override estimateCost(inputTokens: number, outputTokens: number, model: string): number {
     // Approximate pricing as of 2024 (in USD per 1K tokens)
     const pricing: Record<string, { input: number; output: number }> = {
       'gpt-4o': { input: 0.005, output: 0.015 },
@@ -256,6 +309,13 @@ Prioritize suggestions where you have high confidence based on clear context clu
            (outputTokens / 1000) * modelPricing.output;
   }
 
+  /**
+   * OpenAI's tier 1 limits for GPT-4o
+   */
+  protected override getDefaultRateLimits(): RateLimits {
+    return { requestsPerMinute: 500, tokensPerMinute: 30000, outputTokensPerSecond: 80 };
+  }
+
   /**
    * Support for Azure OpenAI
    */
@@ -0,0 +1,246 @@
+/**
+ * Record/replay provider for deterministic tests and offline runs
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { BaseLLMProvider } from './base.js';
+import { LLMRequest, LLMResponse, ProviderConfig, RateLimits, TokenBudget } from '../types.js';
+import { ReScriptError, ErrorCode } from '../utils/errors.js';
+import { Tokenizer } from '../utils/tokenizer.js';
+
+const FIXTURE_VERSION = 1;
+
+export interface FixtureEntry {
+  /** Model the response was recorded with, for reference only */
+  model: string;
+  request: Pick<LLMRequest, 'code' | 'systemPrompt' | 'knownNames'>;
+  response: LLMResponse;
+}
+
+export interface FixtureFile {
+  version: number;
+  entries: Record<string, FixtureEntry>;
+}
+
+/**
+ * Answers requests from a fixture file keyed by request hash
+ *
+ * With `name: 'replay'` every request must have been recorded. When any
+ * other provider is configured with `record: true`, the factory wraps it in
+ * a ReplayProvider that replays known requests and records the rest.
+ */
+export class ReplayProvider extends BaseLLMProvider {
+  public readonly name: string;
+  public readonly models: string[] = []; // Any model; requests are matched by content
+  public readonly maxTokens: number;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = true;
+
+  private fixture?: Promise<FixtureFile>;
+  private writing: Promise<void> = Promise.resolve();
+  /** Responses answered from the fixture, which cost nothing */
+  private replayed = new WeakSet<object>();
+
+  constructor(config: ProviderConfig, private readonly upstream?: BaseLLMProvider) {
+    super(config);
+    this.name = upstream ? upstream.name : 'replay';
+    this.maxTokens = upstream ? upstream.maxTokens : 200000;
+  }
+
+  /**
+   * Replay needs no credentials; recording uses the upstream provider's
+   */
+  protected override requiresApiKey(): boolean {
+    return false;
+  }
+
+  /**
+   * Only the fixture path is required
+   */
+  protected override validateConfig(): void {
+    if (!this.config.fixture) {
+      throw new ReScriptError(
+        ErrorCode.INVALID_CONFIG,
+        this.config.name === 'replay'
+          ? 'Replay provider requires a fixture file'
+          : 'Recording requires a fixture file',
+        'provider-setup',
+        false,
+        ['Set provider.fixture or pass --fixture <path>']
+      );
+    }
+  }
+
+  override updateConfig(config: Partial<ProviderConfig>): void {
+    const fixture = this.config.fixture;
+    super.updateConfig(config);
+    this.upstream?.updateConfig(config);
+
+    if (this.config.fixture !== fixture) {
+      this.fixture = undefined;
+    }
+  }
+
+  /**
+   * Return the recorded response, or record the upstream provider's
+   */
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    const key = ReplayProvider.requestKey(request);
+    const fixture = await this.loadFixture();
+    const entry = fixture.entries[key];
+
+    if (entry) {
+      this.requestCount++;
+      this.totalTokensUsed += entry.response.tokensUsed;
+      this.replayed.add(entry.response);
+      return entry.response;
+    }
+
+    if (!this.upstream) {
+      throw new ReScriptError(
+        ErrorCode.LLM_REQUEST_FAILED,
+        `No recorded response in ${this.config.fixture} for request ${key}`,
+        'llm-processing',
+        false,
+        [
+          'Re-record the fixture: --provider <name> --fixture <path> --record',
+          'Inputs, chunking settings and prompts must match the recording',
+        ]
+      );
+    }
+
+    const response = await this.upstream.processCode(request);
+    if (response.partial) {
+      return response; // Cut short; record it on a run that completes
+    }
+
+    fixture.entries[key] = {
+      model: request.model,
+      request: {
+        code: request.code,
+        ...(request.systemPrompt && { systemPrompt: request.systemPrompt }),
+        ...(request.knownNames?.length && { knownNames: request.knownNames }),
+      },
+      response,
+    };
+    await this.saveFixture(fixture);
+
+    return response;
+  }
+
+  override getModel(): string {
+    return this.upstream ? this.upstream.getModel() : super.getModel();
+  }
+
+  override getBaseUrl(): string | undefined {
+    return this.upstream ? this.upstream.getBaseUrl() : super.getBaseUrl();
+  }
+
+  /**
+   * Budget like the recorded provider so replayed runs chunk the same way
+   */
+  override getTokenBudget(knownNames: string[] = []): TokenBudget {
+    return this.upstream ? this.upstream.getTokenBudget(knownNames) : super.getTokenBudget(knownNames);
+  }
+
+  override getTokenizer(): Tokenizer {
+    return this.upstream ? this.upstream.getTokenizer() : super.getTokenizer();
+  }
+
+  override estimateCost(inputTokens: number, outputTokens: number, model: string): number {
+    return this.upstream ? this.upstream.estimateCost(inputTokens, outputTokens, model) : 0;
+  }
+
+  /**
+   * Replayed responses are instant; recording runs at the upstream provider's pace
+   */
+  override getRateLimits(): RateLimits {
+    return this.upstream ? this.upstream.getRateLimits() : { ...this.config.rateLimits };
+  }
+
+  override getResponseCost(response: Pick<LLMResponse, 'tokensUsed' | 'promptTokens' | 'completionTokens'>): number {
+    return this.replayed.has(response) ? 0 : super.getResponseCost(response);
+  }
+
+  /**
+   * Hash of what determines a response: the code, the prompt and the names
+   * that must be kept. Model and sampling settings are left out so a
+   * recording replays under any replay configuration.
+   */
+  static requestKey(request: LLMRequest): string {
+    return createHash('sha256')
+      .update(JSON.stringify({
+        code: request.code.replace(/\r\n/g, '\n'),
+        systemPrompt: request.systemPrompt ?? null,
+        knownNames: [...(request.knownNames ?? [])].sort(),
+      }))
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Read the fixture once; a missing file starts empty when recording
+   */
+  private loadFixture(): Promise<FixtureFile> {
+    this.fixture ??= (async () => {
+      const path = this.config.fixture!;
+      let content: string;
+
+      try {
+        content = await readFile(path, 'utf8');
+      } catch (error) {
+        if (this.upstream && (error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return { version: FIXTURE_VERSION, entries: {} };
+        }
+        throw new ReScriptError(
+          ErrorCode.FILE_READ_ERROR,
+          `Cannot read fixture ${path}: ${error instanceof Error ? error.message : String(error)}`,
+          'provider-setup',
+          false,
+          ['Record one first with --record']
+        );
+      }
+
+      const fixture = JSON.parse(content) as FixtureFile;
+      if (fixture.version !== FIXTURE_VERSION || typeof fixture.entries !== 'object') {
+        throw new ReScriptError(
+          ErrorCode.INVALID_FILE_FORMAT,
+          `Unsupported fixture format in ${path}`,
+          'provider-setup',
+          false,
+          ['Re-record the fixture with --record']
+        );
+      }
+
+      return fixture;
+    })();
+
+    return this.fixture;
+  }
+
+  /**
+   * Write the fixture atomically with sorted keys so recordings diff cleanly;
+   * concurrent chunks queue their writes
+   */
+  private saveFixture(fixture: FixtureFile): Promise<void> {
+    const path = this.config.fixture!;
+
+    const write = this.writing.then(async () => {
+      const sorted: FixtureFile = {
+        version: FIXTURE_VERSION,
+        entries: Object.fromEntries(Object.keys(fixture.entries).sort().map(key => [key, fixture.entries[key]!])),
+      };
+
+      await mkdir(dirname(path), { recursive: true });
+      const temporary = `${path}.${process.pid}.tmp`;
+      await writeFile(temporary, JSON.stringify(sorted, null, 2) + '\n', 'utf8');
+      await rename(temporary, path);
+    });
+
+    // A failed write must not block later ones
+    this.writing = write.catch(() => undefined);
+    return write;
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Helpers for reading streamed provider responses
+ */
+
+/**
+ * Sink a provider writes streamed output into
+ */
+export interface SuggestionStream {
+  /** Aborted on idle timeout or when the caller gives up */
+  signal: AbortSignal;
+  /** Append generated text: tool-call arguments or message content */
+  write(delta: string): void;
+  /** Record the token usage the server reported */
+  setUsage(promptTokens: number, completionTokens: number): void;
+}
+
+/**
+ * Pulls complete suggestion objects out of JSON that is still arriving
+ *
+ * Suggestions are the objects inside an array at the root or in a property
+ * of the root object, i.e. `[{...}, ...]` or `{"suggestions": [{...}, ...]}`.
+ * Text before the JSON starts (prose, a code fence) is skipped.
+ */
+export class IncrementalSuggestionParser {
+  private buffer = '';
+  private position = 0;
+  private stack: Array<'{' | '['> = [];
+  private inString = false;
+  private escaped = false;
+  private objectStart = -1;
+
+  /**
+   * Add a piece of text and return the suggestion objects it completed
+   */
+  push(delta: string): unknown[] {
+    this.buffer += delta;
+    const completed: unknown[] = [];
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position]!;
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        // Quotes in prose around the JSON do not start strings
+        this.inString = this.stack.length > 0;
+      } else if (char === '{' || char === '[') {
+        if (char === '{' && this.atSuggestionPosition()) {
+          this.objectStart = this.position;
+        }
+        this.stack.push(char);
+      } else if ((char === '}' || char === ']') && this.stack.length > 0) {
+        this.stack.pop();
+        if (char === '}' && this.objectStart >= 0 && this.atSuggestionPosition()) {
+          try {
+            completed.push(JSON.parse(this.buffer.slice(this.objectStart, this.position + 1)));
+          } catch {
+            // Not JSON after all (e.g. braces in prose); the final parse decides
+          }
+          this.objectStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  /**
+   * Everything received so far
+   */
+  get text(): string {
+    return this.buffer;
+  }
+
+  /**
+   * Whether an object opened at the current depth would be a suggestion
+   */
+  private atSuggestionPosition(): boolean {
+    const depth = this.stack.length;
+    return this.stack[depth - 1] === '[' && (depth === 1 || (depth === 2 && this.stack[0] === '{'));
+  }
+}
+
+/**
+ * Read a response body line by line, for NDJSON and server-sent events
+ */
+export async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      pending += decoder.decode(value, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop()!;
+
+      for (const line of lines) {
+        if (line.trim()) yield line.replace(/\r$/, '');
+      }
+    }
+
+    pending += decoder.decode();
+    if (pending.trim()) yield pending;
+  } finally {
+    reader.releaseLock();
+  }
+}
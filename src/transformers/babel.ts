@@ -2,10 +2,11 @@
  * Babel transformer for AST-based code improvements
  */
 
-import { transform } from '@babel/core';
-import * as t from '@babel/types';
-import { ProcessingStep, ProcessingInput, ProcessingOutput } from '../types.js';
+import { transform, types as t, type NodePath } from '@babel/core';
+import type { Binding } from '../utils/ast.js';
+import { ProcessingStep, ProcessingInput, ProcessingOutput, SourceMapData } from '../types.js';
 import { BabelTransformError, ReScriptError, ErrorCode } from '../utils/errors.js';
+import { wantsSourceMaps, getSourceName, toSourceMapData } from '../utils/sourcemap.js';
 
 export interface BabelTransformOptions {
   enableBeautifier?: boolean;
@@ -14,9 +15,20 @@ export interface BabelTransformOptions {
   expandNumberLiterals?: boolean;
   removeUnnecessaryParens?: boolean;
   simplifyBooleanExpressions?: boolean;
+  /** Replace `while (true) { switch (order[i++]) { ... } break; }` dispatchers with their cases in order */
+  unflattenControlFlow?: boolean;
   timeout?: number;
 }
 
+/**
+ * A loop running a `switch` over `order[index++]`
+ */
+interface Dispatcher {
+  switchPath: NodePath<t.SwitchStatement>;
+  order: string;
+  index: string;
+}
+
 export class BabelTransformer implements ProcessingStep {
   public readonly name = 'babel';
   public readonly description = 'AST-based code transformations using Babel';
@@ -31,6 +43,7 @@ export class BabelTransformer implements ProcessingStep {
       expandNumberLiterals: true,
       removeUnnecessaryParens: true,
       simplifyBooleanExpressions: true,
+      unflattenControlFlow: true,
       timeout: 15000, // 15 seconds default
       ...options,
     };
@@ -46,11 +59,13 @@ export class BabelTransformer implements ProcessingStep {
       console.log('🔧 Applying Babel transformations...');
 
       // Build plugins list based on options
-      const plugins = this.buildPluginsList();
+      const warnings: string[] = [];
+      const unflattened = { count: 0 };
+      const plugins = this.buildPluginsList(warnings, unflattened);
 
       // Execute transformation with timeout
-      const result = await this.executeWithTimeout(
-        () => this.transformCode(input.code, plugins),
+      const { code: result, map } = await this.executeWithTimeout(
+        () => this.transformCode(input.code, plugins, wantsSourceMaps(input) ? getSourceName(input) : undefined),
         this.options.timeout || 15000
       );
 
@@ -61,6 +76,12 @@ export class BabelTransformer implements ProcessingStep {
 
       console.log(`✓ Babel transformations completed in ${processingTime}ms`);
       console.log(`  Applied ${plugins.length} transformation(s)`);
+      if (unflattened.count > 0) {
+        console.log(`  Unflattened ${unflattened.count} control flow dispatcher(s)`);
+      }
+      for (const warning of warnings) {
+        console.warn(`⚠️  ${warning}`);
+      }
 
       return {
         code: result,
@@ -75,6 +96,8 @@ export class BabelTransformer implements ProcessingStep {
           },
         },
         success: true,
+        sourceMap: map,
+        ...(warnings.length > 0 && { warnings }),
       };
 
     } catch (error) {
@@ -98,16 +121,21 @@ export class BabelTransformer implements ProcessingStep {
   }
 
   /**
-   * Transform code using Babel
+   * Transform code using Babel, with a source map when a source name is given
    */
-  private async transformCode(code: string, plugins: any[]): Promise<string> {
+  private async transformCode(
+    code: string,
+    plugins: any[],
+    sourceFileName?: string
+  ): Promise<{ code: string; map?: SourceMapData }> {
     return new Promise((resolve, reject) => {
       transform(code, {
         plugins,
         compact: false,
         minified: false,
         comments: true, // Preserve comments
-        sourceMaps: false,
+        sourceMaps: sourceFileName !== undefined,
+        sourceFileName,
         retainLines: false,
         parserOpts: {
           sourceType: 'unambiguous' as any,
@@ -140,7 +168,10 @@ export class BabelTransformer implements ProcessingStep {
           return;
         }
 
-        resolve(result.code);
+        resolve({
+          code: result.code,
+          map: result.map ? toSourceMapData(result.map) : undefined,
+        });
       });
     });
   }
@@ -148,9 +179,14 @@ export class BabelTransformer implements ProcessingStep {
   /**
    * Build plugins list based on options
    */
-  private buildPluginsList(): unknown[] {
+  private buildPluginsList(warnings: string[], unflattened: { count: number }): unknown[] {
     const plugins: unknown[] = [];
 
+    // Runs first so the other plugins see the statements in their real order
+    if (this.options.unflattenControlFlow) {
+      plugins.push(this.createUnflattenControlFlowPlugin(warnings, unflattened));
+    }
+
     if (this.options.convertVoidToUndefined) {
       plugins.push(this.createVoidToUndefinedPlugin());
     }
@@ -333,6 +369,43 @@ export class BabelTransformer implements ProcessingStep {
     };
   }
 
+  /**
+   * Plugin to undo control flow flattening
+   *
+   * Obfuscators shuffle the statements of a block into the cases of a
+   * `switch` and run them from a loop in the original order:
+   * `var o = '1|0'.split('|'), i = 0; while (true) { switch (o[i++]) { case '0': b(); continue; case '1': a(); continue; } break; }`.
+   * When the order is a constant string or array declared just before the
+   * loop and read nowhere else, the loop is replaced by the cases in that
+   * order. Dispatchers whose order is not constant, or whose cases do more
+   * than run and `continue`, are kept and reported in `warnings`.
+   */
+  private createUnflattenControlFlowPlugin(warnings: string[], unflattened: { count: number }) {
+    return {
+      visitor: {
+        'WhileStatement|ForStatement'(path: NodePath<t.WhileStatement | t.ForStatement>) {
+          const dispatcher = matchDispatcher(path);
+          if (!dispatcher) {
+            return;
+          }
+
+          const result = unflattenDispatcher(path, dispatcher);
+          if (typeof result === 'string') {
+            warnings.push(`Kept the control flow dispatcher at line ${path.node.loc?.start.line ?? '?'}: ${result}`);
+            return;
+          }
+
+          unflattened.count++;
+          if (result.length > 0) {
+            path.replaceWithMultiple(result);
+          } else {
+            path.remove();
+          }
+        },
+      },
+    };
+  }
+
   /**
    * Execute operation with timeout
    */
@@ -461,4 +534,191 @@ export class BabelTransformer implements ProcessingStep {
   getOptions(): BabelTransformOptions {
     return { ...this.options };
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Recognise `while (true)` or `for (;;)` loops whose body is
+ * `switch (order[index++]) { ... } break;`
+ */
+function matchDispatcher(path: NodePath<t.WhileStatement | t.ForStatement>): Dispatcher | undefined {
+  const { node } = path;
+  const endless = t.isForStatement(node)
+    ? !node.init && !node.test && !node.update
+    : path.get('test').evaluateTruthy() === true;
+
+  if (!endless || !Array.isArray(path.container) || path.parentPath.isLabeledStatement() || !t.isBlockStatement(node.body)) {
+    return undefined;
+  }
+
+  const [dispatch, exit, ...rest] = node.body.body;
+  if (rest.length > 0 || !t.isSwitchStatement(dispatch) || !t.isBreakStatement(exit) || exit.label) {
+    return undefined;
+  }
+
+  const discriminant = dispatch.discriminant;
+  if (
+    !t.isMemberExpression(discriminant) ||
+    !discriminant.computed ||
+    !t.isIdentifier(discriminant.object) ||
+    !t.isUpdateExpression(discriminant.property) ||
+    discriminant.property.operator !== '++' ||
+    discriminant.property.prefix ||
+    !t.isIdentifier(discriminant.property.argument)
+  ) {
+    return undefined;
+  }
+
+  return {
+    switchPath: path.get('body.body.0') as NodePath<t.SwitchStatement>,
+    order: discriminant.object.name,
+    index: discriminant.property.argument.name,
+  };
+}
+
+/**
+ * Statements of a dispatcher's cases in the order it runs them, or why the
+ * dispatcher has to stay
+ *
+ * On success the declarations of the order and the index are removed.
+ */
+function unflattenDispatcher(
+  path: NodePath<t.WhileStatement | t.ForStatement>,
+  { switchPath, order: orderName, index: indexName }: Dispatcher
+): t.Statement[] | string {
+  const discriminant = switchPath.get('discriminant') as NodePath<t.MemberExpression>;
+  const orderBinding = path.scope.getBinding(orderName);
+  const indexBinding = path.scope.getBinding(indexName);
+
+  const order = orderBinding && declaredBefore(orderBinding, path) ? constantOrder(orderBinding.path.node.init) : undefined;
+  if (!order) {
+    return `its order ${orderName} is not a constant string or array declared before the loop`;
+  }
+  if (!orderBinding!.constant || orderBinding!.referencePaths.some(reference => reference.parentPath !== discriminant)) {
+    return `its order ${orderName} is used outside the dispatcher`;
+  }
+
+  const start = indexBinding && declaredBefore(indexBinding, path) ? indexBinding.path.node.init : undefined;
+  if (!t.isNumericLiteral(start) || !Number.isInteger(start.value)) {
+    return `its counter ${indexName} does not start at a constant`;
+  }
+  const update = discriminant.node.property;
+  if (
+    indexBinding!.constantViolations.some(violation => violation.node !== update) ||
+    indexBinding!.referencePaths.some(reference => reference.parent !== update)
+  ) {
+    return `its counter ${indexName} is used outside the dispatcher`;
+  }
+
+  const cases = new Map<string, NodePath<t.SwitchCase>>();
+  for (const casePath of switchPath.get('cases')) {
+    const test = casePath.node.test;
+    if (!t.isStringLiteral(test) && !t.isNumericLiteral(test)) {
+      return 'its cases are not labelled with constants';
+    }
+    if (cases.has(String(test.value))) {
+      return `case ${String(test.value)} appears twice`;
+    }
+    cases.set(String(test.value), casePath);
+  }
+
+  const statements: t.Statement[] = [];
+  for (const key of order.slice(start.value)) {
+    const casePath = cases.get(key);
+    if (!casePath) {
+      return `its order runs case ${key}, which does not exist`;
+    }
+
+    const body = casePath.get('consequent');
+    const last = body[body.length - 1];
+    const continues = last?.isContinueStatement() && !last.node.label;
+    if (!continues && !last?.isReturnStatement() && !last?.isThrowStatement()) {
+      return `case ${key} falls through`;
+    }
+    if (body.some(statement => leavesDispatcher(statement, switchPath, path) && statement !== last)) {
+      return `case ${key} jumps out of the dispatcher`;
+    }
+
+    statements.push(...(continues ? body.slice(0, -1) : body).map(statement => t.cloneNode(statement.node, true)));
+    if (!continues) {
+      break;
+    }
+  }
+
+  const lexical = statements.flatMap(statement =>
+    t.isVariableDeclaration(statement) && statement.kind !== 'var' || t.isClassDeclaration(statement) || t.isFunctionDeclaration(statement)
+      ? Object.keys(t.getBindingIdentifiers(statement, false))
+      : []);
+  if (lexical.some((name, position) => lexical.indexOf(name) !== position || path.scope.hasBinding(name))) {
+    return 'declarations in its cases would clash once they share a block';
+  }
+
+  orderBinding!.path.remove();
+  indexBinding!.path.remove();
+  return statements;
+}
+
+/**
+ * Whether a binding is declared by a declarator in the block holding the
+ * loop, ahead of it
+ */
+function declaredBefore(
+  binding: Binding,
+  loop: NodePath
+): binding is Binding & { path: NodePath<t.VariableDeclarator> } {
+  const declaration = binding.path.parentPath;
+  return binding.path.isVariableDeclarator() &&
+    declaration?.container === loop.container &&
+    (declaration.key as number) < (loop.key as number);
+}
+
+/**
+ * Keys of a `'1|0|2'.split('|')` or `[1, 0, 2]` order
+ */
+function constantOrder(init: t.Expression | null | undefined): string[] | undefined {
+  if (t.isArrayExpression(init)) {
+    const keys = init.elements.map(element =>
+      t.isStringLiteral(element) || t.isNumericLiteral(element) ? String(element.value) : undefined);
+    return keys.every(key => key !== undefined) ? keys as string[] : undefined;
+  }
+
+  if (
+    t.isCallExpression(init) &&
+    t.isMemberExpression(init.callee) &&
+    t.isStringLiteral(init.callee.object) &&
+    (t.isIdentifier(init.callee.property, { name: 'split' }) && !init.callee.computed ||
+      t.isStringLiteral(init.callee.property, { value: 'split' })) &&
+    init.arguments.length === 1 &&
+    t.isStringLiteral(init.arguments[0])
+  ) {
+    return init.callee.object.value.split(init.arguments[0].value);
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether a statement contains a `break` or `continue` aimed at the
+ * dispatcher's `switch` or loop
+ */
+function leavesDispatcher(statement: NodePath, switchPath: NodePath, loop: NodePath): boolean {
+  let leaves = false;
+  const check = (jump: NodePath<t.BreakStatement | t.ContinueStatement>): void => {
+    if (jump.node.label) {
+      return;
+    }
+    const target = jump.findParent(parent =>
+      parent.isFunction() || parent.isLoop() || (jump.isBreakStatement() && parent.isSwitchStatement()));
+    if (target === switchPath || target === loop) {
+      leaves = true;
+    }
+  };
+
+  if (statement.isBreakStatement() || statement.isContinueStatement()) {
+    check(statement);
+  }
+  statement.traverse({
+    'BreakStatement|ContinueStatement': check,
+    Function: inner => inner.skip(),
+  });
+  return leaves;
+}
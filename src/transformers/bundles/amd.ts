@@ -0,0 +1,166 @@
+/**
+ * Unpacker for AMD bundles, the `define()` calls the RequireJS optimizer and
+ * almond concatenate into one file
+ *
+ * Each factory becomes a CommonJS module: its dependencies are required,
+ * and what it returns is assigned to `module.exports`. The loader itself is
+ * left out, like a webpack runtime; a top-level `require([...], callback)`
+ * becomes the entry module.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import {
+  BundleBody,
+  FormatUnpacker,
+  UnpackedModules,
+  assignPaths,
+  functionStatements,
+  printModule,
+  renameParam,
+  requireCall,
+  resolveModuleName,
+  rewriteRequires,
+  specifierFor,
+  statementCalls,
+} from './shared.js';
+
+interface Definition {
+  /** Name the module is registered under, when it has one */
+  name?: string;
+  dependencies?: string[];
+  /** Missing for `require(['app'])`, which only loads its dependencies */
+  factory?: NodePath<t.Expression>;
+}
+
+/** Dependencies naming the module system itself, which factories get in CommonJS */
+const MODULE_SYSTEM = ['require', 'exports', 'module'];
+
+export class AmdUnpacker implements FormatUnpacker {
+  public readonly format = 'amd' as const;
+
+  detect(body: BundleBody): string[] | undefined {
+    const definitions = this.findDefinitions(body);
+    return definitions.length >= 2 ? [`${definitions.length} define() calls`] : undefined;
+  }
+
+  unpack(body: BundleBody): UnpackedModules | undefined {
+    const definitions = this.findDefinitions(body);
+    if (definitions.length < 2) {
+      return undefined;
+    }
+
+    const main = this.findMain(body);
+    const names = new Set(definitions.flatMap(definition => definition.name ?? []));
+    const callback = main?.factory?.isFunction() ? main : undefined;
+    const entryName = main && !callback && main.dependencies?.length
+      ? resolveModuleName(main.dependencies[0]!, undefined, names)
+      : undefined;
+
+    const all = callback ? [...definitions, callback] : definitions;
+    const ids = all.map((definition, index) => definition.name ?? String(index));
+    const entryIndex = entryName !== undefined ? ids.indexOf(entryName) : all.length - 1;
+    const paths = assignPaths(all.map((definition, index) => ({
+      id: ids[index]!,
+      name: definition.name,
+      isEntry: index === entryIndex,
+    })));
+    const pathOf = new Map(ids.map((id, index) => [id, paths[index]!]));
+
+    const modules = all.map((definition, index) => {
+      const resolve = (dependency: string): string => {
+        const target = resolveModuleName(dependency, definition.name, names);
+        return target !== undefined ? specifierFor(paths[index]!, pathOf.get(target)!) : dependency;
+      };
+
+      return {
+        id: ids[index]!,
+        path: paths[index]!,
+        isEntry: index === entryIndex,
+        code: this.toCommonJS(definition, resolve, definition !== callback),
+      };
+    });
+
+    return { entryId: ids[entryIndex]!, modules };
+  }
+
+  private findDefinitions(body: BundleBody): Definition[] {
+    return statementCalls(body)
+      .filter(call => t.isIdentifier(call.node.callee, { name: 'define' }))
+      .map(call => this.parseCall(call))
+      .filter((definition): definition is Definition => definition?.factory !== undefined);
+  }
+
+  /**
+   * The `require(['app'], function (app) { ... })` call starting the bundle
+   */
+  private findMain(body: BundleBody): Definition | undefined {
+    const calls = statementCalls(body).filter(call =>
+      t.isIdentifier(call.node.callee) && ['require', 'requirejs'].includes(call.node.callee.name) &&
+      t.isArrayExpression(call.node.arguments[0]));
+    return calls.length > 0 ? this.parseCall(calls[calls.length - 1]!) : undefined;
+  }
+
+  /**
+   * `define(name?, dependencies?, factory)`, with `require([...])` passing
+   * no factory
+   */
+  private parseCall(call: NodePath<t.CallExpression>): Definition | undefined {
+    const args = call.get('arguments') as NodePath<t.Expression>[];
+    if (args.length === 0 || args.length > 3) {
+      return undefined;
+    }
+
+    let next = 0;
+    const name = args.length > 1 && args[0]!.isStringLiteral() ? (args[next++]!.node as t.StringLiteral).value : undefined;
+    const list = args[next]?.isArrayExpression() ? args[next++]!.node as t.ArrayExpression : undefined;
+    const factory = args[next];
+    if (args.length - next > 1 || (list && !list.elements.every(element => t.isStringLiteral(element)))) {
+      return undefined;
+    }
+
+    return {
+      name,
+      dependencies: list?.elements.map(element => (element as t.StringLiteral).value),
+      factory,
+    };
+  }
+
+  private toCommonJS(definition: Definition, resolve: (dependency: string) => string, exportsResult: boolean): string {
+    const factory = definition.factory!;
+    if (!factory.isFunction()) {
+      return printModule([t.expressionStatement(t.assignmentExpression(
+        '=',
+        t.memberExpression(t.identifier('module'), t.identifier('exports')),
+        factory.node
+      ))]);
+    }
+
+    // Without a dependency list, the factory's parameters are `require, exports, module`
+    const params = factory.node.params;
+    const dependencies = definition.dependencies ?? MODULE_SYSTEM.slice(0, params.length);
+    const prelude: t.Statement[] = [];
+
+    dependencies.forEach((dependency, index) => {
+      if (MODULE_SYSTEM.includes(dependency)) {
+        renameParam(factory, index, dependency);
+        return;
+      }
+
+      const param = factory.node.params[index];
+      const call = requireCall(resolve(dependency));
+      prelude.push(t.isIdentifier(param)
+        ? t.variableDeclaration('var', [t.variableDeclarator(t.identifier(param.name), call)])
+        : t.expressionStatement(call));
+    });
+
+    for (const param of factory.node.params.slice(dependencies.length)) {
+      if (t.isIdentifier(param)) {
+        prelude.push(t.variableDeclaration('var', [t.variableDeclarator(t.identifier(param.name))]));
+      }
+    }
+
+    rewriteRequires(factory, resolve);
+    const directives = t.isBlockStatement(factory.node.body) ? factory.node.body.directives : [];
+    return printModule([...prelude, ...functionStatements(factory, exportsResult)], directives);
+  }
+}
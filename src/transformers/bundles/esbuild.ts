@@ -0,0 +1,240 @@
+/**
+ * Unpacker for esbuild bundles
+ *
+ * esbuild hoists ES modules into one scope, marking where each starts with a
+ * `// src/util.ts` comment unless minifying, and gives `__export` namespace
+ * objects to those imported as a whole. CommonJS modules are wrapped in
+ * `__commonJS` initializers, lazily evaluated ES modules in `__esm` ones.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import { BundleBody, FormatUnpacker, UnpackedModules, functionStatements, renameParam } from './shared.js';
+import { Segment, linkSegments, markerOf, stripMarker } from './hoisted.js';
+
+type HelperKind = 'commonjs' | 'esm' | 'export';
+
+const HELPER_NAMES: Record<HelperKind, string> = {
+  commonjs: '__commonJS',
+  esm: '__esm',
+  export: '__export',
+};
+
+export class EsbuildUnpacker implements FormatUnpacker {
+  public readonly format = 'esbuild' as const;
+
+  detect(body: BundleBody): string[] | undefined {
+    const helpers = this.findHelpers(body);
+    const markers = body.statements.filter(statement => markerOf(statement) !== undefined).length;
+    if (helpers.size === 0 && markers < 2) {
+      return undefined;
+    }
+
+    const evidence: string[] = [];
+    if (helpers.size > 0) {
+      evidence.push(`esbuild helpers (${[...new Set(helpers.values())].map(kind => HELPER_NAMES[kind]).join(', ')})`);
+    }
+    const wrappers = body.statements.filter(statement => this.wrapperOf(statement, helpers)).length;
+    if (wrappers > 0) {
+      evidence.push(`${wrappers} __commonJS wrappers`);
+    }
+    if (markers > 0) {
+      evidence.push(`${markers} module path comments`);
+    }
+    return evidence;
+  }
+
+  unpack(body: BundleBody): UnpackedModules | undefined {
+    const helpers = this.findHelpers(body);
+    const segments: Segment[] = [];
+    let current: Segment = { statements: [] };
+    const start = (segment: Segment) => {
+      segments.push(current);
+      current = segment;
+    };
+
+    for (const [index, statement] of body.statements.entries()) {
+      const marker = markerOf(statement);
+      if (marker !== undefined) {
+        stripMarker(body.statements, index, marker);
+      }
+
+      const wrapper = this.wrapperOf(statement, helpers);
+      if (wrapper) {
+        start({ ...this.unwrap(statement, wrapper, marker), statements: [statement] });
+        start({ statements: [] });
+        continue;
+      }
+
+      const namespace = marker === undefined ? this.namespaceOf(statement, body.statements[index + 1], helpers) : undefined;
+      if (marker !== undefined) {
+        start({ name: marker, statements: [statement] });
+      } else if (namespace) {
+        start({ name: namespace.name, statements: [statement] });
+      } else {
+        current.statements.push(statement);
+      }
+    }
+    segments.push(current);
+
+    // Helpers declared ahead of the first module make up the runtime
+    const [prelude] = segments;
+    if (prelude && prelude.name === undefined && prelude.statements.some(statement => this.helperOf(statement))) {
+      prelude.name = 'esbuild-runtime.js';
+    }
+
+    return linkSegments(body, segments);
+  }
+
+  /**
+   * Helpers by binding name, recognized by name or, once minified, by shape
+   */
+  private findHelpers(body: BundleBody): Map<string, HelperKind> {
+    const helpers = new Map<string, HelperKind>();
+    for (const statement of body.statements) {
+      const helper = this.helperOf(statement);
+      if (helper) {
+        helpers.set(helper.name, helper.kind);
+      }
+    }
+    return helpers;
+  }
+
+  private helperOf(statement: NodePath<t.Statement>): { name: string; kind: HelperKind } | undefined {
+    let name: string | undefined;
+    let fn: t.Node | null | undefined;
+    if (statement.isFunctionDeclaration()) {
+      name = statement.node.id?.name;
+      fn = statement.node;
+    } else if (statement.isVariableDeclaration() && statement.node.declarations.length === 1) {
+      const [declarator] = statement.node.declarations;
+      name = t.isIdentifier(declarator!.id) ? declarator!.id.name : undefined;
+      fn = declarator!.init;
+    }
+
+    if (name === undefined || !t.isFunction(fn)) {
+      return undefined;
+    }
+
+    const named = (Object.keys(HELPER_NAMES) as HelperKind[]).find(kind => HELPER_NAMES[kind] === name);
+    const kind = named ?? this.helperShape(statement, fn);
+    return kind ? { name, kind } : undefined;
+  }
+
+  /**
+   * Minified helpers: `__commonJS` and `__esm` return the initializer, one
+   * building `{ exports: {} }` and the other calling its callback as
+   * `fn(fn = 0)`; `__export` defines getters for each key of its second argument
+   */
+  private helperShape(statement: NodePath<t.Statement>, fn: t.Function): HelperKind | undefined {
+    const [first, second] = fn.params;
+    if (fn.params.length !== 2 || !t.isIdentifier(first) || !t.isIdentifier(second)) {
+      return undefined;
+    }
+
+    const last = t.isBlockStatement(fn.body) ? fn.body.body[fn.body.body.length - 1] : undefined;
+    const initializer = t.isFunction(fn.body) || (t.isReturnStatement(last) && t.isFunction(last.argument));
+
+    let kind: HelperKind | undefined;
+    statement.traverse({
+      ObjectProperty(path) {
+        const { key, value } = path.node;
+        if (initializer && t.isIdentifier(key, { name: 'exports' }) && t.isObjectExpression(value) && value.properties.length === 0) {
+          kind = 'commonjs';
+          path.stop();
+        }
+      },
+      CallExpression(path) {
+        const [argument] = path.node.arguments;
+        if (initializer && path.node.arguments.length === 1 && t.isAssignmentExpression(argument) &&
+          t.isIdentifier(argument.left, { name: first.name }) && t.isNumericLiteral(argument.right, { value: 0 })) {
+          kind = 'esm';
+          path.stop();
+        }
+      },
+      ForInStatement(path) {
+        let getters = false;
+        path.traverse({
+          ObjectProperty(property) {
+            getters ||= t.isIdentifier(property.node.key, { name: 'get' });
+          },
+        });
+        if (getters && t.isIdentifier(path.node.right, { name: second.name })) {
+          kind = 'export';
+          path.stop();
+        }
+      },
+    });
+    return kind;
+  }
+
+  /**
+   * The callback of a `var require_x = __commonJS(...)` declaration
+   */
+  private wrapperOf(statement: NodePath<t.Statement>, helpers: Map<string, HelperKind>): NodePath<t.Function> | undefined {
+    if (!statement.isVariableDeclaration() || statement.node.declarations.length !== 1) {
+      return undefined;
+    }
+
+    const init = statement.get('declarations.0.init') as NodePath;
+    if (!init.isCallExpression() || !t.isIdentifier(init.node.callee) || helpers.get(init.node.callee.name) !== 'commonjs' ||
+      init.node.arguments.length !== 1) {
+      return undefined;
+    }
+
+    const argument = init.get('arguments.0') as NodePath;
+    if (argument.isFunction()) {
+      return argument;
+    }
+    if (!argument.isObjectExpression() || argument.node.properties.length !== 1) {
+      return undefined;
+    }
+
+    // `{ "src/util.js"(exports, module) { ... } }`
+    const property = argument.get('properties.0') as NodePath;
+    if (property.isObjectMethod()) {
+      return property;
+    }
+    const value = property.isObjectProperty() ? property.get('value') : undefined;
+    return value?.isFunction() ? value : undefined;
+  }
+
+  private unwrap(statement: NodePath<t.Statement>, fn: NodePath<t.Function>, marker?: string): Pick<Segment, 'name' | 'commonjs'> {
+    const declarator = (statement.node as t.VariableDeclaration).declarations[0]!;
+    const wrapper = (declarator.id as t.Identifier).name;
+
+    const parent = fn.parentPath;
+    const key = parent?.isObjectProperty() ? parent.node.key : fn.isObjectMethod() ? fn.node.key : undefined;
+    const name = t.isStringLiteral(key)
+      ? key.value
+      : marker ?? (/^require_\w{3,}$/.test(wrapper) ? wrapper.slice('require_'.length) : undefined);
+
+    renameParam(fn, 0, 'exports');
+    renameParam(fn, 1, 'module');
+    return { name, commonjs: { wrapper, body: functionStatements(fn) } };
+  }
+
+  /**
+   * Whether `statement` declares a `var util_exports = {}` namespace that
+   * the next statement fills with `__export`, which starts a module
+   */
+  private namespaceOf(
+    statement: NodePath<t.Statement>,
+    next: NodePath<t.Statement> | undefined,
+    helpers: Map<string, HelperKind>
+  ): { name?: string } | undefined {
+    if (!statement.isVariableDeclaration() || statement.node.declarations.length !== 1 || !next?.isExpressionStatement()) {
+      return undefined;
+    }
+
+    const { id, init } = statement.node.declarations[0]!;
+    const call = next.node.expression;
+    if (!t.isIdentifier(id) || !t.isObjectExpression(init) || init.properties.length > 0 || !t.isCallExpression(call) ||
+      !t.isIdentifier(call.callee) || helpers.get(call.callee.name) !== 'export' ||
+      !t.isIdentifier(call.arguments[0], { name: id.name })) {
+      return undefined;
+    }
+
+    const name = id.name.replace(/_exports$/, '');
+    return { name: name.length >= 3 && name !== id.name ? name : undefined };
+  }
+}
@@ -0,0 +1,235 @@
+/**
+ * Splitting of scope-hoisted bundles back into linked modules
+ *
+ * Rollup and esbuild concatenate the top-level code of ES modules into one
+ * scope. Once the unpacker has cut the statements into segments, each
+ * segment imports the bindings it uses from the segments declaring them.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import { BundleModule } from '../../types.js';
+import { Binding } from '../../utils/ast.js';
+import { BundleBody, UnpackedModules, assignPaths, printModule, requireCall, specifierFor } from './shared.js';
+
+export interface Segment {
+  /** Name the module's path is derived from, e.g. `src/util.ts` */
+  name?: string;
+  statements: NodePath<t.Statement>[];
+  /**
+   * CommonJS module wrapped in a lazy initializer, e.g. esbuild's
+   * `var require_util = __commonJS(...)`. Its body is written in place of
+   * the declaration, and calls to `wrapper` become `require()` calls.
+   */
+  commonjs?: { wrapper: string; body: t.Statement[] };
+}
+
+/**
+ * Path of the module a `// src/util.ts` comment above a statement marks the
+ * start of, as esbuild writes them
+ */
+export function markerOf(statement: NodePath<t.Statement>): string | undefined {
+  const comment = statement.node.leadingComments?.find(comment =>
+    comment.type === 'CommentLine' && /^\s*[\w@.-][\w@./-]*\.(?:[cm]?[jt]sx?|vue|svelte|json|css)\s*$/.test(comment.value));
+  return comment?.value.trim();
+}
+
+/**
+ * Drop the marker comment of the statement at `index`, which Babel also
+ * attaches to the statement before it
+ */
+export function stripMarker(statements: NodePath<t.Statement>[], index: number, marker: string): void {
+  const isMarker = (comment: t.Comment) => comment.value.trim() !== marker;
+  const { node } = statements[index]!;
+  node.leadingComments = node.leadingComments?.filter(isMarker) ?? null;
+
+  const previous = statements[index - 1]?.node;
+  if (previous) {
+    previous.trailingComments = previous.trailingComments?.filter(isMarker) ?? null;
+  }
+}
+
+/**
+ * Turn the segments of a body into modules, the last one being the entry
+ */
+export function linkSegments(body: BundleBody, segments: Segment[]): UnpackedModules | undefined {
+  const groups = mergeSegments(body, segments.filter(segment => segment.statements.length > 0));
+  if (groups.length < 2) {
+    return undefined;
+  }
+
+  const groupOf = new Map<t.Node, number>();
+  groups.forEach((group, index) => group.statements.forEach(statement => groupOf.set(statement.node, index)));
+  const locate = (path: NodePath): number | undefined => {
+    const statement = path.find(candidate => groupOf.has(candidate.node));
+    return statement ? groupOf.get(statement.node) : undefined;
+  };
+
+  const paths = assignPaths(groups.map((group, index) => ({
+    id: String(index),
+    name: group.name,
+    isEntry: index === groups.length - 1,
+  })));
+
+  const links = groups.map(() => ({
+    imports: new Map<number, Set<string>>(),
+    external: [] as t.ImportDeclaration[],
+    exports: new Set<string>(),
+  }));
+
+  for (const binding of Object.values(body.scope.bindings) as Binding[]) {
+    const owner = locate(binding.path);
+    if (owner === undefined) continue;
+
+    const wrapper = groups[owner]!.commonjs?.wrapper === binding.identifier.name;
+    for (const reference of binding.referencePaths) {
+      const user = locate(reference);
+      if (user === undefined || user === owner || !writtenOut(groups[user]!, reference)) continue;
+
+      if (wrapper) {
+        reference.parentPath!.replaceWith(requireCall(specifierFor(paths[user]!, paths[owner]!)));
+      } else if (binding.kind === 'module') {
+        links[user]!.external.push(importOf(binding));
+      } else {
+        const names = links[user]!.imports.get(owner) ?? new Set<string>();
+        names.add(binding.identifier.name);
+        links[user]!.imports.set(owner, names);
+        if (!exportsItself(binding)) {
+          links[owner]!.exports.add(binding.identifier.name);
+        }
+      }
+    }
+  }
+
+  const modules: BundleModule[] = groups.map((group, index) => {
+    const { imports, external, exports } = links[index]!;
+    const targets = [...imports.entries()].sort(([a], [b]) => a - b);
+    const statements: t.Statement[] = [...dedupeImports(external)];
+
+    for (const [target, names] of targets) {
+      const specifier = specifierFor(paths[index]!, paths[target]!);
+      const identifiers = [...names].map(name => t.identifier(name));
+      statements.push(group.commonjs
+        ? t.variableDeclaration('var', [t.variableDeclarator(
+          t.objectPattern(identifiers.map(id => t.objectProperty(id, t.cloneNode(id), false, true))),
+          requireCall(specifier)
+        )])
+        : t.importDeclaration(identifiers.map(id => t.importSpecifier(id, t.cloneNode(id))), t.stringLiteral(specifier)));
+    }
+
+    statements.push(...(group.commonjs ? group.commonjs.body : group.statements.map(statement => statement.node)));
+
+    if (exports.size > 0) {
+      statements.push(t.exportNamedDeclaration(null, [...exports].map(name => t.exportSpecifier(t.identifier(name), t.identifier(name)))));
+    }
+
+    return {
+      id: String(index),
+      path: paths[index]!,
+      isEntry: index === groups.length - 1,
+      code: printModule(statements),
+    };
+  });
+
+  return { entryId: String(groups.length - 1), modules };
+}
+
+/**
+ * Merge segments that assign each other's bindings, which imports could not
+ * express, and unwrap only CommonJS wrappers that are called and nothing else
+ */
+function mergeSegments(body: BundleBody, segments: Segment[]): Segment[] {
+  const segmentOf = new Map<t.Node, number>();
+  segments.forEach((segment, index) => segment.statements.forEach(statement => segmentOf.set(statement.node, index)));
+  const locate = (path: NodePath): number | undefined => {
+    const statement = path.find(candidate => segmentOf.has(candidate.node));
+    return statement ? segmentOf.get(statement.node) : undefined;
+  };
+
+  const parent = segments.map((_, index) => index);
+  const find = (index: number): number => parent[index] === index ? index : (parent[index] = find(parent[index]!));
+  const wrapped = new Set(segments.flatMap((segment, index) => segment.commonjs ? [index] : []));
+
+  for (const binding of Object.values(body.scope.bindings) as Binding[]) {
+    const owner = locate(binding.path);
+    if (owner === undefined) continue;
+
+    for (const violation of binding.constantViolations) {
+      const writer = locate(violation);
+      if (writer !== undefined && find(writer) !== find(owner)) {
+        parent[find(writer)] = find(owner);
+      }
+    }
+
+    if (segments[owner]!.commonjs?.wrapper === binding.identifier.name) {
+      const onlyCalled = binding.constantViolations.length === 0 && binding.referencePaths.every(reference =>
+        locate(reference) !== owner &&
+        reference.parentPath?.isCallExpression() &&
+        reference.parentPath.node.callee === reference.node &&
+        reference.parentPath.node.arguments.length === 0);
+      if (!onlyCalled) {
+        wrapped.delete(owner);
+      }
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  segments.forEach((_, index) => {
+    const root = find(index);
+    groups.set(root, [...(groups.get(root) ?? []), index]);
+  });
+
+  return [...groups.values()]
+    .sort((a, b) => a[0]! - b[0]!)
+    .map(members => {
+      const [first] = members;
+      const commonjs = members.length === 1 && wrapped.has(first!) ? segments[first!]!.commonjs : undefined;
+      return {
+        name: members.map(index => segments[index]!.name).find(name => name !== undefined),
+        statements: members.flatMap(index => segments[index]!.statements),
+        commonjs,
+      };
+    });
+}
+
+/**
+ * Whether a reference ends up in the module written for its group; the
+ * wrapper call around an unwrapped CommonJS body is dropped
+ */
+function writtenOut(group: Segment, reference: NodePath): boolean {
+  const body = group.commonjs?.body;
+  return !body || reference.find(path => body.includes(path.node as t.Statement)) !== null;
+}
+
+/**
+ * Whether a binding is exported under its own name where it is declared
+ */
+function exportsItself(binding: Binding): boolean {
+  const declaration = binding.path.isVariableDeclarator() ? binding.path.parentPath : binding.path;
+  if (declaration?.parentPath?.isExportNamedDeclaration()) {
+    return true;
+  }
+
+  return binding.referencePaths.some(reference => {
+    const specifier = reference.parentPath;
+    return specifier?.isExportSpecifier() &&
+      t.isIdentifier(specifier.node.exported, { name: binding.identifier.name });
+  });
+}
+
+/**
+ * A copy of the import declaring a binding, limited to that binding
+ */
+function importOf(binding: Binding): t.ImportDeclaration {
+  const declaration = binding.path.parentPath!.node as t.ImportDeclaration;
+  return t.importDeclaration([t.cloneNode(binding.path.node as t.ImportDeclaration['specifiers'][number])], t.cloneNode(declaration.source));
+}
+
+function dedupeImports(imports: t.ImportDeclaration[]): t.ImportDeclaration[] {
+  const seen = new Set<string>();
+  return imports.filter(declaration => {
+    const key = `${declaration.source.value}:${declaration.specifiers[0]!.local.name}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
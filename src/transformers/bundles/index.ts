@@ -0,0 +1,121 @@
+/**
+ * Bundle format detection for the bundles webcrack's unpacker does not
+ * recognize, and the unpackers splitting them into modules
+ */
+
+import { traverse, type NodePath, type types as t } from '@babel/core';
+import { BundleFormat, UnpackedBundle } from '../../types.js';
+import { parseCode } from '../../utils/ast.js';
+import { BundleBody, FormatUnpacker, bundleBody, separateDeclarations } from './shared.js';
+import { MetroUnpacker } from './metro.js';
+import { AmdUnpacker } from './amd.js';
+import { SystemJsUnpacker } from './systemjs.js';
+import { ParcelUnpacker } from './parcel.js';
+import { EsbuildUnpacker } from './esbuild.js';
+import { RollupUnpacker } from './rollup.js';
+
+export type { FormatUnpacker } from './shared.js';
+
+export interface BundleDetection {
+  format: BundleFormat;
+  /** What identified the format, e.g. `12 define() calls` */
+  evidence: string[];
+}
+
+export interface BundleUnpackResult {
+  detection?: BundleDetection;
+  /** Modules, when the bundle's module boundaries could be recovered */
+  bundle?: UnpackedBundle;
+  warnings: string[];
+}
+
+/**
+ * Formats in the order they are tried; those with the most specific
+ * evidence come first
+ */
+export function defaultUnpackers(): FormatUnpacker[] {
+  return [
+    new MetroUnpacker(),
+    new AmdUnpacker(),
+    new SystemJsUnpacker(),
+    new ParcelUnpacker(),
+    new EsbuildUnpacker(),
+    new RollupUnpacker(),
+  ];
+}
+
+export class BundleUnpacker {
+  private readonly unpackers: FormatUnpacker[];
+
+  constructor(unpackers: FormatUnpacker[] = defaultUnpackers()) {
+    this.unpackers = unpackers;
+  }
+
+  /**
+   * Identify the bundler that produced the code, if any
+   */
+  detect(code: string): BundleDetection | undefined {
+    const body = this.parse(code);
+    if (!body) {
+      return undefined;
+    }
+
+    for (const unpacker of this.unpackers) {
+      const evidence = unpacker.detect(body);
+      if (evidence) {
+        return { format: unpacker.format, evidence };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Identify the bundler and split the code into its modules. Bundles are
+   * detected even when their module boundaries cannot be recovered.
+   */
+  unpack(code: string): BundleUnpackResult {
+    const body = this.parse(code);
+    if (!body) {
+      return { warnings: [] };
+    }
+
+    for (const unpacker of this.unpackers) {
+      const evidence = unpacker.detect(body);
+      if (!evidence) continue;
+
+      const detection = { format: unpacker.format, evidence };
+      const unpacked = unpacker.unpack(body);
+      if (!unpacked || unpacked.modules.length < 2) {
+        return { detection, warnings: unpacked?.warnings ?? [] };
+      }
+
+      return {
+        detection,
+        bundle: { type: unpacker.format, entryId: unpacked.entryId, modules: unpacked.modules },
+        warnings: unpacked.warnings ?? [],
+      };
+    }
+
+    return { warnings: [] };
+  }
+
+  private parse(code: string): BundleBody | undefined {
+    let ast: t.File;
+    try {
+      ast = parseCode(code);
+    } catch {
+      return undefined;
+    }
+
+    separateDeclarations(ast);
+
+    let body: BundleBody | undefined;
+    traverse(ast, {
+      Program(path: NodePath<t.Program>) {
+        body = bundleBody(path);
+        path.stop();
+      },
+    });
+    return body;
+  }
+}
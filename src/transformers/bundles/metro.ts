@@ -0,0 +1,253 @@
+/**
+ * Unpacker for React Native bundles built by Metro
+ *
+ * Every module is registered with `__d(factory, id, dependencyMap)`, and the
+ * factory requires its dependencies by their index in the map:
+ * `require(dependencyMap[0])`. Those calls are pointed at the module files.
+ * Dev builds also pass the module's source path, which becomes its output
+ * path. The runtime and polyfills before the modules are left out, like a
+ * webpack runtime; the last `__r(id)` call names the entry module.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import {
+  BundleBody,
+  FormatUnpacker,
+  UnpackedModules,
+  assignPaths,
+  functionStatements,
+  printModule,
+  renameParam,
+  requireCall,
+  specifierFor,
+  statementCalls,
+} from './shared.js';
+
+interface Definition {
+  id: string;
+  factory: NodePath<t.Function>;
+  /** Module ids by their index in the dependency map */
+  dependencies: string[];
+  /** Source path dev builds register the module with */
+  name?: string;
+}
+
+/**
+ * Factory parameters by position. Metro added the `import` helpers in 0.54;
+ * before that factories took `(global, require, module, exports, dependencyMap)`.
+ */
+interface FactoryLayout {
+  global: number;
+  require: number;
+  importDefault?: number;
+  importAll?: number;
+  module: number;
+  exports: number;
+  dependencyMap: number;
+}
+
+const LAYOUT: FactoryLayout = { global: 0, require: 1, importDefault: 2, importAll: 3, module: 4, exports: 5, dependencyMap: 6 };
+const LEGACY_LAYOUT: FactoryLayout = { global: 0, require: 1, module: 2, exports: 3, dependencyMap: 4 };
+
+/** Globals the Metro prelude declares */
+const PRELUDE_GLOBALS = ['__BUNDLE_START_TIME__', '__METRO_GLOBAL_PREFIX__'];
+
+export class MetroUnpacker implements FormatUnpacker {
+  public readonly format = 'metro' as const;
+
+  detect(body: BundleBody): string[] | undefined {
+    const definitions = this.findDefinitions(body);
+    if (definitions.length < 2) {
+      return undefined;
+    }
+
+    const evidence = [`${definitions.length} __d() module definitions`];
+    const globals = body.statements
+      .flatMap(statement => Object.keys(statement.getBindingIdentifiers()))
+      .filter(name => PRELUDE_GLOBALS.includes(name));
+    if (globals.length > 0) {
+      evidence.push(`Metro prelude (${globals.join(', ')})`);
+    }
+    return evidence;
+  }
+
+  unpack(body: BundleBody): UnpackedModules | undefined {
+    const definitions = this.findDefinitions(body);
+    if (definitions.length < 2) {
+      return undefined;
+    }
+
+    const ids = definitions.map(definition => definition.id);
+    const started = statementCalls(body)
+      .filter(call => t.isIdentifier(call.node.callee, { name: '__r' }))
+      .map(call => idOf(call.node.arguments[0]))
+      .filter((id): id is string => id !== undefined && ids.includes(id));
+    const entryId = started[started.length - 1] ?? ids[0]!;
+
+    const paths = assignPaths(definitions.map(({ id, name }) => ({ id, name, isEntry: id === entryId })));
+    const pathOf = new Map(ids.map((id, index) => [id, paths[index]!]));
+    const esModules = new Set(definitions.filter(definition => this.isEsModule(definition.factory)).map(definition => definition.id));
+
+    // Minifiers drop unused trailing parameters, so the layout is decided for the whole bundle
+    const layout = definitions.some(definition => definition.factory.node.params.length > LEGACY_LAYOUT.dependencyMap + 1)
+      ? LAYOUT
+      : LEGACY_LAYOUT;
+
+    const missing = new Set<string>();
+    const modules = definitions.map(({ id, factory, dependencies }, index) => {
+      const resolve = (target: string): string | undefined => {
+        const path = pathOf.get(target);
+        if (path === undefined) {
+          missing.add(target);
+        }
+        return path !== undefined ? specifierFor(paths[index]!, path) : undefined;
+      };
+
+      const prelude = this.rewriteDependencies(factory, layout, dependencies, resolve, esModules);
+      const directives = t.isBlockStatement(factory.node.body) ? factory.node.body.directives : [];
+      return {
+        id,
+        path: paths[index]!,
+        isEntry: id === entryId,
+        code: printModule([...prelude, ...functionStatements(factory)], directives),
+      };
+    });
+
+    const warnings = missing.size > 0
+      ? [`Modules required but not in the bundle keep their Metro ids: ${[...missing].join(', ')}`]
+      : undefined;
+    return { entryId, modules, warnings };
+  }
+
+  /**
+   * `__d(factory, id, dependencyMap?, verboseName?)` calls
+   */
+  private findDefinitions(body: BundleBody): Definition[] {
+    const definitions: Definition[] = [];
+    for (const call of statementCalls(body)) {
+      if (!t.isIdentifier(call.node.callee, { name: '__d' })) continue;
+
+      const [factory, id, dependencies, name] = call.get('arguments');
+      const moduleId = idOf(id?.node);
+      if (!factory?.isFunction() || moduleId === undefined) continue;
+
+      const dependencyIds = dependencies?.isArrayExpression()
+        ? dependencies.node.elements.map(element => idOf(element))
+        : [];
+      if (dependencyIds.some(dependency => dependency === undefined)) continue;
+
+      definitions.push({
+        id: moduleId,
+        factory,
+        dependencies: dependencyIds as string[],
+        name: name?.isStringLiteral() ? name.node.value : undefined,
+      });
+    }
+    return definitions;
+  }
+
+  /**
+   * Name the factory's parameters after the module system and point its
+   * `require(dependencyMap[n])` calls at module files. Returns the
+   * declaration of the dependency map when it is used other than by index.
+   */
+  private rewriteDependencies(
+    factory: NodePath<t.Function>,
+    layout: FactoryLayout,
+    dependencies: string[],
+    resolve: (id: string) => string | undefined,
+    esModules: Set<string>
+  ): t.Statement[] {
+    renameParam(factory, layout.global, 'global');
+    renameParam(factory, layout.require, 'require');
+    renameParam(factory, layout.module, 'module');
+    renameParam(factory, layout.exports, 'exports');
+
+    const paramName = (index: number | undefined): string | undefined => {
+      const param = index !== undefined ? factory.node.params[index] : undefined;
+      return t.isIdentifier(param) ? param.name : undefined;
+    };
+    const isParam = (path: NodePath, node: t.Node, name: string | undefined): node is t.Identifier =>
+      name !== undefined && t.isIdentifier(node, { name }) && path.scope.getBinding(name) === factory.scope.getOwnBinding(name);
+
+    const requireName = paramName(layout.require);
+    const importDefaultName = paramName(layout.importDefault);
+    const importAllName = paramName(layout.importAll);
+    const mapName = paramName(layout.dependencyMap);
+
+    // `dependencyMap[n]`, or a module id in bundles from before dependency maps
+    const targetOf = (path: NodePath, node: t.Node | undefined): string | undefined => {
+      if (t.isMemberExpression(node) && node.computed && isParam(path, node.object, mapName) && t.isNumericLiteral(node.property)) {
+        return dependencies[node.property.value];
+      }
+      return t.isNumericLiteral(node) ? String(node.value) : undefined;
+    };
+
+    factory.traverse({
+      CallExpression(path) {
+        const { callee, arguments: args } = path.node;
+        const importsDefault = isParam(path, callee, importDefaultName);
+        if (!importsDefault && !isParam(path, callee, requireName) && !isParam(path, callee, importAllName)) return;
+
+        // Dev builds pass the original specifier as a second argument
+        const target = args.length <= 2 ? targetOf(path, args[0]) : undefined;
+        const specifier = target !== undefined ? resolve(target) : undefined;
+        if (specifier === undefined) return;
+
+        // `importDefault` only unwraps `default` from ES modules
+        const call = requireCall(specifier);
+        path.replaceWith(importsDefault && esModules.has(target!) ? t.memberExpression(call, t.identifier('default')) : call);
+      },
+    });
+
+    // Whatever else indexes the map, e.g. `require.async(dependencyMap[2])`, gets the specifier
+    let mapUsed = false;
+    factory.traverse({
+      MemberExpression(path) {
+        const target = targetOf(path, path.node);
+        if (target !== undefined && t.isMemberExpression(path.node)) {
+          const specifier = resolve(target);
+          path.replaceWith(specifier !== undefined ? t.stringLiteral(specifier) : t.numericLiteral(Number(target)));
+        }
+      },
+      Identifier(path) {
+        if (path.isReferencedIdentifier() && isParam(path, path.node, mapName)) {
+          mapUsed = true;
+        }
+      },
+    });
+
+    if (!mapUsed || mapName === undefined) {
+      return [];
+    }
+    const specifiers = dependencies.map(id => {
+      const specifier = resolve(id);
+      return specifier !== undefined ? t.stringLiteral(specifier) : t.numericLiteral(Number(id));
+    });
+    return [t.variableDeclaration('var', [t.variableDeclarator(t.identifier(mapName), t.arrayExpression(specifiers))])];
+  }
+
+  /**
+   * Whether a module marks its exports `__esModule`, as Babel's CommonJS
+   * transform does for ES modules
+   */
+  private isEsModule(factory: NodePath<t.Function>): boolean {
+    let marked = false;
+    factory.traverse({
+      'StringLiteral|Identifier'(path) {
+        const { node } = path;
+        if ((t.isStringLiteral(node) && node.value === '__esModule') || (t.isIdentifier(node) && node.name === '__esModule')) {
+          marked = true;
+          path.stop();
+        }
+      },
+    });
+    return marked;
+  }
+}
+
+function idOf(node: t.Node | null | undefined): string | undefined {
+  if (t.isNumericLiteral(node)) return String(node.value);
+  if (t.isStringLiteral(node)) return node.value;
+  return undefined;
+}
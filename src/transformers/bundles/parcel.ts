@@ -0,0 +1,249 @@
+/**
+ * Unpacker for Parcel bundles
+ *
+ * Parcel 1 passes a module table to its `parcelRequire` prelude, each entry
+ * `[function (require, module, exports) {...}, { './a': id }]`; the prelude
+ * is left out like a webpack runtime. Parcel 2 hoists what it can and
+ * registers the rest with `parcelRequire.register('id', function (module,
+ * exports) {...})`, loading them with `parcelRequire('id')`; the code around
+ * the registrations becomes the entry module.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import {
+  BundleBody,
+  FormatUnpacker,
+  UnpackedModules,
+  assignPaths,
+  functionStatements,
+  printModule,
+  renameParam,
+  requireCall,
+  rewriteRequires,
+  specifierFor,
+  statementCalls,
+} from './shared.js';
+
+interface TableEntry {
+  id: string;
+  fn: NodePath<t.Function>;
+  /** Module ids by the specifier requiring them */
+  dependencies: Map<string, string>;
+}
+
+interface ModuleTable {
+  entries: TableEntry[];
+  entryIds: string[];
+}
+
+interface Registration {
+  id: string;
+  fn: NodePath<t.Function>;
+  call: NodePath<t.CallExpression>;
+}
+
+const PARCEL_REQUIRE = /^parcelRequire/;
+
+export class ParcelUnpacker implements FormatUnpacker {
+  public readonly format = 'parcel' as const;
+
+  detect(body: BundleBody): string[] | undefined {
+    const table = this.findTable(body);
+    if (table) {
+      return [`parcelRequire module table (${table.entries.length} modules)`];
+    }
+
+    const evidence: string[] = [];
+    const registrations = this.findRegistrations(body, this.findAliases(body));
+    if (registrations.length > 0) {
+      evidence.push(`${registrations.length} parcelRequire.register() calls`);
+    }
+
+    const helpers = body.statements
+      .flatMap(statement => Object.keys(statement.getBindingIdentifiers()))
+      .filter(name => name.startsWith('$parcel$'));
+    if (helpers.length > 0) {
+      evidence.push(`Parcel helpers (${helpers.join(', ')})`);
+    }
+
+    return evidence.length > 0 ? evidence : undefined;
+  }
+
+  unpack(body: BundleBody): UnpackedModules | undefined {
+    const table = this.findTable(body);
+    if (table) {
+      return this.unpackTable(table);
+    }
+
+    const aliases = this.findAliases(body);
+    const registrations = this.findRegistrations(body, aliases);
+    return registrations.length > 0 ? this.unpackRegistrations(body, aliases, registrations) : undefined;
+  }
+
+  /**
+   * The table in `parcelRequire = (function (modules, cache, entry) {...})({...}, {}, [entry])`
+   */
+  private findTable(body: BundleBody): ModuleTable | undefined {
+    for (const statement of body.statements) {
+      if (!statement.isExpressionStatement()) continue;
+
+      const expression = statement.get('expression');
+      for (const candidate of expression.isSequenceExpression() ? expression.get('expressions') : [expression]) {
+        if (!candidate.isAssignmentExpression() || !t.isIdentifier(candidate.node.left, { name: 'parcelRequire' })) continue;
+
+        const call = candidate.get('right');
+        const table = call.isCallExpression() ? this.parseTable(call) : undefined;
+        if (table) {
+          return table;
+        }
+      }
+    }
+    return undefined;
+  }
+
+  private parseTable(call: NodePath<t.CallExpression>): ModuleTable | undefined {
+    const [modules, , entries] = call.get('arguments');
+    if (!modules?.isObjectExpression() || !entries?.isArrayExpression()) {
+      return undefined;
+    }
+
+    const table: ModuleTable = {
+      entries: [],
+      entryIds: entries.node.elements.map(element => idOf(element)).filter((id): id is string => id !== undefined),
+    };
+
+    for (const property of modules.get('properties')) {
+      const id = property.isObjectProperty() ? idOf(property.node.key) : undefined;
+      const value = property.isObjectProperty() ? property.get('value') : undefined;
+      const [fn, dependencies] = value?.isArrayExpression() ? value.get('elements') : [];
+      if (id === undefined || !fn?.isFunction() || !dependencies?.isObjectExpression()) {
+        return undefined;
+      }
+
+      const specifiers = new Map<string, string>();
+      for (const dependency of dependencies.node.properties) {
+        const specifier = t.isObjectProperty(dependency) ? idOf(dependency.key) : undefined;
+        const target = t.isObjectProperty(dependency) ? idOf(dependency.value) : undefined;
+        if (specifier !== undefined && target !== undefined) {
+          specifiers.set(specifier, target);
+        }
+      }
+      table.entries.push({ id, fn, dependencies: specifiers });
+    }
+
+    return table.entries.length > 0 ? table : undefined;
+  }
+
+  private unpackTable(table: ModuleTable): UnpackedModules {
+    const ids = table.entries.map(entry => entry.id);
+    const entryId = [...table.entryIds].reverse().find(id => ids.includes(id)) ?? ids[ids.length - 1]!;
+    const paths = assignPaths(ids.map(id => ({ id, isEntry: id === entryId })));
+    const pathOf = new Map(ids.map((id, index) => [id, paths[index]!]));
+
+    const modules = table.entries.map(({ id, fn, dependencies }, index) => {
+      renameParam(fn, 0, 'require');
+      renameParam(fn, 1, 'module');
+      renameParam(fn, 2, 'exports');
+      rewriteRequires(fn, specifier => {
+        const target = pathOf.get(dependencies.get(specifier) ?? '');
+        return target !== undefined ? specifierFor(paths[index]!, target) : undefined;
+      });
+
+      return { id, path: paths[index]!, isEntry: id === entryId, code: this.printFunction(fn) };
+    });
+
+    return { entryId, modules };
+  }
+
+  /**
+   * Names the Parcel 2 loader goes by, e.g. `var r = globalThis.parcelRequire94c2`
+   */
+  private findAliases(body: BundleBody): Set<string> {
+    const aliases = new Set<string>();
+    for (const statement of body.statements) {
+      if (!statement.isVariableDeclaration()) continue;
+
+      for (const { id, init } of statement.node.declarations) {
+        const source = t.isMemberExpression(init) ? init.property : init;
+        const name = t.isIdentifier(source) ? source.name : t.isStringLiteral(source) ? source.value : undefined;
+        if (t.isIdentifier(id) && name !== undefined && PARCEL_REQUIRE.test(name)) {
+          aliases.add(id.name);
+        }
+      }
+    }
+    return aliases;
+  }
+
+  private isLoader(callee: t.Node, aliases: Set<string>): boolean {
+    return t.isIdentifier(callee) && (aliases.has(callee.name) || PARCEL_REQUIRE.test(callee.name));
+  }
+
+  private findRegistrations(body: BundleBody, aliases: Set<string>): Registration[] {
+    const registrations: Registration[] = [];
+    for (const call of statementCalls(body)) {
+      const { callee } = call.node;
+      const [id, fn] = call.get('arguments');
+      if (t.isMemberExpression(callee) && t.isIdentifier(callee.property, { name: 'register' }) &&
+        this.isLoader(callee.object, aliases) && id?.isStringLiteral() && fn?.isFunction()) {
+        registrations.push({ id: id.node.value, fn, call });
+      }
+    }
+    return registrations;
+  }
+
+  private unpackRegistrations(body: BundleBody, aliases: Set<string>, registrations: Registration[]): UnpackedModules {
+    const registered = new Set(registrations.map(registration => registration.call.node));
+    const rest = body.statements.filter(statement => {
+      if (!statement.isExpressionStatement()) return true;
+      const { expression } = statement.node;
+      const expressions = t.isSequenceExpression(expression) ? expression.expressions : [expression];
+      return !expressions.every(candidate => registered.has(candidate as t.CallExpression));
+    });
+
+    const ids = registrations.map(registration => registration.id);
+    const entryId = String(registrations.length);
+    const paths = assignPaths([
+      ...ids.map(id => ({ id, isEntry: false })),
+      { id: entryId, isEntry: true },
+    ]);
+    const pathOf = new Map(ids.map((id, index) => [id, paths[index]!]));
+
+    // `parcelRequire('id')` loads of registered modules become `require()` calls
+    const rewriteLoads = (path: NodePath, from: string) => path.traverse({
+      CallExpression: (call) => {
+        const [id] = call.node.arguments;
+        const target = t.isStringLiteral(id) ? pathOf.get(id.value) : undefined;
+        const binding = t.isIdentifier(call.node.callee) ? call.scope.getBinding(call.node.callee.name) : undefined;
+        if (target !== undefined && call.node.arguments.length === 1 && this.isLoader(call.node.callee, aliases) &&
+          (!binding || binding.scope === body.scope)) {
+          call.replaceWith(requireCall(specifierFor(from, target)));
+        }
+      },
+    });
+
+    const modules = registrations.map(({ id, fn }, index) => {
+      renameParam(fn, 0, 'module');
+      renameParam(fn, 1, 'exports');
+      rewriteLoads(fn, paths[index]!);
+      return { id, path: paths[index]!, isEntry: false, code: this.printFunction(fn) };
+    });
+
+    const entryPath = paths[paths.length - 1]!;
+    rest.forEach(statement => rewriteLoads(statement, entryPath));
+    modules.push({ id: entryId, path: entryPath, isEntry: true, code: printModule(rest.map(statement => statement.node)) });
+
+    return { entryId, modules };
+  }
+
+  private printFunction(fn: NodePath<t.Function>): string {
+    const directives = t.isBlockStatement(fn.node.body) ? fn.node.body.directives : [];
+    return printModule(functionStatements(fn), directives);
+  }
+}
+
+function idOf(node: t.Node | null | undefined): string | undefined {
+  if (t.isIdentifier(node)) return node.name;
+  if (t.isStringLiteral(node)) return node.value;
+  if (t.isNumericLiteral(node)) return String(node.value);
+  return undefined;
+}
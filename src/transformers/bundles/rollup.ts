@@ -0,0 +1,106 @@
+/**
+ * Unpacker for Rollup and Vite chunks
+ *
+ * Rollup hoists ES modules into one scope without marking where they start.
+ * The namespace objects it builds for modules imported as a whole,
+ * `Object.freeze({ __proto__: null, ... })`, follow the module's code, so
+ * each one closes a module. Modules no namespace follows stay together.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import { BundleBody, FormatUnpacker, UnpackedModules } from './shared.js';
+import { Segment, linkSegments, markerOf, stripMarker } from './hoisted.js';
+
+const HELPERS = new Set([
+  '_interopDefault',
+  '_interopDefaultLegacy',
+  '_interopNamespace',
+  '_interopNamespaceDefault',
+  '_interopNamespaceDefaultOnly',
+  '_mergeNamespaces',
+  '_documentCurrentScript',
+  '__vitePreload',
+  '__vite__mapDeps',
+]);
+
+export class RollupUnpacker implements FormatUnpacker {
+  public readonly format = 'rollup' as const;
+
+  detect(body: BundleBody): string[] | undefined {
+    const evidence: string[] = [];
+    const namespaces = body.statements.filter(statement => this.namespaceOf(statement) !== undefined).length;
+    if (namespaces > 0) {
+      evidence.push(`${namespaces} frozen namespace objects`);
+    }
+
+    const helpers = body.statements.map(statement => this.declaredName(statement)).filter(name => name && HELPERS.has(name));
+    if (helpers.length > 0) {
+      evidence.push(`Rollup helpers (${helpers.join(', ')})`);
+    }
+
+    return evidence.length > 0 ? evidence : undefined;
+  }
+
+  unpack(body: BundleBody): UnpackedModules | undefined {
+    const segments: Segment[] = [];
+    let current: Segment = { statements: [] };
+
+    for (const [index, statement] of body.statements.entries()) {
+      const marker = markerOf(statement);
+      if (marker !== undefined) {
+        stripMarker(body.statements, index, marker);
+        segments.push(current);
+        current = { name: marker, statements: [] };
+      }
+
+      current.statements.push(statement);
+
+      const namespace = this.namespaceOf(statement);
+      if (namespace !== undefined) {
+        // Rollup suffixes names it deconflicts, e.g. `utils$1`
+        const name = namespace.replace(/\$\d+$/, '');
+        current.name ??= name.length >= 3 ? name : undefined;
+        segments.push(current);
+        current = { statements: [] };
+      }
+    }
+    segments.push(current);
+
+    return linkSegments(body, segments);
+  }
+
+  /**
+   * Variable a `const utils = Object.freeze({ __proto__: null, ... })`
+   * statement declares
+   */
+  private namespaceOf(statement: NodePath<t.Statement>): string | undefined {
+    if (!statement.isVariableDeclaration() || statement.node.declarations.length !== 1) {
+      return undefined;
+    }
+
+    const { id, init } = statement.node.declarations[0]!;
+    if (!t.isIdentifier(id) || !t.isCallExpression(init)) {
+      return undefined;
+    }
+
+    // Also `Object.defineProperty({ __proto__: null, ... }, Symbol.toStringTag, { value: 'Module' })`
+    const { callee, arguments: [target] } = init;
+    const frozen = t.isMemberExpression(callee) && t.isIdentifier(callee.object, { name: 'Object' }) &&
+      t.isIdentifier(callee.property) && ['freeze', 'defineProperty'].includes(callee.property.name);
+    const nullPrototype = t.isObjectExpression(target) && target.properties.some(property =>
+      t.isObjectProperty(property) && t.isIdentifier(property.key, { name: '__proto__' }) && t.isNullLiteral(property.value));
+
+    return frozen && nullPrototype ? id.name : undefined;
+  }
+
+  private declaredName(statement: NodePath<t.Statement>): string | undefined {
+    if (statement.isFunctionDeclaration()) {
+      return statement.node.id?.name;
+    }
+    if (statement.isVariableDeclaration() && statement.node.declarations.length === 1) {
+      const { id } = statement.node.declarations[0]!;
+      return t.isIdentifier(id) ? id.name : undefined;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * Pieces shared by the bundle format unpackers
+ */
+
+import { posix } from 'path';
+import { transformFromAstSync, types as t, type NodePath } from '@babel/core';
+import { BundleFormat, BundleModule } from '../../types.js';
+
+export type Scope = NodePath['scope'];
+
+/**
+ * The statements a bundle declares its modules in, and the scope they share:
+ * the program, or the body of an IIFE wrapping the whole file
+ */
+export interface BundleBody {
+  statements: NodePath<t.Statement>[];
+  scope: Scope;
+}
+
+export interface UnpackedModules {
+  entryId: string;
+  modules: BundleModule[];
+  warnings?: string[];
+}
+
+export interface FormatUnpacker {
+  readonly format: BundleFormat;
+  /** What identifies the format in the body, or undefined when it is not this format */
+  detect(body: BundleBody): string[] | undefined;
+  /** Split the body into modules, or return undefined when no boundaries are found; may change the AST */
+  unpack(body: BundleBody): UnpackedModules | undefined;
+}
+
+const SOURCE_EXTENSION = /\.(?:[cm]?[jt]sx?|vue|svelte)$/;
+
+/**
+ * The body of a bundle, looking through an IIFE that wraps the whole program
+ */
+export function bundleBody(program: NodePath<t.Program>): BundleBody {
+  const statements = program.get('body').filter(statement => !statement.isEmptyStatement());
+  const wrapper = statements.length === 1 ? iifeFunction(statements[0]!) : undefined;
+  if (!wrapper) {
+    return { statements, scope: program.scope };
+  }
+
+  const body = wrapper.get('body') as NodePath<t.BlockStatement>;
+  return {
+    statements: body.get('body').filter(statement => !statement.isEmptyStatement()),
+    scope: wrapper.scope,
+  };
+}
+
+/**
+ * Split top-level `var a = 1, b = 2` statements into one statement per
+ * declarator, so that each binding can move to a module of its own
+ */
+export function separateDeclarations(ast: t.File): void {
+  const containers: t.Statement[][] = [ast.program.body];
+  const [only, ...rest] = ast.program.body.filter(statement => !t.isEmptyStatement(statement));
+  const wrapper = only && rest.length === 0 ? iifeNode(only) : undefined;
+  if (wrapper && t.isBlockStatement(wrapper.body)) {
+    containers.push(wrapper.body.body);
+  }
+
+  for (const statements of containers) {
+    for (let index = statements.length - 1; index >= 0; index--) {
+      const statement = statements[index]!;
+      if (!t.isVariableDeclaration(statement) || statement.declarations.length < 2) continue;
+
+      const separated = statement.declarations.map(declarator => t.variableDeclaration(statement.kind, [declarator]));
+      t.inheritLeadingComments(separated[0]!, statement);
+      t.inheritTrailingComments(separated[separated.length - 1]!, statement);
+      statements.splice(index, 1, ...separated);
+    }
+  }
+}
+
+/**
+ * Call expressions a body runs as statements, including those minifiers
+ * join into sequences, e.g. `define(...), define(...)`
+ */
+export function statementCalls(body: BundleBody): NodePath<t.CallExpression>[] {
+  const calls: NodePath<t.CallExpression>[] = [];
+  for (const statement of body.statements) {
+    if (!statement.isExpressionStatement()) continue;
+
+    const expression = statement.get('expression');
+    const expressions = expression.isSequenceExpression() ? expression.get('expressions') : [expression];
+    for (const candidate of expressions) {
+      const call = candidate.isUnaryExpression() ? candidate.get('argument') : candidate;
+      if (call.isCallExpression()) {
+        calls.push(call);
+      }
+    }
+  }
+  return calls;
+}
+
+/**
+ * Output path for a module name such as `src/app/util.ts` or `app/util`
+ */
+export function modulePath(name: string): string | undefined {
+  const segments = name
+    .replace(/^[\w-]+!/, '') // AMD loader plugins, e.g. `text!`
+    .split(/[\\/]+/)
+    .filter(segment => segment && segment !== '.' && segment !== '..')
+    .map(segment => segment.replace(/[^\w.@-]/g, '_'));
+
+  const file = segments.pop()?.replace(SOURCE_EXTENSION, '');
+  if (file === undefined) {
+    return undefined;
+  }
+  return posix.join(...segments, `${file || 'index'}.js`);
+}
+
+/**
+ * Distinct output paths for modules, from their names where they have one.
+ * Unnamed modules are written as `<id>.js`, an unnamed entry as `index.js`.
+ */
+export function assignPaths(modules: { id: string; name?: string; isEntry: boolean }[]): string[] {
+  const taken = new Set<string>();
+  return modules.map(module => {
+    const safeId = module.id.replace(/[^\w.@-]/g, '_');
+    let path = (module.name !== undefined && modulePath(module.name)) || (module.isEntry ? 'index.js' : `${safeId}.js`);
+    if (taken.has(path.toLowerCase())) {
+      path = path.replace(/\.js$/, `-${safeId}.js`);
+    }
+    taken.add(path.toLowerCase());
+    return path;
+  });
+}
+
+/**
+ * Resolve a module name used by the module named `from` against the names in
+ * the bundle, the way AMD and SystemJS resolve relative ids
+ */
+export function resolveModuleName(name: string, from: string | undefined, names: Set<string>): string | undefined {
+  const absolute = /^\.\.?\//.test(name) && from !== undefined
+    ? posix.normalize(posix.join(posix.dirname(from), name))
+    : name;
+  const candidates = [absolute, absolute.replace(/\.js$/, ''), `${absolute}.js`];
+  return candidates.find(candidate => names.has(candidate));
+}
+
+/**
+ * Specifier importing the module at `to` from the module at `from`
+ */
+export function specifierFor(from: string, to: string): string {
+  const relative = posix.relative(posix.dirname(from), to);
+  return relative.startsWith('../') ? relative : `./${relative}`;
+}
+
+export function requireCall(specifier: string): t.CallExpression {
+  return t.callExpression(t.identifier('require'), [t.stringLiteral(specifier)]);
+}
+
+/**
+ * Give a wrapper function's parameter the name the module system gives it,
+ * e.g. `function (e, t)` → `function (exports, module)`
+ */
+export function renameParam(fn: NodePath<t.Function>, index: number, name: string): void {
+  const param = fn.node.params[index];
+  if (!t.isIdentifier(param) || param.name === name) {
+    return;
+  }
+
+  makeRoom(fn, name);
+  fn.scope.rename(param.name, name);
+}
+
+/**
+ * Rename bindings called `name` inside a function, so that the name can be
+ * given to one of its parameters or used as a free variable
+ */
+export function makeRoom(fn: NodePath<t.Function>, name: string): void {
+  const scopes = [fn.scope];
+  fn.traverse({
+    Scopable(path) {
+      scopes.push(path.scope);
+    },
+  });
+
+  for (const scope of scopes) {
+    if (scope.getOwnBinding(name)) {
+      scope.rename(name, scope.generateUid(name));
+    }
+  }
+}
+
+/**
+ * Point `require('x')` calls in a module function at other modules, leaving
+ * those `resolve` does not know alone
+ */
+export function rewriteRequires(fn: NodePath<t.Function>, resolve: (specifier: string) => string | undefined): void {
+  fn.traverse({
+    CallExpression(path) {
+      const { callee, arguments: args } = path.node;
+      const [specifier] = args;
+      if (!t.isIdentifier(callee, { name: 'require' }) || args.length !== 1 || !t.isStringLiteral(specifier)) {
+        return;
+      }
+
+      const binding = path.scope.getBinding('require');
+      if (binding && binding.scope !== fn.scope) {
+        return;
+      }
+
+      const resolved = resolve(specifier.value);
+      if (resolved !== undefined) {
+        path.node.arguments = [t.stringLiteral(resolved)];
+      }
+    },
+  });
+}
+
+/**
+ * Statements of a module function's body, with `return` made a
+ * `module.exports` assignment where it is the last statement
+ */
+export function functionStatements(fn: NodePath<t.Function>, returnsExports = false): t.Statement[] {
+  const { body } = fn.node;
+  if (!t.isBlockStatement(body)) {
+    return [t.expressionStatement(returnsExports ? exportsAssignment(body) : body)];
+  }
+  if (!returnsExports) {
+    return body.body;
+  }
+
+  const returns: NodePath<t.ReturnStatement>[] = [];
+  fn.get('body').traverse({
+    Function(path) {
+      path.skip();
+    },
+    ReturnStatement(path) {
+      returns.push(path);
+    },
+  });
+
+  const last = body.body[body.body.length - 1];
+  if (returns.length === 0) {
+    return body.body;
+  }
+  if (returns.length === 1 && returns[0]!.node === last) {
+    const value = returns[0]!.node.argument;
+    return [...body.body.slice(0, -1), ...(value ? [t.expressionStatement(exportsAssignment(value))] : [])];
+  }
+
+  // Early returns only keep their meaning inside a function
+  const call = t.callExpression(t.functionExpression(null, [], t.blockStatement(body.body, body.directives)), []);
+  return [t.expressionStatement(exportsAssignment(call))];
+}
+
+function exportsAssignment(value: t.Expression): t.AssignmentExpression {
+  return t.assignmentExpression('=', t.memberExpression(t.identifier('module'), t.identifier('exports')), value);
+}
+
+/**
+ * Print statements as the code of a module
+ */
+export function printModule(statements: t.Statement[], directives: t.Directive[] = []): string {
+  const result = transformFromAstSync(t.file(t.program(statements, directives, 'module')), undefined, {
+    babelrc: false,
+    configFile: false,
+    compact: false,
+  });
+
+  if (!result || typeof result.code !== 'string') {
+    throw new Error('Babel code generation returned no result');
+  }
+
+  return result.code;
+}
+
+function iifeFunction(statement: NodePath<t.Statement>): NodePath<t.FunctionExpression | t.ArrowFunctionExpression> | undefined {
+  const wrapper = iifeNode(statement.node);
+  if (!wrapper || !t.isBlockStatement(wrapper.body)) {
+    return undefined;
+  }
+
+  // The wrapper is the first function in the statement
+  let found: NodePath<t.FunctionExpression | t.ArrowFunctionExpression> | undefined;
+  statement.traverse({
+    Function(path) {
+      if (path.node === wrapper) {
+        found = path as NodePath<t.FunctionExpression | t.ArrowFunctionExpression>;
+      }
+      path.stop();
+    },
+  });
+  return found;
+}
+
+function iifeNode(statement: t.Statement): t.FunctionExpression | t.ArrowFunctionExpression | undefined {
+  if (!t.isExpressionStatement(statement)) {
+    return undefined;
+  }
+
+  let call: t.Expression = statement.expression;
+  if (t.isUnaryExpression(call)) {
+    call = call.argument;
+  }
+  if (!t.isCallExpression(call)) {
+    return undefined;
+  }
+
+  let callee = call.callee;
+  if (t.isMemberExpression(callee) && t.isIdentifier(callee.property) && ['call', 'apply'].includes(callee.property.name)) {
+    callee = callee.object;
+  }
+
+  return t.isFunctionExpression(callee) || t.isArrowFunctionExpression(callee) ? callee : undefined;
+}
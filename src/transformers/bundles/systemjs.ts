@@ -0,0 +1,360 @@
+/**
+ * Unpacker for SystemJS bundles, the `System.register()` calls TypeScript's
+ * `outFile` and the SystemJS builder concatenate into one file
+ *
+ * Each declaration is flattened into a CommonJS module: setters become
+ * `require()` calls, `_export('name', value)` becomes `exports.name = value`,
+ * and the `execute` body follows. Registrations shaped otherwise, such as
+ * those with an async `execute`, are kept as they are.
+ */
+
+import { types as t, type NodePath } from '@babel/core';
+import {
+  BundleBody,
+  FormatUnpacker,
+  UnpackedModules,
+  assignPaths,
+  functionStatements,
+  makeRoom,
+  printModule,
+  requireCall,
+  resolveModuleName,
+  specifierFor,
+  statementCalls,
+} from './shared.js';
+
+/** Free names a flattened declaration gets from CommonJS */
+const MODULE_NAMES = ['exports', 'require', 'module'];
+
+interface Registration {
+  name?: string;
+  dependencies: string[];
+  declare: NodePath<t.Function>;
+  call: NodePath<t.CallExpression>;
+}
+
+/**
+ * The parts of a declaration function's `return { setters, execute }`
+ */
+interface Declaration {
+  setters: NodePath[];
+  execute?: NodePath<t.Function>;
+}
+
+interface ContextUse {
+  kind: 'id' | 'meta' | 'import';
+  /** The expression to replace */
+  path: NodePath;
+}
+
+export class SystemJsUnpacker implements FormatUnpacker {
+  public readonly format = 'systemjs' as const;
+
+  detect(body: BundleBody): string[] | undefined {
+    const registrations = this.findRegistrations(body);
+    return registrations.length >= 2 ? [`${registrations.length} System.register() calls`] : undefined;
+  }
+
+  unpack(body: BundleBody): UnpackedModules | undefined {
+    const registrations = this.findRegistrations(body);
+    if (registrations.length < 2) {
+      return undefined;
+    }
+
+    const names = new Set(registrations.flatMap(registration => registration.name ?? []));
+    const ids = registrations.map((registration, index) => registration.name ?? String(index));
+    const entryName = this.findEntry(body, names);
+    const entryIndex = entryName !== undefined ? ids.indexOf(entryName) : registrations.length - 1;
+    const paths = assignPaths(registrations.map((registration, index) => ({
+      id: ids[index]!,
+      name: registration.name,
+      isEntry: index === entryIndex,
+    })));
+    const pathOf = new Map(ids.map((id, index) => [id, paths[index]!]));
+
+    const warnings: string[] = [];
+    const modules = registrations.map((registration, index) => {
+      const resolve = (dependency: string): string => {
+        const target = resolveModuleName(dependency, registration.name, names);
+        return target !== undefined ? specifierFor(paths[index]!, pathOf.get(target)!) : dependency;
+      };
+
+      let code = this.toCommonJS(registration, ids[index]!, resolve);
+      if (code === undefined) {
+        warnings.push(`Kept System.register() of module ${ids[index]} as is; its declaration could not be flattened`);
+        code = printModule([t.expressionStatement(registration.call.node)]);
+      }
+
+      return { id: ids[index]!, path: paths[index]!, isEntry: index === entryIndex, code };
+    });
+
+    return { entryId: ids[entryIndex]!, modules, warnings };
+  }
+
+  private findRegistrations(body: BundleBody): Registration[] {
+    const registrations: Registration[] = [];
+    for (const call of statementCalls(body)) {
+      if (!this.isSystemMethod(call.node.callee, 'register')) continue;
+
+      const args = call.get('arguments');
+      const name = args.length === 3 && args[0]!.isStringLiteral() ? args[0].node.value : undefined;
+      const [list, declare] = args.slice(args.length - 2);
+      if (!list?.isArrayExpression() || !declare?.isFunction() || args.length > 3 ||
+        !list.node.elements.every(element => t.isStringLiteral(element))) {
+        continue;
+      }
+
+      registrations.push({
+        name,
+        dependencies: list.node.elements.map(element => (element as t.StringLiteral).value),
+        declare,
+        call,
+      });
+    }
+    return registrations;
+  }
+
+  /**
+   * Module a top-level `System.import('app')` starts
+   */
+  private findEntry(body: BundleBody, names: Set<string>): string | undefined {
+    for (const statement of statementCalls(body).reverse()) {
+      // Look through `.then()` chains
+      let call: t.Node = statement.node;
+      while (t.isCallExpression(call) && t.isMemberExpression(call.callee) && t.isCallExpression(call.callee.object)) {
+        call = call.callee.object;
+      }
+
+      const [specifier] = t.isCallExpression(call) ? call.arguments : [];
+      if (t.isCallExpression(call) && this.isSystemMethod(call.callee, 'import') && t.isStringLiteral(specifier)) {
+        return resolveModuleName(specifier.value, undefined, names);
+      }
+    }
+    return undefined;
+  }
+
+  private isSystemMethod(callee: t.Node, method: string): boolean {
+    return t.isMemberExpression(callee) && t.isIdentifier(callee.property, { name: method }) &&
+      (t.isIdentifier(callee.object, { name: 'System' }) || t.isIdentifier(callee.object, { name: 'SystemJS' }));
+  }
+
+  private toCommonJS(registration: Registration, id: string, resolve: (dependency: string) => string): string | undefined {
+    const { declare } = registration;
+    const declaration = this.parseDeclaration(declare);
+    if (!declaration || !this.canFlatten(declare, declaration)) {
+      return undefined;
+    }
+
+    // Free `exports`, `require` and `module` now mean the CommonJS ones
+    MODULE_NAMES.forEach(name => makeRoom(declare, name));
+
+    const [exportParam, contextParam] = declare.node.params as t.Identifier[];
+    if (exportParam) {
+      this.rewriteExports(declare, exportParam.name);
+    }
+    if (contextParam) {
+      this.rewriteContext(declare, contextParam.name, id, resolve);
+    }
+
+    const statements = (declare.node.body as t.BlockStatement).body;
+    const hoisted = new Set<string>();
+    const setters = this.flattenSetters(declare, declaration.setters, registration.dependencies.map(resolve), hoisted);
+    if (declaration.execute) {
+      this.hoist(declaration.execute, declare, hoisted);
+    }
+    const execute = declaration.execute ? functionStatements(declaration.execute) : [];
+
+    return printModule(
+      [...statements.slice(0, -1), ...setters, ...execute],
+      (declare.node.body as t.BlockStatement).directives
+    );
+  }
+
+  /**
+   * The setters and `execute` of a declaration ending in `return { ... }`
+   */
+  private parseDeclaration(declare: NodePath<t.Function>): Declaration | undefined {
+    const body = declare.get('body');
+    if (!body.isBlockStatement() || declare.node.async || declare.node.generator) {
+      return undefined;
+    }
+
+    const statements = body.get('body');
+    const last = statements[statements.length - 1];
+    const result = last?.isReturnStatement() ? last.get('argument') : undefined;
+    if (!result?.isObjectExpression()) {
+      return undefined;
+    }
+
+    const declaration: Declaration = { setters: [] };
+    for (const property of result.get('properties')) {
+      const key = property.isObjectProperty() || property.isObjectMethod() ? property.node.key : undefined;
+      const name = t.isIdentifier(key) ? key.name : t.isStringLiteral(key) ? key.value : undefined;
+      const value: NodePath = property.isObjectProperty() ? property.get('value') : property;
+
+      if (name === 'setters' && value.isArrayExpression()) {
+        declaration.setters = value.get('elements');
+      } else if (name === 'execute' && value.isFunction() && !value.node.async && !value.node.generator) {
+        declaration.execute = value;
+      } else {
+        return undefined;
+      }
+    }
+    return declaration;
+  }
+
+  /**
+   * Whether `_export` is only called, the context only read for its id,
+   * meta and `import()`, and setters take at most the module
+   */
+  private canFlatten(declare: NodePath<t.Function>, declaration: Declaration): boolean {
+    const [exportParam, contextParam, ...rest] = declare.node.params;
+    if (rest.length > 0 || (exportParam && !t.isIdentifier(exportParam)) || (contextParam && !t.isIdentifier(contextParam))) {
+      return false;
+    }
+
+    const exportBinding = t.isIdentifier(exportParam) ? declare.scope.getBinding(exportParam.name) : undefined;
+    const exportsOk = !exportBinding || (exportBinding.constantViolations.length === 0 && exportBinding.referencePaths.every(reference => {
+      const call = reference.parentPath;
+      if (!call?.isCallExpression() || call.node.callee !== reference.node) return false;
+      const [first, second] = call.node.arguments;
+      return call.node.arguments.length === 2
+        ? t.isStringLiteral(first) && t.isExpression(second)
+        : call.node.arguments.length === 1 && t.isExpression(first) && !t.isStringLiteral(first);
+    }));
+
+    const contextBinding = t.isIdentifier(contextParam) ? declare.scope.getBinding(contextParam.name) : undefined;
+    const contextOk = !contextBinding || (contextBinding.constantViolations.length === 0 && contextBinding.referencePaths.every(reference =>
+      this.contextUse(reference) !== undefined));
+
+    const settersOk = declaration.setters.every(setter =>
+      setter.isNullLiteral() ||
+      (setter.isFunction() && !setter.node.async && setter.node.params.length <= 1 && setter.node.params.every(param => t.isIdentifier(param))));
+
+    return exportsOk && contextOk && settersOk;
+  }
+
+  /**
+   * What a reference to the context reads: `context.id`, `context.meta`,
+   * `context.import(...)`, or `context && context.id` as TypeScript emits
+   */
+  private contextUse(reference: NodePath): ContextUse | undefined {
+    const name = (reference.node as t.Identifier).name;
+    const parent = reference.parentPath;
+
+    const logical = parent?.isLogicalExpression() ? parent : parent?.parentPath;
+    if (logical?.isLogicalExpression({ operator: '&&' }) && t.isIdentifier(logical.node.left, { name }) &&
+      isProperty(logical.node.right, name, 'id') &&
+      (logical.node.left === reference.node || logical.node.right === parent!.node)) {
+      return { kind: 'id', path: logical };
+    }
+
+    if (!parent?.isMemberExpression() || parent.node.object !== reference.node) {
+      return undefined;
+    }
+    if (isProperty(parent.node, name, 'id') || isProperty(parent.node, name, 'meta')) {
+      return { kind: (parent.node.property as t.Identifier).name as 'id' | 'meta', path: parent };
+    }
+
+    const call = parent.parentPath;
+    return isProperty(parent.node, name, 'import') && call?.isCallExpression() && call.node.callee === parent.node
+      ? { kind: 'import', path: call }
+      : undefined;
+  }
+
+  private rewriteExports(declare: NodePath<t.Function>, name: string): void {
+    const binding = declare.scope.getBinding(name)!;
+    for (const reference of binding.referencePaths) {
+      const call = reference.parentPath as NodePath<t.CallExpression>;
+      const [first, second] = call.node.arguments as t.Expression[];
+
+      if (t.isStringLiteral(first)) {
+        const computed = !t.isValidIdentifier(first.value);
+        const target = t.memberExpression(t.identifier('exports'), computed ? first : t.identifier(first.value), computed);
+        call.replaceWith(t.assignmentExpression('=', target, second!));
+      } else {
+        call.replaceWith(t.callExpression(
+          t.memberExpression(t.identifier('Object'), t.identifier('assign')),
+          [t.identifier('exports'), first!]
+        ));
+      }
+    }
+  }
+
+  private rewriteContext(declare: NodePath<t.Function>, name: string, id: string, resolve: (dependency: string) => string): void {
+    // Both references of `context && context.id` resolve to the same use
+    const uses = new Map<t.Node, ContextUse>();
+    for (const reference of declare.scope.getBinding(name)!.referencePaths) {
+      const use = this.contextUse(reference)!;
+      uses.set(use.path.node, use);
+    }
+
+    for (const use of uses.values()) {
+      if (use.kind === 'id') {
+        use.path.replaceWith(t.stringLiteral(id));
+      } else if (use.kind === 'meta') {
+        use.path.replaceWith(t.metaProperty(t.identifier('import'), t.identifier('meta')));
+      } else {
+        const args = (use.path.node as t.CallExpression).arguments.map(arg =>
+          t.isStringLiteral(arg) ? t.stringLiteral(resolve(arg.value)) : arg);
+        use.path.replaceWith(t.callExpression(t.import(), args));
+      }
+    }
+  }
+
+  /**
+   * Statements standing in for the setters: `x = require('./a.js')` for
+   * setters that only store the module, otherwise the module is stored in
+   * the setter's parameter and its body follows
+   */
+  private flattenSetters(declare: NodePath<t.Function>, setters: NodePath[], specifiers: string[], hoisted: Set<string>): t.Statement[] {
+    const statements: t.Statement[] = [];
+
+    specifiers.forEach((specifier, index) => {
+      const setter = setters[index];
+      const param = setter?.isFunction() ? setter.node.params[0] as t.Identifier | undefined : undefined;
+      if (!setter?.isFunction() || !param) {
+        statements.push(t.expressionStatement(requireCall(specifier)));
+        return;
+      }
+
+      const { body } = setter.node;
+      const only = t.isBlockStatement(body)
+        ? body.body.length === 1 && t.isExpressionStatement(body.body[0]) ? body.body[0].expression : undefined
+        : body;
+      if (t.isAssignmentExpression(only, { operator: '=' }) && t.isIdentifier(only.left) &&
+        t.isIdentifier(only.right, { name: param.name }) && setter.scope.getBinding(param.name)?.references === 1) {
+        statements.push(t.expressionStatement(t.assignmentExpression('=', only.left, requireCall(specifier))));
+        return;
+      }
+
+      this.hoist(setter, declare, hoisted);
+      statements.push(
+        t.variableDeclaration('var', [t.variableDeclarator(t.identifier(param.name), requireCall(specifier))]),
+        ...functionStatements(setter)
+      );
+    });
+
+    return statements;
+  }
+
+  /**
+   * Rename a setter's or `execute`'s bindings that would clash with the
+   * declaration's once they share its scope
+   */
+  private hoist(fn: NodePath<t.Function>, declare: NodePath<t.Function>, hoisted: Set<string>): void {
+    for (const name of Object.keys(fn.scope.bindings)) {
+      let hoistedName = name;
+      if (declare.scope.hasOwnBinding(name) || hoisted.has(name) || MODULE_NAMES.includes(name)) {
+        hoistedName = declare.scope.generateUid(name);
+        fn.scope.rename(name, hoistedName);
+      }
+      hoisted.add(hoistedName);
+    }
+  }
+}
+
+function isProperty(node: t.Node, object: string, property: string): boolean {
+  return t.isMemberExpression(node) && !node.computed &&
+    t.isIdentifier(node.object, { name: object }) && t.isIdentifier(node.property, { name: property });
+}
@@ -0,0 +1,593 @@
+/**
+ * Code chunking strategies for splitting large inputs into LLM-sized prompts
+ */
+
+import { traverse, types as t, type NodePath } from '@babel/core';
+import { ChunkingConfig } from '../types.js';
+import { parseCode } from '../utils/ast.js';
+import { Tokenizer } from '../utils/tokenizer.js';
+
+export type ChunkingStrategy = ChunkingConfig['strategy'];
+
+/**
+ * Maps a run of chunk lines back to the original source
+ */
+export interface ChunkSegment {
+  chunkLine: number;
+  originalLine: number;
+}
+
+export interface CodeChunk {
+  index: number;
+  code: string;
+  startLine: number;
+  endLine: number;
+  segments: ChunkSegment[];
+  /** Names of bindings whose declaration lies inside this chunk */
+  declared: string[];
+  /** Names of bindings used in this chunk but declared elsewhere */
+  referenced: string[];
+}
+
+export interface ChunkingResult {
+  strategy: ChunkingStrategy;
+  chunks: CodeChunk[];
+  /** False when the code could not be parsed and binding lists are empty */
+  analyzed: boolean;
+  warnings: string[];
+}
+
+/**
+ * A contiguous, non-overlapping range of the original source
+ */
+interface CodeUnit {
+  start: number;
+  end: number;
+}
+
+interface BindingSite {
+  name: string;
+  declaration: number;
+  references: number[];
+}
+
+/**
+ * Splits code into chunks no larger than the configured limit
+ *
+ * With a tokenizer and `sizeUnit: 'tokens'` sizes are measured in model
+ * tokens against `maxChunkTokens`; otherwise in characters against
+ * `maxChunkSize`.
+ */
+export class CodeChunker {
+  private config: ChunkingConfig;
+  private tokenizer?: Tokenizer;
+
+  constructor(config: Partial<ChunkingConfig> = {}, tokenizer?: Tokenizer) {
+    this.config = {
+      strategy: 'ast-aware',
+      sizeUnit: 'tokens',
+      maxChunkSize: 4000,
+      maxChunkTokens: 1500,
+      overlapPercentage: 0.1,
+      respectFunctionBoundaries: true,
+      ...config,
+    };
+    this.tokenizer = this.config.sizeUnit === 'tokens' ? tokenizer : undefined;
+  }
+
+  /**
+   * Split code into chunks using the configured strategy
+   */
+  split(code: string): ChunkingResult {
+    const warnings: string[] = [];
+    let ast: t.File | undefined;
+
+    try {
+      ast = parseCode(code);
+    } catch (error) {
+      if (this.config.strategy !== 'simple') {
+        warnings.push(
+          `Could not parse code for ${this.config.strategy} chunking, using simple chunking: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    }
+
+    const strategy: ChunkingStrategy = ast ? this.config.strategy : 'simple';
+    const sites = ast ? this.collectBindingSites(ast) : [];
+
+    let units: CodeUnit[];
+    let groups: number[][];
+
+    if (strategy === 'simple' || !ast) {
+      ({ units, groups } = this.splitSimple(code));
+    } else {
+      units = this.collectUnits(code, ast.program.body, warnings);
+      const sizes = units.map(unit => this.sizeOf(code, unit.start, unit.end));
+      groups = strategy === 'semantic'
+        ? this.groupSemantic(units, sizes, sites)
+        : this.groupSequential(sizes);
+    }
+
+    const chunks = this.buildChunks(code, units, groups, sites);
+    return { strategy, chunks, analyzed: ast !== undefined, warnings };
+  }
+
+  /**
+   * Translate a 1-based line in a chunk to the matching line in the original code
+   */
+  toOriginalLine(chunk: CodeChunk, line: number): number {
+    let segment = chunk.segments[0]!;
+    for (const candidate of chunk.segments) {
+      if (candidate.chunkLine > line) break;
+      segment = candidate;
+    }
+
+    return segment.originalLine + Math.max(0, line - segment.chunkLine);
+  }
+
+  getConfig(): ChunkingConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Unit chunk limits are measured in
+   */
+  get sizeUnit(): 'tokens' | 'chars' {
+    return this.tokenizer ? 'tokens' : 'chars';
+  }
+
+  /**
+   * Size-based splitting that prefers to break after `\n`, `;`, `}` or `)`
+   */
+  private splitSimple(code: string): { units: CodeUnit[]; groups: number[][] } {
+    const ranges = this.sliceRange(code, 0, code.length, this.config.overlapPercentage);
+
+    // Overlapping ranges are broken into disjoint units at every boundary so
+    // shared text maps back to a single position in the original
+    const boundaries = [...new Set(ranges.flatMap(r => [r.start, r.end]))].sort((a, b) => a - b);
+    const units: CodeUnit[] = [];
+    for (let i = 0; i < boundaries.length - 1; i++) {
+      units.push({ start: boundaries[i]!, end: boundaries[i + 1]! });
+    }
+
+    const groups = ranges.map(range =>
+      units
+        .map((unit, index) => ({ unit, index }))
+        .filter(({ unit }) => unit.start >= range.start && unit.end <= range.end)
+        .map(({ index }) => index)
+    );
+
+    return { units, groups };
+  }
+
+  private sliceRange(code: string, from: number, to: number, overlapPercentage: number): CodeUnit[] {
+    const ranges: CodeUnit[] = [];
+    const boundaryChars = ['\n', ';', '}', ')'];
+
+    let start = from;
+    while (start < to) {
+      // Characters that fit in one chunk
+      const chunkSize = this.fittingLength(code, start, to);
+      let end = Math.min(start + chunkSize, to);
+
+      if (end < to) {
+        for (let i = end - 1; i > start + chunkSize * 0.8; i--) {
+          if (boundaryChars.includes(code[i]!)) {
+            end = i + 1;
+            break;
+          }
+        }
+      }
+
+      ranges.push({ start, end });
+      if (end >= to) break;
+      start = Math.max(end - Math.floor(chunkSize * overlapPercentage), start + 1);
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Longest run of characters from `start` that fits the chunk limit
+   */
+  private fittingLength(code: string, start: number, to: number): number {
+    const limit = this.maxSize();
+    if (!this.tokenizer) return limit;
+
+    // Grow the window until it overflows, then binary-search its length
+    let low = 0;
+    let high = Math.min(limit * 4, to - start);
+    while (high < to - start && this.sizeOf(code, start, start + high) <= limit) {
+      low = high;
+      high = Math.min(high * 2, to - start);
+    }
+    if (this.sizeOf(code, start, start + high) <= limit) return high;
+
+    while (high - low > 1) {
+      const mid = (low + high) >> 1;
+      if (this.sizeOf(code, start, start + mid) <= limit) low = mid;
+      else high = mid;
+    }
+
+    return Math.max(low, 1);
+  }
+
+  /**
+   * Turn top-level statements into units, descending into oversized
+   * wrappers such as IIFEs and bundle module arrays
+   */
+  private collectUnits(code: string, nodes: t.Node[], warnings: string[]): CodeUnit[] {
+    const units: CodeUnit[] = [];
+
+    for (const node of nodes) {
+      if (node.start == null || node.end == null) continue;
+
+      const size = this.sizeOf(code, node.start, node.end);
+      if (size > this.maxSize()) {
+        const children = getChildUnits(node);
+        if (children && children.length > 0) {
+          units.push(...this.collectUnits(code, children, warnings));
+          continue;
+        }
+
+        if (!this.config.respectFunctionBoundaries) {
+          units.push(...this.sliceRange(code, node.start, node.end, 0));
+          continue;
+        }
+
+        const line = lineAt(code, node.start);
+        warnings.push(
+          `Statement at line ${line} (${size} ${this.sizeUnit}) exceeds ${this.tokenizer ? 'maxChunkTokens' : 'maxChunkSize'} and was kept whole to respect function boundaries`
+        );
+      }
+
+      units.push({ start: node.start, end: node.end });
+    }
+
+    return units.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Pack units in source order, carrying trailing units of the previous
+   * chunk over as overlap context
+   */
+  private groupSequential(sizes: number[]): number[][] {
+    const maxSize = this.maxSize();
+    const overlapSize = this.overlapSize();
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let currentSize = 0;
+
+    sizes.forEach((size, index) => {
+      if (current.length > 0 && currentSize + size + 1 > maxSize) {
+        groups.push(current);
+
+        const overlap: number[] = [];
+        let overlapUsed = 0;
+        for (let i = current.length - 1; i >= 0; i--) {
+          const candidateSize = sizes[current[i]!]! + 1;
+          if (overlapUsed + candidateSize > overlapSize) break;
+          overlap.unshift(current[i]!);
+          overlapUsed += candidateSize;
+        }
+
+        current = overlap;
+        currentSize = overlapUsed;
+      }
+
+      current.push(index);
+      currentSize += size + 1;
+    });
+
+    if (current.length > 0) {
+      groups.push(current);
+    }
+
+    return groups;
+  }
+
+  /**
+   * Cluster units that reference each other's bindings, merging the most
+   * strongly connected pairs first while clusters fit in a chunk
+   */
+  private groupSemantic(units: CodeUnit[], sizes: number[], sites: BindingSite[]): number[][] {
+    const maxSize = this.maxSize();
+    const weights = new Map<string, number>();
+
+    for (const site of sites) {
+      const owner = findUnit(units, site.declaration);
+      if (owner === -1) continue;
+
+      for (const reference of site.references) {
+        const user = findUnit(units, reference);
+        if (user === -1 || user === owner) continue;
+
+        const key = owner < user ? `${owner}:${user}` : `${user}:${owner}`;
+        weights.set(key, (weights.get(key) ?? 0) + 1);
+      }
+    }
+
+    const edges = [...weights.entries()]
+      .map(([key, weight]) => {
+        const [a, b] = key.split(':').map(Number) as [number, number];
+        return { a, b, weight };
+      })
+      .sort((x, y) => y.weight - x.weight || x.a - y.a || x.b - y.b);
+
+    const parent = units.map((_, index) => index);
+    const size = sizes.map(unitSize => unitSize + 1);
+    const find = (index: number): number => {
+      while (parent[index] !== index) {
+        parent[index] = parent[parent[index]!]!;
+        index = parent[index]!;
+      }
+      return index;
+    };
+
+    for (const { a, b } of edges) {
+      const rootA = find(a);
+      const rootB = find(b);
+      if (rootA === rootB || size[rootA]! + size[rootB]! > maxSize) continue;
+
+      const [keep, drop] = rootA < rootB ? [rootA, rootB] : [rootB, rootA];
+      parent[drop] = keep;
+      size[keep] = size[keep]! + size[drop]!;
+    }
+
+    const clusters = new Map<number, number[]>();
+    units.forEach((_, index) => {
+      const root = find(index);
+      const members = clusters.get(root) ?? [];
+      members.push(index);
+      clusters.set(root, members);
+    });
+
+    // Pack clusters in order of first appearance so unrelated neighbours
+    // still share a prompt instead of producing many tiny requests
+    const groups: number[][] = [];
+    let current: number[] = [];
+    let currentSize = 0;
+
+    for (const [root, members] of [...clusters.entries()].sort((x, y) => x[1][0]! - y[1][0]!)) {
+      const clusterSize = size[root]!;
+      if (current.length > 0 && currentSize + clusterSize > maxSize) {
+        groups.push(current.sort((a, b) => a - b));
+        current = [];
+        currentSize = 0;
+      }
+      current.push(...members);
+      currentSize += clusterSize;
+    }
+
+    if (current.length > 0) {
+      groups.push(current.sort((a, b) => a - b));
+    }
+
+    return groups;
+  }
+
+  private buildChunks(code: string, units: CodeUnit[], groups: number[][], sites: BindingSite[]): CodeChunk[] {
+    const declaredByUnit = units.map(() => new Set<string>());
+    const referencedByUnit = units.map(() => new Set<string>());
+
+    for (const site of sites) {
+      const owner = findUnit(units, site.declaration);
+      if (owner !== -1) declaredByUnit[owner]!.add(site.name);
+
+      for (const reference of site.references) {
+        const user = findUnit(units, reference);
+        if (user !== -1) referencedByUnit[user]!.add(site.name);
+      }
+    }
+
+    const lineStarts = computeLineStarts(code);
+
+    return groups
+      .filter(group => group.length > 0)
+      .map((group, index) => {
+        const parts: string[] = [];
+        const segments: ChunkSegment[] = [];
+        const declared = new Set<string>();
+        const referenced = new Set<string>();
+        let chunkLine = 1;
+        let previousEnd: number | undefined;
+
+        for (const unitIndex of group) {
+          const unit = units[unitIndex]!;
+          const text = code.slice(unit.start, unit.end);
+
+          // Contiguous units are joined directly, gaps become a line break
+          if (previousEnd !== undefined && unit.start !== previousEnd) {
+            parts.push('\n');
+            chunkLine++;
+          }
+
+          segments.push({ chunkLine, originalLine: lineIndexAt(lineStarts, unit.start) });
+          parts.push(text);
+          chunkLine += countNewlines(text);
+          previousEnd = unit.end;
+
+          declaredByUnit[unitIndex]!.forEach(name => declared.add(name));
+          referencedByUnit[unitIndex]!.forEach(name => referenced.add(name));
+        }
+
+        declared.forEach(name => referenced.delete(name));
+
+        const first = units[group[0]!]!;
+        const last = units[group[group.length - 1]!]!;
+
+        return {
+          index,
+          code: parts.join(''),
+          startLine: lineIndexAt(lineStarts, first.start),
+          endLine: lineIndexAt(lineStarts, Math.max(last.start, last.end - 1)),
+          segments,
+          declared: [...declared].sort(),
+          referenced: [...referenced].sort(),
+        };
+      });
+  }
+
+  /**
+   * Record where every binding is declared and used
+   */
+  private collectBindingSites(ast: t.File): BindingSite[] {
+    const sites: BindingSite[] = [];
+    const seenScopes = new Set<unknown>();
+
+    const collectScope = (path: NodePath) => {
+      const scope = path.scope;
+      if (seenScopes.has(scope)) return;
+      seenScopes.add(scope);
+
+      for (const binding of Object.values(scope.bindings)) {
+        if (binding.identifier.start == null) continue;
+
+        sites.push({
+          name: binding.identifier.name,
+          declaration: binding.identifier.start,
+          references: [...binding.referencePaths, ...binding.constantViolations]
+            .map(reference => reference.node.start)
+            .filter((start): start is number => start != null),
+        });
+      }
+    };
+
+    traverse(ast, {
+      Program(path) {
+        collectScope(path);
+      },
+      Scopable(path) {
+        collectScope(path);
+      },
+    });
+
+    return sites;
+  }
+
+  private overlapSize(): number {
+    return Math.floor(this.maxSize() * this.config.overlapPercentage);
+  }
+
+  private maxSize(): number {
+    return this.tokenizer ? this.config.maxChunkTokens! : this.config.maxChunkSize;
+  }
+
+  /**
+   * Size of a range of the code in the configured unit
+   */
+  private sizeOf(code: string, start: number, end: number): number {
+    return this.tokenizer ? this.tokenizer.count(code.slice(start, end)) : end - start;
+  }
+}
+
+/**
+ * Nodes worth splitting an oversized statement into
+ */
+function getChildUnits(node: t.Node): t.Node[] | undefined {
+  if (t.isExpressionStatement(node)) {
+    return getChildUnits(node.expression);
+  }
+
+  if (t.isExportNamedDeclaration(node) || t.isExportDefaultDeclaration(node)) {
+    return node.declaration ? getChildUnits(node.declaration) : undefined;
+  }
+
+  if (t.isVariableDeclaration(node)) {
+    return node.declarations.length > 1 ? node.declarations : getChildUnits(node.declarations[0]!);
+  }
+
+  if (t.isVariableDeclarator(node)) {
+    return node.init ? getChildUnits(node.init) : undefined;
+  }
+
+  if (t.isFunction(node)) {
+    return t.isBlockStatement(node.body) ? node.body.body : undefined;
+  }
+
+  if (t.isBlockStatement(node) || t.isProgram(node)) {
+    return node.body;
+  }
+
+  if (t.isClassDeclaration(node) || t.isClassExpression(node)) {
+    return node.body.body;
+  }
+
+  if (t.isUnaryExpression(node)) {
+    return getChildUnits(node.argument);
+  }
+
+  if (t.isSequenceExpression(node)) {
+    return node.expressions;
+  }
+
+  if (t.isAssignmentExpression(node)) {
+    return getChildUnits(node.right);
+  }
+
+  if (t.isCallExpression(node) || t.isNewExpression(node)) {
+    // IIFE bodies plus their arguments, e.g. a webpack bootstrap and its module table
+    let callee: t.Node = node.callee;
+    if (t.isMemberExpression(callee)) callee = callee.object;
+    const calleeChildren = t.isFunction(callee) ? getChildUnits(callee) ?? [] : [];
+    return [...calleeChildren, ...node.arguments];
+  }
+
+  if (t.isArrayExpression(node)) {
+    return node.elements.filter((element): element is NonNullable<typeof element> => element !== null);
+  }
+
+  if (t.isObjectExpression(node)) {
+    return node.properties;
+  }
+
+  return undefined;
+}
+
+function findUnit(units: CodeUnit[], position: number): number {
+  let low = 0;
+  let high = units.length - 1;
+
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    const unit = units[mid]!;
+    if (position < unit.start) high = mid - 1;
+    else if (position >= unit.end) low = mid + 1;
+    else return mid;
+  }
+
+  return -1;
+}
+
+function computeLineStarts(code: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < code.length; i++) {
+    if (code.charCodeAt(i) === 10) starts.push(i + 1);
+  }
+  return starts;
+}
+
+function lineIndexAt(lineStarts: number[], position: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+
+  while (low < high) {
+    const mid = (low + high + 1) >> 1;
+    if (lineStarts[mid]! <= position) low = mid;
+    else high = mid - 1;
+  }
+
+  return low + 1;
+}
+
+function lineAt(code: string, position: number): number {
+  return countNewlines(code.slice(0, position)) + 1;
+}
+
+function countNewlines(text: string): number {
+  let count = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) === 10) count++;
+  }
+  return count;
+}
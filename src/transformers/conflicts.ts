@@ -0,0 +1,151 @@
+/**
+ * Conflict detection and resolution for rename suggestions
+ */
+
+import { types as t } from '@babel/core';
+import { Binding } from '../utils/ast.js';
+
+/**
+ * Reserved and future-reserved words, carried over from the legacy rename handler
+ */
+export const RESERVED_WORDS = new Set([
+  'abstract', 'arguments', 'await', 'boolean', 'break',
+  'byte', 'case', 'catch', 'char', 'class',
+  'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'double', 'else', 'enum', 'eval',
+  'export', 'extends', 'false', 'final', 'finally',
+  'float', 'for', 'function', 'goto', 'if',
+  'implements', 'import', 'in', 'instanceof', 'int',
+  'interface', 'let', 'long', 'native', 'new',
+  'null', 'package', 'private', 'protected', 'public',
+  'return', 'short', 'static', 'super', 'switch',
+  'synchronized', 'this', 'throw', 'throws', 'transient',
+  'true', 'try', 'typeof', 'var', 'void',
+  'volatile', 'while', 'with', 'yield',
+]);
+
+/**
+ * Host globals that a local binding must never shadow
+ */
+export const PROTECTED_GLOBALS = new Set([
+  // Browser
+  'window', 'document', 'navigator', 'location', 'history', 'screen',
+  'localStorage', 'sessionStorage', 'indexedDB', 'fetch', 'XMLHttpRequest',
+  'alert', 'confirm', 'prompt', 'self', 'parent', 'top', 'frames',
+  'setTimeout', 'clearTimeout', 'setInterval', 'clearInterval',
+  'requestAnimationFrame', 'cancelAnimationFrame', 'performance', 'crypto',
+  'Event', 'CustomEvent', 'Element', 'HTMLElement', 'Node', 'URL', 'Blob',
+  // Node
+  'require', 'module', 'exports', 'process', 'global', 'Buffer',
+  '__dirname', '__filename',
+  // Language
+  'globalThis', 'undefined', 'NaN', 'Infinity', 'console', 'JSON', 'Math',
+  'Object', 'Array', 'String', 'Number', 'Boolean', 'Symbol', 'BigInt',
+  'Promise', 'Proxy', 'Reflect', 'Map', 'Set', 'WeakMap', 'WeakSet',
+  'Date', 'RegExp', 'Error', 'TypeError', 'RangeError', 'Function',
+  'parseInt', 'parseFloat', 'isNaN', 'isFinite',
+]);
+
+const MAX_SUFFIX = 100;
+
+export interface ConflictDecision {
+  originalName: string;
+  requestedName: string;
+  /** Name actually applied, or undefined when the rename was dropped */
+  resolvedName?: string;
+  reason: string;
+}
+
+export type ConflictResolution =
+  | { name: string; decision?: ConflictDecision }
+  | { name?: undefined; decision: ConflictDecision };
+
+/**
+ * Checks a proposed name against a binding's surroundings and picks a
+ * safe alternative by suffixing when the name is taken.
+ */
+export class RenameConflictResolver {
+  /**
+   * Find a usable name for the binding, starting from the requested one
+   */
+  resolve(binding: Binding, requestedName: string): ConflictResolution {
+    const originalName = binding.identifier.name;
+    let base = requestedName;
+    const reasons: string[] = [];
+
+    if (!t.isValidIdentifier(base, false)) {
+      const sanitized = t.toIdentifier(base);
+      reasons.push(`'${requestedName}' is not a valid identifier`);
+      base = sanitized;
+    }
+
+    if (RESERVED_WORDS.has(base) || !t.isValidIdentifier(base)) {
+      reasons.push(`'${base}' is a reserved word`);
+      base = `${base}$`;
+    }
+
+    const conflict = this.findConflict(binding, base);
+    if (conflict) {
+      reasons.push(conflict);
+    }
+
+    let candidate = base;
+    for (let suffix = 2; this.findConflict(binding, candidate) && suffix <= MAX_SUFFIX; suffix++) {
+      candidate = `${base}${suffix}`;
+    }
+
+    if (this.findConflict(binding, candidate)) {
+      return {
+        decision: {
+          originalName,
+          requestedName,
+          reason: `${reasons.join('; ')}; no free alternative found`,
+        },
+      };
+    }
+
+    if (reasons.length === 0) {
+      return { name: candidate };
+    }
+
+    return {
+      name: candidate,
+      decision: { originalName, requestedName, resolvedName: candidate, reason: reasons.join('; ') },
+    };
+  }
+
+  /**
+   * Describe why a name cannot be used for the binding, if it cannot
+   */
+  findConflict(binding: Binding, newName: string): string | undefined {
+    if (newName === binding.identifier.name) {
+      return undefined;
+    }
+
+    if (!t.isValidIdentifier(newName) || RESERVED_WORDS.has(newName)) {
+      return `'${newName}' is a reserved word`;
+    }
+
+    if (PROTECTED_GLOBALS.has(newName)) {
+      return `'${newName}' would shadow a global`;
+    }
+
+    const program = binding.scope.getProgramParent();
+    if (program.hasGlobal(newName)) {
+      return `'${newName}' is used as an undeclared global`;
+    }
+
+    if (binding.scope.hasBinding(newName)) {
+      return `'${newName}' is already bound in this scope`;
+    }
+
+    for (const reference of binding.referencePaths) {
+      const existing = reference.scope.getBinding(newName);
+      if (existing && existing !== binding) {
+        return `'${newName}' would be shadowed at line ${reference.node.loc?.start.line ?? '?'}`;
+      }
+    }
+
+    return undefined;
+  }
+}
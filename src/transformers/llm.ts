@@ -2,18 +2,86 @@
  * LLM transformer for AI-powered variable/function renaming
  */
 
-import { ProcessingStep, ProcessingInput, ProcessingOutput, LLMRequest, RenameSuggestion } from '../types.js';
-import { BaseLLMProvider } from '../providers/base.js';
+import { ProcessingStep, ProcessingInput, ProcessingOutput, LLMRequest, LLMResponse, RenameRecord, RenameSuggestion, ChunkingConfig, SourceMapData, CacheStatistics, ChunkCheckpointStore } from '../types.js';
+import { BaseLLMProvider, PROMPT_VERSION } from '../providers/base.js';
 import { ProviderFactory } from '../providers/factory.js';
 import { ReScriptError, ErrorCode, LLMRequestError } from '../utils/errors.js';
+import { ScopeAwareRenamer } from './renamer.js';
+import { CodeChunker, CodeChunk } from './chunking.js';
+import { wantsSourceMaps, getSourceName } from '../utils/sourcemap.js';
+import { parseCode } from '../utils/ast.js';
+import { CacheManager, generateCacheKey } from '../utils/cache.js';
+import type { CostTracker } from '../core/budget.js';
+
+interface AppliedRenamings {
+  code: string;
+  appliedCount: number;
+  renames: RenameRecord[];
+  warnings: string[];
+  map?: SourceMapData;
+}
 
 export interface LLMTransformOptions {
+  /** Whether chunks are sized in model tokens or characters */
+  chunkSizeUnit?: ChunkingConfig['sizeUnit'];
+  /** Chunk limit in characters, used with `chunkSizeUnit: 'chars'` */
   chunkSize?: number;
+  /** Code tokens per chunk, capped by what the model's context window leaves for code */
+  chunkTokens?: number;
   overlapRatio?: number;
+  chunkingStrategy?: ChunkingConfig['strategy'];
+  respectFunctionBoundaries?: boolean;
   concurrency?: number;
   minConfidenceThreshold?: number;
   maxRetries?: number;
+  /** Deadline per provider request in ms; streaming providers stop there and keep the suggestions received so far */
   timeout?: number;
+  /** Response cache shared across files and runs; responses are not cached without one */
+  cache?: CacheManager;
+  /** Chunk responses of the job being run, consulted before the cache */
+  checkpoints?: ChunkCheckpointStore;
+  /** Called as suggestions stream in and chunks finish */
+  onProgress?: (progress: LLMProgress) => void;
+  /** Run-wide spending; requests that would exceed its cap are skipped */
+  costTracker?: CostTracker;
+}
+
+/**
+ * Suggestions received for the input being processed
+ */
+export interface LLMProgress {
+  /** Suggestions received so far, including those still streaming in */
+  suggestionsReceived: number;
+  chunksCompleted: number;
+  totalChunks: number;
+}
+
+/**
+ * Suggestions for one request and where they came from
+ */
+interface SuggestionResult {
+  response: LLMResponse;
+  cached: boolean;
+  /** Not sent because the run's spending cap would have been exceeded */
+  skipped?: boolean;
+}
+
+/**
+ * A request an input would need, for estimates
+ */
+export interface PlannedRequest {
+  request: LLMRequest;
+  /** Answered by the cache or job checkpoints without calling the provider */
+  cached: boolean;
+}
+
+/**
+ * Provider response as stored in the cache
+ */
+interface CachedResponse {
+  suggestions: RenameSuggestion[];
+  confidence: number;
+  tokensUsed: number;
 }
 
 export class LLMTransformer implements ProcessingStep {
@@ -22,16 +90,22 @@ export class LLMTransformer implements ProcessingStep {
 
   private provider: BaseLLMProvider;
   private options: LLMTransformOptions;
+  private renamer = new ScopeAwareRenamer();
+  private cacheStats: CacheStatistics = { hits: 0, misses: 0, tokensSaved: 0 };
+  private cost = 0;
 
   constructor(provider: BaseLLMProvider, options: LLMTransformOptions = {}) {
     this.provider = provider;
     this.options = {
+      chunkSizeUnit: 'tokens',
       chunkSize: 4000,
+      chunkTokens: 1500,
       overlapRatio: 0.1,
+      chunkingStrategy: 'ast-aware',
+      respectFunctionBoundaries: true,
       concurrency: 3,
       minConfidenceThreshold: 0.3,
       maxRetries: 2,
-      timeout: 60000, // 60 seconds
       ...options,
     };
   }
@@ -43,15 +117,28 @@ export class LLMTransformer implements ProcessingStep {
     const _startTime = Date.now();
 
     try {
+      const knownNames = this.knownNamesOf(input);
+      if (knownNames.size > 0 && this.allBindingsKnown(input.code, knownNames)) {
+        console.log('⏭️  Every binding already has its original name, skipping LLM processing');
+        return {
+          code: input.code,
+          metadata: input.metadata,
+          success: true,
+          warnings: ['All bindings were named from the input source map; LLM step skipped'],
+        };
+      }
+
       console.log(`🤖 Processing with ${this.provider.name}...`);
+      const code = this.withoutNamedCode(input.code, knownNames);
 
       // Check if code is small enough to process as single chunk
-      if (input.code.length <= this.options.chunkSize!) {
-        return await this.processSingleChunk(input);
+      const limit = this.chunkLimit(knownNames);
+      if (this.fitsInOneRequest(code, limit)) {
+        return await this.processSingleChunk(input, code, knownNames);
       }
 
       // Process large code in chunks
-      return await this.processInChunks(input);
+      return await this.processInChunks(input, code, knownNames, limit);
 
     } catch (error) {
       if (error instanceof ReScriptError) {
@@ -76,44 +163,65 @@ export class LLMTransformer implements ProcessingStep {
 
   /**
    * Process code as a single chunk
+   *
+   * `code` is what the provider is sent (see `withoutNamedCode`); the
+   * suggestions are applied to the input.
    */
-  private async processSingleChunk(input: ProcessingInput): Promise<ProcessingOutput> {
+  private async processSingleChunk(input: ProcessingInput, code: string, knownNames: Set<string>): Promise<ProcessingOutput> {
     const startTime = Date.now();
 
     try {
-      const request: LLMRequest = {
-        code: input.code,
-        model: 'gpt-3.5-turbo',
-        temperature: 0.3,
-        maxTokens: 4000,
-      };
+      const request = this.createRequest(code, [...knownNames]);
 
-      const response = await this.provider.processCode(request);
+      const { response, cached, skipped } = await this.requestSuggestions(request, new ChunkProgress(1, this.options.onProgress));
       const _processingTime = Date.now() - startTime;
 
-      // Filter suggestions by confidence threshold
+      if (skipped) {
+        console.log(`⚠️  Budget of ${formatCost(this.options.costTracker!.maxCost!, 2)} reached, leaving names unchanged`);
+        return {
+          code: input.code,
+          metadata: input.metadata,
+          success: true,
+          warnings: [`Not sent to the LLM: the ${formatCost(this.options.costTracker!.maxCost!, 2)} budget was reached`],
+        };
+      }
+
+      // Filter suggestions by confidence threshold, never renaming known names
       const highConfidenceSuggestions = response.suggestions.filter(
-        s => s.confidence >= this.options.minConfidenceThreshold!
+        s => s.confidence >= this.options.minConfidenceThreshold! && !knownNames.has(s.originalName)
       );
 
       console.log(`  Found ${response.suggestions.length} suggestions (${highConfidenceSuggestions.length} high confidence)`);
-      console.log(`  Tokens used: ${response.tokensUsed}`);
+      const cost = this.takeCost();
+      console.log(cached ? `  Cached response, ${response.tokensUsed} tokens saved` : `  Tokens used: ${formatTokens(response)}${cost > 0 ? `, ${formatCost(cost)}` : ''}`);
       console.log(`  Overall confidence: ${(response.confidence * 100).toFixed(1)}%`);
 
       // Apply renamings to code
-      const renamedCode = await this.applyRenamings(input.code, highConfidenceSuggestions);
+      const renamed = await this.applyRenamings(input.code, highConfidenceSuggestions, this.sourceNameFor(input));
 
       return {
-        code: renamedCode,
+        code: renamed.code,
         metadata: {
           ...input.metadata,
+          renames: [...(input.metadata.renames ?? []), ...renamed.renames],
+          ...((this.options.cache || this.options.checkpoints) && { cache: this.takeCacheStats() }),
           statistics: {
             ...input.metadata.statistics,
-            tokensCount: response.tokensUsed,
+            tokensCount: cached ? 0 : response.tokensUsed,
+            ...(!cached && response.promptTokens !== undefined && {
+              promptTokens: response.promptTokens,
+              completionTokens: response.completionTokens ?? 0,
+            }),
+            ...(cost > 0 && { cost }),
           },
         },
         success: true,
-        warnings: this.generateWarnings(response.suggestions, highConfidenceSuggestions),
+        warnings: [
+          ...(response.partial ? [`Response was cut short; kept the ${response.suggestions.length} suggestions received`] : []),
+          ...this.generateWarnings(response.suggestions, highConfidenceSuggestions),
+          ...renamed.warnings,
+        ],
+        sourceMap: renamed.map,
       };
 
     } catch (error) {
@@ -127,44 +235,81 @@ export class LLMTransformer implements ProcessingStep {
   }
 
   /**
-   * Process large code by splitting into chunks
+   * Process large code by splitting `code` into chunks, leaving out chunks
+   * with nothing left to name
    */
-  private async processInChunks(input: ProcessingInput): Promise<ProcessingOutput> {
-    console.log(`📦 Splitting large code into chunks (${this.options.chunkSize} chars each)...`);
+  private async processInChunks(input: ProcessingInput, code: string, knownNames: Set<string>, limit: number): Promise<ProcessingOutput> {
+    const unit = this.options.chunkSizeUnit!;
+    console.log(`📦 Splitting large code into chunks (${this.options.chunkingStrategy}, ${limit} ${unit} each)...`);
 
-    // Split code into chunks with overlap
-    const chunks = this.splitIntoChunks(input.code);
-    console.log(`  Created ${chunks.length} chunks`);
+    const chunker = this.createChunker(limit);
+    const { strategy, chunks: created, analyzed, warnings: chunkingWarnings } = chunker.split(code);
+    const chunks = created.filter(chunk => chunk.code.trim() !== '');
+    console.log(`  Created ${created.length} chunks${chunks.length < created.length ? `, ${created.length - chunks.length} already named` : ''}`);
 
     // Process chunks concurrently
     const allSuggestions: RenameSuggestion[] = [];
     let totalTokensUsed = 0;
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let tokenSplitKnown = true;
+    let droppedCount = 0;
+    let partialCount = 0;
+    let skippedCount = 0;
+    const progress = new ChunkProgress(chunks.length, this.options.onProgress);
 
     const semaphore = new Semaphore(this.options.concurrency!);
-    const processChunk = async (chunk: string, index: number): Promise<void> => {
+    const processChunk = async (chunk: CodeChunk): Promise<void> => {
       await semaphore.acquire();
       
       try {
-        console.log(`  Processing chunk ${index + 1}/${chunks.length}...`);
+        console.log(`  Processing chunk ${chunk.index + 1}/${created.length}...`);
 
-        const request: LLMRequest = {
-          code: chunk,
-          model: 'gpt-3.5-turbo',
-          temperature: 0.3,
-          maxTokens: 4000,
-        };
+        // Names the chunk declares or references
+        const known = new Set([...chunk.declared, ...chunk.referenced]);
+        const chunkKnownNames = this.chunkKnownNames(chunk, knownNames, analyzed);
 
-        const response = await this.provider.processCode(request);
-        
-        // Add suggestions to collection
+        const request = this.createRequest(chunk.code, chunkKnownNames);
+
+        const { response, cached, skipped } = await this.requestSuggestions(request, progress);
+        if (skipped) {
+          skippedCount++;
+          console.log(`    Chunk ${chunk.index + 1}: skipped, budget reached`);
+          return;
+        }
+        if (response.partial) {
+          partialCount++;
+        }
+
+        // Add suggestions to collection, never renaming known names
         const highConfidenceSuggestions = response.suggestions.filter(
-          s => s.confidence >= this.options.minConfidenceThreshold!
+          s => s.confidence >= this.options.minConfidenceThreshold! && !knownNames.has(s.originalName)
         );
-        
-        allSuggestions.push(...highConfidenceSuggestions);
-        totalTokensUsed += response.tokensUsed;
 
-        console.log(`    Chunk ${index + 1}: ${response.suggestions.length} suggestions (${highConfidenceSuggestions.length} high confidence)`);
+        // Drop names the chunk never mentions and map lines back to the original code
+        for (const suggestion of highConfidenceSuggestions) {
+          if (analyzed && !known.has(suggestion.originalName)) {
+            droppedCount++;
+            continue;
+          }
+
+          allSuggestions.push({
+            ...suggestion,
+            line: suggestion.line !== undefined ? chunker.toOriginalLine(chunk, suggestion.line) : undefined,
+          });
+        }
+
+        if (!cached) {
+          totalTokensUsed += response.tokensUsed;
+          if (response.promptTokens === undefined) {
+            tokenSplitKnown = false;
+          } else {
+            promptTokens += response.promptTokens;
+            completionTokens += response.completionTokens ?? 0;
+          }
+        }
+
+        console.log(`    Chunk ${chunk.index + 1}: ${response.suggestions.length} suggestions (${highConfidenceSuggestions.length} high confidence)${cached ? ', cached' : ''}`);
 
       } finally {
         semaphore.release();
@@ -172,93 +317,416 @@ export class LLMTransformer implements ProcessingStep {
     };
 
     // Process all chunks
-    const chunkTasks = chunks.map((chunk, index) => processChunk(chunk, index));
-    await Promise.all(chunkTasks);
+    await Promise.all(chunks.map(chunk => processChunk(chunk)));
 
     // Deduplicate and merge suggestions
-    const uniqueSuggestions = this.deduplicateSuggestions(allSuggestions);
+    const { suggestions: uniqueSuggestions, warnings: mergeWarnings } = this.deduplicateSuggestions(allSuggestions);
     console.log(`  Total unique suggestions: ${uniqueSuggestions.length}`);
+    const cost = this.takeCost();
+    if (totalTokensUsed > 0) {
+      console.log(`  Tokens used: ${formatTokens(tokenSplitKnown ? { tokensUsed: totalTokensUsed, promptTokens, completionTokens } : { tokensUsed: totalTokensUsed })}${cost > 0 ? `, ${formatCost(cost)}` : ''}`);
+    }
+    if (skippedCount > 0) {
+      console.log(`⚠️  Budget of ${formatCost(this.options.costTracker!.maxCost!, 2)} reached, ${skippedCount} chunk(s) not sent`);
+    }
 
     // Apply renamings to original code
-    const renamedCode = await this.applyRenamings(input.code, uniqueSuggestions);
+    const renamed = await this.applyRenamings(input.code, uniqueSuggestions, this.sourceNameFor(input));
+
+    const warnings = [
+      `Processed in ${chunks.length} ${strategy} chunks with ${renamed.appliedCount} renamings applied`,
+      ...chunkingWarnings,
+      ...mergeWarnings,
+    ];
+    if (droppedCount > 0) {
+      warnings.push(`${droppedCount} suggestions dropped because their names do not appear in the chunk's bindings`);
+    }
+    if (partialCount > 0) {
+      warnings.push(`${partialCount} chunk responses were cut short; the suggestions received before that were kept`);
+    }
+    if (chunks.length < created.length) {
+      warnings.push(`${created.length - chunks.length} chunks were not sent because every binding in them already has its original name`);
+    }
+    if (skippedCount > 0) {
+      warnings.push(`${skippedCount} of ${chunks.length} chunks were not sent because the ${formatCost(this.options.costTracker!.maxCost!, 2)} budget was reached`);
+    }
 
     return {
-      code: renamedCode,
+      code: renamed.code,
       metadata: {
         ...input.metadata,
+        renames: [...(input.metadata.renames ?? []), ...renamed.renames],
+        ...((this.options.cache || this.options.checkpoints) && { cache: this.takeCacheStats() }),
         statistics: {
           ...input.metadata.statistics,
           tokensCount: totalTokensUsed,
+          ...(tokenSplitKnown && totalTokensUsed > 0 && { promptTokens, completionTokens }),
+          ...(cost > 0 && { cost }),
         },
       },
       success: true,
-      warnings: [`Processed in ${chunks.length} chunks with ${uniqueSuggestions.length} renamings applied`],
+      warnings: [...warnings, ...renamed.warnings],
+      sourceMap: renamed.map,
     };
   }
 
   /**
-   * Split code into overlapping chunks
+   * Provider the requests go to
    */
-  private splitIntoChunks(code: string): string[] {
-    const chunks: string[] = [];
-    const chunkSize = this.options.chunkSize!;
-    const overlapSize = Math.floor(chunkSize * this.options.overlapRatio!);
-    
-    let start = 0;
-    while (start < code.length) {
-      let end = Math.min(start + chunkSize, code.length);
-      
-      // Try to break at a good boundary (end of line, semicolon, or brace)
-      if (end < code.length) {
-        const boundaryChars = ['\n', ';', '}', ')'];
-        for (let i = end; i > start + chunkSize * 0.8; i--) {
-          if (boundaryChars.includes(code[i]!)) {
-            end = i + 1;
-            break;
-          }
-        }
+  getProvider(): BaseLLMProvider {
+    return this.provider;
+  }
+
+  /**
+   * Requests `execute` would send for an input, without sending any; those
+   * the job's checkpoints or the cache would answer are marked cached
+   */
+  async plan(input: ProcessingInput): Promise<PlannedRequest[]> {
+    const knownNames = this.knownNamesOf(input);
+    if (knownNames.size > 0 && this.allBindingsKnown(input.code, knownNames)) {
+      return [];
+    }
+
+    const code = this.withoutNamedCode(input.code, knownNames);
+    const limit = this.chunkLimit(knownNames);
+    let requests: LLMRequest[];
+    if (this.fitsInOneRequest(code, limit)) {
+      requests = [this.createRequest(code, [...knownNames])];
+    } else {
+      const { chunks, analyzed } = this.createChunker(limit).split(code);
+      requests = chunks
+        .filter(chunk => chunk.code.trim() !== '')
+        .map(chunk => this.createRequest(chunk.code, this.chunkKnownNames(chunk, knownNames, analyzed)));
+    }
+
+    const { cache, checkpoints } = this.options;
+    return Promise.all(requests.map(async request => {
+      const key = this.cacheKey(request);
+      const cached = (cache || checkpoints) !== undefined
+        && Boolean((await checkpoints?.load(key)) ?? (await cache?.get<CachedResponse>(key)));
+      return { request, cached };
+    }));
+  }
+
+  /**
+   * Names recovered from the input source map, which are ground truth
+   */
+  private knownNamesOf(input: ProcessingInput): Set<string> {
+    return new Set(
+      (input.metadata.renames ?? []).filter(rename => rename.source === 'sourcemap').map(rename => rename.newName)
+    );
+  }
+
+  private fitsInOneRequest(code: string, limit: number): boolean {
+    const size = this.options.chunkSizeUnit === 'tokens' ? this.provider.getTokenizer().count(code) : code.length;
+    return size <= limit;
+  }
+
+  private createChunker(limit: number): CodeChunker {
+    const unit = this.options.chunkSizeUnit!;
+    return new CodeChunker({
+      strategy: this.options.chunkingStrategy!,
+      sizeUnit: unit,
+      maxChunkSize: this.options.chunkSize!,
+      maxChunkTokens: limit,
+      overlapPercentage: this.options.overlapRatio!,
+      respectFunctionBoundaries: this.options.respectFunctionBoundaries!,
+    }, unit === 'tokens' ? this.provider.getTokenizer() : undefined);
+  }
+
+  /**
+   * Known names a chunk declares or references; all of them when the code
+   * could not be analyzed
+   */
+  private chunkKnownNames(chunk: CodeChunk, knownNames: Set<string>, analyzed: boolean): string[] {
+    const known = new Set([...chunk.declared, ...chunk.referenced]);
+    return [...knownNames].filter(name => !analyzed || known.has(name));
+  }
+
+  private createRequest(code: string, knownNames: string[]): LLMRequest {
+    return {
+      code,
+      model: this.provider.getModel(),
+      ...(knownNames.length > 0 && { knownNames }),
+    };
+  }
+
+  /**
+   * Largest chunk in the configured unit; token chunks are also capped by
+   * what the context window leaves after the prompt and the response
+   */
+  private chunkLimit(knownNames: Set<string>): number {
+    if (this.options.chunkSizeUnit !== 'tokens') {
+      return this.options.chunkSize!;
+    }
+
+    const budget = this.provider.getTokenBudget([...knownNames]);
+    if (budget.codeTokens <= 0) {
+      throw new ReScriptError(
+        ErrorCode.INVALID_CONFIG,
+        `The ${this.provider.getModel()} context window (${budget.contextWindow} tokens) has no room for code after ${budget.promptTokens} prompt and ${budget.responseTokens} response tokens`,
+        'llm-processing',
+        false,
+        ['Lower provider.maxTokens to reserve fewer response tokens', 'Use a model with a larger context window']
+      );
+    }
+
+    return Math.min(this.options.chunkTokens!, budget.codeTokens);
+  }
+
+  /**
+   * Ask the provider for suggestions, answering from the job's checkpoints or
+   * the cache when the same code was sent to the same provider, endpoint and
+   * model with the same prompt and temperature
+   *
+   * Responses cut short by a timeout are used but neither cached nor
+   * checkpointed, so the chunk is asked again on the next run.
+   */
+  private async requestSuggestions(request: LLMRequest, progress: ChunkProgress): Promise<SuggestionResult> {
+    const { cache, checkpoints } = this.options;
+    if (!cache && !checkpoints) {
+      return this.callProvider(request, progress);
+    }
+
+    const key = this.cacheKey(request);
+    const checkpoint = await checkpoints?.load(key);
+    const hit = checkpoint ?? (await cache?.get<CachedResponse>(key));
+    if (hit) {
+      const response = { ...hit, processingTime: 0 };
+      this.cacheStats.hits++;
+      this.cacheStats.tokensSaved += hit.tokensUsed;
+      if (!checkpoint) await checkpoints?.save(key, response);
+      progress.chunkCompleted(0, response.suggestions.length);
+      return { response, cached: true };
+    }
+
+    this.cacheStats.misses++;
+    const result = await this.callProvider(request, progress);
+    const { response } = result;
+    if (result.skipped || response.partial) {
+      return result;
+    }
+
+    await cache?.set<CachedResponse>(key, {
+      suggestions: response.suggestions,
+      confidence: response.confidence,
+      tokensUsed: response.tokensUsed,
+    });
+    await checkpoints?.save(key, response);
+
+    return { response, cached: false };
+  }
+
+  /**
+   * Send a request to the provider, counting suggestions as they stream in
+   * and charging its cost to the run
+   */
+  private async callProvider(request: LLMRequest, progress: ChunkProgress): Promise<SuggestionResult> {
+    const { costTracker } = this.options;
+    const reservation = costTracker?.reserve(costTracker.limited ? this.projectCost(request) : 0);
+    if (costTracker && !reservation) {
+      progress.chunkCompleted(0, 0);
+      return { response: { suggestions: [], confidence: 0, tokensUsed: 0, processingTime: 0 }, cached: false, skipped: true };
+    }
+
+    let streamed = 0;
+    let response: LLMResponse;
+    try {
+      response = await this.provider.processCode({
+        ...request,
+        onSuggestion: () => {
+          streamed++;
+          progress.suggestionReceived();
+        },
+        ...(this.options.timeout && { signal: AbortSignal.timeout(this.options.timeout) }),
+      });
+    } catch (error) {
+      if (reservation) costTracker!.settle(reservation, 0);
+      throw error;
+    }
+
+    const cost = this.provider.getResponseCost(response);
+    this.cost += cost;
+    if (reservation) costTracker!.settle(reservation, cost, response);
+
+    progress.chunkCompleted(streamed, response.suggestions.length);
+    return { response, cached: false };
+  }
+
+  /**
+   * Expected cost of a request: its prompt counted exactly, the response
+   * projected from the responses seen so far in the run
+   */
+  private projectCost(request: LLMRequest): number {
+    const promptTokens = this.provider.getTokenBudget(request.knownNames).promptTokens
+      + this.provider.getTokenizer().count(request.code);
+    return this.provider.getCost(promptTokens, this.options.costTracker!.projectCompletionTokens(promptTokens));
+  }
+
+  /**
+   * Cache key for a request
+   *
+   * Line endings and trailing whitespace are normalized so rebuilt bundles
+   * differing only in formatting still hit; line numbers in cached
+   * suggestions stay valid because no lines are added or removed.
+   */
+  private cacheKey(request: LLMRequest): string {
+    const code = request.code
+      .replace(/\r\n?/g, '\n')
+      .split('\n')
+      .map(line => line.trimEnd())
+      .join('\n')
+      .trimEnd();
+
+    return generateCacheKey(code, {
+      provider: this.provider.name,
+      model: request.model ?? this.provider.getModel(),
+      // Servers behind different URLs may serve different weights under one model name
+      baseUrl: this.provider.getBaseUrl(),
+      promptVersion: PROMPT_VERSION,
+      temperature: request.temperature ?? this.provider.getTemperature(),
+      systemPrompt: request.systemPrompt,
+      knownNames: [...(request.knownNames ?? [])].sort(),
+    });
+  }
+
+  /**
+   * USD spent since the last call, reported once per input
+   */
+  private takeCost(): number {
+    const cost = this.cost;
+    this.cost = 0;
+    return cost;
+  }
+
+  /**
+   * Cache usage since the last call, reported once per input
+   */
+  private takeCacheStats(): CacheStatistics {
+    const stats = this.cacheStats;
+    this.cacheStats = { hits: 0, misses: 0, tokensSaved: 0 };
+    return stats;
+  }
+
+  /**
+   * Whether every binding in the code already carries a known name
+   */
+  private allBindingsKnown(code: string, knownNames: Set<string>): boolean {
+    try {
+      return this.renamer.collectBindings(code).every(binding => knownNames.has(binding.name));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The code with every top-level statement whose bindings all carry known
+   * names blanked out, so the provider is only sent what is left to name
+   *
+   * Line breaks are kept so suggestion lines still point into the input.
+   * Statements that declare nothing stay for the context they give.
+   */
+  private withoutNamedCode(code: string, knownNames: Set<string>): string {
+    if (knownNames.size === 0) {
+      return code;
+    }
+
+    let statements: ReturnType<typeof parseCode>['program']['body'];
+    let bindings: ReturnType<ScopeAwareRenamer['collectBindings']>;
+    try {
+      statements = parseCode(code).program.body;
+      bindings = this.renamer.collectBindings(code);
+    } catch {
+      return code;
+    }
+
+    const position = (line: number, column: number) => line * (code.length + 1) + column;
+    let result = '';
+    let copied = 0;
+
+    for (const statement of statements) {
+      const start = position(statement.loc!.start.line, statement.loc!.start.column);
+      const end = position(statement.loc!.end.line, statement.loc!.end.column);
+      const declared = bindings.filter(binding => {
+        const at = position(binding.line, binding.column);
+        return at >= start && at < end;
+      });
+
+      if (declared.length > 0 && declared.every(binding => knownNames.has(binding.name))) {
+        result += code.slice(copied, statement.start!) + code.slice(statement.start!, statement.end!).replace(/[^\n]/g, '');
+        copied = statement.end!;
       }
-      
-      chunks.push(code.slice(start, end));
-      start = end - overlapSize;
-      
-      if (start >= code.length) break;
     }
-    
-    return chunks;
+
+    return result + code.slice(copied);
   }
 
   /**
-   * Deduplicate suggestions by original name
+   * Deduplicate suggestions targeting the same declaration, reporting
+   * competing names that were discarded
    */
-  private deduplicateSuggestions(suggestions: RenameSuggestion[]): RenameSuggestion[] {
+  private deduplicateSuggestions(suggestions: RenameSuggestion[]): { suggestions: RenameSuggestion[]; warnings: string[] } {
     const suggestionMap = new Map<string, RenameSuggestion>();
+    const discarded = new Map<string, RenameSuggestion[]>();
     
     for (const suggestion of suggestions) {
-      const existing = suggestionMap.get(suggestion.originalName);
+      // Same name in different functions is a different binding
+      const key = `${suggestion.originalName}@${suggestion.functionPath ?? '?'}`;
+      const existing = suggestionMap.get(key);
       
       if (!existing || suggestion.confidence > existing.confidence) {
-        suggestionMap.set(suggestion.originalName, suggestion);
+        suggestionMap.set(key, suggestion);
+        if (existing) discarded.set(key, [...(discarded.get(key) ?? []), existing]);
+      } else {
+        discarded.set(key, [...(discarded.get(key) ?? []), suggestion]);
+      }
+    }
+
+    const warnings: string[] = [];
+    for (const [key, losers] of discarded) {
+      const winner = suggestionMap.get(key)!;
+      const alternatives = [...new Set(losers.map(s => s.suggestedName))].filter(name => name !== winner.suggestedName);
+      if (alternatives.length > 0) {
+        warnings.push(
+          `Chose ${winner.originalName} → ${winner.suggestedName} (${(winner.confidence * 100).toFixed(0)}%) over ${alternatives.join(', ')} suggested by other chunks`
+        );
       }
     }
     
-    return Array.from(suggestionMap.values())
-      .sort((a, b) => b.confidence - a.confidence); // Sort by confidence desc
+    return {
+      suggestions: Array.from(suggestionMap.values())
+        .sort((a, b) => b.confidence - a.confidence), // Sort by confidence desc
+      warnings,
+    };
+  }
+
+  /**
+   * Source name for the rename map, or undefined when maps are not wanted
+   */
+  private sourceNameFor(input: ProcessingInput): string | undefined {
+    return wantsSourceMaps(input) ? getSourceName(input) : undefined;
   }
 
   /**
-   * Apply renamings to code using AST-aware replacement
+   * Apply renamings to code using scope-aware binding renames
+   *
+   * With a source name the result carries a map from the renamed code back
+   * to the input; the regex fallback cannot produce one.
    */
-  private async applyRenamings(code: string, suggestions: RenameSuggestion[]): Promise<string> {
+  private async applyRenamings(
+    code: string,
+    suggestions: RenameSuggestion[],
+    sourceName?: string
+  ): Promise<AppliedRenamings> {
     if (suggestions.length === 0) {
-      return code;
+      return { code, appliedCount: 0, renames: [], warnings: [] };
     }
 
     console.log(`🔄 Applying ${suggestions.length} renamings...`);
 
-    // Try AST-aware renaming first, fall back to safer regex if needed
+    // Scope-aware renaming needs a parseable program; fall back to safer regex otherwise
     try {
-      return await this.applyRenamingsWithAST(code, suggestions);
+      return this.applyRenamingsWithAST(code, suggestions, sourceName);
     } catch (error) {
       console.warn(`⚠️  AST-based renaming failed, using safer regex approach: ${error instanceof Error ? error.message : String(error)}`);
       return await this.applyRenamingsWithSafeRegex(code, suggestions);
@@ -266,81 +734,54 @@ export class LLMTransformer implements ProcessingStep {
   }
 
   /**
-   * Apply renamings using Babel AST traversal (safer approach)
+   * Apply renamings per Babel binding via scope.rename
    */
-  private async applyRenamingsWithAST(code: string, suggestions: RenameSuggestion[]): Promise<string> {
-    const babel = await import('@babel/core');
-    const t = await import('@babel/types');
-
-    // Create a map of renamings for quick lookup
-    const renameMap = new Map<string, string>();
-    suggestions.forEach(s => renameMap.set(s.originalName, s.suggestedName));
-
-    let appliedCount = 0;
-    const appliedRenamings: Array<{originalName: string, suggestedName: string, count: number}> = [];
-
-    const result = babel.transformSync(code, {
-      plugins: [
-        function() {
-          return {
-            visitor: {
-              Identifier(path: any) {
-                const name = path.node.name;
-                if (renameMap.has(name)) {
-                  // Only rename if this is not a property access (obj.prop)
-                  // and not in a string literal or template literal
-                  const parent = path.parent;
-                  const isProperty = t.isMemberExpression(parent) && parent.property === path.node && !parent.computed;
-                  const isObjectProperty = t.isObjectProperty(parent) && parent.key === path.node && !parent.computed;
-                  const isMethodDefinition = t.isClassMethod(parent) && parent.key === path.node;
-                  
-                  if (!isProperty && !isObjectProperty && !isMethodDefinition) {
-                    const newName = renameMap.get(name)!;
-                    path.node.name = newName;
-                    
-                    // Track the renaming
-                    const existing = appliedRenamings.find(r => r.originalName === name);
-                    if (existing) {
-                      existing.count++;
-                    } else {
-                      appliedRenamings.push({ originalName: name, suggestedName: newName, count: 1 });
-                      appliedCount++;
-                    }
-                  }
-                }
-              }
-            }
-          };
-        }
-      ],
-      compact: false,
-      retainLines: true
+  private applyRenamingsWithAST(
+    code: string,
+    suggestions: RenameSuggestion[],
+    sourceName?: string
+  ): AppliedRenamings {
+    const result = this.renamer.apply(code, suggestions, {
+      sourceMaps: sourceName !== undefined,
+      sourceFileName: sourceName,
     });
 
-    if (!result || !result.code) {
-      throw new Error('Babel transformation returned no result');
-    }
-
-    // Log applied renamings
-    appliedRenamings.forEach(r => {
-      const suggestion = suggestions.find(s => s.originalName === r.originalName);
-      const confidence = suggestion ? (suggestion.confidence * 100).toFixed(0) : 'unknown';
-      console.log(`    ${r.originalName} → ${r.suggestedName} (${r.count} occurrences, confidence: ${confidence}%)`);
+    result.applied.forEach(r => {
+      const location = r.functionPath ? `${r.functionPath}, line ${r.line}` : `line ${r.line}`;
+      console.log(`    ${r.originalName} → ${r.suggestedName} (${location}, ${r.occurrences} occurrences, confidence: ${(r.confidence * 100).toFixed(0)}%)`);
     });
 
-    console.log(`✓ Applied ${appliedCount}/${suggestions.length} renamings`);
-    return result.code;
+    console.log(`✓ Applied ${result.applied.length}/${suggestions.length} renamings`);
+    return {
+      code: result.code,
+      appliedCount: result.applied.length,
+      renames: result.applied.map(r => ({
+        originalName: r.originalName,
+        newName: r.suggestedName,
+        line: r.line,
+        functionPath: r.functionPath,
+        confidence: r.confidence,
+        source: 'llm',
+        reasoning: r.reasoning,
+        occurrences: r.occurrences,
+      })),
+      warnings: result.warnings,
+      map: result.map,
+    };
   }
 
   /**
    * Fallback: Apply renamings with safer regex that avoids common pitfalls
    */
-  private async applyRenamingsWithSafeRegex(code: string, suggestions: RenameSuggestion[]): Promise<string> {
+  private async applyRenamingsWithSafeRegex(
+    code: string,
+    suggestions: RenameSuggestion[]
+  ): Promise<AppliedRenamings> {
     // Sort suggestions by original name length (longest first) to avoid partial replacements
     const sortedSuggestions = [...suggestions].sort((a, b) => b.originalName.length - a.originalName.length);
 
     let renamedCode = code;
-    let appliedCount = 0;
+    const renames: RenameRecord[] = [];
 
     for (const suggestion of sortedSuggestions) {
       try {
@@ -365,7 +806,16 @@ export class LLMTransformer implements ProcessingStep {
           }
 
           renamedCode = testReplacement;
-          appliedCount++;
+          renames.push({
+            originalName: suggestion.originalName,
+            newName: suggestion.suggestedName,
+            line: suggestion.line ?? 0,
+            functionPath: suggestion.functionPath ?? '',
+            confidence: suggestion.confidence,
+            source: 'llm',
+            reasoning: suggestion.reasoning,
+            occurrences: matches.length,
+          });
           
           console.log(`    ${suggestion.originalName} → ${suggestion.suggestedName} (${matches.length} occurrences, confidence: ${(suggestion.confidence * 100).toFixed(0)}%)`);
         }
@@ -374,8 +824,13 @@ export class LLMTransformer implements ProcessingStep {
       }
     }
 
-    console.log(`✓ Applied ${appliedCount}/${suggestions.length} renamings`);
-    return renamedCode;
+    console.log(`✓ Applied ${renames.length}/${suggestions.length} renamings`);
+    return {
+      code: renamedCode,
+      appliedCount: renames.length,
+      renames,
+      warnings: ['Code could not be parsed; renamings were applied by name without scope analysis'],
+    };
   }
 
   /**
@@ -448,7 +903,7 @@ export class LLMTransformer implements ProcessingStep {
     
     return {
       provider: this.provider.name,
-      model: 'unknown', // Would need to track this
+      model: this.provider.getModel(),
       requestCount: providerStats.requestCount,
       totalTokensUsed: providerStats.totalTokensUsed,
       averageConfidence: 0, // Would need to track this
@@ -485,11 +940,35 @@ export class LLMTransformer implements ProcessingStep {
       );
     }
     
+    const chunking = fullConfig.processing?.chunking;
     const provider = ProviderFactory.createProvider(providerConfig);
-    return new LLMTransformer(provider, options);
+    return new LLMTransformer(provider, {
+      ...(chunking && {
+        chunkSizeUnit: chunking.sizeUnit ?? 'tokens',
+        chunkSize: chunking.maxChunkSize,
+        chunkTokens: chunking.maxChunkTokens ?? 1500,
+        overlapRatio: chunking.overlapPercentage,
+        chunkingStrategy: chunking.strategy,
+        respectFunctionBoundaries: chunking.respectFunctionBoundaries,
+      }),
+      ...options,
+    });
   }
 }
 
+/**
+ * Token usage for logs, with the prompt/response split when the provider reported it
+ */
+function formatTokens(usage: Pick<LLMResponse, 'tokensUsed' | 'promptTokens' | 'completionTokens'>): string {
+  return usage.promptTokens === undefined
+    ? `${usage.tokensUsed}`
+    : `${usage.tokensUsed} (${usage.promptTokens} prompt, ${usage.completionTokens ?? 0} response)`;
+}
+
+function formatCost(cost: number, digits = 4): string {
+  return `$${cost.toFixed(digits)}`;
+}
+
 /**
  * Semaphore for concurrency control
  */
@@ -521,4 +1000,39 @@ class Semaphore {
       next();
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Running suggestion count across the chunks of one input
+ */
+class ChunkProgress {
+  private received = 0;
+  private completed = 0;
+
+  constructor(
+    private readonly totalChunks: number,
+    private readonly onProgress?: (progress: LLMProgress) => void
+  ) {}
+
+  suggestionReceived(): void {
+    this.received++;
+    this.report();
+  }
+
+  /**
+   * Finish a chunk, replacing its streamed count with the final one
+   */
+  chunkCompleted(streamed: number, total: number): void {
+    this.received += total - streamed;
+    this.completed++;
+    this.report();
+  }
+
+  private report(): void {
+    this.onProgress?.({
+      suggestionsReceived: this.received,
+      chunksCompleted: this.completed,
+      totalChunks: this.totalChunks,
+    });
+  }
+}
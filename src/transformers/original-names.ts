@@ -0,0 +1,148 @@
+/**
+ * Recovers original identifier names from the source map an input ships with
+ */
+
+import { TraceMap, eachMapping } from '@jridgewell/trace-mapping';
+import { ProcessingStep, ProcessingInput, ProcessingOutput, RenameRecord, RenameSuggestion, SourceMapData } from '../types.js';
+import { readInputSourceMap, stripSourceMappingURL, wantsSourceMaps, getSourceName, toEncodedSourceMap } from '../utils/sourcemap.js';
+import { ScopeAwareRenamer } from './renamer.js';
+
+/**
+ * Reads the input's own source map (adjacent `.map` or inline data URL)
+ * and renames every binding whose declaration maps to an entry in the
+ * map's `names` array. These names are ground truth, so they are applied
+ * with confidence 1.0 and recorded in `metadata.renames` for the LLM step
+ * to leave alone.
+ *
+ * Runs before any other step because the input map describes positions in
+ * the file as read from disk.
+ */
+export class OriginalNamesTransformer implements ProcessingStep {
+  public readonly name = 'original-names';
+  public readonly description = 'Recover original names from the input source map';
+
+  private renamer = new ScopeAwareRenamer();
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    let loaded: Awaited<ReturnType<typeof readInputSourceMap>>;
+
+    try {
+      loaded = await readInputSourceMap(input.code, input.metadata.fileName);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.warn(`⚠️  Ignoring input source map: ${message}`);
+      return { code: input.code, metadata: input.metadata, success: true, warnings: [`Input source map ignored: ${message}`] };
+    }
+
+    if (!loaded) {
+      return { code: input.code, metadata: input.metadata, success: true };
+    }
+
+    console.log(`🗺️  Reading original names from ${loaded.location === 'inline' ? 'inline source map' : loaded.location}...`);
+    if (loaded.map.sourcesContent?.some(content => Boolean(content))) {
+      console.log('💡 The map carries the original sources; --from-sourcemap writes them out');
+    }
+
+    // The comment points at a map for the minified file and would be stale in the output
+    const code = stripSourceMappingURL(input.code).code;
+    const { suggestions, confirmed } = this.matchOriginalNames(code, loaded.map);
+    const metadata = {
+      ...input.metadata,
+      inputSourceMap: loaded.map,
+      renames: [...(input.metadata.renames ?? []), ...confirmed],
+    };
+
+    if (suggestions.length === 0) {
+      console.log(`  No bindings to rename (${confirmed.length} already carry their original names)`);
+      return { code, metadata, success: true };
+    }
+
+    const result = this.renamer.apply(code, suggestions, {
+      sourceMaps: wantsSourceMaps(input),
+      sourceFileName: getSourceName(input),
+    });
+
+    const renames: RenameRecord[] = result.applied.map(applied => ({
+      originalName: applied.originalName,
+      newName: applied.suggestedName,
+      line: applied.line,
+      functionPath: applied.functionPath,
+      confidence: applied.confidence,
+      source: 'sourcemap',
+      occurrences: applied.occurrences,
+    }));
+
+    console.log(`✓ Restored ${renames.length} original names from the input source map`);
+
+    return {
+      code: result.code,
+      metadata: {
+        ...metadata,
+        renames: [...metadata.renames, ...renames],
+      },
+      success: true,
+      warnings: result.warnings.length > 0 ? result.warnings : undefined,
+      sourceMap: result.map,
+    };
+  }
+
+  /**
+   * Compare each binding's declaration with the name mapped at its position
+   *
+   * Bindings already named like the map are returned as confirmed records so
+   * the LLM step leaves them alone too.
+   */
+  private matchOriginalNames(
+    code: string,
+    map: SourceMapData
+  ): { suggestions: RenameSuggestion[]; confirmed: RenameRecord[] } {
+    const namesAt = new Map<string, string>();
+    eachMapping(new TraceMap(toEncodedSourceMap(map)), mapping => {
+      if (mapping.name) {
+        namesAt.set(`${mapping.generatedLine}:${mapping.generatedColumn}`, mapping.name);
+      }
+    });
+
+    const suggestions: RenameSuggestion[] = [];
+    const confirmed: RenameRecord[] = [];
+    let bindings: ReturnType<ScopeAwareRenamer['collectBindings']>;
+
+    try {
+      bindings = this.renamer.collectBindings(code);
+    } catch {
+      return { suggestions, confirmed };
+    }
+
+    for (const binding of bindings) {
+      const originalName = namesAt.get(`${binding.line}:${binding.column}`);
+
+      if (!originalName) {
+        continue;
+      }
+
+      if (originalName === binding.name) {
+        confirmed.push({
+          originalName: binding.name,
+          newName: binding.name,
+          line: binding.line,
+          functionPath: binding.functionPath,
+          confidence: 1,
+          source: 'sourcemap',
+        });
+        continue;
+      }
+
+      suggestions.push({
+        originalName: binding.name,
+        suggestedName: originalName,
+        confidence: 1,
+        reasoning: 'Original name from the input source map',
+        type: 'variable',
+        line: binding.line,
+        functionPath: binding.functionPath,
+      });
+    }
+
+    return { suggestions, confirmed };
+  }
+}
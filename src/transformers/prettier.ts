@@ -5,6 +5,7 @@
 import prettier from 'prettier';
 import { ProcessingStep, ProcessingInput, ProcessingOutput, PrettierOptions } from '../types.js';
 import { PrettierError, ReScriptError, ErrorCode } from '../utils/errors.js';
+import { wantsSourceMaps, getSourceName, createApproximateSourceMap } from '../utils/sourcemap.js';
 
 export class PrettierTransformer implements ProcessingStep {
   public readonly name = 'prettier';
@@ -82,6 +83,10 @@ export class PrettierTransformer implements ProcessingStep {
           },
         },
         success: true,
+        // Prettier has no source map support, so the map is rebuilt from tokens
+        sourceMap: wantsSourceMaps(input)
+          ? createApproximateSourceMap(input.code, formattedCode, getSourceName(input))
+          : undefined,
       };
 
     } catch (error) {
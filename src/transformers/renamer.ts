@@ -0,0 +1,313 @@
+/**
+ * Scope-aware renaming engine keyed by Babel bindings
+ */
+
+import { traverse, transformFromAstSync, types as t, type NodePath } from '@babel/core';
+import { RenameSuggestion, SourceMapData } from '../types.js';
+import { parseCode, type Binding } from '../utils/ast.js';
+import { toSourceMapData } from '../utils/sourcemap.js';
+import { RenameConflictResolver, ConflictDecision } from './conflicts.js';
+
+export interface BindingInfo {
+  name: string;
+  kind: string;
+  line: number;
+  column: number;
+  functionPath: string;
+  occurrences: number;
+}
+
+export interface AppliedRename {
+  originalName: string;
+  suggestedName: string;
+  line: number;
+  functionPath: string;
+  occurrences: number;
+  confidence: number;
+  reasoning?: string;
+}
+
+export interface SkippedRename {
+  suggestion: RenameSuggestion;
+  reason: string;
+}
+
+export interface RenameResult {
+  code: string;
+  applied: AppliedRename[];
+  skipped: SkippedRename[];
+  decisions: ConflictDecision[];
+  warnings: string[];
+  map?: SourceMapData;
+}
+
+export interface RenameOptions {
+  /** Emit a source map whose names are the identifiers before renaming */
+  sourceMaps?: boolean;
+  sourceFileName?: string;
+}
+
+interface ResolvedBinding {
+  binding: Binding;
+  info: BindingInfo;
+}
+
+/**
+ * Applies rename suggestions to individual bindings rather than to every
+ * identifier sharing a name, so unrelated `a`s in different functions can
+ * receive different names and shadowed variables never collide.
+ */
+export class ScopeAwareRenamer {
+  private resolver = new RenameConflictResolver();
+
+  /**
+   * List every binding declared in the code
+   */
+  collectBindings(code: string): BindingInfo[] {
+    const ast = parseCode(code);
+    return this.collectFromAst(ast).map(resolved => resolved.info);
+  }
+
+  /**
+   * Resolve suggestions to bindings and rename them via `scope.rename`
+   */
+  apply(code: string, suggestions: RenameSuggestion[], options: RenameOptions = {}): RenameResult {
+    const ast = parseCode(code);
+    const bindings = this.collectFromAst(ast);
+    const warnings: string[] = [];
+    const skipped: SkippedRename[] = [];
+
+    // Resolve each suggestion to a single binding, keeping the most confident
+    // suggestion when several target the same binding
+    const targets = new Map<Binding, { suggestion: RenameSuggestion; info: BindingInfo }>();
+
+    for (const suggestion of suggestions) {
+      const resolution = this.resolveTarget(suggestion, bindings);
+
+      if ('reason' in resolution) {
+        skipped.push({ suggestion, reason: resolution.reason });
+        continue;
+      }
+
+      const existing = targets.get(resolution.binding);
+      if (!existing || suggestion.confidence > existing.suggestion.confidence) {
+        targets.set(resolution.binding, { suggestion, info: resolution.info });
+      }
+    }
+
+    const applied: AppliedRename[] = [];
+    const decisions: ConflictDecision[] = [];
+
+    // Most confident suggestions are renamed first so they keep their name
+    // and later collisions get disambiguated
+    const ordered = [...targets].sort((a, b) => b[1].suggestion.confidence - a[1].suggestion.confidence);
+
+    for (const [binding, { suggestion, info }] of ordered) {
+      if (suggestion.suggestedName === info.name) {
+        continue;
+      }
+
+      const resolution = this.resolver.resolve(binding, suggestion.suggestedName);
+      if (resolution.decision) {
+        decisions.push(resolution.decision);
+      }
+
+      if (resolution.name === undefined) {
+        skipped.push({ suggestion, reason: resolution.decision.reason });
+        continue;
+      }
+
+      const newName = resolution.name;
+      if (newName === info.name) {
+        continue;
+      }
+
+      binding.scope.rename(info.name, newName);
+
+      applied.push({
+        originalName: info.name,
+        suggestedName: newName,
+        line: info.line,
+        functionPath: info.functionPath,
+        occurrences: info.occurrences,
+        confidence: suggestion.confidence,
+        reasoning: suggestion.reasoning,
+      });
+    }
+
+    for (const decision of decisions) {
+      if (decision.resolvedName) {
+        warnings.push(
+          `Renamed ${decision.originalName} → ${decision.resolvedName} instead of ${decision.requestedName}: ${decision.reason}`
+        );
+      }
+    }
+
+    for (const { suggestion, reason } of skipped) {
+      warnings.push(`Skipped ${suggestion.originalName} → ${suggestion.suggestedName}: ${reason}`);
+    }
+
+    const result = transformFromAstSync(ast, code, {
+      babelrc: false,
+      configFile: false,
+      compact: false,
+      retainLines: true,
+      cloneInputAst: false,
+      sourceMaps: options.sourceMaps === true,
+      sourceFileName: options.sourceFileName,
+    });
+
+    if (!result || typeof result.code !== 'string') {
+      throw new Error('Babel code generation returned no result');
+    }
+
+    return {
+      code: result.code,
+      applied,
+      skipped,
+      decisions,
+      warnings,
+      map: result.map ? toSourceMapData(result.map) : undefined,
+    };
+  }
+
+  /**
+   * Gather all bindings from every scope in the program
+   */
+  private collectFromAst(ast: t.File): ResolvedBinding[] {
+    const resolved: ResolvedBinding[] = [];
+    const seenScopes = new Set<unknown>();
+
+    const collectScope = (path: NodePath) => {
+      const scope = path.scope;
+      if (seenScopes.has(scope)) return;
+      seenScopes.add(scope);
+
+      for (const binding of Object.values(scope.bindings) as Binding[]) {
+        const loc = binding.identifier.loc;
+        resolved.push({
+          binding,
+          info: {
+            name: binding.identifier.name,
+            kind: binding.kind,
+            line: loc?.start.line ?? 0,
+            column: loc?.start.column ?? 0,
+            functionPath: getFunctionPath(binding.scope.path),
+            occurrences: 1 + binding.referencePaths.length + binding.constantViolations.length,
+          },
+        });
+      }
+    };
+
+    traverse(ast, {
+      Program(path) {
+        collectScope(path);
+      },
+      Scopable(path) {
+        collectScope(path);
+      },
+    });
+
+    return resolved;
+  }
+
+  /**
+   * Pick the binding a suggestion refers to using its function path and line
+   */
+  private resolveTarget(
+    suggestion: RenameSuggestion,
+    bindings: ResolvedBinding[]
+  ): ResolvedBinding | { reason: string } {
+    let candidates = bindings.filter(b => b.info.name === suggestion.originalName);
+
+    if (candidates.length === 0) {
+      return { reason: 'no binding with that name (global or property access)' };
+    }
+
+    if (suggestion.functionPath !== undefined && candidates.length > 1) {
+      const byPath = candidates.filter(b => matchesFunctionPath(b.info.functionPath, suggestion.functionPath!));
+      if (byPath.length > 0) {
+        candidates = byPath;
+      }
+    }
+
+    if (suggestion.line !== undefined && candidates.length > 1) {
+      const distances = candidates.map(b => lineDistance(b, suggestion.line!));
+      const best = Math.min(...distances);
+      candidates = candidates.filter((_, index) => distances[index] === best);
+    }
+
+    if (candidates.length > 1) {
+      const lines = candidates.map(b => b.info.line).join(', ');
+      return { reason: `ambiguous: ${candidates.length} bindings declared on lines ${lines}` };
+    }
+
+    return candidates[0]!;
+  }
+}
+
+/**
+ * Build a dot-separated path of enclosing function names, e.g. `init.onLoad`
+ */
+export function getFunctionPath(path: NodePath | null): string {
+  const names: string[] = [];
+  let current: NodePath | null = path;
+
+  while (current) {
+    if (current.isFunction() || current.isClass()) {
+      names.unshift(getFunctionName(current));
+    }
+    current = current.parentPath;
+  }
+
+  return names.join('.');
+}
+
+function getFunctionName(path: NodePath): string {
+  const node = path.node as t.Function | t.Class;
+  const parent = path.parent;
+
+  if ('id' in node && node.id && t.isIdentifier(node.id)) {
+    return node.id.name;
+  }
+
+  if ((t.isObjectMethod(node) || t.isClassMethod(node)) && t.isIdentifier(node.key)) {
+    return node.key.name;
+  }
+
+  if (t.isVariableDeclarator(parent) && t.isIdentifier(parent.id)) {
+    return parent.id.name;
+  }
+
+  if (t.isAssignmentExpression(parent)) {
+    if (t.isIdentifier(parent.left)) return parent.left.name;
+    if (t.isMemberExpression(parent.left) && t.isIdentifier(parent.left.property)) {
+      return parent.left.property.name;
+    }
+  }
+
+  if ((t.isObjectProperty(parent) || t.isClassProperty(parent)) && t.isIdentifier(parent.key)) {
+    return parent.key.name;
+  }
+
+  return '<anonymous>';
+}
+
+function matchesFunctionPath(actual: string, requested: string): boolean {
+  const normalized = requested.trim().replace(/\s*(>|::|\/)\s*/g, '.');
+
+  if (normalized === '' || normalized === '<global>' || normalized === 'global') {
+    return actual === '';
+  }
+
+  return actual === normalized || actual.endsWith(`.${normalized}`);
+}
+
+function lineDistance(resolved: ResolvedBinding, line: number): number {
+  const lines = [
+    resolved.info.line,
+    ...resolved.binding.referencePaths.map(ref => ref.node.loc?.start.line ?? 0),
+  ];
+
+  return Math.min(...lines.map(l => Math.abs(l - line)));
+}
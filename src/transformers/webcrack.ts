@@ -2,15 +2,19 @@
  * Webcrack transformer for reverse bundling and deobfuscation
  */
 
-import { webcrack } from 'webcrack';
-import { ProcessingStep, ProcessingInput, ProcessingOutput } from '../types.js';
+import { webcrack, type WebcrackResult } from 'webcrack';
+import { ProcessingStep, ProcessingInput, ProcessingOutput, UnpackedBundle } from '../types.js';
 import { WebcrackError, ReScriptError, ErrorCode } from '../utils/errors.js';
+import { wantsSourceMaps, getSourceName, createApproximateSourceMap } from '../utils/sourcemap.js';
+import { BundleUnpacker } from './bundles/index.js';
 
 export interface WebcrackOptions {
   unpack?: boolean;
   deobfuscate?: boolean;
   unminify?: boolean;
   jsx?: boolean;
+  /** Keep the modules of an unpacked bundle in `metadata.bundle` */
+  keepModules?: boolean;
   timeout?: number;
   maxSize?: number;
 }
@@ -27,6 +31,7 @@ export class WebcrackTransformer implements ProcessingStep {
       deobfuscate: true,
       unminify: true,
       jsx: false,
+      keepModules: false,
       timeout: 30000, // 30 seconds default
       maxSize: 10 * 1024 * 1024, // 10MB max file size
       ...options,
@@ -51,18 +56,31 @@ export class WebcrackTransformer implements ProcessingStep {
       const needsProcessing = this.shouldProcess(input.code);
       
       if (!needsProcessing) {
-        console.log('⏭️  Code appears readable, skipping webcrack processing');
+        // Readable webpack and browserify bundles still need webcrack to split them
+        const unpackable = this.options.keepModules && this.options.unpack;
+        console.log(unpackable
+          ? '⏭️  Code appears readable, only unpacking it with webcrack'
+          : '⏭️  Code appears readable, skipping webcrack processing');
+        const unpacked = (unpackable ? await this.unpackReadable(input.code) : undefined)
+          ?? this.unpackOtherFormats(input.code);
+        if (unpacked.bundle) {
+          console.log(`📦 Unpacked ${unpacked.bundle.type} bundle: ${unpacked.bundle.modules.length} modules`);
+        }
         return {
           code: input.code,
           metadata: {
             ...input.metadata,
+            ...(unpacked.bundle && { bundle: unpacked.bundle }),
             statistics: {
               ...input.metadata.statistics,
               linesOfCode: input.code.split('\n').length,
             },
           },
           success: true,
-          warnings: ['Code appears already readable, webcrack step skipped'],
+          warnings: [
+            unpackable ? 'Code appears already readable, webcrack only unpacked it' : 'Code appears already readable, webcrack step skipped',
+            ...unpacked.warnings,
+          ],
         };
       }
 
@@ -91,10 +109,26 @@ export class WebcrackTransformer implements ProcessingStep {
       console.log(`  Lines: ${metrics.originalLines} → ${metrics.processedLines} (+${metrics.lineIncrease}%)`);
       console.log(`  Avg line length: ${metrics.originalAvgLineLength} → ${metrics.processedAvgLineLength}`);
 
+      // Webcrack only recognizes webpack and browserify; other bundlers are detected here
+      const warnings: string[] = [];
+      let bundle: UnpackedBundle | undefined;
+      if (result.bundle) {
+        warnings.push(`Detected ${result.bundle.type} bundle (${result.bundle.modules.size} modules)`);
+        bundle = this.options.keepModules ? this.extractBundle(result.bundle) : undefined;
+      } else {
+        const unpacked = this.unpackOtherFormats(processedCode);
+        warnings.push(...unpacked.warnings);
+        bundle = unpacked.bundle;
+      }
+      if (bundle) {
+        console.log(`📦 Unpacked ${bundle.type} bundle: ${bundle.modules.length} modules`);
+      }
+
       return {
         code: processedCode,
         metadata: {
           ...input.metadata,
+          ...(bundle && { bundle }),
           statistics: {
             ...input.metadata.statistics,
             linesOfCode: metrics.processedLines,
@@ -104,7 +138,11 @@ export class WebcrackTransformer implements ProcessingStep {
           },
         },
         success: true,
-        warnings: undefined, // result.warnings?.length ? result.warnings : undefined,
+        warnings: warnings.length > 0 ? warnings : undefined,
+        // Webcrack does not track positions, so the map is rebuilt from tokens
+        sourceMap: wantsSourceMaps(input)
+          ? createApproximateSourceMap(input.code, processedCode, getSourceName(input))
+          : undefined,
       };
 
     } catch (error) {
@@ -127,6 +165,74 @@ export class WebcrackTransformer implements ProcessingStep {
     }
   }
 
+  /**
+   * Modules of an unpacked bundle, with paths relative to its output directory
+   */
+  private extractBundle(bundle: NonNullable<WebcrackResult['bundle']>): UnpackedBundle {
+    return {
+      type: bundle.type,
+      entryId: bundle.entryId,
+      modules: Array.from(bundle.modules.values(), module => ({
+        id: module.id,
+        path: module.path.replace(/^\.\//, ''),
+        isEntry: module.isEntry,
+        code: module.code,
+      })),
+    };
+  }
+
+  /**
+   * Webpack and browserify modules of code that needs no other webcrack
+   * processing, or undefined when it is not such a bundle
+   */
+  private async unpackReadable(code: string): Promise<{ bundle: UnpackedBundle; warnings: string[] } | undefined> {
+    const result = await this.executeWithTimeout(
+      () => webcrack(code, { unpack: true, deobfuscate: false, unminify: false, jsx: false }),
+      this.options.timeout || 30000
+    );
+
+    if (!result.bundle) {
+      return undefined;
+    }
+
+    return {
+      bundle: this.extractBundle(result.bundle),
+      warnings: [`Detected ${result.bundle.type} bundle (${result.bundle.modules.size} modules)`],
+    };
+  }
+
+  /**
+   * Detect bundles webcrack does not unpack (Rollup, esbuild, Parcel, AMD,
+   * SystemJS) and, with `keepModules`, split them into their modules
+   */
+  private unpackOtherFormats(code: string): { bundle?: UnpackedBundle; warnings: string[] } {
+    if (!this.options.unpack) {
+      return { warnings: [] };
+    }
+
+    const unpacker = new BundleUnpacker();
+    if (!this.options.keepModules) {
+      const detection = unpacker.detect(code);
+      return {
+        warnings: detection ? [`Detected ${detection.format} bundle: ${detection.evidence.join(', ')}`] : [],
+      };
+    }
+
+    const { detection, bundle, warnings } = unpacker.unpack(code);
+    if (!detection) {
+      return { warnings };
+    }
+
+    const found = `Detected ${detection.format} bundle: ${detection.evidence.join(', ')}`;
+    return {
+      bundle,
+      warnings: [
+        bundle ? `${found} (${bundle.modules.length} modules)` : `${found}; no module boundaries found, kept as one file`,
+        ...warnings,
+      ],
+    };
+  }
+
   /**
    * Determine if code needs webcrack processing
    */
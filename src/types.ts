@@ -17,6 +17,12 @@ export interface LLMRequest {
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  /** Identifiers that already carry their original names and must not be renamed */
+  knownNames?: string[];
+  /** Called for each suggestion as a streaming provider receives it */
+  onSuggestion?: (suggestion: RenameSuggestion, received: number) => void;
+  /** Stops a streaming request, keeping the suggestions received so far */
+  signal?: AbortSignal;
 }
 
 export interface LLMResponse {
@@ -24,6 +30,24 @@ export interface LLMResponse {
   confidence: number;
   tokensUsed: number;
   processingTime: number;
+  /** The stream was cut short; only the suggestions received before it stopped */
+  partial?: boolean;
+  /** Prompt and response tokens as counted by the provider, when it reports them */
+  promptTokens?: number;
+  completionTokens?: number;
+}
+
+/**
+ * How a model's context window is shared within one request
+ */
+export interface TokenBudget {
+  contextWindow: number;
+  /** Prompt tokens besides the code: system prompt, instructions and tool schema */
+  promptTokens: number;
+  /** Tokens kept free for the response */
+  responseTokens: number;
+  /** What remains for the code itself */
+  codeTokens: number;
 }
 
 export interface RenameSuggestion {
@@ -32,6 +56,8 @@ export interface RenameSuggestion {
   confidence: number;
   reasoning?: string;
   type: 'variable' | 'function' | 'class' | 'method' | 'property';
+  line?: number;
+  functionPath?: string;
 }
 
 // Processing Pipeline Types
@@ -53,6 +79,8 @@ export interface ProcessingOutput {
   success: boolean;
   error?: ProcessingError;
   warnings?: string[];
+  /** Map from this step's input to its output, composed by the pipeline */
+  sourceMap?: SourceMapData;
 }
 
 export interface ProcessingMetadata {
@@ -61,15 +89,74 @@ export interface ProcessingMetadata {
   chunkIndex?: number;
   totalChunks?: number;
   sourceMap?: SourceMapData;
+  /** Source map the input shipped with, when `processing.preserveSourceMaps` is on */
+  inputSourceMap?: SourceMapData;
+  /** LLM response cache usage while processing this input */
+  cache?: CacheStatistics;
+  /**
+   * Renames applied so far; those from the input source map are settled
+   * before the LLM step, which leaves their names alone
+   */
+  renames?: RenameRecord[];
+  /** Modules recovered from a bundle, when asked to keep them */
+  bundle?: UnpackedBundle;
   statistics: ProcessingStatistics;
 }
 
+export type BundleFormat =
+  | 'webpack'
+  | 'browserify'
+  | 'rollup'
+  | 'esbuild'
+  | 'parcel'
+  | 'amd'
+  | 'systemjs'
+  | 'metro';
+
+export interface UnpackedBundle {
+  type: BundleFormat;
+  entryId: string;
+  modules: BundleModule[];
+}
+
+export interface BundleModule {
+  id: string;
+  /** Path inferred for the module, relative to the bundle's output directory */
+  path: string;
+  isEntry: boolean;
+  code: string;
+}
+
+export interface RenameRecord {
+  originalName: string;
+  newName: string;
+  line: number;
+  functionPath: string;
+  confidence: number;
+  source: 'sourcemap' | 'llm';
+  reasoning?: string;
+  /** Declaration plus references renamed */
+  occurrences?: number;
+}
+
+export interface CacheStatistics {
+  hits: number;
+  misses: number;
+  /** Tokens the cached responses cost when they were first requested */
+  tokensSaved: number;
+}
+
 export interface ProcessingStatistics {
   linesOfCode: number;
   functionsCount: number;
   variablesCount: number;
   complexityScore: number;
   tokensCount: number;
+  /** Split of the tokens the LLM step used, when the provider reports it */
+  promptTokens?: number;
+  completionTokens?: number;
+  /** USD spent on LLM requests for this input */
+  cost?: number;
 }
 
 export interface ProcessingError {
@@ -89,11 +176,43 @@ export interface ReScriptConfig {
   advanced: AdvancedConfig;
 }
 
+/**
+ * Throughput limits of a provider account; missing limits are unbounded
+ */
+export interface RateLimits {
+  requestsPerMinute?: number;
+  /** Prompt and response tokens per minute */
+  tokensPerMinute?: number;
+  /** Generation speed of a single request */
+  outputTokensPerSecond?: number;
+}
+
+/** USD per 1K tokens */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/** How an openai-compatible server is asked for structured suggestions */
+export type OutputMode = 'tools' | 'json_schema' | 'json_object' | 'text';
+
 export interface ProviderConfig {
-  name: 'openai' | 'anthropic' | 'ollama' | 'azure' | 'bedrock';
+  name: 'openai' | 'anthropic' | 'ollama' | 'azure' | 'bedrock' | 'openai-compatible' | 'replay' | 'heuristic';
   model: string;
   apiKey?: string;
   baseUrl?: string;
+  /** AWS region for bedrock; defaults to AWS_REGION or the profile's region */
+  region?: string;
+  /** Output mode for openai-compatible servers; 'auto' steps down from tools until one works */
+  outputMode?: OutputMode | 'auto';
+  /** Fixture file the replay provider answers from, or that `record` writes to */
+  fixture?: string;
+  /** Record this provider's responses into `fixture` */
+  record?: boolean;
+  /** Prices by model in USD per 1K tokens, overriding the provider's built-in table */
+  pricing?: Record<string, ModelPricing>;
+  /** Account limits used for time estimates, overriding the provider's defaults */
+  rateLimits?: RateLimits;
   temperature: number;
   maxTokens: number;
   timeout: number;
@@ -104,13 +223,20 @@ export interface ProcessingConfig {
   caching: CachingConfig;
   retries: RetryConfig;
   concurrency: number;
+  /** Most a run may spend on LLM requests, in USD */
+  budget?: number;
   preserveComments: boolean;
   preserveSourceMaps: boolean;
 }
 
 export interface ChunkingConfig {
   strategy: 'simple' | 'ast-aware' | 'semantic';
+  /** Whether chunk limits are measured in model tokens or characters */
+  sizeUnit?: 'tokens' | 'chars';
+  /** Chunk limit in characters, used with `sizeUnit: 'chars'` */
   maxChunkSize: number;
+  /** Chunk limit in tokens, used with `sizeUnit: 'tokens'` */
+  maxChunkTokens?: number;
   overlapPercentage: number;
   respectFunctionBoundaries: boolean;
 }
@@ -132,10 +258,25 @@ export interface OutputConfig {
   format: 'prettier' | 'custom';
   prettierOptions: PrettierOptions;
   generateSourceMaps: boolean;
+  /** Write each module of a bundle as its own file */
+  splitModules: boolean;
+  /**
+   * File names for split modules: the ids the unpacker gave them, names
+   * inferred from their exports and strings, or those plus names the LLM
+   * suggests for modules the exports do not name
+   */
+  moduleNames: ModuleNaming;
+  /**
+   * Write the original sources an input's source map carries instead of
+   * processing the input
+   */
+  fromSourceMap: boolean;
   addComments: boolean;
   commentStyle: 'block' | 'line';
 }
 
+export type ModuleNaming = 'ids' | 'inferred' | 'llm';
+
 export interface PrettierOptions {
   parser: string;
   printWidth: number;
@@ -167,6 +308,7 @@ export interface PluginSystemConfig {
     timeoutMs: number;
     memoryLimitMB: number;
     networkAccess: boolean;
+    sandbox: boolean;
   };
   execution: {
     hooks: {
@@ -200,6 +342,26 @@ export interface ProcessingJob {
   updatedAt: Date;
   completedAt?: Date;
   error?: ProcessingError;
+  /** Per-file state, so a resumed job skips files it already finished */
+  files?: JobFile[];
+  /** Process running the job; a running job whose process is gone was interrupted */
+  pid?: number;
+}
+
+export interface JobFile {
+  inputPath: string;
+  outputPath: string;
+  status: 'pending' | 'completed' | 'failed';
+  result?: ProcessedFile;
+}
+
+/**
+ * Durable record of a job's chunk responses, so a resumed file only
+ * re-requests the chunks that never completed
+ */
+export interface ChunkCheckpointStore {
+  load(key: string): Promise<LLMResponse | null>;
+  save(key: string, response: LLMResponse): Promise<void>;
 }
 
 export type JobStatus = 
@@ -217,6 +379,8 @@ export interface JobInput {
     recursive?: boolean;
     pattern?: string;
     exclude?: string[];
+    /** Overwrite existing outputs (`--force`) */
+    overwrite?: boolean;
   };
 }
 
@@ -232,6 +396,39 @@ export interface ProcessedFile {
   error?: ProcessingError;
   statistics: ProcessingStatistics;
   processingTime: number;
+  cache?: CacheStatistics;
+  /** What would have been written, for dry runs */
+  preview?: ProcessingPreview;
+  /**
+   * Results per module when a bundle was split; `outputPath` is then the
+   * directory holding the modules and their index
+   */
+  modules?: ProcessedFile[];
+  /** What was recovered when the sources came from the input's source map */
+  recovered?: SourceRecovery;
+}
+
+export interface SourceRecovery {
+  /** Where the map was read from: a file path or `inline` */
+  sourceMap: string;
+  /** Files written (or previewed) from `sourcesContent` */
+  files: number;
+  /** Map sources listed without content */
+  missing: string[];
+  /** Share of the input's non-whitespace code mapped into a recovered source, from 0 to 1 */
+  coverage: number;
+  /**
+   * Whether the sources stand in for the whole input; when they do not, the
+   * input was processed as well
+   */
+  complete: boolean;
+}
+
+export interface ProcessingPreview {
+  originalCode: string;
+  code: string;
+  renames: RenameRecord[];
+  warnings: string[];
 }
 
 export interface ProcessingSummary {
@@ -241,6 +438,51 @@ export interface ProcessingSummary {
   totalProcessingTime: number;
   tokensUsed: number;
   cost?: number;
+  /** Spending cap of the run, when one was set */
+  budget?: BudgetStatus;
+  cache?: CacheStatistics;
+  files?: ProcessedFile[];
+}
+
+export interface BudgetStatus {
+  /** Cap in USD */
+  maxCost: number;
+  spent: number;
+  /** Whether requests were skipped because the cap would have been exceeded */
+  exhausted: boolean;
+}
+
+/**
+ * Work a run is expected to take, projected without calling the provider
+ */
+export interface WorkEstimate {
+  /** Requests the chunking produces, including those the cache answers */
+  chunks: number;
+  /** Requests that would actually be sent */
+  requests: number;
+  promptTokens: number;
+  /** Projected response tokens */
+  completionTokens: number;
+  /** USD */
+  cost: number;
+  /** Wall-clock time at the provider's rate limits */
+  minutes: number;
+}
+
+export interface FileEstimate extends WorkEstimate {
+  inputPath: string;
+  success: boolean;
+  error?: ProcessingError;
+}
+
+export interface RunEstimate {
+  provider: string;
+  model: string;
+  rateLimits: RateLimits;
+  totals: WorkEstimate;
+  files: FileEstimate[];
+  /** What the same tokens would cost with other providers */
+  comparison: Record<string, { model: string; cost: number }>;
 }
 
 export interface JobProgress {
@@ -250,6 +492,8 @@ export interface JobProgress {
   percentage: number;
   estimatedTimeRemaining?: number;
   currentFile?: string;
+  /** Rename suggestions received so far for the current file */
+  suggestionsReceived?: number;
 }
 
 // Cache Types
@@ -276,6 +520,7 @@ export interface Plugin {
   description: string;
   transformers?: Transformer[];
   hooks?: PluginHooks;
+  configure?: (options: Record<string, unknown>) => void | Promise<void>;
 }
 
 export interface Transformer {
@@ -293,6 +538,7 @@ export interface PluginHooks {
 // Source Map Types
 export interface SourceMapData {
   version: number;
+  file?: string;
   sources: string[];
   names: string[];
   mappings: string;
@@ -0,0 +1,44 @@
+/**
+ * Shared Babel parsing helpers for AST-based analysis
+ */
+
+import { parseSync, type NodePath, type ParserOptions, type types as t } from '@babel/core';
+
+export type Binding = NonNullable<ReturnType<NodePath['scope']['getBinding']>>;
+
+/**
+ * Parser options tolerant enough for minified and bundled code
+ */
+export const PARSER_OPTIONS: ParserOptions = {
+  sourceType: 'unambiguous',
+  allowImportExportEverywhere: true,
+  allowReturnOutsideFunction: true,
+  strictMode: false,
+  plugins: [
+    'jsx',
+    'decorators-legacy',
+    'classProperties',
+    'objectRestSpread',
+    'asyncGenerators',
+    'dynamicImport',
+    'nullishCoalescingOperator',
+    'optionalChaining',
+  ],
+};
+
+/**
+ * Parse code into a Babel File node, throwing on syntax errors
+ */
+export function parseCode(code: string): t.File {
+  const ast = parseSync(code, {
+    babelrc: false,
+    configFile: false,
+    parserOpts: PARSER_OPTIONS,
+  });
+
+  if (!ast) {
+    throw new Error('Babel parser returned no AST');
+  }
+
+  return ast as t.File;
+}
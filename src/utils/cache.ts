@@ -455,15 +455,7 @@ export class CacheManager {
    * Generate cache key for code and configuration
    */
   generateKey(code: string, config: Record<string, unknown>): string {
-    const input = {
-      code: createHash('sha256').update(code).digest('hex'),
-      config: JSON.stringify(config, Object.keys(config).sort()),
-    };
-    
-    return createHash('sha256')
-      .update(JSON.stringify(input))
-      .digest('hex')
-      .substring(0, 32);
+    return generateCacheKey(code, config);
   }
 
   /**
@@ -575,6 +567,21 @@ export class CacheManager {
   }
 }
 
+/**
+ * Generate cache key for code and configuration
+ */
+export function generateCacheKey(code: string, config: Record<string, unknown>): string {
+  const input = {
+    code: createHash('sha256').update(code).digest('hex'),
+    config: JSON.stringify(config, Object.keys(config).sort()),
+  };
+  
+  return createHash('sha256')
+    .update(JSON.stringify(input))
+    .digest('hex')
+    .substring(0, 32);
+}
+
 /**
  * Create cache manager from configuration
  */
@@ -0,0 +1,203 @@
+/**
+ * Line-based unified diffs for previewing changes
+ */
+
+export interface UnifiedDiffOptions {
+  fromFile?: string;
+  toFile?: string;
+  /** Unchanged lines shown around each change */
+  context?: number;
+}
+
+type EditOperation = ' ' | '-' | '+';
+
+interface Edit {
+  op: EditOperation;
+  line: string;
+}
+
+/**
+ * Edit distance above which the diff gives up on finding a minimal script
+ * and reports the differing region as replaced wholesale
+ */
+const MAX_EDIT_DISTANCE = 4000;
+
+/**
+ * Create a unified diff (as produced by `diff -u`) between two texts
+ *
+ * Returns an empty string when the texts are identical.
+ */
+export function createUnifiedDiff(oldText: string, newText: string, options: UnifiedDiffOptions = {}): string {
+  if (oldText === newText) {
+    return '';
+  }
+
+  const { fromFile = 'a', toFile = 'b', context = 3 } = options;
+  const edits = diffLines(splitLines(oldText), splitLines(newText));
+  const lines = [`--- ${fromFile}`, `+++ ${toFile}`];
+
+  for (const hunk of groupHunks(edits, context)) {
+    lines.push(hunk.header, ...hunk.lines);
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Split text into lines, marking a missing trailing newline like `diff` does
+ */
+function splitLines(text: string): string[] {
+  if (text === '') {
+    return [];
+  }
+
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') {
+    lines.pop();
+  } else {
+    lines[lines.length - 1] += '\n\\ No newline at end of file';
+  }
+
+  return lines;
+}
+
+/**
+ * Shortest edit script between two line arrays (Myers' algorithm)
+ */
+function diffLines(a: string[], b: string[]): Edit[] {
+  // Common prefix and suffix never need the search
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const edits: Edit[] = a.slice(0, start).map(line => ({ op: ' ', line }));
+  edits.push(...diffMiddle(a.slice(start, endA), b.slice(start, endB)));
+  edits.push(...a.slice(endA).map(line => ({ op: ' ' as const, line })));
+
+  return edits;
+}
+
+function diffMiddle(a: string[], b: string[]): Edit[] {
+  const n = a.length;
+  const m = b.length;
+  const replaced = (): Edit[] => [
+    ...a.map(line => ({ op: '-' as const, line })),
+    ...b.map(line => ({ op: '+' as const, line })),
+  ];
+
+  if (n === 0 || m === 0) {
+    return replaced();
+  }
+
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Furthest x reached on each diagonal, kept per round for the backtrack
+  const trace: Int32Array[] = [];
+  let found = false;
+
+  for (let d = 0; d <= max && !found; d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+        ? v[offset + k + 1]!
+        : v[offset + k - 1]! + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+  }
+
+  if (!found) {
+    return replaced();
+  }
+
+  // Walk the trace backwards from the end of both arrays
+  const edits: Edit[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1]!;
+    const at = (k: number) => previous[k + d]!;
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      edits.push({ op: ' ', line: a[--x]! });
+      y--;
+    }
+
+    if (x === prevX) {
+      edits.push({ op: '+', line: b[--y]! });
+    } else {
+      edits.push({ op: '-', line: a[--x]! });
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push({ op: ' ', line: a[--x]! });
+    y--;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Group edits into hunks with surrounding context
+ */
+function groupHunks(edits: Edit[], context: number): { header: string; lines: string[] }[] {
+  const hunks: { header: string; lines: string[] }[] = [];
+  const changed = edits.map((edit, index) => (edit.op === ' ' ? -1 : index)).filter(index => index >= 0);
+
+  let i = 0;
+  while (i < changed.length) {
+    const first = Math.max(0, changed[i]! - context);
+    let last = changed[i]!;
+
+    // Merge changes whose context windows touch
+    while (i + 1 < changed.length && changed[i + 1]! - last <= context * 2 + 1) {
+      last = changed[++i]!;
+    }
+    i++;
+    last = Math.min(edits.length - 1, last + context);
+
+    // Line numbers where the hunk starts in each file
+    let oldStart = 1;
+    let newStart = 1;
+    for (const edit of edits.slice(0, first)) {
+      if (edit.op !== '+') oldStart++;
+      if (edit.op !== '-') newStart++;
+    }
+
+    const slice = edits.slice(first, last + 1);
+    const oldCount = slice.filter(edit => edit.op !== '+').length;
+    const newCount = slice.filter(edit => edit.op !== '-').length;
+    const range = (start: number, count: number) => `${count === 0 ? start - 1 : start}${count === 1 ? '' : `,${count}`}`;
+
+    hunks.push({
+      header: `@@ -${range(oldStart, oldCount)} +${range(newStart, newCount)} @@`,
+      lines: slice.map(edit => `${edit.op}${edit.line}`),
+    });
+  }
+
+  return hunks;
+}
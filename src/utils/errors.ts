@@ -32,6 +32,15 @@ export enum ErrorCode {
   // Cache Errors
   CACHE_ERROR = 'CACHE_ERROR',
   
+  // Plugin Errors
+  PLUGIN_LOAD_FAILED = 'PLUGIN_LOAD_FAILED',
+  PLUGIN_EXECUTION_FAILED = 'PLUGIN_EXECUTION_FAILED',
+  PLUGIN_SANDBOX_VIOLATION = 'PLUGIN_SANDBOX_VIOLATION',
+  
+  // Job Errors
+  JOB_NOT_FOUND = 'JOB_NOT_FOUND',
+  JOB_NOT_RESUMABLE = 'JOB_NOT_RESUMABLE',
+  
   // Unknown/Generic Errors
   UNKNOWN_ERROR = 'UNKNOWN_ERROR',
 }
@@ -229,6 +238,82 @@ export class PrettierError extends ReScriptError {
   }
 }
 
+export class PluginLoadError extends ReScriptError {
+  constructor(pluginPath: string, message: string, originalError?: Error) {
+    super(
+      ErrorCode.PLUGIN_LOAD_FAILED,
+      `Failed to load plugin ${pluginPath}: ${message}`,
+      'plugin-loading',
+      false,
+      [
+        'Ensure the module exports a Plugin as its default export',
+        'Check that every transformer has a name, a stage and a transform function',
+        'Disable the plugin in advanced.pluginConfig.execution.configs',
+      ],
+      originalError
+    );
+  }
+}
+
+export class PluginExecutionError extends ReScriptError {
+  constructor(pluginName: string, message: string, originalError?: Error) {
+    super(
+      ErrorCode.PLUGIN_EXECUTION_FAILED,
+      `Plugin ${pluginName} failed: ${message}`,
+      `plugin:${pluginName}`,
+      false,
+      [
+        'Check the plugin for errors',
+        'Disable the plugin in advanced.pluginConfig.execution.configs',
+      ],
+      originalError
+    );
+  }
+}
+
+export class PluginSandboxViolationError extends ReScriptError {
+  constructor(pluginName: string, message: string) {
+    super(
+      ErrorCode.PLUGIN_SANDBOX_VIOLATION,
+      `Plugin ${pluginName} violated sandbox policy: ${message}`,
+      `plugin:${pluginName}`,
+      false,
+      [
+        'Review what the plugin is trying to access',
+        'Extend advanced.pluginConfig.security (allowedApis, allowedPaths, networkAccess, timeoutMs, memoryLimitMB) if the access is legitimate',
+        'Only set security.sandbox to false for plugins you trust',
+      ]
+    );
+  }
+}
+
+export class JobNotFoundError extends ReScriptError {
+  constructor(jobId: string) {
+    super(
+      ErrorCode.JOB_NOT_FOUND,
+      `Job not found: ${jobId}`,
+      'job-store',
+      false,
+      [
+        'List jobs with: re-script jobs list',
+        'Jobs are stored in .rescript/jobs under the directory the run was started from',
+      ]
+    );
+  }
+}
+
+export class JobNotResumableError extends ReScriptError {
+  constructor(jobId: string, reason: string, suggestions: string[] = []) {
+    super(
+      ErrorCode.JOB_NOT_RESUMABLE,
+      `Job ${jobId} cannot be resumed: ${reason}`,
+      'job-store',
+      false,
+      suggestions
+    );
+  }
+}
+
 /**
  * Error recovery strategies
  */
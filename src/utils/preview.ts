@@ -0,0 +1,83 @@
+/**
+ * Plain-text previews of dry-run results for review before anything is written
+ */
+
+import { relative } from 'path';
+import { ProcessedFile, RenameRecord } from '../types.js';
+import { createUnifiedDiff } from './diff.js';
+
+const TABLE_HEADERS = ['Original', 'Suggested', 'Confidence', 'Occurrences', 'Source', 'Reasoning'];
+
+/**
+ * Render renames as an aligned table, most confident first
+ */
+export function formatRenameTable(renames: RenameRecord[]): string {
+  if (renames.length === 0) {
+    return 'No renames.';
+  }
+
+  const rows = [...renames]
+    .sort((a, b) => b.confidence - a.confidence || a.line - b.line)
+    .map(rename => [
+      rename.originalName,
+      rename.newName,
+      `${Math.round(rename.confidence * 100)}%`,
+      rename.occurrences !== undefined ? String(rename.occurrences) : '-',
+      rename.source,
+      rename.reasoning?.replace(/\s+/g, ' ').trim() || '-',
+    ]);
+
+  // The last column is left ragged so long reasoning does not pad every row
+  const widths = TABLE_HEADERS.slice(0, -1).map((header, column) =>
+    Math.max(header.length, ...rows.map(row => row[column]!.length))
+  );
+  const formatRow = (cells: string[]) =>
+    cells.map((cell, column) => (column < widths.length ? cell.padEnd(widths[column]!) : cell)).join('  ').trimEnd();
+
+  return [
+    formatRow(TABLE_HEADERS),
+    formatRow(widths.map(width => '-'.repeat(width)).concat('-'.repeat(TABLE_HEADERS[TABLE_HEADERS.length - 1]!.length))),
+    ...rows.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Rename table and unified diff for one dry-run result
+ */
+export function formatFilePreview(file: ProcessedFile, cwd: string = process.cwd()): string {
+  const inputName = relative(cwd, file.inputPath) || file.inputPath;
+  const outputName = relative(cwd, file.outputPath) || file.outputPath;
+  const lines = [`=== ${inputName} → ${outputName}`];
+
+  if (!file.success || !file.preview) {
+    lines.push('', `Failed: ${file.error?.message ?? 'no output produced'}`);
+    return `${lines.join('\n')}\n`;
+  }
+
+  const { originalCode, code, renames, warnings } = file.preview;
+
+  lines.push('', `Renames (${renames.length}):`, formatRenameTable(renames));
+
+  if (warnings.length > 0) {
+    lines.push('', 'Warnings:', ...warnings.map(warning => `- ${warning}`));
+  }
+
+  const diff = createUnifiedDiff(originalCode, code, { fromFile: inputName, toFile: outputName });
+  lines.push('', diff ? diff.trimEnd() : 'No changes.');
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Full dry-run report covering every processed file
+ */
+export function createDryRunReport(files: ProcessedFile[], cwd: string = process.cwd()): string {
+  const previewed = files.filter(file => file.success).length;
+  const header = [
+    're-Script dry run report',
+    `Generated: ${new Date().toISOString()}`,
+    `Files: ${previewed} previewed, ${files.length - previewed} failed`,
+  ].join('\n');
+
+  return [header, ...files.map(file => formatFilePreview(file, cwd))].join('\n\n');
+}
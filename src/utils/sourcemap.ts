@@ -0,0 +1,303 @@
+/**
+ * Source map helpers for tracing readable output back to the original code
+ */
+
+import remapping from '@ampproject/remapping';
+import { GenMapping, addMapping, setSourceContent, toEncodedMap } from '@jridgewell/gen-mapping';
+import type { EncodedSourceMap } from '@jridgewell/trace-mapping';
+import { parseSync } from '@babel/core';
+import { readFile } from 'fs/promises';
+import { basename, dirname, resolve } from 'path';
+import { ProcessingInput, SourceMapData } from '../types.js';
+import { PARSER_OPTIONS } from './ast.js';
+
+const DEFAULT_SOURCE_NAME = 'input.js';
+
+/**
+ * Trailing `//# sourceMappingURL=` comment (or the legacy `//@` form)
+ */
+const SOURCE_MAPPING_URL = /(?:^|\n)[ \t]*\/\/[#@][ \t]*sourceMappingURL=([^\s'"]+)[ \t]*\n?\s*$/;
+
+/**
+ * Scheme-prefixed sources such as `webpack://app/./src/a.js` are kept verbatim
+ */
+const URL_SOURCE = /^[a-z][\w+.-]+:/i;
+
+/**
+ * How many tokens ahead the aligner searches to resynchronise after an edit
+ */
+const ALIGNMENT_LOOKAHEAD = 50;
+
+interface SourceToken {
+  label: string;
+  value: string;
+  line: number;
+  column: number;
+}
+
+/**
+ * Shape shared by Babel's and remapping's encoded map objects
+ */
+interface EncodedMapLike {
+  version: number;
+  file?: string | null;
+  sources: readonly (string | null)[];
+  names: readonly string[];
+  mappings: string;
+  sourcesContent?: readonly (string | null)[];
+}
+
+/**
+ * Whether the run asked for source maps (`output.generateSourceMaps`)
+ *
+ * Steps only spend time building maps when this is set; inputs built without
+ * a full configuration never get maps.
+ */
+export function wantsSourceMaps(input: ProcessingInput): boolean {
+  const fullConfig = input.config as any;
+  return fullConfig?.output?.generateSourceMaps === true;
+}
+
+/**
+ * Source name used in step maps for an input
+ */
+export function getSourceName(input: ProcessingInput): string {
+  return input.metadata.fileName ? basename(input.metadata.fileName) : DEFAULT_SOURCE_NAME;
+}
+
+/**
+ * Normalise an encoded map from Babel or remapping into plain map data
+ */
+export function toSourceMapData(map: EncodedMapLike): SourceMapData {
+  return {
+    version: map.version,
+    ...(map.file ? { file: map.file } : {}),
+    sources: map.sources.map(source => source ?? ''),
+    names: [...map.names],
+    mappings: map.mappings,
+    ...(map.sourcesContent ? { sourcesContent: map.sourcesContent.map(content => content ?? '') } : {}),
+  };
+}
+
+/**
+ * Map data as the mapping libraries read it
+ */
+export function toEncodedSourceMap(map: SourceMapData): EncodedSourceMap {
+  return { ...map, version: 3 };
+}
+
+/**
+ * Build a map between two versions of the same program by aligning tokens
+ *
+ * Used for steps that rewrite code without tracking positions (webcrack,
+ * Prettier, plugins). Equal tokens are matched in order; identifiers that
+ * differ between otherwise aligned positions are treated as renames and
+ * keep their original name. Inserted or removed tokens stay unmapped.
+ * Returns undefined when either version cannot be tokenized.
+ */
+export function createApproximateSourceMap(
+  original: string,
+  generated: string,
+  sourceName: string = DEFAULT_SOURCE_NAME
+): SourceMapData | undefined {
+  const originalTokens = tokenize(original);
+  const generatedTokens = tokenize(generated);
+
+  if (!originalTokens || !generatedTokens) {
+    return undefined;
+  }
+
+  const map = new GenMapping({ file: sourceName });
+  setSourceContent(map, sourceName, original);
+
+  const key = (token: SourceToken) => `${token.label}:${token.value}`;
+  const addPair = (from: SourceToken, to: SourceToken) => {
+    addMapping(map, {
+      generated: { line: to.line, column: to.column },
+      source: sourceName,
+      original: { line: from.line, column: from.column },
+      name: from.label === 'name' ? from.value : undefined,
+    });
+  };
+
+  let i = 0;
+  let j = 0;
+
+  while (i < originalTokens.length && j < generatedTokens.length) {
+    const from = originalTokens[i]!;
+    const to = generatedTokens[j]!;
+
+    if (key(from) === key(to) || (from.label === 'name' && to.label === 'name')) {
+      addPair(from, to);
+      i++;
+      j++;
+      continue;
+    }
+
+    // Resynchronise on the nearest pair of equal tokens, skipping as few
+    // tokens as possible on both sides combined
+    let skipOriginal = 0;
+    let skipGenerated = 0;
+    search: for (let distance = 1; distance <= ALIGNMENT_LOOKAHEAD; distance++) {
+      for (let ahead = 0; ahead <= distance; ahead++) {
+        const aheadOriginal = originalTokens[i + ahead];
+        const aheadGenerated = generatedTokens[j + distance - ahead];
+        if (aheadOriginal && aheadGenerated && key(aheadOriginal) === key(aheadGenerated)) {
+          skipOriginal = ahead;
+          skipGenerated = distance - ahead;
+          break search;
+        }
+      }
+    }
+
+    if (skipOriginal === 0 && skipGenerated === 0) {
+      // Substituted token (e.g. `!0` → `true`), map it to where it came from
+      addPair(from, to);
+      i++;
+      j++;
+    } else {
+      i += skipOriginal;
+      j += skipGenerated;
+    }
+  }
+
+  return toSourceMapData(toEncodedMap(map));
+}
+
+/**
+ * Compose per-step maps (in step order) into one map from the final output
+ * to the original input
+ *
+ * The first map may have several sources (e.g. a bundle's own map); every
+ * later map must map a single file. With `sourceName` the composed map's
+ * sources are renamed to it and `sourceContent` becomes their content.
+ */
+export function composeSourceMaps(
+  maps: SourceMapData[],
+  options: { sourceName?: string; sourceContent?: string } = {}
+): SourceMapData {
+  if (maps.length === 0) {
+    throw new Error('No source maps to compose');
+  }
+
+  const remapped = remapping(maps.map(toEncodedSourceMap).reverse(), () => null);
+  // Mappings are only decoded when remapping is asked for that
+  if (typeof remapped.mappings !== 'string') {
+    throw new Error('Composed source map has decoded mappings');
+  }
+  const composed = toSourceMapData({ ...remapped, mappings: remapped.mappings });
+  const { sourceName, sourceContent } = options;
+
+  return {
+    ...composed,
+    ...(sourceName !== undefined ? { sources: composed.sources.map(() => sourceName) } : {}),
+    ...(sourceContent !== undefined ? { sourcesContent: composed.sources.map(() => sourceContent) } : {}),
+  };
+}
+
+/**
+ * Remove a trailing `sourceMappingURL` comment, returning the URL it held
+ */
+export function stripSourceMappingURL(code: string): { code: string; url?: string } {
+  const match = SOURCE_MAPPING_URL.exec(code);
+  if (!match) {
+    return { code };
+  }
+
+  return { code: code.slice(0, match.index) + (match[0].startsWith('\n') ? '\n' : ''), url: match[1] };
+}
+
+/**
+ * Locate and parse the source map an input file ships with
+ *
+ * Looks at the trailing `sourceMappingURL` comment (inline `data:` URL or a
+ * path relative to the file) and falls back to an adjacent `<file>.map`.
+ * File-relative sources are resolved to absolute paths so the map can be
+ * re-targeted from wherever the output is written. Returns undefined when
+ * the input has no map; throws when a referenced map cannot be read or parsed.
+ */
+export async function readInputSourceMap(
+  code: string,
+  fileName?: string
+): Promise<{ map: SourceMapData; location: string } | undefined> {
+  const { url } = stripSourceMappingURL(code);
+  const fileDir = fileName ? dirname(resolve(fileName)) : process.cwd();
+  let raw: string;
+  let location: string;
+  let mapDir = fileDir;
+
+  if (url?.startsWith('data:')) {
+    const comma = url.indexOf(',');
+    const payload = url.slice(comma + 1);
+    raw = url.slice(0, comma).endsWith(';base64')
+      ? Buffer.from(payload, 'base64').toString('utf8')
+      : decodeURIComponent(payload);
+    location = 'inline';
+  } else if (url) {
+    if (URL_SOURCE.test(url)) {
+      throw new Error(`Remote source maps are not supported: ${url}`);
+    }
+    location = resolve(fileDir, decodeURIComponent(url));
+    mapDir = dirname(location);
+    raw = await readFile(location, 'utf8');
+  } else if (fileName) {
+    location = `${resolve(fileName)}.map`;
+    try {
+      raw = await readFile(location, 'utf8');
+    } catch {
+      return undefined;
+    }
+  } else {
+    return undefined;
+  }
+
+  const parsed = JSON.parse(raw.replace(/^\)\]\}'[^\n]*\n/, '')) as EncodedMapLike & { sourceRoot?: string; sections?: unknown };
+  if (parsed.sections) {
+    throw new Error('Indexed source maps are not supported');
+  }
+  if (parsed.version !== 3 || typeof parsed.mappings !== 'string' || !Array.isArray(parsed.sources)) {
+    throw new Error(`Not a version 3 source map: ${location}`);
+  }
+
+  const sourceRoot = parsed.sourceRoot ?? '';
+  const map = toSourceMapData({ ...parsed, names: parsed.names ?? [] });
+
+  return {
+    map: {
+      ...map,
+      sources: map.sources.map(source => {
+        const rooted = sourceRoot ? `${sourceRoot.replace(/\/$/, '')}/${source}` : source;
+        return URL_SOURCE.test(rooted) ? rooted : resolve(mapDir, rooted);
+      }),
+    },
+    location,
+  };
+}
+
+/**
+ * Tokenize code with Babel, dropping comments
+ */
+function tokenize(code: string): SourceToken[] | undefined {
+  try {
+    const ast = parseSync(code, {
+      babelrc: false,
+      configFile: false,
+      parserOpts: { ...PARSER_OPTIONS, tokens: true },
+    }) as { tokens?: any[] } | null;
+
+    if (!ast?.tokens) {
+      return undefined;
+    }
+
+    return ast.tokens
+      .filter(token => typeof token.type === 'object' && token.type.label !== 'eof')
+      .map(token => ({
+        label: token.type.label,
+        value: token.value === undefined ? '' : String(token.value),
+        line: token.loc.start.line,
+        column: token.loc.start.column,
+      }));
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Token counting for sizing prompts against model context windows
+ */
+
+import { createRequire } from 'module';
+import { Tiktoken, type TiktokenBPE } from 'js-tiktoken/lite';
+
+export type TokenEncoding = 'cl100k_base' | 'o200k_base';
+
+export interface Tokenizer {
+  /** BPE encoding the counts are based on */
+  readonly encoding: TokenEncoding;
+  /** Whether counts match the provider's own tokenizer; otherwise they are a padded estimate */
+  readonly exact: boolean;
+  count(text: string): number;
+}
+
+/**
+ * Padding applied to estimates for models whose tokenizer is not public;
+ * Claude and most local models split code into more tokens than cl100k does
+ */
+const ESTIMATE_MARGIN: Record<string, number> = {
+  anthropic: 1.15,
+  bedrock: 1.15,
+  default: 1.25,
+};
+
+// Rank tables are megabytes of data, so they are only loaded when first used
+const require = createRequire(import.meta.url);
+const encoders = new Map<TokenEncoding, Tiktoken>();
+const tokenizers = new Map<string, Tokenizer>();
+
+function getEncoder(encoding: TokenEncoding): Tiktoken {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    encoder = new Tiktoken(require(`js-tiktoken/ranks/${encoding}`) as TiktokenBPE);
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+class BpeTokenizer implements Tokenizer {
+  private lastText?: string;
+  private lastCount = 0;
+
+  constructor(
+    public readonly encoding: TokenEncoding,
+    public readonly exact: boolean,
+    private readonly margin = 1
+  ) {}
+
+  count(text: string): number {
+    if (text.length === 0) return 0;
+
+    // The same code is often counted several times in a row
+    if (text !== this.lastText) {
+      // Text that looks like special tokens is counted as plain text
+      const tokens = getEncoder(this.encoding).encode(text, [], []).length;
+      this.lastCount = Math.ceil(tokens * this.margin);
+      this.lastText = text;
+    }
+
+    return this.lastCount;
+  }
+}
+
+/**
+ * Encoding OpenAI uses for a model; undefined for models of other vendors
+ */
+function openAIEncoding(model: string): TokenEncoding | undefined {
+  const name = model.toLowerCase();
+  if (/^(gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|o1|o3|o4|chatgpt-4o)/.test(name)) return 'o200k_base';
+  if (/^(gpt-4|gpt-3\.5|gpt-35)/.test(name)) return 'cl100k_base';
+  return undefined;
+}
+
+/**
+ * Tokenizer for a provider and model
+ *
+ * OpenAI models get their exact encoding. Other vendors do not publish
+ * theirs, so cl100k counts padded by a margin stand in, which keeps prompts
+ * from overflowing at the cost of slightly smaller chunks.
+ */
+export function getTokenizer(provider: string, model: string): Tokenizer {
+  const exactEncoding = provider === 'openai' || provider === 'azure' ? openAIEncoding(model) : undefined;
+  const key = exactEncoding ?? `estimate:${provider}`;
+
+  let tokenizer = tokenizers.get(key);
+  if (!tokenizer) {
+    tokenizer = exactEncoding
+      ? new BpeTokenizer(exactEncoding, true)
+      : new BpeTokenizer('cl100k_base', false, ESTIMATE_MARGIN[provider] ?? ESTIMATE_MARGIN.default);
+    tokenizers.set(key, tokenizer);
+  }
+
+  return tokenizer;
+}
@@ -0,0 +1,240 @@
+/**
+ * Tests for the Bedrock provider, SigV4 signing and AWS credential resolution
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { BedrockProvider } from '../../src/providers/bedrock.js';
+import { ProviderFactory } from '../../src/providers/factory.js';
+import { resolveAwsCredentials, signRequest } from '../../src/providers/aws-auth.js';
+import { ProviderConfig } from '../../src/types.js';
+import { ErrorCode, ReScriptError } from '../../src/utils/errors.js';
+
+const MODEL = 'anthropic.claude-3-5-haiku-20241022-v1:0';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+describe('signRequest', () => {
+  it('should match the AWS SigV4 get-vanilla test vector', () => {
+    const headers = signRequest({
+      method: 'GET',
+      url: new URL('https://example.amazonaws.com/'),
+      headers: {},
+      body: '',
+      service: 'service',
+      region: 'us-east-1',
+      credentials: { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY', source: 'test' },
+      date: new Date('2015-08-30T12:36:00Z'),
+    });
+
+    expect(headers['x-amz-date']).toBe('20150830T123600Z');
+    expect(headers.authorization).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+      'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    );
+  });
+
+  it('should sign the session token of temporary credentials', () => {
+    const headers = signRequest({
+      method: 'POST',
+      url: new URL('https://bedrock-runtime.us-east-1.amazonaws.com/model/a%3A0/converse'),
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+      service: 'bedrock',
+      region: 'us-east-1',
+      credentials: { accessKeyId: 'ASIA', secretAccessKey: 'secret', sessionToken: 'token', source: 'test' },
+    });
+
+    expect(headers['x-amz-security-token']).toBe('token');
+    expect(headers.authorization).toContain('SignedHeaders=content-type;host;x-amz-date;x-amz-security-token,');
+  });
+});
+
+describe('resolveAwsCredentials', () => {
+  let baseDir: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-aws-'));
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should prefer environment variables', async () => {
+    const credentials = await resolveAwsCredentials({
+      AWS_ACCESS_KEY_ID: 'AKIAENV',
+      AWS_SECRET_ACCESS_KEY: 'env-secret',
+      AWS_SESSION_TOKEN: 'env-token',
+    });
+
+    expect(credentials).toEqual({
+      accessKeyId: 'AKIAENV',
+      secretAccessKey: 'env-secret',
+      sessionToken: 'env-token',
+      source: 'environment',
+    });
+  });
+
+  it('should read the selected profile from the shared files', async () => {
+    await writeFile(join(baseDir, 'credentials'), [
+      '[default]',
+      'aws_access_key_id = AKIADEFAULT',
+      'aws_secret_access_key = default-secret',
+      '',
+      '# team account',
+      '[dev]',
+      'aws_access_key_id = AKIADEV',
+      'aws_secret_access_key = dev-secret ; trailing comment',
+    ].join('\n'));
+    await writeFile(join(baseDir, 'config'), '[profile ci]\naws_access_key_id=AKIACI\naws_secret_access_key=ci-secret\n');
+
+    const env = {
+      AWS_SHARED_CREDENTIALS_FILE: join(baseDir, 'credentials'),
+      AWS_CONFIG_FILE: join(baseDir, 'config'),
+      AWS_EC2_METADATA_DISABLED: 'true',
+    };
+
+    expect(await resolveAwsCredentials({ ...env, AWS_PROFILE: 'dev' })).toMatchObject({
+      accessKeyId: 'AKIADEV', secretAccessKey: 'dev-secret', source: 'profile dev',
+    });
+    expect(await resolveAwsCredentials({ ...env, AWS_PROFILE: 'ci' })).toMatchObject({ accessKeyId: 'AKIACI' });
+    expect(await resolveAwsCredentials({ ...env, AWS_PROFILE: 'missing' })).toBeUndefined();
+  });
+});
+
+describe('BedrockProvider', () => {
+  let server: Server;
+  let requests: RecordedRequest[];
+  let responses: Array<{ status: number; headers?: Record<string, string>; body: unknown }>;
+  let config: ProviderConfig;
+
+  beforeEach(async () => {
+    requests = [];
+    responses = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        requests.push({ method: req.method!, url: req.url!, headers: req.headers, body: JSON.parse(body) });
+        const response = responses.shift() ?? { status: 500, body: { message: 'no response queued' } };
+        res.writeHead(response.status, { 'content-type': 'application/json', ...response.headers });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    vi.stubEnv('AWS_ACCESS_KEY_ID', 'AKIATEST');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', 'test-secret');
+    vi.stubEnv('AWS_SESSION_TOKEN', '');
+
+    config = {
+      name: 'bedrock',
+      model: MODEL,
+      region: 'eu-west-1',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      temperature: 0.2,
+      maxTokens: 4096,
+      timeout: 5000,
+    };
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const toolResponse = (suggestions: unknown[]) => ({
+    status: 200,
+    body: {
+      output: {
+        message: {
+          role: 'assistant',
+          content: [{ toolUse: { toolUseId: 't1', name: 'suggest_renames', input: { suggestions } } }],
+        },
+      },
+      stopReason: 'tool_use',
+      usage: { inputTokens: 120, outputTokens: 30, totalTokens: 150 },
+    },
+  });
+
+  it('should send a signed Converse request forcing the suggest_renames tool', async () => {
+    responses.push(toolResponse([
+      { originalName: 'a', suggestedName: 'total', confidence: 0.9, type: 'variable', reasoning: 'Sum' },
+    ]));
+
+    const provider = new BedrockProvider(config);
+    const response = await provider.processCode({ code: 'var a = 1;', model: MODEL, knownNames: ['render'] });
+
+    expect(response.suggestions).toEqual([
+      expect.objectContaining({ originalName: 'a', suggestedName: 'total', confidence: 0.9 }),
+    ]);
+    expect(response.tokensUsed).toBe(150);
+
+    const [request] = requests;
+    expect(request!.method).toBe('POST');
+    expect(request!.url).toBe('/model/anthropic.claude-3-5-haiku-20241022-v1%3A0/converse');
+    expect(request!.headers.authorization).toMatch(
+      /^AWS4-HMAC-SHA256 Credential=AKIATEST\/\d{8}\/eu-west-1\/bedrock\/aws4_request, SignedHeaders=accept;content-type;host;x-amz-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(request!.body.messages[0].content[0].text).toContain('render');
+    expect(request!.body.inferenceConfig).toEqual({ maxTokens: 4096, temperature: 0.2 });
+    expect(request!.body.toolConfig.toolChoice).toEqual({ tool: { name: 'suggest_renames' } });
+    expect(request!.body.toolConfig.tools[0].toolSpec.inputSchema.json.required).toEqual(['suggestions']);
+  });
+
+  it('should retry throttling but not access errors', async () => {
+    const provider = new BedrockProvider(config);
+    (provider as any).sleep = async () => {};
+
+    responses.push(
+      { status: 429, headers: { 'x-amzn-errortype': 'ThrottlingException:http://internal.amazon.com/coral/' }, body: { message: 'Too many requests' } },
+      toolResponse([])
+    );
+    await expect(provider.processCode({ code: 'var a;', model: MODEL })).resolves.toMatchObject({ suggestions: [] });
+    expect(requests).toHaveLength(2);
+
+    requests = [];
+    responses.push({ status: 403, headers: { 'x-amzn-errortype': 'AccessDeniedException' }, body: { message: 'No access to model' } });
+    await expect(provider.processCode({ code: 'var a;', model: MODEL })).rejects.toThrow('AccessDeniedException (403): No access to model');
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should not send or retry cancelled requests', async () => {
+    const provider = new BedrockProvider(config);
+    responses.push(toolResponse([]));
+
+    await expect(provider.processCode({ code: 'var a;', model: MODEL, signal: AbortSignal.abort() })).rejects.toThrow();
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should accept inference profiles and reject unknown models', () => {
+    expect(() => new BedrockProvider({ ...config, model: `us.${MODEL}` })).not.toThrow();
+    expect(() => new BedrockProvider({ ...config, model: 'gpt-4o' })).toThrow(ReScriptError);
+  });
+
+  it('should require a region', async () => {
+    vi.stubEnv('AWS_REGION', '');
+    vi.stubEnv('AWS_DEFAULT_REGION', '');
+    vi.stubEnv('AWS_CONFIG_FILE', join(tmpdir(), 'rescript-no-aws-config'));
+
+    const provider = new BedrockProvider({ ...config, region: undefined });
+
+    await expect(provider.processCode({ code: 'var a;', model: MODEL })).rejects.toMatchObject({ code: ErrorCode.INVALID_CONFIG });
+    expect(requests).toHaveLength(0);
+  });
+
+  it('should be created by the provider factory', () => {
+    expect(ProviderFactory.createProvider(config)).toBeInstanceOf(BedrockProvider);
+    expect(ProviderFactory.getSupportedProviders()).toContain('bedrock');
+  });
+});
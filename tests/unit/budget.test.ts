@@ -0,0 +1,137 @@
+/**
+ * Tests for per-request cost accounting and run spending caps
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CostTracker } from '../../src/core/budget.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { OpenAIProvider } from '../../src/providers/openai.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { LLMRequest, LLMResponse, ProcessingInput, ProviderConfig } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+
+const functions = (count: number): string =>
+  Array.from({ length: count }, (_, index) => `function f${index}(a, b) {\n  return a * ${index} + b;\n}`).join('\n');
+
+/**
+ * Charges $1 per 1K prompt tokens and $2 per 1K response tokens
+ */
+class PricedProvider extends BaseLLMProvider {
+  public readonly name = 'priced';
+  public readonly models = ['model-a'];
+  public readonly maxTokens = 8000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = false;
+  public readonly requests: LLMRequest[] = [];
+
+  constructor(config: Partial<ProviderConfig> = {}) {
+    super({ ...defaultConfig.provider, model: 'model-a', apiKey: 'test', ...config });
+  }
+
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    return {
+      suggestions: [{ originalName: 'a', suggestedName: 'value', confidence: 0.9, type: 'parameter' }],
+      confidence: 0.9,
+      tokensUsed: 600,
+      promptTokens: 500,
+      completionTokens: 100,
+      processingTime: 1,
+    };
+  }
+
+  override estimateCost(inputTokens: number, outputTokens: number): number {
+    return (inputTokens / 1000) * 1 + (outputTokens / 1000) * 2;
+  }
+}
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'app.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 0, complexityScore: 0, tokensCount: 0 },
+  },
+  config: defaultConfig as any,
+});
+
+describe('Response cost', () => {
+  it('should price reported usage from the provider table or configured pricing', () => {
+    const usage = { tokensUsed: 3000, promptTokens: 2000, completionTokens: 1000 };
+    const config = { ...defaultConfig.provider, name: 'openai' as const, model: 'gpt-4o', apiKey: 'test' };
+
+    expect(new OpenAIProvider(config).getResponseCost(usage)).toBeCloseTo(0.025);
+    expect(new OpenAIProvider({ ...config, pricing: { 'gpt-4o': { input: 0.0025, output: 0.01 } } }).getResponseCost(usage))
+      .toBeCloseTo(0.015);
+  });
+
+  it('should charge usage without a prompt/response split at the output price', () => {
+    expect(new PricedProvider().getResponseCost({ tokensUsed: 1000 })).toBeCloseTo(2);
+  });
+});
+
+describe('CostTracker', () => {
+  it('should refuse requests that would exceed the cap, counting reservations in flight', () => {
+    const tracker = new CostTracker(1);
+
+    const first = tracker.reserve(0.4)!;
+    expect(tracker.reserve(0.4)).toBeDefined();
+    expect(tracker.reserve(0.4)).toBeUndefined();
+
+    // Once the cap is reached nothing more is dispatched, even if it would fit
+    tracker.settle(first, 0.1);
+    expect(tracker.reserve(0.1)).toBeUndefined();
+    expect(tracker.getStatus()).toEqual({ maxCost: 1, spent: 0.1, exhausted: true });
+  });
+
+  it('should project responses from the ratio seen so far', () => {
+    const tracker = new CostTracker();
+
+    expect(tracker.projectCompletionTokens(1000)).toBe(250);
+    tracker.settle(tracker.reserve(0)!, 0, { promptTokens: 1000, completionTokens: 100 });
+    expect(tracker.projectCompletionTokens(1000)).toBe(100);
+    expect(tracker.getStatus()).toBeUndefined();
+  });
+});
+
+describe('LLMTransformer spending', () => {
+  it('should record the cost of each input', async () => {
+    const tracker = new CostTracker();
+    const result = await new LLMTransformer(new PricedProvider(), { costTracker: tracker }).execute(input('function f(a) { return a; }'));
+
+    expect(result.metadata.statistics.cost).toBeCloseTo(0.7);
+    expect(tracker.total).toBeCloseTo(0.7);
+  });
+
+  it('should stop sending chunks at the cap and finish with partial results', async () => {
+    const provider = new PricedProvider();
+    const tracker = new CostTracker(1.5);
+    const llm = new LLMTransformer(provider, {
+      costTracker: tracker,
+      chunkTokens: 300,
+      chunkingStrategy: 'simple',
+      overlapRatio: 0,
+      concurrency: 1,
+    });
+
+    const result = await llm.execute(input(functions(60)));
+
+    expect(result.success).toBe(true);
+    expect(provider.requests.length).toBeGreaterThan(0);
+    expect(result.metadata.statistics.cost).toBeCloseTo(0.7 * provider.requests.length);
+    expect(tracker.total).toBeLessThanOrEqual(1.5);
+    expect(result.warnings!.some(warning => /chunks were not sent because the \$1\.50 budget was reached/.test(warning))).toBe(true);
+    expect(tracker.getStatus()).toMatchObject({ exhausted: true });
+  });
+
+  it('should leave an input unchanged when its single request does not fit', async () => {
+    const provider = new PricedProvider();
+    const code = 'function f(a) { return a; }';
+
+    const result = await new LLMTransformer(provider, { costTracker: new CostTracker(0.01) }).execute(input(code));
+
+    expect(result).toMatchObject({ success: true, code });
+    expect(provider.requests).toHaveLength(0);
+    expect(result.warnings).toEqual(['Not sent to the LLM: the $0.01 budget was reached']);
+  });
+});
@@ -0,0 +1,226 @@
+/**
+ * Tests for detecting and unpacking the bundle formats webcrack does not handle
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BundleUnpacker } from '../../src/transformers/bundles/index.js';
+import { WebcrackTransformer } from '../../src/transformers/webcrack.js';
+import { ProcessingInput } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+
+const AMD = 'define("util/math",["require","exports"],function(e,t){t.add=function(a,b){return a+b}}),' +
+  'define("app",["./util/math","jquery"],function(m,$){var x=m.add(1,2);return {x:x}});require(["app"]);';
+
+const ESBUILD = `(() => {
+  var __getOwnPropNames = Object.getOwnPropertyNames;
+  var __defProp = Object.defineProperty;
+  var __commonJS = (cb, mod) => function __require() {
+    return mod || (0, cb[__getOwnPropNames(cb)[0]])((mod = { exports: {} }).exports, mod), mod.exports;
+  };
+  var __export = (target, all) => {
+    for (var name in all)
+      __defProp(target, name, { get: all[name], enumerable: true });
+  };
+
+  // node_modules/lodash/add.js
+  var require_add = __commonJS({
+    "node_modules/lodash/add.js"(exports, module) {
+      module.exports = function add(a, b) { return a + b; };
+    }
+  });
+
+  // src/util.ts
+  var util_exports = {};
+  __export(util_exports, { double: () => double });
+  var counter = 0;
+  function double(x) { counter++; return require_add()(x, x); }
+
+  // src/index.ts
+  console.log(double(2), util_exports, counter);
+})();`;
+
+const unpack = (code: string) => new BundleUnpacker().unpack(code);
+const codeOf = (code: string, path: string) => unpack(code).bundle!.modules.find(module => module.path === path)!.code;
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'bundle.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 0, complexityScore: 0, tokensCount: 0 },
+  },
+  config: defaultConfig as any,
+});
+
+describe('BundleUnpacker', () => {
+  it('should turn AMD factories into CommonJS modules at their names', () => {
+    const result = unpack(AMD);
+
+    expect(result.detection).toEqual({ format: 'amd', evidence: ['2 define() calls'] });
+    expect(result.bundle).toMatchObject({
+      type: 'amd',
+      entryId: 'app',
+      modules: [
+        { id: 'util/math', path: 'util/math.js', isEntry: false },
+        { id: 'app', path: 'app.js', isEntry: true },
+      ],
+    });
+    expect(codeOf(AMD, 'util/math.js')).toContain('exports.add = function');
+    const app = codeOf(AMD, 'app.js');
+    expect(app).toContain('var m = require("./util/math.js")');
+    expect(app).toContain('var $ = require("jquery")');
+    expect(app).toContain('module.exports = {');
+  });
+
+  it('should flatten System.register() declarations', () => {
+    const code = 'System.register("lib",[],function(e,t){"use strict";var n;function f(){return n}' +
+      'return{setters:[],execute:function(){n=1;e("value",n);e("f",f)}}});' +
+      'System.register("main",["./lib"],function(e,t){var l;return{setters:[function(m){l=m}],' +
+      'execute:function(){console.log(l.f(),t.meta.url)}}});';
+    const result = unpack(code);
+
+    expect(result.detection?.format).toBe('systemjs');
+    expect(result.bundle?.entryId).toBe('main');
+    expect(codeOf(code, 'lib.js')).toContain('exports.value = n');
+    const main = codeOf(code, 'main.js');
+    expect(main).toContain('l = require("./lib.js")');
+    expect(main).toContain('import.meta.url');
+  });
+
+  it('should unpack the Parcel 1 module table', () => {
+    const code = 'parcelRequire=function(e,r,t,n){return e}({"Focm":[function(require,module,exports){' +
+      'var t=require("./b");console.log(t)},{"./b":"b1"}],"b1":[function(e,t,r){t.exports=42},{}]},{},["Focm"],null);';
+    const result = unpack(code);
+
+    expect(result.detection?.evidence).toEqual(['parcelRequire module table (2 modules)']);
+    expect(result.bundle?.modules.map(module => module.path)).toEqual(['index.js', 'b1.js']);
+    expect(codeOf(code, 'index.js')).toContain('require("./b1.js")');
+    expect(codeOf(code, 'b1.js')).toContain('module.exports = 42');
+  });
+
+  it('should split Parcel 2 registrations from the code loading them', () => {
+    const code = 'var r=globalThis.parcelRequire94c2;r.register("abc",function(e,t){t.x=1});' +
+      'r.register("def",function(e,t){var n=r("abc");e.exports=n.x+1});var o=r("def");console.log(o);';
+    const result = unpack(code);
+
+    expect(result.detection?.evidence).toEqual(['2 parcelRequire.register() calls']);
+    expect(result.bundle?.modules.map(module => module.path)).toEqual(['abc.js', 'def.js', 'index.js']);
+    expect(codeOf(code, 'def.js')).toContain('var n = require("./abc.js")');
+    expect(codeOf(code, 'index.js')).toContain('var o = require("./def.js")');
+  });
+
+  it('should split esbuild bundles at their path comments and unwrap __commonJS', () => {
+    const result = unpack(ESBUILD);
+
+    expect(result.detection?.evidence).toEqual([
+      'esbuild helpers (__commonJS, __export)',
+      '1 __commonJS wrappers',
+      '3 module path comments',
+    ]);
+    expect(result.bundle?.modules.map(module => module.path)).toEqual([
+      'esbuild-runtime.js',
+      'node_modules/lodash/add.js',
+      'src/util.js',
+      'src/index.js',
+    ]);
+
+    const add = codeOf(ESBUILD, 'node_modules/lodash/add.js');
+    expect(add).toMatch(/^module\.exports = function add/);
+    expect(add).not.toContain('__commonJS');
+    const util = codeOf(ESBUILD, 'src/util.js');
+    expect(util).toContain('import { __export } from "../esbuild-runtime.js"');
+    expect(util).toContain('require("../node_modules/lodash/add.js")(x, x)');
+    expect(util).toContain('export { util_exports, counter, double }');
+    expect(util).not.toContain('// src/index.ts');
+    expect(codeOf(ESBUILD, 'src/index.js')).toContain('import { util_exports, counter, double } from "./util.js"');
+  });
+
+  it('should recognize minified esbuild wrappers by their shape', () => {
+    const code = '(()=>{var c=(e,t)=>()=>(t||e((t={exports:{}}).exports,t),t.exports);' +
+      'var u=c((e,t)=>{t.exports=function(a){return a*2}});var p=c((e,t)=>{var d=u();e.run=function(){return d(2)}});' +
+      'var m=p();console.log(m.run());})();';
+    const result = unpack(code);
+
+    expect(result.detection?.evidence).toEqual(['esbuild helpers (__commonJS)', '2 __commonJS wrappers']);
+    expect(result.bundle?.modules).toHaveLength(4);
+    expect(codeOf(code, '2.js')).toContain('var d = require("./1.js")');
+    expect(codeOf(code, 'index.js')).toContain('var m = require("./2.js")');
+  });
+
+  it('should end Rollup modules at their namespace objects', () => {
+    const code = [
+      'function add(a, b) { return a + b; }',
+      'var math = /*#__PURE__*/Object.freeze({ __proto__: null, add: add });',
+      'function main() { console.log(math); }',
+      'export { main as default };',
+    ].join('\n');
+    const result = unpack(code);
+
+    expect(result.detection?.evidence).toEqual(['1 frozen namespace objects']);
+    expect(result.bundle?.modules.map(module => module.path)).toEqual(['math.js', 'index.js']);
+    expect(codeOf(code, 'math.js')).toContain('export { math }');
+    expect(codeOf(code, 'index.js')).toContain('import { math } from "./math.js"');
+  });
+
+  it('should resolve Metro dependency maps to module files', () => {
+    const code = [
+      'var __BUNDLE_START_TIME__=Date.now(),__DEV__=false,__METRO_GLOBAL_PREFIX__="";',
+      '!(function(r){r.__r=function(){},r.__d=function(){}})(globalThis);',
+      '__d(function(g,r,i,a,m,e,d){var t=i(d[0]),n=a(d[1]);m.exports=[t,n,r(d[2]),r(d[3])]},0,[1,2,2,99]);',
+      '__d(function(g,r,i,a,m,e,d){Object.defineProperty(e,"__esModule",{value:!0}),e.default=1},1,[]);',
+      '__d(function(g,r,i,a,m,e,d){var require=2;m.exports=require},2,[]);',
+      '__r(52);__r(0);',
+    ].join('\n');
+    const result = unpack(code);
+
+    expect(result.detection?.evidence).toEqual([
+      '3 __d() module definitions',
+      'Metro prelude (__BUNDLE_START_TIME__, __METRO_GLOBAL_PREFIX__)',
+    ]);
+    expect(result.bundle?.entryId).toBe('0');
+    expect(result.bundle?.modules.map(module => module.path)).toEqual(['index.js', '1.js', '2.js']);
+    expect(result.warnings).toEqual(['Modules required but not in the bundle keep their Metro ids: 99']);
+
+    const entry = codeOf(code, 'index.js');
+    expect(entry).toContain('var t = require("./1.js").default');
+    expect(entry).toContain('n = require("./2.js")');
+    expect(entry).toContain('module.exports = [t, n, require("./2.js"), require(99)]');
+    expect(codeOf(code, '2.js')).toContain('var _require = 2;\nmodule.exports = _require;');
+  });
+
+  it('should write Metro dev build modules at their source paths', () => {
+    const factory = 'function (global, _$$_REQUIRE, _$$_IMPORT_DEFAULT, _$$_IMPORT_ALL, module, exports, _dependencyMap)';
+    const code = [
+      `__d(${factory} { _$$_REQUIRE(_dependencyMap[0], "./src/App").run(); }, 0, [1], "index.js");`,
+      `__d(${factory} { exports.run = () => _$$_REQUIRE(_dependencyMap[0], "react-native"); }, 1, [2], "src/App.tsx");`,
+      `__d(${factory} { module.exports = {}; }, 2, [], "node_modules/react-native/index.js");`,
+      '__r(0);',
+    ].join('\n');
+    const result = unpack(code);
+
+    expect(result.bundle?.modules.map(module => module.path)).toEqual([
+      'index.js',
+      'src/App.js',
+      'node_modules/react-native/index.js',
+    ]);
+    expect(codeOf(code, 'index.js')).toContain('require("./src/App.js").run()');
+    expect(codeOf(code, 'src/App.js')).toContain('require("../node_modules/react-native/index.js")');
+  });
+
+  it('should leave code that is not a bundle alone', () => {
+    expect(unpack('function x(){return 1}console.log(x())')).toEqual({ warnings: [] });
+    expect(new BundleUnpacker().detect('define("a",[],function(){return 1});')).toBeUndefined();
+  });
+});
+
+describe('WebcrackTransformer bundle detection', () => {
+  it('should report the detected format and keep its modules when asked to', async () => {
+    const kept = await new WebcrackTransformer({ keepModules: true }).execute(input(AMD));
+    const detected = await new WebcrackTransformer().execute(input(AMD));
+
+    expect(kept.warnings).toContain('Detected amd bundle: 2 define() calls (2 modules)');
+    expect(kept.metadata.bundle?.modules.map(module => module.path)).toEqual(['util/math.js', 'app.js']);
+    expect(detected.warnings).toContain('Detected amd bundle: 2 define() calls');
+    expect(detected.metadata.bundle).toBeUndefined();
+  });
+});
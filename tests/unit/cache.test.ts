@@ -3,7 +3,12 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { MemoryCache } from '../../src/utils/cache.js';
+import { MemoryCache, CacheManager } from '../../src/utils/cache.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { LLMRequest, LLMResponse, ProcessingInput, ProcessedFile } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { rm } from 'fs/promises';
@@ -348,4 +353,119 @@ describe('MemoryCache', () => {
       expect(finalSize).toBeLessThan(50000); // Reasonable upper bound
     });
   });
-});
\ No newline at end of file
+});
+class CountingProvider extends BaseLLMProvider {
+  public readonly name = 'counting';
+  public readonly models = ['model-a', 'model-b'];
+  public readonly maxTokens = 4000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = true;
+  public calls = 0;
+
+  constructor(model = 'model-a', temperature = 0.1, baseUrl?: string) {
+    super({ ...defaultConfig.provider, model, temperature, apiKey: 'test', baseUrl });
+  }
+
+  async processCode(_request: LLMRequest): Promise<LLMResponse> {
+    this.calls++;
+    return {
+      suggestions: [{ originalName: 'a', suggestedName: 'count', confidence: 0.9, type: 'variable' }],
+      confidence: 0.9,
+      tokensUsed: 120,
+      processingTime: 5,
+    };
+  }
+}
+
+describe('LLM response caching', () => {
+  const input = (code: string): ProcessingInput => ({
+    code,
+    metadata: {
+      fileName: 'app.js',
+      fileSize: code.length,
+      statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 1, complexityScore: 0, tokensCount: 0 },
+    },
+    config: defaultConfig as any,
+  });
+  const newCache = () => new CacheManager({ ...defaultConfig.processing.caching, backend: 'memory' });
+
+  it('should answer repeated code from the cache and report saved tokens', async () => {
+    const cache = newCache();
+    const provider = new CountingProvider();
+    const llm = new LLMTransformer(provider, { cache });
+
+    const first = await llm.execute(input('var a = 1;\na++;'));
+    const second = await llm.execute(input('var a = 1;   \r\na++;\n'));
+
+    expect(provider.calls).toBe(1);
+    expect(second.code).toBe(first.code);
+    expect(first.metadata.cache).toEqual({ hits: 0, misses: 1, tokensSaved: 0 });
+    expect(first.metadata.statistics.tokensCount).toBe(120);
+    expect(second.metadata.cache).toEqual({ hits: 1, misses: 0, tokensSaved: 120 });
+    expect(second.metadata.statistics.tokensCount).toBe(0);
+  });
+
+  it('should key responses by model and temperature', async () => {
+    const cache = newCache();
+    const providers = [new CountingProvider('model-a'), new CountingProvider('model-b'), new CountingProvider('model-a', 0.7)];
+
+    for (const provider of providers) {
+      await new LLMTransformer(provider, { cache }).execute(input('var a = 1;'));
+    }
+
+    expect(providers.map(provider => provider.calls)).toEqual([1, 1, 1]);
+  });
+
+  it('should key responses by the server they came from', async () => {
+    const cache = newCache();
+    const providers = [
+      new CountingProvider('model-a', 0.1, 'http://gpu-1:8080'),
+      new CountingProvider('model-a', 0.1, 'http://gpu-1:8080/'),
+      new CountingProvider('model-a', 0.1, 'http://gpu-2:8080'),
+    ];
+
+    for (const provider of providers) {
+      await new LLMTransformer(provider, { cache }).execute(input('var a = 1;'));
+    }
+
+    expect(providers.map(provider => provider.calls)).toEqual([1, 0, 1]);
+  });
+
+  it('should only request uncached chunks', async () => {
+    const cache = newCache();
+    const provider = new CountingProvider();
+    const options = { cache, chunkSizeUnit: 'chars' as const, chunkSize: 120, chunkingStrategy: 'simple' as const, overlapRatio: 0 };
+    const shared = Array.from({ length: 6 }, (_, i) => `function f${i}(a) { return a + ${i}; }`).join('\n');
+
+    await new LLMTransformer(provider, options).execute(input(shared));
+    const firstCalls = provider.calls;
+    const result = await new LLMTransformer(provider, options).execute(input(`${shared}\nfunction extra(a) { return a * 2; }`));
+
+    expect(firstCalls).toBeGreaterThan(1);
+    expect(result.metadata.cache!.hits).toBeGreaterThan(0);
+    expect(provider.calls - firstCalls).toBe(result.metadata.cache!.misses);
+    expect(result.metadata.cache!.misses).toBeLessThan(firstCalls);
+  });
+
+  it('should not cache without a cache manager', async () => {
+    const provider = new CountingProvider();
+    const llm = new LLMTransformer(provider);
+
+    await llm.execute(input('var a = 1;'));
+    const result = await llm.execute(input('var a = 1;'));
+
+    expect(provider.calls).toBe(2);
+    expect(result.metadata.cache).toBeUndefined();
+  });
+
+  it('should add up cache usage across files', () => {
+    const file = (cache?: ProcessedFile['cache']) => ({ cache } as ProcessedFile);
+
+    expect(MainProcessor.sumCacheStatistics([
+      file({ hits: 2, misses: 1, tokensSaved: 300 }),
+      file(),
+      file({ hits: 1, misses: 0, tokensSaved: 50 }),
+    ])).toEqual({ hits: 3, misses: 1, tokensSaved: 350 });
+    expect(MainProcessor.sumCacheStatistics([file()])).toBeUndefined();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for code chunking strategies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { CodeChunker } from '../../src/transformers/chunking.js';
+
+function makeFunction(name: string, calls: string[] = [], padding = 10): string {
+  const body = calls.map(call => `  ${call}();`).join('\n');
+  const filler = Array.from({ length: padding }, (_, i) => `  var v${i} = ${i};`).join('\n');
+  return `function ${name}() {\n${filler}\n${body}\n}`;
+}
+
+describe('CodeChunker', () => {
+  describe('simple strategy', () => {
+    it('should split by size with overlap', () => {
+      const code = Array.from({ length: 50 }, (_, i) => `var x${i} = ${i};`).join('\n');
+      const chunker = new CodeChunker({ strategy: 'simple', maxChunkSize: 200, overlapPercentage: 0.2 });
+      const { chunks, strategy } = chunker.split(code);
+
+      expect(strategy).toBe('simple');
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(chunk.code.length).toBeLessThanOrEqual(200));
+      expect(chunks[1]!.code.startsWith(chunks[0]!.code.slice(-40))).toBe(true);
+      expect(chunks.map(chunk => chunk.code).join('').length).toBeGreaterThan(code.length);
+    });
+
+    it('should fall back to simple chunking for unparseable code', () => {
+      const code = 'function (' + 'x'.repeat(500);
+      const result = new CodeChunker({ strategy: 'ast-aware', maxChunkSize: 200 }).split(code);
+
+      expect(result.strategy).toBe('simple');
+      expect(result.analyzed).toBe(false);
+      expect(result.warnings[0]).toContain('simple chunking');
+    });
+  });
+
+  describe('ast-aware strategy', () => {
+    it('should never split a top-level function', () => {
+      const code = ['a', 'b', 'c', 'd'].map(name => makeFunction(name)).join('\n\n');
+      const chunker = new CodeChunker({ strategy: 'ast-aware', maxChunkSize: 400, overlapPercentage: 0 });
+      const { chunks } = chunker.split(code);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        const opens = (chunk.code.match(/{/g) ?? []).length;
+        const closes = (chunk.code.match(/}/g) ?? []).length;
+        expect(opens).toBe(closes);
+      }
+    });
+
+    it('should carry whole statements over as overlap', () => {
+      const code = Array.from({ length: 20 }, (_, i) => `var item${i} = compute(${i});`).join('\n');
+      const { chunks } = new CodeChunker({ strategy: 'ast-aware', maxChunkSize: 200, overlapPercentage: 0.2 }).split(code);
+
+      const lastOfFirst = chunks[0]!.code.split('\n').pop()!;
+      expect(chunks[1]!.code.split('\n')).toContain(lastOfFirst);
+    });
+
+    it('should descend into oversized IIFEs', () => {
+      const inner = ['a', 'b', 'c'].map(name => makeFunction(name)).join('\n');
+      const code = `(function () {\n${inner}\n})();`;
+      const { chunks } = new CodeChunker({ strategy: 'ast-aware', maxChunkSize: 250, overlapPercentage: 0 }).split(code);
+
+      expect(chunks.length).toBe(3);
+      expect(chunks[1]!.code.startsWith('function b()')).toBe(true);
+    });
+
+    it('should map chunk lines back to original lines', () => {
+      const code = ['a', 'b', 'c'].map(name => makeFunction(name)).join('\n');
+      const chunker = new CodeChunker({ strategy: 'ast-aware', maxChunkSize: 300, overlapPercentage: 0 });
+      const { chunks } = chunker.split(code);
+      const originalLines = code.split('\n');
+
+      for (const chunk of chunks) {
+        chunk.code.split('\n').forEach((line, i) => {
+          expect(originalLines[chunker.toOriginalLine(chunk, i + 1) - 1]).toBe(line);
+        });
+      }
+    });
+
+    it('should keep oversized leaf statements whole when respecting function boundaries', () => {
+      const code = `var big = "${'x'.repeat(500)}";`;
+      const respecting = new CodeChunker({ maxChunkSize: 200, respectFunctionBoundaries: true }).split(code);
+      const splitting = new CodeChunker({ maxChunkSize: 200, respectFunctionBoundaries: false }).split(code);
+
+      expect(respecting.chunks).toHaveLength(1);
+      expect(respecting.warnings[0]).toContain('exceeds maxChunkSize');
+      expect(splitting.chunks.length).toBeGreaterThan(1);
+    });
+
+    it('should list declared and referenced bindings per chunk', () => {
+      const code = `${makeFunction('helper', [], 8)}\n${makeFunction('main', ['helper'], 8)}`;
+      const { chunks } = new CodeChunker({ maxChunkSize: 200, overlapPercentage: 0 }).split(code);
+      const mainChunk = chunks.find(chunk => chunk.declared.includes('main'))!;
+
+      expect(mainChunk.declared).not.toContain('helper');
+      expect(mainChunk.referenced).toContain('helper');
+    });
+  });
+
+  describe('semantic strategy', () => {
+    it('should group functions that call each other', () => {
+      const code = [
+        makeFunction('parse', ['tokenize'], 3),
+        makeFunction('render', ['paint'], 3),
+        makeFunction('tokenize', [], 3),
+        makeFunction('paint', [], 3),
+      ].join('\n');
+      const { chunks } = new CodeChunker({ strategy: 'semantic', maxChunkSize: 250 }).split(code);
+
+      const chunkOf = (name: string) => chunks.findIndex(chunk => chunk.declared.includes(name));
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunkOf('parse')).toBe(chunkOf('tokenize'));
+      expect(chunkOf('render')).toBe(chunkOf('paint'));
+      expect(chunkOf('parse')).not.toBe(chunkOf('render'));
+    });
+  });
+});
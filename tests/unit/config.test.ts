@@ -53,6 +53,12 @@ describe('ConfigLoader', () => {
       const options = { concurrency: 25 };
       expect(() => configLoader.validateCliOverride(options)).toThrow(InvalidConfigError);
     });
+
+    it('should map --max-cost to the processing budget', () => {
+      expect(configLoader.validateCliOverride({ concurrency: 2, maxCost: 1.5 }).processing)
+        .toEqual({ concurrency: 2, budget: 1.5 });
+      expect(() => configLoader.validateCliOverride({ maxCost: 0 })).toThrow(InvalidConfigError);
+    });
   });
 
   describe('validateConfigWithFeedback', () => {
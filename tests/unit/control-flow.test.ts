@@ -0,0 +1,95 @@
+/**
+ * Tests for undoing control flow flattening in the Babel step
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BabelTransformer } from '../../src/transformers/babel.js';
+import { ProcessingInput } from '../../src/types.js';
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'obfuscated.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 1, variablesCount: 0, complexityScore: 0, tokensCount: 0 },
+  },
+  config: {} as any,
+});
+
+const unflatten = (code: string) => new BabelTransformer({ flipComparisons: false }).execute(input(code));
+
+describe('BabelTransformer control flow unflattening', () => {
+  it('should run the cases of an obfuscator.io dispatcher in their order', async () => {
+    const result = await unflatten([
+      'function total(a) {',
+      "  var _0x1 = '3|1|2|0'['split']('|'), _0x2 = 0x0;",
+      '  while (!![]) {',
+      '    switch (_0x1[_0x2++]) {',
+      "      case '0': return a + b;",
+      "      case '1': var b = 2; continue;",
+      "      case '2': for (var k = 0; k < 2; k++) { if (k) break; } continue;",
+      "      case '3': console.log('start'); continue;",
+      '    }',
+      '    break;',
+      '  }',
+      '}',
+    ].join('\n'));
+
+    expect(result.code).toBe([
+      'function total(a) {',
+      "  console.log('start');",
+      '  var b = 2;',
+      '  for (var k = 0; k < 2; k++) {',
+      '    if (k) break;',
+      '  }',
+      '  return a + b;',
+      '}',
+    ].join('\n'));
+    expect(result.warnings).toBeUndefined();
+  });
+
+  it('should follow array orders from their starting index', async () => {
+    const result = await unflatten([
+      'var order = [9, 2, 0, 1], i = 1;',
+      'for (;;) {',
+      '  switch (order[i++]) {',
+      '    case 0: second(); continue;',
+      '    case 1: third(); continue;',
+      '    case 2: first(); continue;',
+      '  }',
+      '  break;',
+      '}',
+      'after();',
+    ].join('\n'));
+
+    expect(result.code).toBe('first();\nsecond();\nthird();\nafter();');
+  });
+
+  it('should keep dispatchers it cannot follow and say why', async () => {
+    const dynamic = await unflatten([
+      'function run(steps) {',
+      "  var o = steps.split('|'), i = 0;",
+      "  while (true) { switch (o[i++]) { case '0': a(); continue; } break; }",
+      '}',
+    ].join('\n'));
+    const escaping = await unflatten([
+      "var o = '0|1'.split('|'), i = 0;",
+      "while (true) { switch (o[i++]) { case '0': if (done) break; a(); continue; case '1': b(); continue; } break; }",
+    ].join('\n'));
+
+    expect(dynamic.code).toContain('switch (o[i++])');
+    expect(dynamic.warnings).toEqual([
+      'Kept the control flow dispatcher at line 3: its order o is not a constant string or array declared before the loop',
+    ]);
+    expect(escaping.code).toContain('switch (o[i++])');
+    expect(escaping.warnings).toEqual(['Kept the control flow dispatcher at line 2: case 0 jumps out of the dispatcher']);
+  });
+
+  it('should leave dispatchers alone when turned off', async () => {
+    const code = "var o = '0'.split('|'), i = 0;\nwhile (true) { switch (o[i++]) { case '0': a(); continue; } break; }";
+    const result = await new BabelTransformer({ unflattenControlFlow: false }).execute(input(code));
+
+    expect(result.code).toContain('switch (o[i++])');
+    expect(result.warnings).toBeUndefined();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for dry-run previews: unified diffs, rename tables and the processor's dry-run mode
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { createUnifiedDiff } from '../../src/utils/diff.js';
+import { formatRenameTable, formatFilePreview } from '../../src/utils/preview.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { ProcessingPipeline } from '../../src/core/pipeline.js';
+import { ProcessingInput, ProcessingOutput, ProcessingStep, RenameRecord } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+
+const rename = (originalName: string, newName: string, confidence: number, extra: Partial<RenameRecord> = {}): RenameRecord => ({
+  originalName, newName, line: 1, functionPath: '', confidence, source: 'llm', ...extra,
+});
+
+describe('createUnifiedDiff', () => {
+  it('should produce hunks with context like diff -u', () => {
+    const before = 'a\nb\nc\nd\ne\nf\ng\nh\ni\nj\nk\n';
+    const after = 'a\nb\nX\nd\ne\nf\ng\nh\ni\nj\nk\nl\n';
+
+    expect(createUnifiedDiff(before, after, { fromFile: 'in.js', toFile: 'out.js' })).toBe([
+      '--- in.js',
+      '+++ out.js',
+      '@@ -1,6 +1,6 @@',
+      ' a', ' b', '-c', '+X', ' d', ' e', ' f',
+      '@@ -9,3 +9,4 @@',
+      ' i', ' j', ' k', '+l',
+      '',
+    ].join('\n'));
+  });
+
+  it('should merge nearby changes into one hunk', () => {
+    const diff = createUnifiedDiff('a\nb\nc\nd\n', 'A\nb\nc\nD\n', { context: 1 });
+
+    expect(diff.match(/^@@/gm)).toHaveLength(1);
+    expect(diff).toContain('@@ -1,4 +1,4 @@');
+  });
+
+  it('should mark a missing trailing newline', () => {
+    expect(createUnifiedDiff('var a=1;', 'var a = 1;\n')).toContain('-var a=1;\n\\ No newline at end of file\n+var a = 1;');
+  });
+
+  it('should return an empty string for identical input', () => {
+    expect(createUnifiedDiff('same\n', 'same\n')).toBe('');
+  });
+
+  it('should handle added and removed files', () => {
+    expect(createUnifiedDiff('', 'a\nb\n')).toContain('@@ -0,0 +1,2 @@\n+a\n+b');
+    expect(createUnifiedDiff('a\n', '')).toContain('@@ -1 +0,0 @@\n-a');
+  });
+});
+
+describe('formatRenameTable', () => {
+  it('should list renames by confidence with aligned columns', () => {
+    const table = formatRenameTable([
+      rename('b', 'right', 0.6, { occurrences: 2 }),
+      rename('a', 'accumulator', 0.95, { occurrences: 4, reasoning: 'Summed\n  in the loop' }),
+      rename('f', 'add', 1, { source: 'sourcemap' }),
+    ]).split('\n');
+
+    expect(table[0]).toMatch(/^Original\s+Suggested\s+Confidence\s+Occurrences\s+Source\s+Reasoning$/);
+    expect(table.slice(2).map(row => row.split(/\s{2,}/))).toEqual([
+      ['f', 'add', '100%', '-', 'sourcemap', '-'],
+      ['a', 'accumulator', '95%', '4', 'llm', 'Summed in the loop'],
+      ['b', 'right', '60%', '2', 'llm', '-'],
+    ]);
+    expect(table[2]!.indexOf('add')).toBe(table[3]!.indexOf('accumulator'));
+  });
+});
+
+class RenameStep implements ProcessingStep {
+  name = 'rename';
+  description = 'renames a to total';
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    return {
+      code: input.code.replace(/\ba\b/g, 'total'),
+      metadata: { ...input.metadata, renames: [rename('a', 'total', 0.9, { occurrences: 2, reasoning: 'Holds the sum' })] },
+      success: true,
+    };
+  }
+}
+
+describe('MainProcessor dry run', () => {
+  let baseDir: string | undefined;
+
+  afterEach(async () => {
+    if (baseDir) await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should return a preview and write nothing', async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-dry-run-'));
+    const inputPath = join(baseDir, 'app.min.js');
+    await writeFile(inputPath, 'var a=1;a++;\n');
+
+    const processor = new MainProcessor(defaultConfig, { dryRun: true });
+    const pipeline = new ProcessingPipeline();
+    pipeline.addStep(new RenameStep());
+    (processor as any).createPipeline = async () => pipeline;
+
+    const result = await processor.processFile(inputPath);
+
+    expect(result.success).toBe(true);
+    expect(result.outputPath).toBe(join(baseDir, 'app.min.readable.js'));
+    expect(result.preview).toMatchObject({ originalCode: 'var a=1;a++;\n', code: 'var total=1;total++;\n' });
+    expect(await readdir(baseDir)).toEqual(['app.min.js']);
+
+    const preview = formatFilePreview(result, baseDir);
+    expect(preview).toContain('=== app.min.js → app.min.readable.js');
+    expect(preview).toMatch(/a\s+total\s+90%\s+2\s+llm\s+Holds the sum/);
+    expect(preview).toContain('--- app.min.js\n+++ app.min.readable.js\n@@ -1 +1 @@\n-var a=1;a++;\n+var total=1;total++;');
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for pre-flight estimates of chunks, tokens, time and cost
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { estimateMinutes } from '../../src/core/estimate.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { OpenAIProvider } from '../../src/providers/openai.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { CacheManager } from '../../src/utils/cache.js';
+import { LLMRequest, LLMResponse, ProcessingInput, ReScriptConfig } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+
+const functions = (count: number): string =>
+  Array.from({ length: count }, (_, index) => `function f${index}(a, b) {\n  return a * ${index} + b;\n}`).join('\n');
+
+class CountingProvider extends BaseLLMProvider {
+  public readonly name = 'counting';
+  public readonly models = ['model-a'];
+  public readonly maxTokens = 200000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = false;
+  public readonly requests: LLMRequest[] = [];
+
+  constructor() {
+    super({ ...defaultConfig.provider, model: 'model-a', apiKey: 'test' });
+  }
+
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    return {
+      suggestions: [{ originalName: 'a', suggestedName: 'value', confidence: 0.9, type: 'parameter' }],
+      confidence: 0.9,
+      tokensUsed: 100,
+      processingTime: 1,
+    };
+  }
+}
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'app.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 0, complexityScore: 0, tokensCount: 0 },
+  },
+  config: defaultConfig as any,
+});
+
+describe('estimateMinutes', () => {
+  const requests = Array.from({ length: 10 }, () => ({ promptTokens: 900, completionTokens: 100 }));
+
+  it('should be bound by the slowest of the request, token and generation limits', () => {
+    expect(estimateMinutes(requests, { requestsPerMinute: 5 }, 3)).toBeCloseTo(2);
+    expect(estimateMinutes(requests, { requestsPerMinute: 5, tokensPerMinute: 2000 }, 3)).toBeCloseTo(5);
+    // 10 requests of 1s overhead plus 10s generation, 2 at a time
+    expect(estimateMinutes(requests, { outputTokensPerSecond: 10 }, 2)).toBeCloseTo(110 / 2 / 60);
+  });
+
+  it('should treat missing limits as unbounded', () => {
+    expect(estimateMinutes(requests, {}, 3)).toBe(0);
+    expect(estimateMinutes([], { requestsPerMinute: 1 }, 3)).toBe(0);
+  });
+});
+
+describe('LLMTransformer.plan', () => {
+  it('should plan the requests execute sends, marking cached ones', async () => {
+    const provider = new CountingProvider();
+    const cache = new CacheManager({ ...defaultConfig.processing.caching, backend: 'memory' });
+    const options = { cache, chunkSizeUnit: 'chars' as const, chunkSize: 400, chunkingStrategy: 'simple' as const, overlapRatio: 0 };
+    const code = functions(30);
+
+    const planned = await new LLMTransformer(provider, options).plan(input(code));
+    expect(provider.requests).toHaveLength(0);
+    expect(planned.length).toBeGreaterThan(1);
+    expect(planned.every(({ cached }) => !cached)).toBe(true);
+
+    await new LLMTransformer(provider, options).execute(input(code));
+    expect(provider.requests.map(request => request.code)).toEqual(planned.map(({ request }) => request.code));
+
+    const replanned = await new LLMTransformer(provider, options).plan(input(code));
+    expect(replanned.every(({ cached }) => cached)).toBe(true);
+  });
+});
+
+describe('MainProcessor.estimateFiles', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should project tokens, cost and time per file without an API key', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-estimate-'));
+    const file = join(dir, 'app.min.js');
+    await writeFile(file, functions(20));
+
+    const config = {
+      ...defaultConfig,
+      provider: { ...defaultConfig.provider, name: 'openai', model: 'gpt-4o', apiKey: undefined },
+      processing: { ...defaultConfig.processing, caching: { ...defaultConfig.processing.caching, enabled: false } },
+    } as ReScriptConfig;
+
+    const estimate = await new MainProcessor(config).estimateFiles([file, join(dir, 'missing.js')]);
+    const [found, missing] = estimate.files;
+    const provider = new OpenAIProvider({ ...config.provider, apiKey: 'test' });
+
+    expect(found).toMatchObject({ success: true, chunks: 1, requests: 1 });
+    expect(found!.promptTokens).toBeGreaterThan(provider.getTokenBudget().promptTokens);
+    expect(found!.completionTokens).toBe(Math.ceil(found!.promptTokens * 0.25));
+    expect(found!.cost).toBeCloseTo(provider.getCost(found!.promptTokens, found!.completionTokens));
+    expect(found!.minutes).toBeGreaterThan(0);
+    expect(missing).toMatchObject({ success: false, chunks: 0, cost: 0 });
+
+    expect(estimate).toMatchObject({ provider: 'openai', model: 'gpt-4o', rateLimits: provider.getRateLimits() });
+    expect(estimate.totals).toMatchObject({ chunks: 1, requests: 1, promptTokens: found!.promptTokens, cost: found!.cost });
+    expect(Object.keys(estimate.comparison)).toEqual(['anthropic', 'openai']);
+  });
+});
+
+describe('Rate limits', () => {
+  it('should override the provider defaults with configured limits', () => {
+    const provider = new OpenAIProvider({
+      ...defaultConfig.provider, name: 'openai', model: 'gpt-4o', apiKey: 'test', rateLimits: { tokensPerMinute: 2000000 },
+    });
+
+    expect(provider.getRateLimits()).toEqual({ requestsPerMinute: 500, tokensPerMinute: 2000000, outputTokensPerSecond: 80 });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * Tests for persisted, resumable processing jobs
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { JobStore } from '../../src/core/jobs.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { ProcessingPipeline } from '../../src/core/pipeline.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { JobNotFoundError, JobNotResumableError } from '../../src/utils/errors.js';
+import { LLMRequest, LLMResponse, ProcessingInput, ProcessingOutput, ProcessingStep } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+
+class UppercaseStep implements ProcessingStep {
+  name = 'uppercase';
+  description = 'uppercases code, failing for inputs containing "fail"';
+  public seen: string[] = [];
+  public failing = true;
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    this.seen.push(input.metadata.fileName!);
+    if (this.failing && input.code.includes('fail')) {
+      throw new Error('step exploded');
+    }
+    return { code: input.code.toUpperCase(), metadata: input.metadata, success: true };
+  }
+}
+
+class CountingProvider extends BaseLLMProvider {
+  public readonly name = 'counting';
+  public readonly models = ['model-a'];
+  public readonly maxTokens = 4000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = true;
+  public calls = 0;
+
+  constructor() {
+    super({ ...defaultConfig.provider, model: 'model-a', apiKey: 'test' });
+  }
+
+  async processCode(_request: LLMRequest): Promise<LLMResponse> {
+    this.calls++;
+    return { suggestions: [], confidence: 0.9, tokensUsed: 50, processingTime: 1 };
+  }
+}
+
+describe('JobStore', () => {
+  let baseDir: string;
+  let store: JobStore;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-jobs-'));
+    store = new JobStore(join(baseDir, 'jobs'));
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should persist jobs without API keys', async () => {
+    const config = { ...defaultConfig, provider: { ...defaultConfig.provider, apiKey: 'sk-secret' } };
+    const job = await store.create([{ inputPath: '/src/a.js', outputPath: '/out/a.js' }], config, { overwrite: true });
+
+    const loaded = await store.get(job.id);
+    const raw = await readFile(join(baseDir, 'jobs', `${job.id}.json`), 'utf8');
+
+    expect(job.id).toMatch(/^job_[a-z0-9]+$/);
+    expect(loaded.status).toBe('pending');
+    expect(loaded.files).toEqual([{ inputPath: '/src/a.js', outputPath: '/out/a.js', status: 'pending' }]);
+    expect(loaded.input.options.overwrite).toBe(true);
+    expect(loaded.createdAt).toBeInstanceOf(Date);
+    expect(raw).not.toContain('sk-secret');
+    expect(job.config.provider.apiKey).toBe('sk-secret');
+  });
+
+  it('should list jobs newest first and filter by status', async () => {
+    const first = await store.create([], defaultConfig);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    const second = await store.create([], defaultConfig);
+    second.status = 'failed';
+    await store.save(second);
+
+    expect((await store.list()).map(job => job.id)).toEqual([second.id, first.id]);
+    expect((await store.list('failed')).map(job => job.id)).toEqual([second.id]);
+  });
+
+  it('should throw JobNotFoundError for unknown or malformed ids', async () => {
+    await expect(store.get('job_missing')).rejects.toBeInstanceOf(JobNotFoundError);
+    await expect(store.get('../../etc/passwd')).rejects.toBeInstanceOf(JobNotFoundError);
+  });
+
+  it('should delete jobs with their checkpoints', async () => {
+    const job = await store.create([], defaultConfig);
+    await store.checkpoints(job.id).save('key', { suggestions: [], confidence: 1, tokensUsed: 1, processingTime: 0 });
+
+    await store.delete(job.id);
+
+    await expect(store.get(job.id)).rejects.toBeInstanceOf(JobNotFoundError);
+    expect(await store.countCheckpoints(job.id)).toBe(0);
+  });
+
+  it('should treat running jobs of dead processes as inactive', async () => {
+    const job = await store.create([], defaultConfig);
+    job.status = 'running';
+
+    job.pid = process.pid;
+    expect(store.isActive(job)).toBe(true);
+
+    job.pid = 2 ** 22 + 1; // above Linux's pid_max
+    expect(store.isActive(job)).toBe(false);
+  });
+});
+
+describe('MainProcessor.runJob', () => {
+  let baseDir: string;
+  let store: JobStore;
+  let step: UppercaseStep;
+  let processor: MainProcessor;
+
+  const createJob = async (names: string[]) => {
+    const files = [];
+    for (const name of names) {
+      const inputPath = join(baseDir, name);
+      await writeFile(inputPath, `var ${name.replace('.js', '')};`);
+      files.push({ inputPath, outputPath: join(baseDir, 'out', name) });
+    }
+    return store.create(files, defaultConfig);
+  };
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-run-job-'));
+    store = new JobStore(join(baseDir, 'jobs'));
+    step = new UppercaseStep();
+    processor = new MainProcessor(defaultConfig);
+    (processor as any).createPipeline = async () => {
+      const pipeline = new ProcessingPipeline();
+      pipeline.addStep(step);
+      return pipeline;
+    };
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should record per-file results and resume only unfinished files', async () => {
+    const job = await createJob(['one.js', 'fail.js', 'two.js']);
+
+    const first = await processor.runJob(job, store);
+    const stored = await store.get(job.id);
+
+    expect(first).toMatchObject({ totalFiles: 3, successfulFiles: 2, failedFiles: 1 });
+    expect(stored.status).toBe('failed');
+    expect(stored.files!.map(file => file.status)).toEqual(['completed', 'failed', 'completed']);
+    expect(await readFile(join(baseDir, 'out', 'one.js'), 'utf8')).toBe('VAR ONE;');
+
+    const checkpoint: LLMResponse = { suggestions: [], confidence: 1, tokensUsed: 1, processingTime: 0 };
+    await store.checkpoints(job.id).save('key', checkpoint);
+    step.seen = [];
+    step.failing = false;
+    const second = await processor.runJob(stored, store);
+
+    expect(step.seen).toEqual([join(baseDir, 'fail.js')]);
+    expect(second).toMatchObject({ totalFiles: 3, successfulFiles: 3, failedFiles: 0 });
+    expect((await store.get(job.id)).status).toBe('completed');
+    expect((await store.get(job.id)).output?.summary.successfulFiles).toBe(3);
+    expect(await store.countCheckpoints(job.id)).toBe(0);
+  });
+
+  it('should claim jobs by their stored status', async () => {
+    const job = await createJob(['one.js']);
+    const stored = await store.get(job.id);
+    stored.status = 'running';
+    stored.pid = process.ppid;
+    await store.save(stored);
+
+    await expect(processor.runJob(job, store)).rejects.toThrow(`it is running in process ${process.ppid}`);
+
+    stored.status = 'cancelled';
+    await store.save(stored);
+
+    await expect(processor.runJob(job, store)).rejects.toBeInstanceOf(JobNotResumableError);
+    expect(step.seen).toEqual([]);
+
+    const summary = await processor.runJob(job, store, { resumeCancelled: true });
+
+    expect(summary).toMatchObject({ totalFiles: 1, successfulFiles: 1 });
+    expect((await store.get(job.id)).status).toBe('completed');
+  });
+
+  it('should not start files once the job is cancelled elsewhere', async () => {
+    await processor.updateConfig({ ...defaultConfig, processing: { ...defaultConfig.processing, concurrency: 1 } });
+    const job = await createJob(['one.js', 'two.js', 'three.js']);
+
+    // Cancel from "another process" while the first file is being processed
+    const execute = step.execute.bind(step);
+    step.execute = async input => {
+      if (step.seen.length === 0) {
+        const stored = await store.get(job.id);
+        stored.status = 'cancelled';
+        await store.save(stored);
+      }
+      return execute(input);
+    };
+
+    const summary = await processor.runJob(job, store);
+    const stored = await store.get(job.id);
+
+    expect(step.seen).toEqual([join(baseDir, 'one.js')]);
+    expect(summary).toMatchObject({ totalFiles: 3, successfulFiles: 1 });
+    expect(stored.status).toBe('cancelled');
+    expect(stored.files!.map(file => file.status)).toEqual(['completed', 'pending', 'pending']);
+  });
+});
+
+describe('LLM chunk checkpoints', () => {
+  let baseDir: string;
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should reuse checkpointed chunk responses without a cache', async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-checkpoints-'));
+    const store = new JobStore(baseDir);
+    const provider = new CountingProvider();
+    const input: ProcessingInput = {
+      code: 'var a = 1;',
+      metadata: {
+        fileName: 'a.js',
+        fileSize: 10,
+        statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 1, complexityScore: 0, tokensCount: 0 },
+      },
+      config: defaultConfig as any,
+    };
+
+    await new LLMTransformer(provider, { checkpoints: store.checkpoints('job_a') }).execute(input);
+    const resumed = await new LLMTransformer(provider, { checkpoints: store.checkpoints('job_a') }).execute(input);
+    await new LLMTransformer(provider, { checkpoints: store.checkpoints('job_b') }).execute(input);
+
+    expect(provider.calls).toBe(2);
+    expect(resumed.metadata.cache).toEqual({ hits: 1, misses: 0, tokensSaved: 50 });
+    expect(await store.countCheckpoints('job_a')).toBe(1);
+  });
+});
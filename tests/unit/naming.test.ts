@@ -0,0 +1,168 @@
+/**
+ * Tests for naming unpacked bundle modules and rewriting their imports
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ImportRewriter, LLMNameSuggester, ModuleNamer } from '../../src/core/naming.js';
+import { ModuleSource } from '../../src/core/symbols.js';
+import { CostTracker } from '../../src/core/budget.js';
+
+const module = (id: string, code: string, path = `${id}.js`): ModuleSource => ({
+  id, path, code, isEntry: path === 'index.js',
+});
+
+const DATES = module('0', [
+  'export function formatDate(d) {',
+  '  return d.toISOString();',
+  '}',
+  'export function parseDate(s) {',
+  '  return new Date(s);',
+  '}',
+].join('\n'));
+
+const FORM = module('1', [
+  "var r = require('./0.js');",
+  "var helper = require('./2.js');",
+  'export function LoginForm() {',
+  "  return r.formatDate(helper.trim(r.parseDate('x')));",
+  '}',
+  "LoginForm.displayName = 'LoginForm';",
+].join('\n'));
+
+const TRIM = module('2', 'exports.trim = function (s) {\n  return s.trim();\n};\n');
+
+const CHECKOUT = module('3', "module.exports = function () {\n  throw new Error('checkout failed: checkout');\n};\n");
+
+const ENTRY = module('4', [
+  'const { LoginForm } = require("./1.js");',
+  'const fail = require("./3.js");',
+  'const React = require("react");',
+  'require("./2.js");',
+  'console.log(LoginForm, fail, React.createElement);',
+].join('\n'), 'index.js');
+
+const BUNDLE = [DATES, FORM, TRIM, CHECKOUT, ENTRY];
+
+describe('ModuleNamer', () => {
+  it('should name modules after their exports and strings, nesting those with one importer', async () => {
+    const layout = await new ModuleNamer().assign(BUNDLE);
+
+    expect(Object.fromEntries(layout.paths)).toEqual({
+      0: 'LoginForm/date.js',
+      1: 'LoginForm.js',
+      2: 'trim.js',
+      3: 'checkout.js',
+      4: 'index.js',
+    });
+    expect(Object.fromEntries(layout.origins)).toEqual({
+      0: 'exports',
+      1: 'display name',
+      2: 'exports',
+      3: 'strings',
+    });
+  });
+
+  it('should keep paths the bundle provided and tell clashing names apart', async () => {
+    const layout = await new ModuleNamer().assign([
+      module('0', 'export const trim = (s) => s.trim();\n'),
+      module('1', 'exports.trim = function (s) {\n  return s;\n};\n'),
+      module('2', 'export const trim = 1;\n', 'trim.js'),
+      module('3', "import './0.js';\nimport './1.js';\n", 'index.js'),
+    ]);
+
+    expect(Object.fromEntries(layout.paths)).toEqual({ 0: 'trim-0.js', 1: 'trim-1.js', 2: 'trim.js', 3: 'index.js' });
+  });
+
+  it('should ask the suggester about modules their exports do not name', async () => {
+    const asked: string[] = [];
+    const layout = await new ModuleNamer(async ({ source, strings }) => {
+      asked.push(source.id);
+      expect(strings).toEqual(['checkout failed: checkout']);
+      return 'checkoutError';
+    }).assign(BUNDLE);
+
+    expect(asked).toEqual(['3']);
+    expect(layout.paths.get('3')).toBe('checkoutError.js');
+    expect(layout.origins.get('3')).toBe('llm');
+  });
+});
+
+describe('ImportRewriter', () => {
+  it('should turn requires into imports of the renamed files', async () => {
+    const layout = await new ModuleNamer().assign(BUNDLE);
+    const code = new ImportRewriter().rewrite(BUNDLE, layout.paths);
+
+    expect(code.get('1')).toBe([
+      "import { formatDate, parseDate } from './LoginForm/date.js';",
+      "import { trim } from './trim.js';",
+      'export function LoginForm() {',
+      "  return formatDate(trim(parseDate('x')));",
+      '}',
+      "LoginForm.displayName = 'LoginForm';",
+    ].join('\n'));
+    expect(code.get('4')).toBe([
+      'import { LoginForm } from "./LoginForm.js";',
+      'import fail from "./checkout.js";',
+      'import React from "react";',
+      'import "./trim.js";',
+      'console.log(LoginForm, fail, React.createElement);',
+    ].join('\n'));
+  });
+
+  it('should only re-point the requires of CommonJS modules', () => {
+    const sources = [
+      module('0', 'exports.a = 1;\n'),
+      module('1', "var x = require('./0.js');\nmodule.exports = function () {\n  return require(0).a + x.a;\n};\n"),
+    ];
+    const code = new ImportRewriter().rewrite(sources, new Map([['0', 'lib/a.js'], ['1', 'lib/b.js']]));
+
+    expect(code.get('1')).toBe("var x = require('./a.js');\nmodule.exports = function () {\n  return require('./a.js').a + x.a;\n};\n");
+  });
+
+  it('should import the namespace when a property is not a known export', () => {
+    const sources = [
+      module('0', 'export const a = 1;\n'),
+      module('1', "var x = require('./0.js');\nvar a = 2;\nconsole.log(x.a, x.b, a);\n"),
+      module('2', "var y = require('./0.js');\nvar a = 2;\nconsole.log(y.a, a);\n"),
+      module('3', 'export default function () {}\n'),
+      module('4', "var z = require('./3.js').default;\nz();\n"),
+    ];
+    const code = new ImportRewriter().rewrite(sources, new Map());
+
+    expect(code.get('1')).toBe("import * as x from './0.js';\nvar a = 2;\nconsole.log(x.a, x.b, a);\n");
+    expect(code.get('2')).toBe("import { a as _a } from './0.js';\nvar a = 2;\nconsole.log(_a, a);\n");
+    expect(code.get('4')).toBe("import z from './3.js';\nz();\n");
+  });
+});
+
+describe('LLMNameSuggester', () => {
+  it('should take the name suggested for the placeholder and charge the run', async () => {
+    const requests: string[] = [];
+    const provider = {
+      getModel: () => 'test-model',
+      getResponseCost: () => 0.01,
+      processCode: async ({ code }: { code: string }) => {
+        requests.push(code);
+        return {
+          suggestions: [
+            { originalName: 'e', suggestedName: 'error', confidence: 0.9, reasoning: '' },
+            { originalName: '__moduleFileName__', suggestedName: 'checkoutErrors', confidence: 0.8, reasoning: '' },
+          ],
+          confidence: 0.8,
+          tokensUsed: 100,
+          processingTime: 1,
+        };
+      },
+    };
+    const costTracker = new CostTracker();
+    const suggester = new LLMNameSuggester(provider as any, costTracker);
+
+    const name = await suggester.suggest({ source: CHECKOUT, exports: [], strings: ['checkout failed'] });
+
+    expect(name).toBe('checkoutErrors');
+    expect(requests[0]).toContain('// Strings: "checkout failed"');
+    expect(requests[0]).toContain('var __moduleFileName__;');
+    expect(suggester.cost).toBe(0.01);
+    expect(costTracker.total).toBe(0.01);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for the OpenAI-compatible provider against a local server stand-in
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server } from 'http';
+import { AddressInfo } from 'net';
+import { OpenAICompatibleProvider } from '../../src/providers/openai-compatible.js';
+import { ProviderFactory } from '../../src/providers/factory.js';
+import { ProviderConfig } from '../../src/types.js';
+import { ReScriptError } from '../../src/utils/errors.js';
+
+interface RecordedRequest {
+  method: string;
+  url: string;
+  headers: IncomingMessage['headers'];
+  body: any;
+}
+
+type Handler = (request: RecordedRequest) => { status: number; body: unknown };
+
+const SUGGESTION = { originalName: 'a', suggestedName: 'total', confidence: 0.8, type: 'variable' };
+
+const contentReply = (content: string) => ({
+  status: 200,
+  body: { choices: [{ message: { role: 'assistant', content } }], usage: { prompt_tokens: 40, completion_tokens: 10 } },
+});
+
+describe('OpenAICompatibleProvider', () => {
+  let server: Server;
+  let requests: RecordedRequest[];
+  let handler: Handler;
+  let config: ProviderConfig;
+
+  beforeEach(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const request = { method: req.method!, url: req.url!, headers: req.headers, body: body ? JSON.parse(body) : undefined };
+        requests.push(request);
+        const response = handler(request);
+        res.writeHead(response.status, { 'content-type': 'application/json' });
+        res.end(typeof response.body === 'string' ? response.body : JSON.stringify(response.body));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+    config = {
+      name: 'openai-compatible',
+      model: 'qwen2.5-coder-32b-instruct-q4_k_m',
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`,
+      temperature: 0.3,
+      maxTokens: 4096,
+      timeout: 5000,
+    };
+  });
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should accept any model and call the suggest_renames tool without an API key', async () => {
+    handler = () => ({
+      status: 200,
+      body: {
+        choices: [{
+          message: { tool_calls: [{ type: 'function', function: { name: 'suggest_renames', arguments: JSON.stringify({ suggestions: [SUGGESTION] }) } }] },
+        }],
+        usage: { total_tokens: 77 },
+      },
+    });
+
+    const provider = new OpenAICompatibleProvider(config);
+    provider.updateConfig({ temperature: 0.1 });
+    const response = await provider.processCode({ code: 'var a = 1;', model: config.model });
+
+    expect(response.suggestions).toEqual([expect.objectContaining({ originalName: 'a', suggestedName: 'total' })]);
+    expect(response.tokensUsed).toBe(77);
+    expect(requests[0]!.url).toBe('/v1/chat/completions');
+    expect(requests[0]!.headers.authorization).toBeUndefined();
+    expect(requests[0]!.body.model).toBe(config.model);
+    expect(requests[0]!.body.tool_choice).toEqual({ type: 'function', function: { name: 'suggest_renames' } });
+  });
+
+  it('should fall back to schema-constrained JSON when tools are rejected and remember it', async () => {
+    handler = request => request.body.tools
+      ? { status: 400, body: { error: { message: 'tools param requires --jinja flag' } } }
+      : contentReply(JSON.stringify({ suggestions: [SUGGESTION] }));
+
+    const provider = new OpenAICompatibleProvider(config);
+    const response = await provider.processCode({ code: 'var a = 1;', model: config.model });
+    await provider.processCode({ code: 'var b = 2;', model: config.model });
+
+    expect(response.suggestions).toHaveLength(1);
+    expect(response.tokensUsed).toBe(50);
+    expect(provider.getOutputMode()).toBe('json_schema');
+    expect(requests).toHaveLength(3);
+    expect(requests[1]!.body.response_format).toMatchObject({ type: 'json_schema', json_schema: { name: 'suggest_renames' } });
+    expect(requests[1]!.body.messages[1].content).toContain('Respond with only a JSON object');
+    expect(requests[2]!.body.tools).toBeUndefined();
+  });
+
+  it('should step down to plain text when no structured output is supported', async () => {
+    handler = request => request.body.tools || request.body.response_format
+      ? { status: 501, body: 'Not Implemented' }
+      : contentReply('Here you go:\n```json\n{"suggestions": [{"originalName": "a", "suggestedName": "total"}]}\n```');
+
+    const provider = new OpenAICompatibleProvider(config);
+    const response = await provider.processCode({ code: 'var a = 1;', model: config.model });
+
+    expect(provider.getOutputMode()).toBe('text');
+    expect(response.suggestions[0]).toMatchObject({ originalName: 'a', suggestedName: 'total', confidence: 0.5 });
+    expect(requests.map(request => request.body.response_format?.type ?? (request.body.tools ? 'tools' : 'text')))
+      .toEqual(['tools', 'json_schema', 'json_object', 'text']);
+  });
+
+  it('should read JSON content when the server ignores the tool', async () => {
+    handler = () => contentReply(JSON.stringify({ suggestions: [SUGGESTION] }));
+
+    const provider = new OpenAICompatibleProvider(config);
+    const response = await provider.processCode({ code: 'var a = 1;', model: config.model });
+
+    expect(response.suggestions).toHaveLength(1);
+    expect(provider.getOutputMode()).toBe('tools');
+  });
+
+  it('should not fall back from an explicitly configured output mode', async () => {
+    handler = () => ({ status: 400, body: { error: { message: 'response_format is not supported' } } });
+
+    const provider = new OpenAICompatibleProvider({ ...config, outputMode: 'json_object', apiKey: 'local-token' });
+
+    await expect(provider.processCode({ code: 'var a;', model: config.model })).rejects.toThrow(/400/);
+    expect(requests).toHaveLength(1);
+    expect(requests[0]!.headers.authorization).toBe('Bearer local-token');
+  });
+
+  it('should discover models from /v1/models', async () => {
+    handler = () => ({ status: 200, body: { object: 'list', data: [{ id: 'llama-3.1-8b' }, { id: 'qwen2.5-coder' }] } });
+
+    const provider = new OpenAICompatibleProvider({ ...config, baseUrl: config.baseUrl!.replace(/\/v1$/, '/') });
+
+    expect(await provider.getAvailableModels()).toEqual(['llama-3.1-8b', 'qwen2.5-coder']);
+    expect(requests[0]).toMatchObject({ method: 'GET', url: '/v1/models' });
+  });
+
+  it('should require a base URL', () => {
+    expect(() => new OpenAICompatibleProvider({ ...config, baseUrl: undefined })).toThrow(ReScriptError);
+    expect(ProviderFactory.createProvider(config)).toBeInstanceOf(OpenAICompatibleProvider);
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for recovering original names from an input source map
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { GenMapping, addMapping, setSourceContent, toEncodedMap } from '@jridgewell/gen-mapping';
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { OriginalNamesTransformer } from '../../src/transformers/original-names.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { ProcessingPipeline } from '../../src/core/pipeline.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { LLMRequest, LLMResponse, ProcessingInput, RenameSuggestion } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+
+const originalSource = 'function add(left, right) {\n  return left + right;\n}\nvar total = add(1, 2);\n';
+const minified = 'function a(b,c){return b+c}var d=a(1,2),e=d;';
+
+/**
+ * Map for `minified` in which only some identifiers carry names
+ * (`e` was introduced by the minifier and has no original name)
+ */
+function createInputMap(): object {
+  const map = new GenMapping({ file: 'bundle.min.js' });
+  const source = '../src/math.js';
+  setSourceContent(map, source, originalSource);
+  const entries: [number, number, number, string?][] = [
+    [0, 1, 0],
+    [9, 1, 9, 'add'],
+    [11, 1, 13, 'left'],
+    [13, 1, 19, 'right'],
+    [16, 2, 2],
+    [23, 2, 9, 'left'],
+    [25, 2, 16, 'right'],
+    [27, 4, 0],
+    [31, 4, 4, 'total'],
+    [33, 4, 12, 'add'],
+  ];
+  for (const [column, line, originalColumn, name] of entries) {
+    addMapping(map, {
+      generated: { line: 1, column },
+      source,
+      original: { line, column: originalColumn },
+      name,
+    } as any);
+  }
+  return toEncodedMap(map);
+}
+
+function makeInput(code: string, fileName: string, generateSourceMaps = false): ProcessingInput {
+  return {
+    code,
+    metadata: {
+      fileName,
+      fileSize: code.length,
+      statistics: { linesOfCode: 1, functionsCount: 1, variablesCount: 2, complexityScore: 0, tokensCount: 10 },
+    },
+    config: { ...defaultConfig, output: { ...defaultConfig.output, generateSourceMaps } } as any,
+  };
+}
+
+class StubProvider extends BaseLLMProvider {
+  public readonly name = 'stub';
+  public readonly models = ['stub-model'];
+  public readonly maxTokens = 4000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = true;
+  public requests: LLMRequest[] = [];
+
+  constructor(private readonly suggestions: RenameSuggestion[]) {
+    super({ ...defaultConfig.provider, model: 'stub-model', apiKey: 'test' });
+  }
+
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    return { suggestions: this.suggestions, confidence: 0.9, tokensUsed: 10, processingTime: 1 };
+  }
+}
+
+describe('OriginalNamesTransformer', () => {
+  let baseDir: string;
+  const transformer = new OriginalNamesTransformer();
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-original-names-'));
+    await mkdir(join(baseDir, 'dist'));
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  it('should apply names from an adjacent map referenced by sourceMappingURL', async () => {
+    const fileName = join(baseDir, 'dist', 'bundle.min.js');
+    await writeFile(join(baseDir, 'dist', 'bundle.min.js.map'), JSON.stringify(createInputMap()));
+
+    const result = await transformer.execute(makeInput(`${minified}\n//# sourceMappingURL=bundle.min.js.map\n`, fileName));
+
+    expect(result.code).toContain('function add(left, right)');
+    expect(result.code).toContain('return left + right');
+    expect(result.code).toContain('var total = add(1, 2),');
+    expect(result.code).toContain('e = total');
+    expect(result.code).not.toContain('sourceMappingURL');
+    expect(result.metadata.inputSourceMap?.sources).toEqual([join(baseDir, 'src', 'math.js')]);
+    expect(result.metadata.renames?.map(r => `${r.originalName}→${r.newName}`).sort()).toEqual(['a→add', 'b→left', 'c→right', 'd→total']);
+    expect(result.metadata.renames?.every(r => r.confidence === 1 && r.source === 'sourcemap')).toBe(true);
+  });
+
+  it('should read inline data URL maps', async () => {
+    const encoded = Buffer.from(JSON.stringify(createInputMap())).toString('base64');
+    const code = `${minified}\n//# sourceMappingURL=data:application/json;charset=utf-8;base64,${encoded}`;
+
+    const result = await transformer.execute(makeInput(code, join(baseDir, 'dist', 'bundle.min.js')));
+
+    expect(result.code).toContain('function add(left, right)');
+    expect(result.code).not.toContain('sourceMappingURL');
+  });
+
+  it('should fall back to <file>.map next to the input', async () => {
+    const fileName = join(baseDir, 'dist', 'bundle.min.js');
+    await writeFile(`${fileName}.map`, JSON.stringify(createInputMap()));
+
+    const result = await transformer.execute(makeInput(minified, fileName));
+
+    expect(result.code).toContain('function add(left, right)');
+  });
+
+  it('should leave code untouched without a map', async () => {
+    const result = await transformer.execute(makeInput(minified, join(baseDir, 'dist', 'bundle.min.js')));
+
+    expect(result.code).toBe(minified);
+    expect(result.metadata.renames).toBeUndefined();
+  });
+
+  it('should warn and continue when the referenced map is unreadable', async () => {
+    const fileName = join(baseDir, 'dist', 'bundle.min.js');
+    await writeFile(join(baseDir, 'dist', 'broken.map'), '{ not json');
+
+    const result = await transformer.execute(makeInput(`${minified}\n//# sourceMappingURL=broken.map`, fileName));
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('function a(b,c)');
+    expect(result.warnings?.[0]).toContain('Input source map ignored');
+  });
+
+  it('should compose the output map with the input map', async () => {
+    const fileName = join(baseDir, 'dist', 'bundle.min.js');
+    await writeFile(`${fileName}.map`, JSON.stringify(createInputMap()));
+    const pipeline = new ProcessingPipeline();
+    pipeline.addStep(transformer);
+
+    const result = await pipeline.execute(makeInput(minified, fileName, true));
+    const map = result.metadata.sourceMap!;
+    const tracer = new TraceMap(map as any);
+
+    expect(map.sources).toEqual([join(baseDir, 'src', 'math.js')]);
+    expect(map.sourcesContent).toEqual([originalSource]);
+    expect(originalPositionFor(tracer, { line: 1, column: result.code.indexOf('left +') }))
+      .toMatchObject({ line: 2, column: 9, name: 'left' });
+    expect(originalPositionFor(tracer, { line: 1, column: result.code.indexOf('total') }))
+      .toMatchObject({ line: 4, column: 4, name: 'total' });
+  });
+});
+
+describe('LLMTransformer with recovered names', () => {
+  const withRenames = (code: string, names: string[]): ProcessingInput => {
+    const input = makeInput(code, 'bundle.js');
+    input.metadata.renames = names.map(name => ({
+      originalName: name, newName: name, line: 1, functionPath: '', confidence: 1, source: 'sourcemap' as const,
+    }));
+    return input;
+  };
+
+  it('should pass known names to the provider and ignore suggestions for them', async () => {
+    const provider = new StubProvider([
+      { originalName: 'add', suggestedName: 'sum', confidence: 0.9, type: 'function' },
+      { originalName: 'e', suggestedName: 'result', confidence: 0.9, type: 'variable' },
+    ]);
+    const llm = new LLMTransformer(provider);
+
+    const result = await llm.execute(withRenames('function add(left){return left}var e=add(1);', ['add', 'left']));
+
+    expect(provider.requests[0]!.knownNames).toEqual(['add', 'left']);
+    expect(result.code).toContain('function add(left)');
+    expect(result.code).toContain('var result = add(1)');
+    expect(result.metadata.renames?.filter(r => r.source === 'llm')).toMatchObject([
+      { originalName: 'e', newName: 'result', confidence: 0.9, occurrences: 1 },
+    ]);
+  });
+
+  it('should only send the code that is left to name', async () => {
+    const provider = new StubProvider([{ originalName: 'e', suggestedName: 'result', confidence: 0.9, type: 'variable', line: 4 }]);
+    const code = 'function add(left, right) {\n  return left + right;\n}\nvar e = add(1, 2);\n';
+
+    const result = await new LLMTransformer(provider).execute(withRenames(code, ['add', 'left', 'right']));
+    const sent = provider.requests[0]!.code;
+
+    expect(sent).toBe('\n\n\nvar e = add(1, 2);\n');
+    expect(provider.getTokenizer().count(sent)).toBeLessThan(provider.getTokenizer().count(code));
+    expect(result.code).toBe('function add(left, right) {\n  return left + right;\n}\nvar result = add(1, 2);');
+  });
+
+  it('should skip the provider when every binding is already named', async () => {
+    const provider = new StubProvider([]);
+    const llm = new LLMTransformer(provider);
+
+    const result = await llm.execute(withRenames('function add(left){return left}', ['add', 'left']));
+
+    expect(provider.requests).toHaveLength(0);
+    expect(result.warnings).toContain('All bindings were named from the input source map; LLM step skipped');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for plugin discovery, loading and pipeline integration
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { PluginManager } from '../../src/plugins/manager.js';
+import { ProcessingPipeline } from '../../src/core/pipeline.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { AdvancedConfig, ProcessingInput, ProcessingError } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+
+function pluginSource(name: string, body: string): string {
+  return `export default {
+  name: '${name}',
+  version: '1.0.0',
+  description: '${name} test plugin',
+  ${body}
+};
+`;
+}
+
+function transformerSource(name: string, stage: string, marker: string): string {
+  return `{
+    name: '${name}',
+    stage: '${stage}',
+    async transform(input) {
+      return { code: input.code + '\\n// ${marker}', metadata: input.metadata, success: true };
+    },
+  }`;
+}
+
+describe('PluginManager', () => {
+  let baseDir: string;
+  let config: AdvancedConfig;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-plugins-'));
+    await mkdir(join(baseDir, 'plugins'));
+
+    config = {
+      ...defaultConfig.advanced,
+      enablePlugins: true,
+      pluginConfig: {
+        ...defaultConfig.advanced.pluginConfig,
+        discovery: { paths: ['./plugins'], patterns: ['*.plugin.mjs'] },
+        execution: {
+          hooks: {},
+          chains: { transformers: [], analyzers: [] },
+          configs: {},
+        },
+      },
+    };
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  const writePlugin = (fileName: string, source: string) =>
+    writeFile(join(baseDir, 'plugins', fileName), source, 'utf8');
+
+  describe('discovery and validation', () => {
+    it('should discover modules matching the configured patterns', async () => {
+      await writePlugin('a.plugin.mjs', pluginSource('a', `transformers: [${transformerSource('t', 'pre', 'a')}],`));
+      await writePlugin('ignored.mjs', pluginSource('ignored', ''));
+
+      const manager = new PluginManager(config, baseDir);
+      const paths = await manager.discover();
+
+      expect(paths).toHaveLength(1);
+      expect(paths[0]).toContain('a.plugin.mjs');
+    });
+
+    it('should load explicit plugin paths', async () => {
+      await writeFile(join(baseDir, 'extra.mjs'), pluginSource('extra', `transformers: [${transformerSource('t', 'post', 'x')}],`));
+      config.pluginPaths = ['./extra.mjs'];
+
+      const plugins = await new PluginManager(config, baseDir).load();
+      expect(plugins.map(p => p.plugin.name)).toEqual(['extra']);
+    });
+
+    it('should reject modules that do not export a valid plugin', async () => {
+      await writePlugin('bad.plugin.mjs', pluginSource('bad', `transformers: [{ name: 't', stage: 'middle' }],`));
+
+      const manager = new PluginManager(config, baseDir);
+      const plugins = await manager.load();
+
+      expect(plugins).toHaveLength(0);
+      expect(manager.getFailures()).toHaveLength(1);
+      expect(manager.getFailures()[0]!.error.message).toContain("invalid stage 'middle'");
+      expect(manager.getFailures()[0]!.error.message).toContain('no transform function');
+    });
+
+    it('should skip disabled plugins and pass options to enabled ones', async () => {
+      await writePlugin('off.plugin.mjs', pluginSource('off', `transformers: [${transformerSource('t', 'pre', 'off')}],`));
+      await writePlugin('on.plugin.mjs', pluginSource('on', `
+  transformers: [${transformerSource('t', 'pre', 'on')}],
+  configure(options) { globalThis.__pluginOptions = options; },`));
+      config.pluginConfig.execution.configs = {
+        off: { enabled: false, priority: 50, options: {} },
+        on: { enabled: true, priority: 50, options: { level: 3 } },
+      };
+      config.pluginConfig.security = { ...config.pluginConfig.security, sandbox: false };
+
+      const plugins = await new PluginManager(config, baseDir).load();
+
+      expect(plugins.map(p => p.plugin.name)).toEqual(['on']);
+      expect((globalThis as Record<string, unknown>).__pluginOptions).toEqual({ level: 3 });
+      delete (globalThis as Record<string, unknown>).__pluginOptions;
+    });
+  });
+
+  describe('ordering', () => {
+    beforeEach(async () => {
+      await writePlugin('low.plugin.mjs', pluginSource('low', `transformers: [${transformerSource('low-t', 'pre', 'low')}],`));
+      await writePlugin('high.plugin.mjs', pluginSource('high', `transformers: [${transformerSource('high-t', 'pre', 'high')}, ${transformerSource('late', 'post', 'late')}],`));
+    });
+
+    it('should order transformers by priority', async () => {
+      config.pluginConfig.execution.configs = {
+        low: { enabled: true, priority: 10, options: {} },
+        high: { enabled: true, priority: 90, options: {} },
+      };
+      const manager = new PluginManager(config, baseDir);
+      await manager.load();
+
+      expect(manager.getSteps('pre').map(step => step.name)).toEqual(['high:high-t', 'low:low-t']);
+      expect(manager.getSteps('post').map(step => step.name)).toEqual(['high:late']);
+      expect(manager.getSteps('llm')).toHaveLength(0);
+    });
+
+    it('should let the transformer chain override priority', async () => {
+      config.pluginConfig.execution.chains.transformers = ['low-t'];
+      const manager = new PluginManager(config, baseDir);
+      await manager.load();
+
+      expect(manager.getSteps('pre').map(step => step.name)).toEqual(['low:low-t', 'high:high-t']);
+    });
+  });
+
+  describe('pipeline integration', () => {
+    const input: ProcessingInput = {
+      code: 'var a = 1;',
+      metadata: {
+        fileSize: 10,
+        statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 1, complexityScore: 0, tokensCount: 3 },
+      },
+      config: {} as any,
+    };
+
+    it('should run transformer steps and processing hooks', async () => {
+      await writePlugin('hooks.plugin.mjs', pluginSource('hooks', `
+  transformers: [${transformerSource('mark', 'pre', 'marked')}],
+  hooks: {
+    async beforeProcessing(input) { return { ...input, code: '// before\\n' + input.code }; },
+    async afterProcessing(output) { return { ...output, code: output.code + '\\n// after' }; },
+  },`));
+      const manager = new PluginManager(config, baseDir);
+      await manager.load();
+
+      const pipeline = new ProcessingPipeline();
+      manager.getSteps('pre').forEach(step => pipeline.addStep(step));
+      manager.getHooks('beforeProcessing').forEach(({ pluginName, hook }) => pipeline.addHook('beforeProcessing', pluginName, hook));
+      manager.getHooks('afterProcessing').forEach(({ pluginName, hook }) => pipeline.addHook('afterProcessing', pluginName, hook));
+
+      const result = await pipeline.execute(input);
+
+      expect(result.success).toBe(true);
+      expect(result.code).toBe('// before\nvar a = 1;\n// marked\n// after');
+    });
+
+    it('should fire onError hooks when a plugin transformer throws', async () => {
+      await writePlugin('broken.plugin.mjs', pluginSource('broken', `
+  transformers: [{ name: 'boom', stage: 'pre', async transform() { throw new Error('kaboom'); } }],
+  hooks: { async onError(error) { globalThis.__pluginError = error; } },`));
+      config.pluginConfig.security = { ...config.pluginConfig.security, sandbox: false };
+      const manager = new PluginManager(config, baseDir);
+      await manager.load();
+
+      const pipeline = new ProcessingPipeline();
+      manager.getSteps('pre').forEach(step => pipeline.addStep(step));
+      manager.getHooks('onError').forEach(({ pluginName, hook }) => pipeline.addHook('onError', pluginName, hook));
+
+      const result = await pipeline.execute(input);
+      const reported = (globalThis as Record<string, unknown>).__pluginError as ProcessingError;
+
+      expect(result.success).toBe(false);
+      expect(result.error?.code).toBe('PLUGIN_EXECUTION_FAILED');
+      expect(reported.message).toContain('kaboom');
+      delete (globalThis as Record<string, unknown>).__pluginError;
+    });
+  });
+
+  describe('processor lifecycle', () => {
+    it('should terminate loaded plugins when the configuration changes and on dispose', async () => {
+      await writePlugin('a.plugin.mjs', pluginSource('a', `transformers: [${transformerSource('t', 'pre', 'a')}],`));
+      config.pluginConfig.discovery = { paths: [join(baseDir, 'plugins')], patterns: ['*.plugin.mjs'] };
+      const processorConfig = { ...defaultConfig, advanced: config };
+      const processor = new MainProcessor(processorConfig);
+      const dispose = vi.spyOn(PluginManager.prototype, 'dispose');
+
+      try {
+        const loaded: PluginManager = await (processor as any).getPluginManager();
+        expect(loaded.getPlugins()).toHaveLength(1);
+
+        await processor.updateConfig(processorConfig);
+
+        expect(dispose).toHaveBeenCalledTimes(1);
+        expect(await (processor as any).getPluginManager()).not.toBe(loaded);
+
+        await processor.dispose();
+
+        expect(dispose).toHaveBeenCalledTimes(2);
+      } finally {
+        dispose.mockRestore();
+      }
+    });
+  });
+});
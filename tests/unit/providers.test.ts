@@ -164,7 +164,7 @@ describe('ProviderFactory', () => {
   describe('getSupportedProviders', () => {
     it('should return all supported providers', () => {
       const providers = ProviderFactory.getSupportedProviders();
-      expect(providers).toEqual(['anthropic', 'openai', 'azure', 'ollama']);
+      expect(providers).toEqual(['anthropic', 'openai', 'azure', 'ollama', 'bedrock', 'openai-compatible', 'replay', 'heuristic']);
     });
   });
 
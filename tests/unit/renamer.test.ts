@@ -0,0 +1,150 @@
+/**
+ * Tests for the scope-aware renaming engine
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ScopeAwareRenamer } from '../../src/transformers/renamer.js';
+import { RenameSuggestion } from '../../src/types.js';
+
+function suggestion(overrides: Partial<RenameSuggestion>): RenameSuggestion {
+  return {
+    originalName: 'a',
+    suggestedName: 'renamed',
+    confidence: 0.9,
+    type: 'variable',
+    ...overrides,
+  };
+}
+
+describe('ScopeAwareRenamer', () => {
+  let renamer: ScopeAwareRenamer;
+
+  beforeEach(() => {
+    renamer = new ScopeAwareRenamer();
+  });
+
+  describe('collectBindings', () => {
+    it('should report bindings with their enclosing function path', () => {
+      const code = 'var a = 1;\nfunction outer(b) {\n  const inner = () => { let c = b; };\n}';
+      const bindings = renamer.collectBindings(code);
+
+      expect(bindings.find(b => b.name === 'a')?.functionPath).toBe('');
+      expect(bindings.find(b => b.name === 'b')?.functionPath).toBe('outer');
+      expect(bindings.find(b => b.name === 'c')?.functionPath).toBe('outer.inner');
+      expect(bindings.find(b => b.name === 'b')?.line).toBe(2);
+    });
+  });
+
+  describe('apply', () => {
+    it('should rename same-named bindings in different functions independently', () => {
+      const code = 'function f(a) { return a * 2; }\nfunction g(a) { return a + 1; }';
+      const result = renamer.apply(code, [
+        suggestion({ suggestedName: 'width', functionPath: 'f' }),
+        suggestion({ suggestedName: 'count', functionPath: 'g' }),
+      ]);
+
+      expect(result.code).toContain('function f(width)');
+      expect(result.code).toContain('return width * 2;');
+      expect(result.code).toContain('function g(count)');
+      expect(result.code).toContain('return count + 1;');
+      expect(result.applied).toHaveLength(2);
+      expect(result.warnings).toHaveLength(0);
+    });
+
+    it('should use the line number to pick a binding', () => {
+      const code = 'function f(a) { return a; }\nfunction g(a) { return a; }';
+      const result = renamer.apply(code, [suggestion({ suggestedName: 'second', line: 2 })]);
+
+      expect(result.code).toContain('function f(a)');
+      expect(result.code).toContain('function g(second)');
+      expect(result.code).toContain('return second;');
+    });
+
+    it('should skip ambiguous suggestions with a warning', () => {
+      const code = 'function f(a) { return a; }\nfunction g(a) { return a; }';
+      const result = renamer.apply(code, [suggestion({ suggestedName: 'value' })]);
+
+      expect(result.code).not.toContain('value');
+      expect(result.skipped).toHaveLength(1);
+      expect(result.warnings[0]).toContain('ambiguous');
+    });
+
+    it('should leave properties and object keys untouched', () => {
+      const code = 'function f(a) { return { a, b: obj.a }; }';
+      const result = renamer.apply(code, [suggestion({ suggestedName: 'user' })]);
+
+      expect(result.code).toContain('a: user');
+      expect(result.code).toContain('obj.a');
+    });
+
+    it('should suffix renames that would be shadowed', () => {
+      const code = 'function f(a) { var b = 1; return a + b; }';
+      const result = renamer.apply(code, [suggestion({ suggestedName: 'b' })]);
+
+      expect(result.code).toContain('return b2 + b');
+      expect(result.applied[0]?.suggestedName).toBe('b2');
+      expect(result.warnings[0]).toContain('instead of b');
+    });
+
+    it('should suffix reserved words', () => {
+      const result = renamer.apply('var a = 1;', [suggestion({ suggestedName: 'class' })]);
+
+      expect(result.code).toContain('var class$ = 1;');
+      expect(result.decisions[0]?.reason).toContain('reserved word');
+    });
+
+    it('should skip names without a binding', () => {
+      const result = renamer.apply('console.log(a);', [suggestion({ suggestedName: 'value' })]);
+
+      expect(result.code).toContain('console.log(a)');
+      expect(result.skipped).toHaveLength(1);
+    });
+  });
+
+  describe('conflict resolution', () => {
+    it('should disambiguate two originals mapped to the same name', () => {
+      const code = 'var a = 1;\nvar b = 2;\nconsole.log(a, b);';
+      const result = renamer.apply(code, [
+        suggestion({ originalName: 'a', suggestedName: 'count', confidence: 0.9 }),
+        suggestion({ originalName: 'b', suggestedName: 'count', confidence: 0.7 }),
+      ]);
+
+      expect(result.code).toContain('console.log(count, count2)');
+      expect(result.decisions).toHaveLength(1);
+      expect(result.decisions[0]).toMatchObject({ originalName: 'b', resolvedName: 'count2' });
+    });
+
+    it('should allow the same name in unrelated scopes', () => {
+      const code = 'function f(a) { return a; }\nfunction g(b) { return b; }';
+      const result = renamer.apply(code, [
+        suggestion({ originalName: 'a', suggestedName: 'value' }),
+        suggestion({ originalName: 'b', suggestedName: 'value' }),
+      ]);
+
+      expect(result.code).toContain('function f(value)');
+      expect(result.code).toContain('function g(value)');
+      expect(result.decisions).toHaveLength(0);
+    });
+
+    it('should not shadow browser globals', () => {
+      const code = 'function f(a) { return a.body; }';
+      const result = renamer.apply(code, [suggestion({ suggestedName: 'document' })]);
+
+      expect(result.code).toContain('function f(document2)');
+      expect(result.decisions[0]?.reason).toContain('shadow a global');
+    });
+
+    it('should not capture undeclared globals used in the program', () => {
+      const code = 'function f(a) { return a + helper(); }';
+      const result = renamer.apply(code, [suggestion({ suggestedName: 'helper' })]);
+
+      expect(result.code).toContain('return helper2 + helper()');
+    });
+
+    it('should sanitize invalid identifiers', () => {
+      const result = renamer.apply('var a = 1;', [suggestion({ suggestedName: 'user name' })]);
+
+      expect(result.code).toContain('var userName = 1;');
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for the replay and heuristic providers that run without a live model
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { ReplayProvider } from '../../src/providers/replay.js';
+import { HeuristicProvider } from '../../src/providers/heuristic.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { ProviderFactory } from '../../src/providers/factory.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { LLMRequest, LLMResponse, ProcessingInput, ProviderConfig } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { ErrorCode } from '../../src/utils/errors.js';
+
+class ScriptedProvider extends BaseLLMProvider {
+  public readonly name = 'scripted';
+  public readonly models = ['model-a'];
+  public readonly maxTokens = 4000;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = true;
+  public calls = 0;
+
+  constructor() {
+    super({ ...defaultConfig.provider, model: 'model-a', apiKey: 'test' });
+  }
+
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    this.calls++;
+    return {
+      suggestions: [{ originalName: 'a', suggestedName: `total${request.code.length}`, confidence: 0.9, type: 'variable' }],
+      confidence: 0.9,
+      tokensUsed: 25,
+      processingTime: 120,
+    };
+  }
+}
+
+const inputFor = (code: string, provider: Partial<ProviderConfig>): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'app.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 1, complexityScore: 0, tokensCount: 0 },
+  },
+  config: { ...defaultConfig, provider: { ...defaultConfig.provider, ...provider } } as any,
+});
+
+describe('ReplayProvider', () => {
+  let baseDir: string;
+  let fixture: string;
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-replay-'));
+    fixture = join(baseDir, 'fixtures', 'app.json');
+    ProviderFactory.clearCache();
+  });
+
+  afterEach(async () => {
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  const replayConfig = (): ProviderConfig => ({ ...defaultConfig.provider, name: 'replay', model: 'any', fixture });
+
+  it('should record upstream responses and replay them without the upstream', async () => {
+    const upstream = new ScriptedProvider();
+    const recorder = new ReplayProvider({ ...upstream['config'], fixture, record: true }, upstream);
+    const request = { code: 'var a = 1;', model: 'model-a', knownNames: ['b', 'a2'] };
+
+    const recorded = await recorder.processCode(request);
+    await recorder.processCode(request);
+    const replayed = await new ReplayProvider(replayConfig()).processCode({ ...request, model: 'other', knownNames: ['a2', 'b'] });
+
+    expect(upstream.calls).toBe(1);
+    expect(recorder.name).toBe('scripted');
+    expect(replayed).toEqual(recorded);
+
+    const stored = JSON.parse(await readFile(fixture, 'utf8'));
+    const [entry] = Object.values(stored.entries) as any[];
+    expect(stored.version).toBe(1);
+    expect(entry).toMatchObject({ model: 'model-a', request: { code: 'var a = 1;', knownNames: ['b', 'a2'] } });
+  });
+
+  it('should fail on requests missing from the fixture', async () => {
+    const upstream = new ScriptedProvider();
+    await new ReplayProvider({ ...upstream['config'], fixture, record: true }, upstream).processCode({ code: 'var a;', model: 'model-a' });
+
+    await expect(new ReplayProvider(replayConfig()).processCode({ code: 'var b;', model: 'any' }))
+      .rejects.toMatchObject({ code: ErrorCode.LLM_REQUEST_FAILED, message: expect.stringContaining('No recorded response') });
+    await expect(new ReplayProvider({ ...replayConfig(), fixture: join(baseDir, 'missing.json') }).processCode({ code: 'var a;', model: 'any' }))
+      .rejects.toMatchObject({ code: ErrorCode.FILE_READ_ERROR });
+    expect(() => new ReplayProvider({ ...replayConfig(), fixture: undefined })).toThrow('requires a fixture file');
+  });
+
+  it('should replay a full LLM step recorded through the factory', async () => {
+    const code = 'var a = require("lodash");\nexports.sum = function (b, c) { return b + c; };\n';
+
+    // Record a heuristic run, then replay it with no provider behind it
+    const recorded = await LLMTransformer.fromConfig(inputFor(code, { name: 'heuristic', model: 'heuristic', fixture, record: true }))
+      .execute(inputFor(code, {}));
+    ProviderFactory.clearCache();
+    const replayed = await LLMTransformer.fromConfig(inputFor(code, { name: 'replay', model: 'replay', fixture }))
+      .execute(inputFor(code, {}));
+
+    expect(recorded.success).toBe(true);
+    expect(recorded.code).toContain('lodash = require("lodash")');
+    expect(replayed.code).toBe(recorded.code);
+  });
+});
+
+describe('HeuristicProvider', () => {
+  const provider = new HeuristicProvider({ ...defaultConfig.provider, name: 'heuristic', model: 'heuristic', apiKey: undefined });
+  const names = (code: string, knownNames?: string[]) =>
+    Object.fromEntries(provider.suggest(code, new Set(knownNames)).map(s => [s.originalName, s.suggestedName]));
+
+  it('should name bindings from their initializers', () => {
+    expect(names([
+      'var a = require("@acme/http-client"), b = new XMLHttpRequest(), c = JSON.parse(x);',
+      'var d = document.querySelector("#app"), e = getUserName(), f; f = fetch("/api");',
+    ].join('\n'))).toEqual({
+      a: 'httpClient', b: 'xmlHttpRequest', c: 'data', d: 'element', e: 'userName', f: 'response',
+    });
+  });
+
+  it('should name callback parameters and loop variables', () => {
+    expect(names([
+      'users.map(function (a, b) { return a.id + b; });',
+      'list.reduce((c, d) => c + d, 0);',
+      'new Promise(function (e, f) {});',
+      'p.catch(function (g) {});',
+      'for (const h of entries) {}',
+      'for (var k in obj) {}',
+      'try {} catch (m) {}',
+    ].join('\n'))).toEqual({
+      a: 'user', b: 'index', c: 'accumulator', d: 'item', e: 'resolve', f: 'reject',
+      g: 'error', h: 'entry', k: 'key', m: 'error',
+    });
+  });
+
+  it('should name bindings after where they are exported or attached', async () => {
+    const response = await provider.processCode({
+      code: 'function a() {}\nfunction b() {}\nexports.render = a;\nwindow.addEventListener("resize", b);\nmodule.exports = { mount: c };\nfunction c() {}',
+      model: 'heuristic',
+      knownNames: ['b'],
+    });
+
+    expect(response.tokensUsed).toBe(0);
+    expect(response.suggestions.map(s => [s.originalName, s.suggestedName, s.type, s.line])).toEqual([
+      ['a', 'render', 'function', 1],
+      ['c', 'mount', 'function', 6],
+    ]);
+  });
+
+  it('should return no suggestions for code that does not parse', () => {
+    expect(provider.suggest('function (')).toEqual([]);
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Tests for sandboxed plugin execution
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { PluginSandbox, SandboxSecurity, toCommonJS } from '../../src/plugins/sandbox.js';
+import { ProcessingInput } from '../../src/types.js';
+import { PluginSandboxViolationError, ErrorCode } from '../../src/utils/errors.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, mkdir, rm, symlink, writeFile } from 'fs/promises';
+
+const input: ProcessingInput = {
+  code: 'var a = 1;',
+  metadata: {
+    fileSize: 10,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 1, complexityScore: 0, tokensCount: 3 },
+  },
+  config: { provider: { name: 'openai', apiKey: 'sk-secret' } } as any,
+};
+
+function pluginWithTransform(body: string, header = ''): string {
+  return `${header}
+export default {
+  name: 'sandboxed',
+  version: '1.0.0',
+  description: 'sandbox test plugin',
+  transformers: [{
+    name: 'run',
+    stage: 'pre',
+    async transform(input) {
+      ${body}
+    },
+  }],
+};
+`;
+}
+
+describe('PluginSandbox', () => {
+  let baseDir: string;
+  let security: SandboxSecurity;
+  const sandboxes: PluginSandbox[] = [];
+
+  beforeEach(async () => {
+    baseDir = await mkdtemp(join(tmpdir(), 'rescript-sandbox-'));
+    await mkdir(join(baseDir, 'data'));
+    await writeFile(join(baseDir, 'data', 'table.txt'), 'decoded', 'utf8');
+
+    security = {
+      allowedApis: ['fs', 'path'],
+      allowedPaths: ['./data'],
+      timeoutMs: 2000,
+      memoryLimitMB: 64,
+      networkAccess: false,
+      sandbox: true,
+    };
+  });
+
+  afterEach(async () => {
+    await Promise.all(sandboxes.splice(0).map(sandbox => sandbox.dispose()));
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  const load = async (source: string) => {
+    const path = join(baseDir, 'test.plugin.mjs');
+    await writeFile(path, source, 'utf8');
+    const loaded = await PluginSandbox.load(path, security, baseDir);
+    sandboxes.push(loaded.sandbox);
+    return loaded.plugin;
+  };
+
+  it('should run transformers in the worker', async () => {
+    const plugin = await load(pluginWithTransform(`return { ...input, code: input.code.toUpperCase(), success: true };`));
+    const output = await plugin.transformers![0]!.transform(input);
+
+    expect(plugin.name).toBe('sandboxed');
+    expect(output.code).toBe('VAR A = 1;');
+  });
+
+  it('should not expose provider API keys to plugins', async () => {
+    const plugin = await load(pluginWithTransform(`return { ...input, code: String(input.config.provider.apiKey), success: true };`));
+    const output = await plugin.transformers![0]!.transform(input);
+
+    expect(output.code).toBe('undefined');
+  });
+
+  it('should allow file access inside allowedPaths', async () => {
+    const plugin = await load(pluginWithTransform(
+      `return { ...input, code: readFileSync(join(${JSON.stringify(baseDir)}, 'data', 'table.txt'), 'utf8'), success: true };`,
+      `import { readFileSync } from 'fs';\nimport { join } from 'path';`
+    ));
+    const output = await plugin.transformers![0]!.transform(input);
+
+    expect(output.code).toBe('decoded');
+  });
+
+  it('should reject file access outside allowedPaths', async () => {
+    const plugin = await load(pluginWithTransform(
+      `try { readFileSync('/etc/passwd', 'utf8'); } catch {}\n      return { ...input, success: true };`,
+      `import { readFileSync } from 'fs';`
+    ));
+
+    const error = await plugin.transformers![0]!.transform(input).catch(e => e);
+    expect(error).toBeInstanceOf(PluginSandboxViolationError);
+    expect(error.code).toBe(ErrorCode.PLUGIN_SANDBOX_VIOLATION);
+    expect(error.message).toContain('outside allowedPaths');
+  });
+
+  it('should not follow symlinks out of allowedPaths', async () => {
+    await symlink('/etc', join(baseDir, 'data', 'etc'));
+    await symlink('/tmp/rescript-sandbox-escape', join(baseDir, 'data', 'dangling'));
+    const plugin = await load(pluginWithTransform(
+      `const data = join(${JSON.stringify(baseDir)}, 'data');
+      const attempts = [() => readFileSync(join(data, 'etc', 'passwd'), 'utf8'), () => writeFileSync(join(data, 'dangling'), 'x')];
+      const blocked = attempts.filter(attempt => { try { attempt(); return false; } catch { return true; } });
+      return { ...input, code: String(blocked.length), success: true };`,
+      `import { readFileSync, writeFileSync } from 'fs';\nimport { join } from 'path';`
+    ));
+
+    const error = await plugin.transformers![0]!.transform(input).catch(e => e);
+    expect(error).toBeInstanceOf(PluginSandboxViolationError);
+    expect(error.message).toContain('outside allowedPaths');
+  });
+
+  it('should not hand plugins objects of the host realm', async () => {
+    security.allowedApis = [];
+    const escapes = [
+      `console.log.constructor('return require')()('child_process')`,
+      `require.constructor('return process')()`,
+      `module.constructor.constructor('return process')()`,
+      `this.constructor.constructor('return process')()`,
+      `setTimeout(() => {}, 0).constructor.constructor('return process')()`,
+      `Object.getPrototypeOf(console.log).constructor('return process')()`,
+      `console.log.__proto__.__proto__.constructor.constructor('return process')()`,
+      `new TextEncoder().encode('a').constructor.constructor('return process')()`,
+      `(() => { try { require('os'); } catch (error) { return error.constructor.constructor('return process')(); } })()`,
+      `(() => {
+        let leaked;
+        const spy = new Proxy(function () {}, { apply(target, thisArg, args) { leaked = args; return Reflect.apply(target, thisArg, args); } });
+        try { console.log(new Proxy({}, { ownKeys: spy, get: spy, getOwnPropertyDescriptor: spy, getPrototypeOf: spy })); } catch {}
+        return leaked.constructor.constructor('return process')();
+      })()`,
+    ];
+
+    for (const escape of escapes) {
+      const plugin = await load(pluginWithTransform(`
+        let reached;
+        try { reached = ${escape}; } catch {}
+        return { ...input, code: reached === undefined || reached === null ? 'contained' : 'escaped', success: true };
+      `));
+      const output = await plugin.transformers![0]!.transform(input).catch(error => error);
+
+      // The context has no process of its own, so any value means the chain
+      // reached the host. Reaching for the host's Function constructor is
+      // itself a violation
+      if (output instanceof Error) {
+        expect(output, escape).toBeInstanceOf(PluginSandboxViolationError);
+      } else {
+        expect(output.code, escape).toBe('contained');
+      }
+    }
+  });
+
+  it('should keep allowed modules usable through the membrane', async () => {
+    const plugin = await load(pluginWithTransform(
+      `const names = await promises.readdir(join(${JSON.stringify(baseDir)}, 'data'));
+      const bytes = readFileSync(join(${JSON.stringify(baseDir)}, 'data', 'table.txt'));
+      return { ...input, code: names.join(',') + ':' + bytes.length + ':' + basename('/a/b.js'), success: true };`,
+      `import { promises, readFileSync } from 'fs';\nimport { basename, join } from 'path';`
+    ));
+    const output = await plugin.transformers![0]!.transform(input);
+
+    expect(output.code).toBe('table.txt:7:b.js');
+  });
+
+  it('should block modules that are not in allowedApis', async () => {
+    const error = await load(pluginWithTransform(`return input;`, `import { exec } from 'child_process';`)).catch(e => e);
+
+    expect(error).toBeInstanceOf(PluginSandboxViolationError);
+    expect(error.message).toContain('child_process');
+  });
+
+  it('should block network access when disabled', async () => {
+    const plugin = await load(pluginWithTransform(`await fetch('http://example.com');\n      return input;`));
+
+    const error = await plugin.transformers![0]!.transform(input).catch(e => e);
+    expect(error).toBeInstanceOf(PluginSandboxViolationError);
+    expect(error.message).toContain('networkAccess');
+  });
+
+  it('should terminate plugins that exceed the timeout', async () => {
+    security.timeoutMs = 1000;
+    const plugin = await load(pluginWithTransform(`await new Promise(resolve => setTimeout(resolve, 60000));\n      return input;`));
+
+    const error = await plugin.transformers![0]!.transform(input).catch(e => e);
+    expect(error).toBeInstanceOf(PluginSandboxViolationError);
+    expect(error.message).toContain('timeout');
+
+    const second = await plugin.transformers![0]!.transform(input).catch(e => e);
+    expect(second).toBeInstanceOf(PluginSandboxViolationError);
+  });
+});
+
+describe('toCommonJS', () => {
+  it('should rewrite imports and exports', () => {
+    const code = toCommonJS(`import fs, { readFileSync as read } from 'fs';
+import * as path from 'path';
+export const answer = 42;
+export function helper() {}
+export default { name: 'x' };`);
+
+    expect(code).not.toMatch(/^\s*(import|export)\b/m);
+    expect(code).toContain(`require("fs")`);
+    expect(code).toContain('exports.answer = answer');
+    expect(code).toContain('exports.helper = helper');
+    expect(code).toContain('exports.default =');
+  });
+
+  it('should reject dynamic imports', () => {
+    expect(() => toCommonJS(`export default { load: () => import('fs') };`)).toThrow('dynamic import');
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Tests for source map generation and composition across pipeline steps
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { TraceMap, originalPositionFor } from '@jridgewell/trace-mapping';
+import { createApproximateSourceMap, composeSourceMaps } from '../../src/utils/sourcemap.js';
+import { ProcessingPipeline } from '../../src/core/pipeline.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { BabelTransformer } from '../../src/transformers/babel.js';
+import { PrettierTransformer } from '../../src/transformers/prettier.js';
+import { ScopeAwareRenamer } from '../../src/transformers/renamer.js';
+import { ProcessingInput, ProcessingOutput, ProcessingStep, SourceMapData } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+
+const minified = 'function f(a,b){return a+b}var c=f(1,2);';
+
+function makeInput(code: string, generateSourceMaps = true): ProcessingInput {
+  return {
+    code,
+    metadata: {
+      fileName: '/project/app.min.js',
+      fileSize: code.length,
+      statistics: { linesOfCode: 1, functionsCount: 1, variablesCount: 1, complexityScore: 0, tokensCount: 10 },
+    },
+    config: { ...defaultConfig, output: { ...defaultConfig.output, generateSourceMaps } } as any,
+  };
+}
+
+/**
+ * Position of the first occurrence of a string in code (1-based line, 0-based column)
+ */
+function positionOf(code: string, needle: string): { line: number; column: number } {
+  const index = code.indexOf(needle);
+  const before = code.slice(0, index).split('\n');
+  return { line: before.length, column: before[before.length - 1]!.length };
+}
+
+function trace(map: SourceMapData, code: string, needle: string) {
+  return originalPositionFor(new TraceMap(map as any), positionOf(code, needle));
+}
+
+class RenameStep implements ProcessingStep {
+  name = 'rename';
+  description = 'test renames';
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    const result = new ScopeAwareRenamer().apply(input.code, [
+      { originalName: 'a', suggestedName: 'left', confidence: 0.9, type: 'variable' },
+      { originalName: 'b', suggestedName: 'right', confidence: 0.9, type: 'variable' },
+      { originalName: 'f', suggestedName: 'add', confidence: 0.9, type: 'function' },
+    ], { sourceMaps: true, sourceFileName: 'app.min.js' });
+
+    return { code: result.code, metadata: input.metadata, success: true, sourceMap: result.map };
+  }
+}
+
+class AppendStep implements ProcessingStep {
+  name = 'append';
+  description = 'adds code without a map';
+
+  constructor(private readonly suffix: string) {}
+
+  async execute(input: ProcessingInput): Promise<ProcessingOutput> {
+    return { code: input.code + this.suffix, metadata: input.metadata, success: true };
+  }
+}
+
+describe('createApproximateSourceMap', () => {
+  it('should map renamed and reformatted tokens back to the original', () => {
+    const generated = 'function add(left, right) {\n  return left + right;\n}\nvar c = add(1, 2);\n';
+    const map = createApproximateSourceMap(minified, generated, 'app.min.js')!;
+
+    expect(map.sources).toEqual(['app.min.js']);
+    expect(trace(map, generated, 'right;')).toMatchObject({ line: 1, column: 25, name: 'b' });
+    expect(trace(map, generated, 'var c')).toMatchObject({ line: 1, column: 27 });
+  });
+
+  it('should resynchronise after inserted and replaced tokens', () => {
+    const original = 'if(a)b();var d=!0;';
+    const generated = 'if (a) {\n  b();\n}\nvar d = true;\n';
+    const map = createApproximateSourceMap(original, generated)!;
+
+    expect(trace(map, generated, 'b()')).toMatchObject({ line: 1, column: 5 });
+    expect(trace(map, generated, 'd =')).toMatchObject({ line: 1, column: 13, name: 'd' });
+  });
+
+  it('should return undefined for code that cannot be tokenized', () => {
+    expect(createApproximateSourceMap('var a = ;', 'var a;')).toBeUndefined();
+  });
+});
+
+describe('composeSourceMaps', () => {
+  it('should trace through every step to the first input', () => {
+    const step1 = 'function f(a, b) {\n  return a + b;\n}\nvar c = f(1, 2);\n';
+    const step2 = step1.replace(/\ba\b/g, 'left');
+    const composed = composeSourceMaps([
+      createApproximateSourceMap(minified, step1, 'app.min.js')!,
+      createApproximateSourceMap(step1, step2, 'app.min.js')!,
+    ], { sourceName: 'app.min.js', sourceContent: minified });
+
+    expect(composed.sourcesContent).toEqual([minified]);
+    expect(trace(composed, step2, 'left +')).toMatchObject({ line: 1, column: 23, name: 'a' });
+  });
+});
+
+describe('pipeline source maps', () => {
+  const buildPipeline = (...extra: ProcessingStep[]) => {
+    const pipeline = new ProcessingPipeline();
+    pipeline.addStep(new BabelTransformer());
+    pipeline.addStep(new RenameStep());
+    extra.forEach(step => pipeline.addStep(step));
+    pipeline.addStep(new PrettierTransformer());
+    return pipeline;
+  };
+
+  it('should compose step maps into a map to the original positions', async () => {
+    const result = await buildPipeline().execute(makeInput(minified));
+    const map = result.metadata.sourceMap!;
+
+    expect(result.success).toBe(true);
+    expect(result.code).toContain('return left + right;');
+    expect(map.sources).toEqual(['app.min.js']);
+    expect(map.sourcesContent).toEqual([minified]);
+    expect(trace(map, result.code, 'right;')).toMatchObject({ line: 1, column: 25, name: 'b' });
+    expect(trace(map, result.code, 'add(1, 2)')).toMatchObject({ line: 1, column: 33, name: 'f' });
+  });
+
+  it('should approximate maps for steps that do not emit one', async () => {
+    const result = await buildPipeline(new AppendStep('\nvar extra = c;')).execute(makeInput(minified));
+
+    expect(result.metadata.sourceMap).toBeDefined();
+    expect(trace(result.metadata.sourceMap!, result.code, 'left +')).toMatchObject({ line: 1, column: 23 });
+  });
+
+  it('should drop the map and warn when a change cannot be mapped', async () => {
+    const pipeline = new ProcessingPipeline();
+    pipeline.addStep(new AppendStep(' @@@'));
+    const result = await pipeline.execute(makeInput(minified));
+
+    expect(result.metadata.sourceMap).toBeUndefined();
+    expect(result.warnings).toContain(`Source map not generated: changes made by 'append' could not be mapped`);
+  });
+
+  it('should not build maps unless output.generateSourceMaps is enabled', async () => {
+    const result = await buildPipeline().execute(makeInput(minified, false));
+
+    expect(result.metadata.sourceMap).toBeUndefined();
+  });
+});
+
+describe('MainProcessor source map output', () => {
+  let outputDir: string | undefined;
+
+  afterEach(async () => {
+    if (outputDir) await rm(outputDir, { recursive: true, force: true });
+  });
+
+  it('should write a .map file next to the output and link it', async () => {
+    outputDir = await mkdtemp(join(tmpdir(), 'rescript-sourcemap-'));
+    const outputPath = join(outputDir, 'out', 'app.js');
+    const inputPath = join(outputDir, 'src', 'app.min.js');
+    const processor = new MainProcessor({ ...defaultConfig, output: { ...defaultConfig.output, generateSourceMaps: true } });
+    const map = createApproximateSourceMap(minified, minified, 'app.min.js')!;
+
+    const prepared = (processor as any).prepareSourceMap(map, inputPath, outputPath);
+    await (processor as any).writeOutput('var c = 1;\n', outputPath, prepared);
+
+    const written = JSON.parse(await readFile(`${outputPath}.map`, 'utf8'));
+    expect(written.file).toBe('app.js');
+    expect(written.sources).toEqual(['../src/app.min.js']);
+    expect(await readFile(outputPath, 'utf8')).toBe('var c = 1;\n//# sourceMappingURL=app.js.map\n');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Tests for recovering the original sources a bundle's source map carries
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { GenMapping, addMapping, setSourceContent, toEncodedMap } from '@jridgewell/gen-mapping';
+import { SourceExtractor } from '../../src/core/sources.js';
+import { MainProcessor } from '../../src/core/processor.js';
+import { ReScriptConfig, SourceMapData } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+
+const BUNDLE = 'var a=1;\nfoo();\n';
+
+/**
+ * Map for `BUNDLE`: the first line comes from `sources[0]`, the second from
+ * `sources[1]`
+ */
+function createMap(sources: [string, string | null][]): SourceMapData {
+  const map = new GenMapping({ file: 'bundle.js' });
+  for (const [source, content] of sources) {
+    setSourceContent(map, source, content);
+  }
+  sources.slice(0, 2).forEach(([source], line) => {
+    addMapping(map, { generated: { line: line + 1, column: 0 }, source, original: { line: 1, column: 0 } });
+  });
+  return toEncodedMap(map) as unknown as SourceMapData;
+}
+
+const config = {
+  ...defaultConfig,
+  provider: { ...defaultConfig.provider, name: 'heuristic', model: 'rules' },
+  processing: { ...defaultConfig.processing, caching: { ...defaultConfig.processing.caching, enabled: false } },
+  output: { ...defaultConfig.output, generateSourceMaps: false, fromSourceMap: true },
+} as ReScriptConfig;
+
+describe('SourceExtractor', () => {
+  it('should place webpack sources under their resource paths, merging duplicates', () => {
+    const extraction = new SourceExtractor().extract(createMap([
+      ['webpack://app/./src/a.js', 'export const a = 1;\n'],
+      ['webpack://app/external "react"', null],
+      ['webpack://app/./src/a.js?babel', 'export const a = 1;\n'],
+      ['webpack:///webpack/bootstrap', '// runtime\n'],
+      ['webpack://other/./src/a.js', 'export const b = 2;\n'],
+      ['webpack://app/../lib/b.js', 'export {};\n'],
+    ]), BUNDLE);
+
+    expect(extraction.files.map(({ path, sources }) => ({ path, sources }))).toEqual([
+      { path: 'src/a.js', sources: ['webpack://app/./src/a.js', 'webpack://app/./src/a.js?babel'] },
+      { path: 'webpack/bootstrap', sources: ['webpack:///webpack/bootstrap'] },
+      { path: 'src/a-2.js', sources: ['webpack://other/./src/a.js'] },
+      { path: 'lib/b.js', sources: ['webpack://app/../lib/b.js'] },
+    ]);
+    expect(extraction.missing).toEqual(['webpack://app/external "react"']);
+  });
+
+  it('should place file sources relative to the directory they share', () => {
+    const extraction = new SourceExtractor().extract(createMap([
+      ['/project/src/index.ts', 'main();\n'],
+      ['/project/src/util/math.ts', 'export {};\n'],
+      ['/project/node_modules/tslib/tslib.es6.js', 'export {};\n'],
+    ]), BUNDLE);
+
+    expect(extraction.files.map(file => file.path)).toEqual([
+      'src/index.ts',
+      'src/util/math.ts',
+      'node_modules/tslib/tslib.es6.js',
+    ]);
+  });
+
+  it('should measure the share of the bundle mapped into sources with content', () => {
+    const extractor = new SourceExtractor();
+
+    expect(extractor.extract(createMap([['a.js', 'var a = 1;'], ['b.js', null]]), BUNDLE).coverage).toBeCloseTo(7 / 13);
+    expect(extractor.extract(createMap([['a.js', 'var a = 1;'], ['b.js', 'foo();']]), BUNDLE)).toMatchObject({ coverage: 1, complete: true });
+    expect(extractor.extract(createMap([['a.js', 'var a = 1;'], ['b.js', null]]), BUNDLE).complete).toBe(false);
+    expect(SourceExtractor.hasSources(createMap([['a.js', null]]))).toBe(false);
+  });
+});
+
+describe('MainProcessor with fromSourceMap', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should write the original sources instead of processing the bundle', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-sources-'));
+    const bundlePath = join(dir, 'dist', 'bundle.js');
+    await mkdir(join(dir, 'dist'));
+    await writeFile(bundlePath, `${BUNDLE}//# sourceMappingURL=bundle.js.map\n`);
+    await writeFile(`${bundlePath}.map`, JSON.stringify(createMap([
+      ['../src/a.js', 'var a = 1;\n'],
+      ['../src/lib/foo.js', 'foo();\n'],
+    ])));
+
+    const result = await new MainProcessor(config).processFile(bundlePath, join(dir, 'out', 'bundle.js'));
+    const outDir = join(dir, 'out', 'bundle');
+
+    expect(result).toMatchObject({
+      success: true,
+      outputPath: outDir,
+      recovered: { sourceMap: `${bundlePath}.map`, files: 2, missing: [], coverage: 1, complete: true },
+    });
+    expect(result.statistics.tokensCount).toBe(0);
+    expect((await readdir(outDir)).sort()).toEqual(['a.js', 'lib']);
+    expect(await readFile(join(outDir, 'lib', 'foo.js'), 'utf8')).toBe('foo();\n');
+  });
+
+  it('should process the bundle as well when its sources leave part of it out', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-sources-'));
+    const bundlePath = join(dir, 'bundle.js');
+    await writeFile(bundlePath, `${BUNDLE}//# sourceMappingURL=bundle.js.map\n`);
+    await writeFile(`${bundlePath}.map`, JSON.stringify(createMap([['a.js', 'var a = 1;\n'], ['b.js', null]])));
+
+    const result = await new MainProcessor(config).processFile(bundlePath, join(dir, 'out', 'bundle.js'));
+
+    expect(result).toMatchObject({
+      success: true,
+      outputPath: join(dir, 'out', 'bundle.js'),
+      recovered: { files: 1, missing: [join(dir, 'b.js')], complete: false },
+    });
+    expect(result.recovered!.coverage).toBeCloseTo(7 / 13);
+    expect(await readFile(join(dir, 'out', 'bundle', 'a.js'), 'utf8')).toBe('var a = 1;\n');
+    expect(await readFile(join(dir, 'out', 'bundle.js'), 'utf8')).toContain('foo()');
+  });
+
+  it('should process inputs without original sources as usual', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-sources-'));
+    const filePath = join(dir, 'plain.js');
+    await writeFile(filePath, 'function add(a, b) {\n  return a + b;\n}\n');
+
+    const result = await new MainProcessor(config).processFile(filePath, join(dir, 'plain.out.js'));
+
+    expect(result).toMatchObject({ success: true, outputPath: join(dir, 'plain.out.js') });
+    expect(result.recovered).toBeUndefined();
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests for writing the modules of an unpacked bundle as separate files
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { MainProcessor } from '../../src/core/processor.js';
+import { WebcrackTransformer } from '../../src/transformers/webcrack.js';
+import { ProcessingInput, ReScriptConfig } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtemp, readFile, readdir, rm, writeFile } from 'fs/promises';
+
+// Webpack 4 runtime with two modules; module 1 is the entry and requires module 0
+const BUNDLE = '(function(e){var t={};function n(r){if(t[r])return t[r].exports;var o=t[r]={i:r,l:!1,exports:{}};' +
+  'return e[r].call(o.exports,o,o.exports,n),o.l=!0,o.exports}n.m=e,n.c=t,n.d=function(e,t,r){n.o(e,t)||' +
+  'Object.defineProperty(e,t,{enumerable:!0,get:r})},n.r=function(e){Object.defineProperty(e,"__esModule",{value:!0})},' +
+  'n.o=function(e,t){return Object.prototype.hasOwnProperty.call(e,t)},n.p="",n(n.s=1)})([function(e,t){e.exports=' +
+  'function(a,b){return a+b}},function(e,t,n){var r=n(0);console.log(r(1,2))}]);';
+
+// The same bundle as webpack writes it in development builds
+const READABLE_BUNDLE = `(function (modules) {
+  var installedModules = {};
+  function __webpack_require__(moduleId) {
+    if (installedModules[moduleId]) {
+      return installedModules[moduleId].exports;
+    }
+    var module = (installedModules[moduleId] = { i: moduleId, l: false, exports: {} });
+    modules[moduleId].call(module.exports, module, module.exports, __webpack_require__);
+    module.l = true;
+    return module.exports;
+  }
+  __webpack_require__.m = modules;
+  __webpack_require__.c = installedModules;
+  return __webpack_require__((__webpack_require__.s = 1));
+})([
+  function (module, exports) {
+    module.exports = function add(first, second) {
+      return first + second;
+    };
+  },
+  function (module, exports, __webpack_require__) {
+    var add = __webpack_require__(0);
+    console.log(add(1, 2));
+  },
+]);
+`;
+
+const config = {
+  ...defaultConfig,
+  provider: { ...defaultConfig.provider, name: 'heuristic', model: 'rules' },
+  processing: { ...defaultConfig.processing, caching: { ...defaultConfig.processing.caching, enabled: false } },
+  output: { ...defaultConfig.output, generateSourceMaps: false, splitModules: true },
+} as ReScriptConfig;
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'bundle.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 0, complexityScore: 0, tokensCount: 0 },
+  },
+  config: defaultConfig as any,
+});
+
+describe('WebcrackTransformer modules', () => {
+  it('should keep unpacked modules only when asked to', async () => {
+    const kept = await new WebcrackTransformer({ keepModules: true }).execute(input(BUNDLE));
+    const dropped = await new WebcrackTransformer().execute(input(BUNDLE));
+
+    expect(kept.metadata.bundle).toMatchObject({
+      type: 'webpack',
+      entryId: '1',
+      modules: [
+        { id: '0', path: '0.js', isEntry: false },
+        { id: '1', path: 'index.js', isEntry: true },
+      ],
+    });
+    expect(kept.metadata.bundle!.modules[1]!.code).toContain('require("./0.js")');
+    expect(dropped.metadata.bundle).toBeUndefined();
+  });
+
+  it('should unpack bundles that are already readable', async () => {
+    const kept = await new WebcrackTransformer({ keepModules: true }).execute(input(READABLE_BUNDLE));
+    const dropped = await new WebcrackTransformer().execute(input(READABLE_BUNDLE));
+
+    expect(kept.code).toBe(READABLE_BUNDLE);
+    expect(kept.metadata.bundle!.modules.map(module => module.path)).toEqual(['0.js', 'index.js']);
+    expect(kept.warnings).toContain('Detected webpack bundle (2 modules)');
+    expect(dropped.metadata.bundle).toBeUndefined();
+    expect(dropped.warnings).toContain('Code appears already readable, webcrack step skipped');
+  });
+});
+
+describe('MainProcessor with splitModules', () => {
+  let dir: string | undefined;
+
+  afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = undefined;
+  });
+
+  it('should write each module and an index mapping ids to files', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-split-'));
+    const bundlePath = join(dir, 'bundle.js');
+    await writeFile(bundlePath, BUNDLE);
+
+    const result = await new MainProcessor(config).processFile(bundlePath, join(dir, 'out', 'bundle.js'));
+    const outDir = join(dir, 'out', 'bundle');
+
+    expect(result).toMatchObject({ success: true, outputPath: outDir });
+    expect(result.modules!.map(module => module.outputPath)).toEqual([join(outDir, '0.js'), join(outDir, 'index.js')]);
+    expect((await readdir(outDir)).sort()).toEqual(['0.js', 'index.js', 'index.json']);
+    expect(JSON.parse(await readFile(join(outDir, 'index.json'), 'utf8'))).toEqual({
+      type: 'webpack',
+      entryId: '1',
+      source: '../../bundle.js',
+      modules: { 0: '0.js', 1: 'index.js' },
+    });
+    expect(await readFile(join(outDir, 'index.js'), 'utf8')).toContain("require('./0.js')");
+  });
+
+  it('should name modules after their exports when asked to', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-split-'));
+    const bundlePath = join(dir, 'bundle.js');
+    await writeFile(bundlePath, BUNDLE.replace('e.exports=function(a,b){return a+b}', 't.formatDate=function(d){return d.toISOString()}')
+      .replace('console.log(r(1,2))', 'console.log(r.formatDate(new Date))'));
+
+    const named = { ...config, output: { ...config.output, moduleNames: 'inferred' } } as ReScriptConfig;
+    const result = await new MainProcessor(named).processFile(bundlePath, join(dir, 'out', 'bundle.js'));
+    const outDir = join(dir, 'out', 'bundle');
+
+    expect(result.modules!.map(module => module.outputPath)).toEqual([join(outDir, 'formatDate.js'), join(outDir, 'index.js')]);
+    expect(JSON.parse(await readFile(join(outDir, 'index.json'), 'utf8')).modules).toEqual({ 0: 'formatDate.js', 1: 'index.js' });
+    expect(await readFile(join(outDir, 'index.js'), 'utf8')).toContain("import { formatDate } from './formatDate.js';");
+  });
+
+  it('should split readable bundles', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-split-'));
+    const bundlePath = join(dir, 'bundle.js');
+    await writeFile(bundlePath, READABLE_BUNDLE);
+
+    const result = await new MainProcessor(config).processFile(bundlePath, join(dir, 'out', 'bundle.js'));
+
+    expect(result.modules!.map(module => module.outputPath)).toEqual([join(dir, 'out', 'bundle', '0.js'), join(dir, 'out', 'bundle', 'index.js')]);
+  });
+
+  it('should preview modules without writing in dry runs', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-split-'));
+    const bundlePath = join(dir, 'bundle.js');
+    await writeFile(bundlePath, BUNDLE);
+
+    const result = await new MainProcessor(config, { dryRun: true }).processFile(bundlePath);
+
+    expect(result.modules!.every(module => module.preview)).toBe(true);
+    expect(await readdir(dir)).toEqual(['bundle.js']);
+  });
+
+  it('should process inputs that are not bundles as a single file', async () => {
+    dir = await mkdtemp(join(tmpdir(), 're-script-split-'));
+    const filePath = join(dir, 'plain.js');
+    await writeFile(filePath, 'function add(a, b) {\n  return a + b;\n}\n');
+
+    const webcrack = vi.spyOn(WebcrackTransformer.prototype, 'execute');
+
+    const result = await new MainProcessor(config).processFile(filePath, join(dir, 'plain.out.js'));
+
+    expect(result).toMatchObject({ success: true, outputPath: join(dir, 'plain.out.js') });
+    expect(result.modules).toBeUndefined();
+    expect(webcrack).toHaveBeenCalledTimes(1);
+    webcrack.mockRestore();
+  });
+});
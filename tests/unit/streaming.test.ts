@@ -0,0 +1,233 @@
+/**
+ * Tests for streamed provider responses and live suggestion progress
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { IncrementalSuggestionParser, SuggestionStream } from '../../src/providers/streaming.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { OpenAICompatibleProvider } from '../../src/providers/openai-compatible.js';
+import { OllamaProvider } from '../../src/providers/ollama.js';
+import { LLMTransformer, LLMProgress } from '../../src/transformers/llm.js';
+import { LLMRequest, LLMResponse, ProcessingInput, RenameSuggestion } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+import { CacheManager } from '../../src/utils/cache.js';
+
+const SUGGESTIONS = [
+  { originalName: 'a', suggestedName: 'total', confidence: 0.9, type: 'variable' },
+  { originalName: 'b', suggestedName: 'count', confidence: 0.8, type: 'variable' },
+];
+const ARGUMENTS = JSON.stringify({ suggestions: SUGGESTIONS });
+
+/**
+ * Split text into pieces of a few characters, like token deltas
+ */
+const pieces = (text: string, size = 7): string[] =>
+  Array.from({ length: Math.ceil(text.length / size) }, (_, index) => text.slice(index * size, (index + 1) * size));
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 1));
+
+class StreamingProvider extends BaseLLMProvider {
+  public readonly name = 'streaming';
+  public readonly models = ['model-a'];
+  public readonly maxTokens = 4000;
+  public readonly supportsStreaming = true;
+  public readonly supportsFunctionCalling = true;
+  public calls = 0;
+  public attempts = 0;
+
+  constructor(private readonly output: string, private readonly stallAfter?: number, timeout = 5000) {
+    super({ ...defaultConfig.provider, model: 'model-a', apiKey: 'test', timeout });
+  }
+
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    this.calls++;
+    return this.streamSuggestions(request, async (sink: SuggestionStream) => {
+      this.attempts++;
+      sink.setUsage(30, 10);
+      for (const piece of pieces(this.output.slice(0, this.stallAfter))) {
+        sink.write(piece);
+        await tick();
+      }
+
+      if (this.stallAfter !== undefined) {
+        await new Promise(resolve => sink.signal.addEventListener('abort', resolve));
+        throw new Error('The operation was aborted');
+      }
+    });
+  }
+}
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'app.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 2, complexityScore: 0, tokensCount: 0 },
+  },
+  config: defaultConfig as any,
+});
+
+describe('IncrementalSuggestionParser', () => {
+  it('should emit each suggestion as soon as its object is complete', () => {
+    const text = 'Sure!\n```json\n{"suggestions": [{"originalName": "a", "suggestedName": "to}tal", "reasoning": "a \\"quoted\\" {brace", "meta": {"x": [1]}},\n'
+      + '{"originalName": "b", "suggestedName": "count"}]}\n```';
+    const parser = new IncrementalSuggestionParser();
+    const emitted: Array<{ at: number; item: any }> = [];
+
+    for (let index = 0; index < text.length; index++) {
+      parser.push(text[index]!).forEach(item => emitted.push({ at: index, item }));
+    }
+
+    expect(emitted.map(({ item }) => item.suggestedName)).toEqual(['to}tal', 'count']);
+    expect(emitted[0]!.item.reasoning).toBe('a "quoted" {brace');
+    expect(emitted[0]!.at).toBe(text.indexOf('}},') + 1);
+    expect(parser.text).toBe(text);
+  });
+
+  it('should read suggestions from a root array', () => {
+    const parser = new IncrementalSuggestionParser();
+    const emitted = pieces(JSON.stringify(SUGGESTIONS), 3).flatMap(piece => parser.push(piece));
+
+    expect(emitted).toEqual(SUGGESTIONS);
+  });
+});
+
+describe('Streaming through LLMTransformer', () => {
+  it('should report suggestions as they stream in', async () => {
+    const provider = new StreamingProvider(ARGUMENTS);
+    const progress: LLMProgress[] = [];
+    const llm = new LLMTransformer(provider, { onProgress: event => progress.push(event) });
+
+    const result = await llm.execute(input('var a = 1, b = 2;\nconsole.log(a + b);'));
+
+    expect(result.code).toContain('var total = 1,');
+    expect(result.metadata.statistics.tokensCount).toBe(40);
+    expect(progress).toEqual([
+      { suggestionsReceived: 1, chunksCompleted: 0, totalChunks: 1 },
+      { suggestionsReceived: 2, chunksCompleted: 0, totalChunks: 1 },
+      { suggestionsReceived: 2, chunksCompleted: 1, totalChunks: 1 },
+    ]);
+  });
+
+  it('should keep suggestions received before an idle timeout without caching them', async () => {
+    const provider = new StreamingProvider(ARGUMENTS, ARGUMENTS.indexOf('{"originalName":"b"'), 50);
+    const cache = new CacheManager({ ...defaultConfig.processing.caching, backend: 'memory' });
+    const code = 'var a = 1, b = 2;\nconsole.log(a + b);';
+
+    const first = await new LLMTransformer(provider, { cache }).execute(input(code));
+    await new LLMTransformer(provider, { cache }).execute(input(code));
+
+    expect(first.success).toBe(true);
+    expect(first.metadata.renames!.map(rename => rename.newName)).toEqual(['total']);
+    expect(first.warnings).toContain('Response was cut short; kept the 1 suggestions received');
+    expect(provider.calls).toBe(2);
+  });
+
+  it('should retry idle streams that produced no suggestions but not cancelled ones', async () => {
+    const provider = new StreamingProvider(ARGUMENTS, 0, 20);
+    (provider as any).sleep = async () => {};
+
+    await expect(provider.processCode({ code: 'var a;', model: 'model-a', onSuggestion: () => {} }))
+      .rejects.toThrow(/sent nothing for 20ms/);
+    expect(provider.attempts).toBe(3);
+
+    const cancelled = new StreamingProvider(ARGUMENTS, 0);
+    await expect(cancelled.processCode({ code: 'var a;', model: 'model-a', signal: AbortSignal.timeout(20) }))
+      .rejects.toThrow(/cancelled before any suggestion arrived/);
+    expect(cancelled.attempts).toBe(1);
+  });
+
+  it('should stop retrying as soon as the request is cancelled', async () => {
+    const provider = new StreamingProvider(ARGUMENTS, 0, 20);
+    const controller = new AbortController();
+    const started = Date.now();
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(provider.processCode({ code: 'var a;', model: 'model-a', signal: controller.signal }))
+      .rejects.toThrow(/cancelled before any suggestion arrived/);
+    expect(provider.attempts).toBe(1);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+});
+
+describe('Streaming providers', () => {
+  let server: Server;
+  let baseUrl: string;
+  let handler: (req: IncomingMessage, body: any, res: ServerResponse) => void;
+  let requests: any[];
+
+  beforeEach(async () => {
+    requests = [];
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const parsed = body ? JSON.parse(body) : undefined;
+        requests.push(parsed);
+        handler(req, parsed, res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should stream tool-call arguments from an OpenAI-compatible server', async () => {
+    handler = async (_req, _body, res) => {
+      res.writeHead(200, { 'content-type': 'text/event-stream' });
+      for (const piece of pieces(ARGUMENTS, 11)) {
+        res.write(`data: ${JSON.stringify({ choices: [{ delta: { tool_calls: [{ index: 0, function: { arguments: piece } }] } }] })}\n\n`);
+        await tick();
+      }
+      res.write(`data: ${JSON.stringify({ choices: [], usage: { prompt_tokens: 60, completion_tokens: 25 } })}\n\n`);
+      res.end('data: [DONE]\n\n');
+    };
+
+    const provider = new OpenAICompatibleProvider({ ...defaultConfig.provider, name: 'openai-compatible', model: 'local', baseUrl });
+    const received: Array<[string, number]> = [];
+    const response = await provider.processCode({
+      code: 'var a, b;',
+      model: 'local',
+      onSuggestion: (suggestion: RenameSuggestion, count: number) => received.push([suggestion.suggestedName, count]),
+    });
+
+    expect(received).toEqual([['total', 1], ['count', 2]]);
+    expect(response.suggestions.map(s => s.suggestedName)).toEqual(['total', 'count']);
+    expect(response.tokensUsed).toBe(85);
+    expect(response.partial).toBeUndefined();
+    expect(requests[0]).toMatchObject({ stream: true, stream_options: { include_usage: true } });
+  });
+
+  it('should keep suggestions from an Ollama stream that stalls', async () => {
+    const text = `Here are the renames:\n${JSON.stringify({ suggestions: SUGGESTIONS }, null, 2)}`;
+    const stallAt = text.indexOf('{\n      "originalName": "b"');
+
+    handler = async (req, _body, res) => {
+      if (req.url === '/api/tags') {
+        res.writeHead(200, { 'content-type': 'application/json' });
+        res.end(JSON.stringify({ models: [{ name: 'qwen2.5-coder:7b' }] }));
+        return;
+      }
+
+      res.writeHead(200, { 'content-type': 'application/x-ndjson' });
+      for (const piece of pieces(text.slice(0, stallAt), 5)) {
+        res.write(JSON.stringify({ model: 'qwen2.5-coder:7b', response: piece, done: false }) + '\n');
+        await tick();
+      }
+      // The model stops producing output; the connection stays open
+    };
+
+    const provider = new OllamaProvider({ ...defaultConfig.provider, name: 'ollama', model: 'qwen2.5-coder:7b', baseUrl, timeout: 100 });
+    const response = await provider.processCode({ code: 'var a, b;', model: 'qwen2.5-coder:7b', onSuggestion: () => {} });
+
+    expect(response.partial).toBe(true);
+    expect(response.suggestions).toEqual([expect.objectContaining({ originalName: 'a', suggestedName: 'total' })]);
+    expect(requests[1]).toMatchObject({ stream: true, prompt: expect.stringContaining('var a, b;') });
+  });
+});
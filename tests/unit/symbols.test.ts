@@ -0,0 +1,127 @@
+/**
+ * Tests for the bundle symbol table and cross-module export renames
+ */
+
+import { describe, it, expect } from 'vitest';
+import { SymbolTable, CrossModuleRenamer, ModuleSource } from '../../src/core/symbols.js';
+import { RenameRecord } from '../../src/types.js';
+
+const renamed = (originalName: string, newName: string): RenameRecord => ({
+  originalName, newName, line: 1, functionPath: '', confidence: 0.9, source: 'llm',
+});
+
+const module = (id: string, path: string, code: string, renames: RenameRecord[] = []): ModuleSource => ({
+  id, path, code, isEntry: path === 'index.js', renames,
+});
+
+const MATH = module('0', '0.js', [
+  'function add(e, t) {',
+  '  return e + t;',
+  '}',
+  'export { add as a };',
+  'export var b = 42;',
+].join('\n'), [renamed('a', 'add')]);
+
+describe('SymbolTable', () => {
+  it('should link ESM and CommonJS imports to the exports they use', () => {
+    const table = SymbolTable.build([
+      MATH,
+      module('1', 'lib/1.js', 'exports.c = function (e) {\n  return e * 2;\n};\n'),
+      module('2', 'index.js', [
+        'import * as r from "./0.js";',
+        'const o = require("./lib/1.js");',
+        'console.log(r.a(1, r.b), o.c(2), require("./0.js")["b"]);',
+      ].join('\n')),
+    ]);
+
+    expect(table.exportsOf('0')).toEqual(['a', 'b']);
+    expect(table.exportsOf('1')).toEqual(['c']);
+    expect(table.importersOf('0', 'b')).toEqual(['2']);
+    expect(table.importersOf('1', 'c')).toEqual(['2']);
+    expect(table.resolve('lib/1.js', '../0.js')).toBe('0');
+    expect(table.resolve('index.js', './lib/1')).toBe('1');
+  });
+
+  it('should pin modules whose exports are used in ways it cannot follow', () => {
+    const table = SymbolTable.build([
+      MATH,
+      module('1', '1.js', 'module.exports = { c: 1 };'),
+      module('2', 'index.js', 'import * as r from "./0.js";\nimport "./1.js";\nconsole.log(Object.keys(r));'),
+    ]);
+
+    expect(table.pinReason('0')).toBe('index.js uses its exports as a whole');
+    expect(table.pinReason('1')).toBe('it assigns or reads module.exports as a whole');
+    expect(table.pinReason('2')).toBeUndefined();
+  });
+});
+
+describe('CrossModuleRenamer', () => {
+  it('should rename an export and every ESM site importing it', () => {
+    const entry = module('2', 'index.js', [
+      'import * as r from "./0.js";',
+      'import { a } from "./0.js";',
+      'console.log(r.a(1, r.b), a(2, 3), { a });',
+    ].join('\n'));
+
+    const result = new CrossModuleRenamer().propagate([MATH, entry]);
+
+    expect(result.code.get('0')).toContain('export { add };');
+    expect(result.code.get('2')).toBe([
+      'import * as r from "./0.js";',
+      'import { add } from "./0.js";',
+      'console.log(r.add(1, r.b), add(2, 3), { a: add });',
+    ].join('\n'));
+    expect(result.renamed).toEqual([{ moduleId: '0', from: 'a', to: 'add', importers: ['2'] }]);
+    expect(result.conflicts).toEqual([]);
+  });
+
+  it('should rename CommonJS exports and their require sites', () => {
+    const lib = module('1', '1.js', [
+      'function twice(e) {',
+      '  return e * 2;',
+      '}',
+      'exports.a = twice;',
+      'exports.a(2);',
+    ].join('\n'), [renamed('a', 'twice')]);
+    const entry = module('2', 'index.js', [
+      'const o = require("./1.js");',
+      'const { a } = require("./1.js");',
+      'console.log(o.a(3), a(4), require("./1.js")["a"]);',
+    ].join('\n'));
+
+    const result = new CrossModuleRenamer().propagate([lib, entry]);
+
+    expect(result.code.get('1')).toContain('exports.twice = twice;\nexports.twice(2);');
+    expect(result.code.get('2')).toBe([
+      'const o = require("./1.js");',
+      'const { twice } = require("./1.js");',
+      'console.log(o.twice(3), twice(4), require("./1.js")["twice"]);',
+    ].join('\n'));
+  });
+
+  it('should keep the importer\'s binding when the new name is taken there', () => {
+    const entry = module('2', 'index.js', 'import { a } from "./0.js";\nconst add = 1;\nconsole.log(a(add, 2));');
+
+    const result = new CrossModuleRenamer().propagate([MATH, entry]);
+
+    expect(result.code.get('2')).toBe('import { add as a } from "./0.js";\nconst add = 1;\nconsole.log(a(add, 2));');
+  });
+
+  it('should report conflicts and leave pinned, clashing and entry exports alone', () => {
+    const clash = module('1', '1.js', 'function sum(e) {\n  return e;\n}\nexport { sum as s };\nexport var sum2 = 1;\nexport { sum2 as sum };', [
+      renamed('s', 'sum'),
+    ]);
+    const entry = module('2', 'index.js', 'import * as r from "./0.js";\nfunction run(n) {}\nexport { run as x };\nrun(r);', [
+      renamed('x', 'run'),
+    ]);
+
+    const result = new CrossModuleRenamer().propagate([MATH, clash, entry]);
+
+    expect(result.renamed).toEqual([]);
+    expect(result.conflicts).toEqual([
+      { moduleId: '0', name: 'a', requestedName: 'add', reason: 'index.js uses its exports as a whole' },
+      { moduleId: '1', name: 's', requestedName: 'sum', reason: "'sum' is already exported by 1.js" },
+    ]);
+    [MATH, clash, entry].forEach(source => expect(result.code.get(source.id)).toBe(source.code));
+  });
+});
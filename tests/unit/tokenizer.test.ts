@@ -0,0 +1,145 @@
+/**
+ * Tests for token counting, context budgets and token-sized chunks
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getTokenizer } from '../../src/utils/tokenizer.js';
+import { CodeChunker } from '../../src/transformers/chunking.js';
+import { BaseLLMProvider } from '../../src/providers/base.js';
+import { AnthropicProvider } from '../../src/providers/anthropic.js';
+import { LLMTransformer } from '../../src/transformers/llm.js';
+import { LLMRequest, LLMResponse, ProcessingInput } from '../../src/types.js';
+import { defaultConfig } from '../../src/config/schema.js';
+
+const functions = (count: number): string =>
+  Array.from({ length: count }, (_, index) => `function f${index}(a, b) {\n  return a * ${index} + b;\n}`).join('\n');
+
+class UsageProvider extends BaseLLMProvider {
+  public readonly name = 'usage';
+  public readonly models = ['model-a'];
+  public readonly maxTokens: number;
+  public readonly supportsStreaming = false;
+  public readonly supportsFunctionCalling = false;
+  public readonly requests: LLMRequest[] = [];
+
+  constructor(contextWindow = 4000) {
+    super({ ...defaultConfig.provider, model: 'model-a', apiKey: 'test' });
+    this.maxTokens = contextWindow;
+  }
+
+  async processCode(request: LLMRequest): Promise<LLMResponse> {
+    this.requests.push(request);
+    return {
+      suggestions: [{ originalName: 'a', suggestedName: 'value', confidence: 0.9, type: 'variable' }],
+      confidence: 0.9,
+      tokensUsed: 140,
+      promptTokens: 120,
+      completionTokens: 20,
+      processingTime: 1,
+    };
+  }
+}
+
+const input = (code: string): ProcessingInput => ({
+  code,
+  metadata: {
+    fileName: 'app.js',
+    fileSize: code.length,
+    statistics: { linesOfCode: 1, functionsCount: 0, variablesCount: 0, complexityScore: 0, tokensCount: 0 },
+  },
+  config: defaultConfig as any,
+});
+
+describe('getTokenizer', () => {
+  it('should count OpenAI models exactly with their own encoding', () => {
+    const gpt4o = getTokenizer('openai', 'gpt-4o');
+    const gpt4 = getTokenizer('openai', 'gpt-4-turbo');
+
+    expect(gpt4o).toMatchObject({ encoding: 'o200k_base', exact: true });
+    expect(gpt4).toMatchObject({ encoding: 'cl100k_base', exact: true });
+    expect(gpt4.count('hello world')).toBe(2);
+    expect(gpt4.count('')).toBe(0);
+  });
+
+  it('should pad estimates for models without a public tokenizer', () => {
+    const exact = getTokenizer('openai', 'gpt-4').count(functions(20));
+    const claude = getTokenizer('anthropic', 'claude-3-5-sonnet-20241022');
+
+    expect(claude.exact).toBe(false);
+    expect(claude.count(functions(20))).toBe(Math.ceil(exact * 1.15));
+    expect(getTokenizer('ollama', 'qwen2.5-coder:7b').count(functions(20))).toBe(Math.ceil(exact * 1.25));
+  });
+});
+
+describe('Token budget', () => {
+  it('should reserve the prompt, tool schema and response out of the context window', () => {
+    const provider = new AnthropicProvider({ ...defaultConfig.provider, apiKey: 'test', maxTokens: 4096 });
+    const budget = provider.getTokenBudget();
+    const promptOnly = provider.getTokenizer().count(`${(provider as any).createSystemPrompt()}\n\n${(provider as any).createUserPrompt('')}`);
+
+    expect(budget.contextWindow).toBe(200000);
+    expect(budget.responseTokens).toBe(4096);
+    // The tool schema is sent with every request
+    expect(budget.promptTokens).toBeGreaterThan(promptOnly);
+    expect(budget.codeTokens).toBe(budget.contextWindow - budget.promptTokens - budget.responseTokens);
+    expect(provider.getTokenBudget(['config', 'handler']).promptTokens).toBeGreaterThan(budget.promptTokens);
+  });
+
+  it('should never reserve more than half a small window for the response', () => {
+    const budget = new UsageProvider(4000).getTokenBudget();
+
+    expect(budget.responseTokens).toBe(2000);
+    expect(budget.codeTokens).toBeGreaterThan(0);
+  });
+});
+
+describe('Token-sized chunks', () => {
+  it('should keep every chunk within the token limit', () => {
+    const tokenizer = getTokenizer('openai', 'gpt-4o');
+    const code = functions(60);
+
+    for (const strategy of ['simple', 'ast-aware', 'semantic'] as const) {
+      const { chunks } = new CodeChunker({ strategy, maxChunkTokens: 200, overlapPercentage: 0 }, tokenizer).split(code);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      chunks.forEach(chunk => expect(tokenizer.count(chunk.code)).toBeLessThanOrEqual(200));
+    }
+  });
+
+  it('should measure characters when asked to', () => {
+    const chunker = new CodeChunker({ sizeUnit: 'chars', maxChunkSize: 200 }, getTokenizer('openai', 'gpt-4o'));
+
+    expect(chunker.sizeUnit).toBe('chars');
+    chunker.split(functions(20)).chunks.forEach(chunk => expect(chunk.code.length).toBeLessThanOrEqual(200));
+  });
+});
+
+describe('LLMTransformer token budgeting', () => {
+  it('should chunk by the tokens the context window leaves for code', async () => {
+    const provider = new UsageProvider(1200);
+    const { codeTokens } = provider.getTokenBudget();
+    const code = functions(80);
+
+    const result = await new LLMTransformer(provider, { chunkingStrategy: 'simple', overlapRatio: 0 }).execute(input(code));
+
+    expect(result.success).toBe(true);
+    expect(provider.requests.length).toBeGreaterThan(1);
+    provider.requests.forEach(request => expect(provider.getTokenizer().count(request.code)).toBeLessThanOrEqual(codeTokens));
+    expect(result.metadata.statistics).toMatchObject({
+      tokensCount: 140 * provider.requests.length,
+      promptTokens: 120 * provider.requests.length,
+      completionTokens: 20 * provider.requests.length,
+    });
+  });
+
+  it('should send code that fits the token limit as a single request', async () => {
+    const provider = new UsageProvider(200000);
+    const code = functions(30);
+
+    const result = await new LLMTransformer(provider).execute(input(code));
+
+    expect(code.length).toBeGreaterThan(1000);
+    expect(provider.requests).toHaveLength(1);
+    expect(result.metadata.statistics).toMatchObject({ tokensCount: 140, promptTokens: 120, completionTokens: 20 });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Tests for the debounced input watcher used by watch mode
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InputWatcher } from '../../src/core/watcher.js';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdir, mkdtemp, realpath, rm, writeFile } from 'fs/promises';
+
+const platform = vi.hoisted(() => ({ recursiveWatch: true }));
+
+// Linux before Node 20 rejects recursive watches
+vi.mock('fs', async importOriginal => {
+  const fs = await importOriginal<typeof import('fs')>();
+  const watch = ((path: string, options: { recursive?: boolean }, listener: () => void) => {
+    if (options?.recursive && !platform.recursiveWatch) {
+      throw Object.assign(new TypeError('The feature watch recursively is unavailable on the current platform'), {
+        code: 'ERR_FEATURE_UNAVAILABLE_ON_PLATFORM',
+      });
+    }
+    return fs.watch(path, options, listener);
+  }) as typeof fs.watch;
+  return { ...fs, watch };
+});
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('InputWatcher', () => {
+  let baseDir: string;
+  let watcher: InputWatcher | undefined;
+  let batches: string[][];
+
+  beforeEach(async () => {
+    baseDir = await realpath(await mkdtemp(join(tmpdir(), 'rescript-watcher-')));
+    batches = [];
+  });
+
+  afterEach(async () => {
+    await watcher?.close();
+    watcher = undefined;
+    platform.recursiveWatch = true;
+    await rm(baseDir, { recursive: true, force: true });
+  });
+
+  const record = async (paths: string[]) => {
+    batches.push([...paths].sort());
+  };
+
+  it('should batch changes made within the debounce window', async () => {
+    watcher = new InputWatcher([baseDir], record, { debounceMs: 100 });
+    await watcher.start();
+
+    await writeFile(join(baseDir, 'a.js'), 'var a;');
+    await writeFile(join(baseDir, 'b.js'), 'var b;');
+    await wait(500);
+
+    expect(batches).toEqual([[join(baseDir, 'a.js'), join(baseDir, 'b.js')]]);
+  });
+
+  it('should drop ignored paths', async () => {
+    const output = join(baseDir, 'a.deobfuscated.js');
+    watcher = new InputWatcher([baseDir], record, { debounceMs: 50, ignore: path => path === output });
+    await watcher.start();
+
+    await writeFile(output, 'var a;');
+    await wait(300);
+    expect(batches).toEqual([]);
+
+    await writeFile(join(baseDir, 'a.js'), 'var a;');
+    await wait(300);
+    expect(batches).toEqual([[join(baseDir, 'a.js')]]);
+  });
+
+  it('should only report the watched file when given a file', async () => {
+    const input = join(baseDir, 'app.js');
+    await writeFile(input, 'var a;');
+    watcher = new InputWatcher([input], record, { debounceMs: 50 });
+    await watcher.start();
+
+    await writeFile(join(baseDir, 'other.js'), 'var b;');
+    await writeFile(input, 'var c;');
+    await wait(300);
+
+    expect(batches).toEqual([[input]]);
+  });
+
+  it('should queue changes made while a batch is running', async () => {
+    let release!: () => void;
+    const blocked = new Promise<void>(resolve => { release = resolve; });
+    watcher = new InputWatcher([baseDir], async paths => {
+      batches.push([...paths]);
+      if (batches.length === 1) await blocked;
+    }, { debounceMs: 50 });
+    await watcher.start();
+
+    await writeFile(join(baseDir, 'a.js'), 'var a;');
+    await wait(200);
+    await writeFile(join(baseDir, 'b.js'), 'var b;');
+    await wait(200);
+    expect(batches).toHaveLength(1);
+
+    release();
+    await wait(200);
+    expect(batches).toEqual([[join(baseDir, 'a.js')], [join(baseDir, 'b.js')]]);
+  });
+
+  it('should watch each subdirectory where recursive watching is unavailable', async () => {
+    platform.recursiveWatch = false;
+    await mkdir(join(baseDir, 'lib'));
+    watcher = new InputWatcher([baseDir], record, { debounceMs: 50 });
+    await watcher.start();
+
+    await writeFile(join(baseDir, 'lib', 'a.js'), 'var a;');
+    await wait(300);
+    await mkdir(join(baseDir, 'lib', 'new'));
+    await writeFile(join(baseDir, 'lib', 'new', 'b.js'), 'var b;');
+    await wait(300);
+
+    expect(batches.flat()).toContain(join(baseDir, 'lib', 'a.js'));
+    expect(batches.flat()).toContain(join(baseDir, 'lib', 'new', 'b.js'));
+  });
+
+  it('should stop reporting after close', async () => {
+    watcher = new InputWatcher([baseDir], record, { debounceMs: 50 });
+    await watcher.start();
+    await watcher.close();
+
+    await writeFile(join(baseDir, 'a.js'), 'var a;');
+    await wait(200);
+
+    expect(batches).toEqual([]);
+  });
+});